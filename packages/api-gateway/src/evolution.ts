@@ -0,0 +1,254 @@
+/**
+ * PromptDial 3.0 - Variant Evolution
+ *
+ * The pieces of iterative optimization that do not call services: option
+ * defaults and validation, the rewriter's mutation and crossover instructions,
+ * turning its output into new variants, and when to stop
+ */
+
+import {
+  EvolutionOptions,
+  EvolutionSummary,
+  PromptVariant,
+  TaskClassification,
+  estimateTokens,
+} from '@promptdial/shared'
+
+export type ResolvedEvolutionOptions = Required<Omit<EvolutionOptions, 'budget_usd'>> &
+  Pick<EvolutionOptions, 'budget_usd'>
+
+export type EvolutionOperator = 'mutation' | 'crossover'
+
+export interface Offspring {
+  operator: EvolutionOperator
+  parents: PromptVariant[]
+}
+
+export const EVOLUTION_DEFAULTS: ResolvedEvolutionOptions = {
+  generations: 3,
+  population_size: 4,
+  plateau_generations: 2,
+  min_improvement: 0.01,
+}
+
+const LIMITS: Record<string, { min: number; max: number; integer: boolean }> = {
+  generations: { min: 1, max: 10, integer: true },
+  population_size: { min: 1, max: 12, integer: true },
+  budget_usd: { min: Number.MIN_VALUE, max: Infinity, integer: false },
+  plateau_generations: { min: 1, max: 10, integer: true },
+  min_improvement: { min: 0, max: 1, integer: false },
+}
+
+export const REWRITER_TECHNIQUE = 'evolution_rewriter'
+
+// Rewrites should explore, so the rewriter samples hotter than the variants it rewrites
+const REWRITER_TEMPERATURE = 0.9
+
+// ============= Options =============
+
+/**
+ * Why evolution options cannot be used, or null if they are valid
+ */
+export function validateEvolutionOptions(options: unknown): string | null {
+  if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+    return 'evolution must be an object'
+  }
+
+  return (
+    Object.entries(options)
+      .map(([key, value]) => validateOption(key, value))
+      .find(Boolean) || null
+  )
+}
+
+function validateOption(key: string, value: unknown): string | null {
+  const limit = LIMITS[key]
+  if (!limit) {
+    return `Unknown evolution option: ${key} (expected one of ${Object.keys(LIMITS).join(', ')})`
+  }
+  return isWithin(value, limit) ? null : `evolution.${key} must be ${describeLimit(limit)}`
+}
+
+export function resolveEvolutionOptions(options: EvolutionOptions = {}): ResolvedEvolutionOptions {
+  return { ...EVOLUTION_DEFAULTS, ...options }
+}
+
+function isWithin(value: unknown, limit: { min: number; max: number; integer: boolean }): boolean {
+  return (
+    typeof value === 'number' &&
+    value >= limit.min &&
+    value <= limit.max &&
+    (!limit.integer || Number.isInteger(value))
+  )
+}
+
+function describeLimit(limit: { min: number; max: number; integer: boolean }): string {
+  if (limit.max === Infinity) {
+    return 'a positive number'
+  }
+  return `${limit.integer ? 'an integer' : 'a number'} from ${limit.min} to ${limit.max}`
+}
+
+// ============= Breeding =============
+
+/**
+ * Which parents to breed, best first: crossovers of neighbouring parents
+ * alternate with mutations, and a lone parent is only ever mutated
+ */
+export function planOffspring(parents: PromptVariant[], count: number): Offspring[] {
+  return Array.from({ length: parents.length > 0 ? count : 0 }, (_, i) => {
+    const first = parents[i % parents.length]
+    if (i % 2 === 1 && parents.length > 1) {
+      return { operator: 'crossover', parents: [first, parents[(i + 1) % parents.length]] }
+    }
+    return { operator: 'mutation', parents: [first] }
+  })
+}
+
+/**
+ * What the rewriter is asked to do for one offspring
+ */
+export function rewriteInstruction(offspring: Offspring, taskMeta: TaskClassification): string {
+  const task = `The prompt is for a ${taskMeta.task_type.replace(/_/g, ' ')} task in the ${taskMeta.domain} domain.`
+
+  if (offspring.operator === 'crossover') {
+    const [a, b] = offspring.parents
+    return `You are improving prompts for a language model. ${task}
+Write one new prompt that combines the strongest instructions, structure and constraints of the two prompts below.
+Keep the task and any placeholders unchanged. Return only the new prompt.
+
+PROMPT A:
+<<<
+${a.prompt}
+>>>
+
+PROMPT B:
+<<<
+${b.prompt}
+>>>`
+  }
+
+  return `You are improving prompts for a language model. ${task}
+Rewrite the prompt below so that it gets better answers: clarify the instructions, tighten the wording or restructure it.
+Keep the task and any placeholders unchanged. Return only the rewritten prompt.
+
+PROMPT:
+<<<
+${offspring.parents[0].prompt}
+>>>`
+}
+
+/**
+ * The variant that runs a rewrite instruction through the LLM runner
+ */
+export function rewriterVariant(
+  instruction: string,
+  offspring: Offspring,
+  id: string,
+): PromptVariant {
+  const [parent] = offspring.parents
+  return {
+    id,
+    technique: REWRITER_TECHNIQUE,
+    prompt: instruction,
+    temperature: REWRITER_TEMPERATURE,
+    est_tokens: estimateTokens(instruction),
+    cost_usd: offspring.parents.reduce((sum, p) => sum + p.cost_usd, 0),
+    model: parent.model,
+  }
+}
+
+/**
+ * The prompt in the rewriter's output, or null if it returned nothing new
+ */
+export function parseRewrite(output: string, offspring: Offspring): string | null {
+  const prompt = output
+    .trim()
+    .replace(/^```[a-z]*\n([\s\S]*?)\n```$/i, '$1')
+    .replace(/^<<<\s*([\s\S]*?)\s*>>>$/, '$1')
+    .replace(/^(?:new |rewritten )?prompt:\s*/i, '')
+    .trim()
+
+  const unchanged = offspring.parents.some((parent) => parent.prompt.trim() === prompt)
+  return prompt && !unchanged ? prompt : null
+}
+
+/**
+ * A new variant carrying the rewritten prompt. Multi-stage programs, tool
+ * loops and tree searches are not inherited, since the rewrite replaces only
+ * the prompt they were built around.
+ */
+export function childVariant(
+  offspring: Offspring,
+  prompt: string,
+  id: string,
+  generation: number,
+): PromptVariant {
+  const [parent] = offspring.parents
+  const est_tokens = estimateTokens(prompt)
+  return {
+    id,
+    technique: parent.technique,
+    prompt,
+    temperature: parent.temperature,
+    est_tokens,
+    cost_usd:
+      parent.est_tokens > 0 ? (parent.cost_usd * est_tokens) / parent.est_tokens : parent.cost_usd,
+    model: parent.model,
+    model_params: parent.model_params,
+    metadata: {
+      ...parent.metadata,
+      evolution: {
+        generation,
+        operator: offspring.operator,
+        parents: offspring.parents.map((p) => p.id),
+      },
+    },
+  }
+}
+
+/**
+ * Frontier variants to breed from, highest quality first
+ */
+export function rankParents(
+  frontier: Array<{ variant?: PromptVariant; objectives: { quality: number } }>,
+): PromptVariant[] {
+  return [...frontier]
+    .sort((a, b) => b.objectives.quality - a.objectives.quality)
+    .flatMap((solution) => (solution.variant ? [solution.variant] : []))
+}
+
+export function estimateSpend(variants: PromptVariant[]): number {
+  return variants.reduce((sum, variant) => sum + variant.cost_usd, 0)
+}
+
+// ============= Stopping =============
+
+/**
+ * Why evolution should stop before the next generation, or null to go on
+ */
+export function stopReason(
+  summary: EvolutionSummary,
+  options: ResolvedEvolutionOptions,
+): EvolutionSummary['stop_reason'] | null {
+  if (summary.generations >= options.generations) {
+    return 'generations'
+  }
+  if (options.budget_usd !== undefined && summary.spent_usd >= options.budget_usd) {
+    return 'budget'
+  }
+  return hasPlateaued(summary.best_scores, options) ? 'plateau' : null
+}
+
+/**
+ * Whether the best score has gained less than min_improvement over the last
+ * plateau_generations generations
+ */
+export function hasPlateaued(bestScores: number[], options: ResolvedEvolutionOptions): boolean {
+  const window = options.plateau_generations
+  if (bestScores.length <= window) {
+    return false
+  }
+  const before = bestScores[bestScores.length - window - 1]
+  return bestScores[bestScores.length - 1] - before < options.min_improvement
+}
@@ -17,11 +17,13 @@ import {
   getTelemetryService,
   ERROR_CODES,
   DEFAULTS,
+  validateRubric,
 } from '@promptdial/shared'
 
 import { SERVICES, ServiceConfig } from './services'
 import { HealthChecker } from './health'
 import { RequestOrchestrator } from './orchestrator'
+import { validateEvolutionOptions } from './evolution'
 import { flowGuardMiddleware } from './flow-guard'
 import { canary } from './synthetic-canary'
 
@@ -94,6 +96,81 @@ const orchestrator = new RequestOrchestrator(SERVICES)
 
 // ============= API Routes =============
 
+/**
+ * The error to answer an invalid /api/optimize body with, or null if it is valid
+ */
+function validateOptimizeRequest(
+  prompt: unknown,
+  options: { evolution?: unknown; tests?: unknown; pass_k?: unknown; rubric?: unknown },
+): { error: string; code: string } | null {
+  if (!prompt || typeof prompt !== 'string') {
+    return { error: 'Invalid request: prompt is required', code: ERROR_CODES.INVALID_PROMPT }
+  }
+
+  const invalid = [
+    options.evolution === undefined ? null : validateEvolutionOptions(options.evolution),
+    validateCodeTests(options.tests, options.pass_k),
+    validateRubricOption(options.rubric),
+  ].find(Boolean)
+  return invalid
+    ? { error: `Invalid request: ${invalid}`, code: ERROR_CODES.INVALID_PARAMETERS }
+    : null
+}
+
+/**
+ * Why the test cases for generated code cannot be run, or null if they can
+ */
+function validateCodeTests(tests: unknown, passK: unknown): string | null {
+  if (passK !== undefined && !isPositiveInteger(passK)) {
+    return 'pass_k must be a positive integer'
+  }
+  if (tests === undefined) {
+    return null
+  }
+  if (!Array.isArray(tests)) {
+    return 'tests must be an array'
+  }
+  const invalid = tests.findIndex((test) => !isCodeTest(test))
+  return invalid === -1
+    ? null
+    : `tests[${invalid}] must be an object with a string call or expected_output`
+}
+
+/**
+ * Why the G-EVAL rubric option is unusable, or null if it may be; named
+ * rubrics are resolved by the evaluator
+ */
+function validateRubricOption(rubric: unknown): string | null {
+  if (rubric === undefined || (typeof rubric === 'string' && rubric.length > 0)) {
+    return null
+  }
+  return isRecord(rubric)
+    ? validateRubric(rubric)
+    : 'rubric must be a registered rubric name or a rubric object'
+}
+
+// Parameters a service rejected are the client's fault; anything else is ours
+function errorStatus(code: string): number {
+  return code === ERROR_CODES.INVALID_PARAMETERS ? 400 : 500
+}
+
+function isRecord(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isPositiveInteger(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) > 0
+}
+
+function isCodeTest(test: unknown): boolean {
+  if (typeof test !== 'object' || test === null) {
+    return false
+  }
+  const { call, expected_output } = test as { call?: unknown; expected_output?: unknown }
+  const given = [call, expected_output].filter((value) => value !== undefined)
+  return given.length > 0 && given.every((value) => typeof value === 'string')
+}
+
 /**
  * Main optimization endpoint
  */
@@ -105,11 +182,9 @@ app.post('/api/optimize', async (req, res) => {
     // Validate request
     const { prompt, options = {} } = req.body
 
-    if (!prompt || typeof prompt !== 'string') {
-      return res.status(400).json({
-        error: 'Invalid request: prompt is required',
-        code: ERROR_CODES.INVALID_PROMPT,
-      })
+    const invalid = validateOptimizeRequest(prompt, options)
+    if (invalid) {
+      return res.status(400).json(invalid)
     }
 
     // Build optimization request
@@ -127,8 +202,12 @@ app.post('/api/optimize', async (req, res) => {
         examples: options.examples,
         reference_output: options.reference_output,
         style_guide: options.style_guide,
+        tests: options.tests,
+        pass_k: options.pass_k,
+        rubric: options.rubric,
       },
       preferences: options.preferences,
+      evolution: options.evolution,
     }
 
     // Orchestrate the optimization
@@ -162,7 +241,7 @@ app.post('/api/optimize', async (req, res) => {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error'
     const errorCode = (error as any).code || ERROR_CODES.INTERNAL_ERROR
 
-    res.status(500).json({
+    res.status(errorStatus(errorCode)).json({
       success: false,
       trace_id: traceId,
       error: errorMessage,
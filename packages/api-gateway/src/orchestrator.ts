@@ -7,19 +7,89 @@
 import axios, { AxiosError } from 'axios'
 import {
   OptimizationRequest,
+  OptimizationContext,
   OptimizationResponse,
   PromptVariant,
   TaskClassification,
   EvaluationResult,
+  EvolutionSummary,
+  FewShotExample,
+  VariantTranscript,
+  ServiceResponse,
   createLogger,
   getTelemetryService,
   ERROR_CODES,
   formatPromptVariant,
+  getLLMRunnerUrl,
 } from '@promptdial/shared'
 import { ServiceConfig } from './services'
+import {
+  Offspring,
+  ResolvedEvolutionOptions,
+  childVariant,
+  estimateSpend,
+  parseRewrite,
+  planOffspring,
+  rankParents,
+  resolveEvolutionOptions,
+  rewriteInstruction,
+  rewriterVariant,
+  stopReason,
+} from './evolution'
 
 const logger = createLogger('orchestrator')
 
+// Few-shot examples requested from the example bank for each prompt
+const EXAMPLES_PER_REQUEST = 3
+
+interface VariantExecution {
+  variant: PromptVariant
+  response: string
+  transcript?: VariantTranscript // Present when the variant ran as a multi-stage program
+}
+
+// The parts of the LLM Runner's response the orchestrator reads
+interface LLMRunnerResponse {
+  content: string
+  error?: string // Set when the provider call failed
+  transcript?: VariantTranscript
+}
+
+interface EvaluatedExecution extends VariantExecution {
+  evaluation: EvaluationResult
+}
+
+// The parts of the optimizer's result the orchestrator reads
+interface OptimizerSolution {
+  variant?: PromptVariant
+  objectives: { quality: number; [objective: string]: number }
+}
+
+interface OptimizerResult {
+  pareto_frontier: OptimizerSolution[]
+  recommended: OptimizerSolution
+  alternatives: OptimizerSolution[]
+}
+
+interface EvolutionState {
+  population: EvaluatedExecution[] // Every variant run so far
+  optimization: OptimizerResult // The optimizer's latest result over the population
+  summary?: EvolutionSummary
+}
+
+/**
+ * A service rejected the request's parameters, so retrying or falling back
+ * would not help; the gateway answers it with 400
+ */
+export class InvalidParametersError extends Error {
+  code = ERROR_CODES.INVALID_PARAMETERS
+
+  constructor(message: string) {
+    super(message)
+    this.name = 'InvalidParametersError'
+  }
+}
+
 export class RequestOrchestrator {
   private services: Record<string, ServiceConfig>
 
@@ -88,23 +158,9 @@ export class RequestOrchestrator {
         suggestedTechniques = ['chain_of_thought']
       }
 
-      // Step 4: Retrieve relevant examples (if retrieval is enabled)
-      logger.info('Step 4: Retrieval (if applicable)', { traceId })
-      let retrievedExamples: any[] = []
-
-      if (request.context?.examples || taskMeta.complexity > 0.7) {
-        try {
-          const retrievalResult = await this.callService('retrieval', '/search', {
-            query: sanitizedPrompt,
-            task_type: taskMeta.task_type,
-            top_k: 5,
-            trace_id: traceId,
-          })
-          retrievedExamples = retrievalResult.data.documents || []
-        } catch (error) {
-          logger.warn('Retrieval failed, continuing without examples', { error })
-        }
-      }
+      // Step 4: Select few-shot examples for this prompt from the example bank
+      logger.info('Step 4: Example selection', { traceId })
+      const retrievedExamples = await this.selectExamples(sanitizedPrompt, taskMeta, traceId)
 
       // Step 5: Generate variants using techniques
       logger.info('Step 5: Variant generation', { traceId })
@@ -118,8 +174,16 @@ export class RequestOrchestrator {
       })
 
       const variants: PromptVariant[] = techniqueResult.data.variants
+      const unavailableTechniques: string[] = techniqueResult.data.unavailable_techniques || []
       logger.info(`Generated ${variants.length} variants`, { traceId })
 
+      if (unavailableTechniques.length > 0) {
+        logger.warn('Technique engine could not apply suggested techniques', {
+          traceId,
+          unavailable: unavailableTechniques,
+        })
+      }
+
       // Step 6: Run variants through LLM (sample responses)
       logger.info('Step 6: LLM execution', { traceId })
       const variantResponses = await this.executeVariants(variants, traceId)
@@ -129,24 +193,24 @@ export class RequestOrchestrator {
       const evaluations = await this.evaluateVariants(
         variantResponses,
         taskMeta,
-        request.context?.reference_output,
+        request.context,
         traceId,
       )
 
       // Step 8: Optimize selection
       logger.info('Step 8: Optimization', { traceId })
-      const optimizationResult = await this.callService('optimizer', '/optimize', {
-        variants: variantResponses.map((vr, i) => ({
-          variant: vr.variant,
-          evaluation: evaluations[i],
-        })),
-        preferences: request.preferences,
-        constraints: request.constraints,
-        selection_mode: 'balanced',
-        trace_id: traceId,
-      })
+      const population = variantResponses.map((vr, i) => ({ ...vr, evaluation: evaluations[i] }))
+      const firstPass: EvolutionState = {
+        population,
+        optimization: await this.selectVariants(population, request, traceId),
+      }
 
-      const optimization = optimizationResult.data
+      // Step 8b: Evolve the frontier, when the request asks for iterative optimization
+      const {
+        population: evaluated,
+        optimization,
+        summary: evolution,
+      } = await this.evolve(firstPass, taskMeta, request, traceId)
 
       // Step 9: Final safety check on recommended variant
       logger.info('Step 9: Final safety check', { traceId })
@@ -200,14 +264,16 @@ export class RequestOrchestrator {
         task_classification: taskMeta,
         variants: formattedVariants,
         recommended_variant: recommendedVariant,
-        evaluation_results: evaluations,
+        evaluation_results: evaluated.map((execution) => execution.evaluation),
         optimization_metadata: {
-          total_variants_generated: variants.length,
+          total_variants_generated: evaluated.length,
           pareto_frontier_size: optimization.pareto_frontier.length,
           techniques_used: [...new Set(variants.map((v) => v.technique))],
           suggested_techniques: suggestedTechniques,
+          unavailable_techniques: unavailableTechniques,
           strategy_confidence: strategyConfidence,
           safety_modifications: sanitizedPrompt !== request.prompt,
+          evolution,
         },
       }
 
@@ -265,15 +331,182 @@ export class RequestOrchestrator {
         return this.callService(serviceName, endpoint, data, currentRetries - 1)
       }
 
-      throw new Error(`Service ${serviceName} failed: ${axiosError.message}`)
+      throw serviceFailure(serviceName, axiosError)
     }
   }
 
+  private async selectVariants(
+    population: EvaluatedExecution[],
+    request: OptimizationRequest,
+    traceId: string,
+  ): Promise<OptimizerResult> {
+    const optimizationResult = await this.callService('optimizer', '/optimize', {
+      variants: population.map(({ variant, evaluation }) => ({ variant, evaluation })),
+      preferences: request.preferences,
+      constraints: request.constraints,
+      selection_mode: 'balanced',
+      trace_id: traceId,
+    })
+
+    return optimizationResult.data
+  }
+
+  /**
+   * Breed variants from the Pareto frontier with the LLM rewriter, run and
+   * evaluate them, and optimize over the whole population again, until the
+   * generation limit, the budget or a plateau in the best score. Without
+   * evolution options the first pass is returned as it is.
+   */
+  private async evolve(
+    firstPass: EvolutionState,
+    taskMeta: TaskClassification,
+    request: OptimizationRequest,
+    traceId: string,
+  ): Promise<EvolutionState> {
+    if (!request.evolution) {
+      return firstPass
+    }
+
+    const options = resolveEvolutionOptions(request.evolution)
+    const summary: EvolutionSummary = {
+      generations: 0,
+      stop_reason: 'generations',
+      best_scores: [bestScore(firstPass.population)],
+      variants_bred: 0,
+      spent_usd: estimateSpend(firstPass.population.map(({ variant }) => variant)),
+    }
+
+    let state = firstPass
+    let reason = stopReason(summary, options)
+    while (!reason) {
+      state = await this.runGeneration(state, summary, options, taskMeta, request, traceId)
+      reason = stopReason(summary, options)
+    }
+    summary.stop_reason = reason
+
+    const telemetry = getTelemetryService()
+    telemetry.recordMetric('evolution_generations', summary.generations)
+    telemetry.recordMetric('evolution_variants_bred', summary.variants_bred)
+    telemetry.recordMetric(
+      'evolution_best_score',
+      summary.best_scores[summary.best_scores.length - 1],
+    )
+    logger.info('Evolution complete', { traceId, ...summary })
+
+    return { ...state, summary }
+  }
+
+  /**
+   * One generation: breed, run, evaluate and re-optimize, updating the summary
+   */
+  private async runGeneration(
+    state: EvolutionState,
+    summary: EvolutionSummary,
+    options: ResolvedEvolutionOptions,
+    taskMeta: TaskClassification,
+    request: OptimizationRequest,
+    traceId: string,
+  ): Promise<EvolutionState> {
+    const generation = summary.generations + 1
+    const parents = rankParents(state.optimization.pareto_frontier)
+    const plan = planOffspring(parents, options.population_size)
+    const { children, rewriteCost } = await this.breed(plan, generation, taskMeta, traceId)
+
+    const executions = await this.executeVariants(children, traceId)
+    const evaluations = await this.evaluateVariants(
+      executions,
+      taskMeta,
+      request.context,
+      traceId,
+    )
+    const population = [
+      ...state.population,
+      ...executions.map((execution, i) => ({ ...execution, evaluation: evaluations[i] })),
+    ]
+
+    summary.generations = generation
+    summary.variants_bred += children.length
+    summary.spent_usd += rewriteCost + estimateSpend(children)
+    summary.best_scores.push(bestScore(population))
+    logger.info(`Generation ${generation}: bred ${children.length} variants`, { traceId })
+
+    const optimization =
+      children.length > 0
+        ? await this.selectVariants(population, request, traceId)
+        : state.optimization
+    return { population, optimization }
+  }
+
+  /**
+   * Ask the rewriter for each planned offspring, one at a time; rewrites that
+   * fail or return nothing new are skipped
+   */
+  private async breed(
+    plan: Offspring[],
+    generation: number,
+    taskMeta: TaskClassification,
+    traceId: string,
+  ): Promise<{ children: PromptVariant[]; rewriteCost: number }> {
+    const llmRunnerUrl = getLLMRunnerUrl()!
+    const children: PromptVariant[] = []
+    let rewriteCost = 0
+
+    for (const [i, offspring] of plan.entries()) {
+      const id = `${offspring.parents[0].id}-g${generation}-${i}`
+      const instruction = rewriteInstruction(offspring, taskMeta)
+      const rewriter = rewriterVariant(instruction, offspring, `rewrite-${id}`)
+      rewriteCost += rewriter.cost_usd
+
+      try {
+        const { response } = await this.callLLMRunner(llmRunnerUrl, rewriter, traceId)
+        const prompt = parseRewrite(response, offspring)
+        if (prompt) {
+          children.push(childVariant(offspring, prompt, id, generation))
+        }
+      } catch (error) {
+        logger.warn(`Rewrite failed for ${id}`, { error, traceId })
+      }
+    }
+
+    return { children, rewriteCost }
+  }
+
   private shouldRetry(error: AxiosError): boolean {
     // Retry on network errors or 5xx status codes
     return !error.response || error.response.status >= 500
   }
 
+  /**
+   * Examples relevant to the prompt, or none if the retrieval hub is unavailable
+   */
+  private async selectExamples(
+    prompt: string,
+    taskMeta: TaskClassification,
+    traceId: string,
+  ): Promise<FewShotExample[]> {
+    try {
+      const result = await this.callService('retrieval', '/examples/select', {
+        trace_id: traceId,
+        timestamp: new Date(),
+        service: 'api-gateway',
+        method: 'selectExamples',
+        payload: {
+          query: prompt,
+          task_type: taskMeta.task_type,
+          domain: taskMeta.domain,
+          k: EXAMPLES_PER_REQUEST,
+        },
+      })
+      return result.data.data?.examples || []
+    } catch (error) {
+      logger.warn('Example selection failed, continuing with built-in examples', {
+        error,
+        traceId,
+      })
+      return []
+    }
+  }
+
   private getOptimizationLevel(
     constraints?: OptimizationRequest['constraints'],
   ): 'cheap' | 'normal' | 'explore' {
@@ -298,17 +531,17 @@ export class RequestOrchestrator {
   private async executeVariants(
     variants: PromptVariant[],
     traceId: string,
-  ): Promise<Array<{ variant: PromptVariant; response: string }>> {
+  ): Promise<VariantExecution[]> {
     logger.info('Executing variants through LLM Runner', { traceId, count: variants.length })
 
-    const results: Array<{ variant: PromptVariant; response: string }> = []
+    const results: VariantExecution[] = []
 
     // Determine which LLM Runner to use based on available API keys
-    const llmRunnerUrl = this.getLLMRunnerUrl()
+    const llmRunnerUrl = getLLMRunnerUrl()
     if (!llmRunnerUrl) {
       logger.error('No LLM Runner available - check API keys', undefined, { traceId })
       throw new Error(
-        'No LLM provider configured. Please set OPENAI_API_KEY, ANTHROPIC_API_KEY, or GOOGLE_AI_API_KEY in .env',
+        'No LLM provider configured. Please set OPENAI_API_KEY, ANTHROPIC_API_KEY, GOOGLE_AI_API_KEY or MOCK_LLM_ENABLED=true in .env',
       )
     }
 
@@ -318,8 +551,8 @@ export class RequestOrchestrator {
       const batch = variants.slice(i, i + concurrencyLimit)
       const batchPromises = batch.map(async (variant) => {
         try {
-          const response = await this.callLLMRunner(llmRunnerUrl, variant, traceId)
-          return { variant, response }
+          const { response, transcript } = await this.callLLMRunner(llmRunnerUrl, variant, traceId)
+          return { variant, response, transcript }
         } catch (error) {
           logger.error(`Failed to execute variant ${variant.id}`, error as Error)
           // Return error response instead of throwing
@@ -337,34 +570,23 @@ export class RequestOrchestrator {
     return results
   }
 
-  private getLLMRunnerUrl(): string | null {
-    // Check which API keys are available
-    if (process.env.OPENAI_API_KEY) {
-      return process.env.OPENAI_RUNNER_URL || 'http://localhost:4001'
-    }
-    if (process.env.ANTHROPIC_API_KEY) {
-      return process.env.ANTHROPIC_RUNNER_URL || 'http://localhost:4002'
-    }
-    if (process.env.GOOGLE_AI_API_KEY) {
-      return process.env.GOOGLE_RUNNER_URL || 'http://localhost:4003'
-    }
-    return null
-  }
-
   private async callLLMRunner(
     llmRunnerUrl: string,
     variant: PromptVariant,
     traceId: string,
-  ): Promise<string> {
+  ): Promise<Omit<VariantExecution, 'variant'>> {
     const url = `${llmRunnerUrl}/run`
     const startTime = Date.now()
 
     try {
-      const response = await axios.post(
+      const response = await axios.post<ServiceResponse<LLMRunnerResponse>>(
         url,
         {
-          variant,
           trace_id: traceId,
+          timestamp: new Date(),
+          service: 'api-gateway',
+          method: 'callLLMRunner',
+          payload: { variant, trace_id: traceId },
         },
         {
           timeout: 30000, // 30 second timeout for LLM calls
@@ -378,11 +600,11 @@ export class RequestOrchestrator {
       const latency = Date.now() - startTime
       logger.debug(`LLM call completed for variant ${variant.id} in ${latency}ms`)
 
-      if (response.data && response.data.response) {
-        return response.data.response
-      } else {
-        throw new Error('Invalid response from LLM Runner')
+      const result = response.data.data
+      if (!result || result.error) {
+        throw new Error(result?.error || 'Invalid response from LLM Runner')
       }
+      return { response: result.content, transcript: result.transcript }
     } catch (error) {
       const latency = Date.now() - startTime
       const axiosError = error as AxiosError
@@ -399,25 +621,37 @@ export class RequestOrchestrator {
   }
 
   private async evaluateVariants(
-    variantResponses: Array<{ variant: PromptVariant; response: string }>,
+    variantResponses: VariantExecution[],
     taskMeta: TaskClassification,
-    referenceOutput?: string,
+    context?: OptimizationContext,
     traceId?: string,
   ): Promise<EvaluationResult[]> {
+    const referenceOutput = context?.reference_output
     const evaluations: EvaluationResult[] = []
 
-    for (const { variant, response } of variantResponses) {
+    for (const { variant, response, transcript } of variantResponses) {
       try {
         const evalResult = await this.callService('evaluator', '/evaluate', {
-          variant,
-          response,
-          task_meta: taskMeta,
-          references: referenceOutput ? [referenceOutput] : undefined,
           trace_id: traceId,
+          timestamp: new Date(),
+          service: 'api-gateway',
+          method: 'evaluateVariants',
+          payload: {
+            variant,
+            response,
+            transcript,
+            task_meta: taskMeta,
+            references: referenceOutput ? [referenceOutput] : undefined,
+            context,
+            trace_id: traceId,
+          },
         })
 
-        evaluations.push(evalResult.data)
+        evaluations.push(evalResult.data.data)
       } catch (error) {
+        if (error instanceof InvalidParametersError) {
+          throw error
+        }
         logger.error(`Evaluation failed for variant ${variant.id}`, error as Error)
         // Provide a default evaluation
         evaluations.push({
@@ -436,3 +670,16 @@ export class RequestOrchestrator {
     return evaluations
   }
 }
+
+// What a failed service call throws: the service's own message when it
+// rejected the request's parameters
+function serviceFailure(serviceName: string, error: AxiosError): Error {
+  const body = error.response?.data as { error?: { code?: string; message?: string } } | undefined
+  return body?.error?.code === ERROR_CODES.INVALID_PARAMETERS
+    ? new InvalidParametersError(body.error.message || 'Invalid parameters')
+    : new Error(`Service ${serviceName} failed: ${error.message}`)
+}
+
+function bestScore(population: EvaluatedExecution[]): number {
+  return Math.max(...population.map(({ evaluation }) => evaluation.final_score))
+}
@@ -74,4 +74,5 @@ export const LLM_RUNNER_CONFIG = {
   openai: process.env.OPENAI_RUNNER_URL || 'http://localhost:4001',
   anthropic: process.env.ANTHROPIC_RUNNER_URL || 'http://localhost:4002',
   google: process.env.GOOGLE_RUNNER_URL || 'http://localhost:4003',
+  mock: process.env.MOCK_RUNNER_URL || 'http://localhost:4004',
 }
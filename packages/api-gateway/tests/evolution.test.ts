@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest'
+import { createTestPromptVariant, createTestTaskClassification } from '@promptdial/shared'
+import {
+  EVOLUTION_DEFAULTS,
+  childVariant,
+  hasPlateaued,
+  parseRewrite,
+  planOffspring,
+  rankParents,
+  resolveEvolutionOptions,
+  rewriteInstruction,
+  stopReason,
+  validateEvolutionOptions,
+} from '../src/evolution'
+
+describe('evolution', () => {
+  const a = createTestPromptVariant({ id: 'a', prompt: 'Explain recursion.' })
+  const b = createTestPromptVariant({ id: 'b', prompt: 'Explain recursion with an example.' })
+  const c = createTestPromptVariant({ id: 'c', prompt: 'Explain recursion to a child.' })
+
+  describe('validateEvolutionOptions', () => {
+    it('should accept valid options', () => {
+      expect(validateEvolutionOptions({})).toBeNull()
+      expect(
+        validateEvolutionOptions({
+          generations: 5,
+          population_size: 6,
+          budget_usd: 0.5,
+          plateau_generations: 1,
+          min_improvement: 0,
+        }),
+      ).toBeNull()
+    })
+
+    it('should reject malformed options', () => {
+      expect(validateEvolutionOptions(true)).toBe('evolution must be an object')
+      expect(validateEvolutionOptions({ generations: 2.5 })).toBe(
+        'evolution.generations must be an integer from 1 to 10',
+      )
+      expect(validateEvolutionOptions({ population_size: 50 })).toBe(
+        'evolution.population_size must be an integer from 1 to 12',
+      )
+      expect(validateEvolutionOptions({ budget_usd: 0 })).toBe(
+        'evolution.budget_usd must be a positive number',
+      )
+      expect(validateEvolutionOptions({ rounds: 3 })).toContain('Unknown evolution option: rounds')
+    })
+
+    it('should fill in defaults', () => {
+      expect(resolveEvolutionOptions({ generations: 5 })).toEqual({
+        ...EVOLUTION_DEFAULTS,
+        generations: 5,
+      })
+    })
+  })
+
+  describe('breeding', () => {
+    it('should alternate mutations and crossovers of the best parents', () => {
+      const plan = planOffspring([a, b, c], 4)
+
+      expect(plan.map((o) => o.operator)).toEqual([
+        'mutation',
+        'crossover',
+        'mutation',
+        'crossover',
+      ])
+      expect(plan[1].parents).toEqual([b, c])
+      expect(plan[3].parents).toEqual([a, b])
+    })
+
+    it('should only mutate a lone parent', () => {
+      const plan = planOffspring([a], 3)
+
+      expect(plan.every((o) => o.operator === 'mutation')).toBe(true)
+      expect(planOffspring([], 3)).toEqual([])
+    })
+
+    it('should rank frontier variants by quality', () => {
+      const parents = rankParents([
+        { variant: a, objectives: { quality: 0.6 } },
+        { variant: b, objectives: { quality: 0.9 } },
+        { objectives: { quality: 1 } },
+      ])
+
+      expect(parents).toEqual([b, a])
+    })
+
+    it('should show the rewriter every parent prompt', () => {
+      const taskMeta = createTestTaskClassification({ task_type: 'code_generation' })
+      const instruction = rewriteInstruction({ operator: 'crossover', parents: [a, b] }, taskMeta)
+
+      expect(instruction).toContain('code generation task')
+      expect(instruction).toContain(a.prompt)
+      expect(instruction).toContain(b.prompt)
+    })
+
+    it('should extract the rewritten prompt', () => {
+      const offspring = { operator: 'mutation' as const, parents: [a] }
+
+      expect(parseRewrite('```\nExplain recursion step by step.\n```', offspring)).toBe(
+        'Explain recursion step by step.',
+      )
+      expect(parseRewrite('Rewritten prompt: Define recursion first.', offspring)).toBe(
+        'Define recursion first.',
+      )
+      expect(parseRewrite(' Explain recursion. ', offspring)).toBeNull()
+      expect(parseRewrite('', offspring)).toBeNull()
+    })
+
+    it('should build a child that records its lineage', () => {
+      const staged = { ...b, stages: { stages: [] } } as typeof b
+      const child = childVariant(
+        { operator: 'crossover', parents: [staged, c] },
+        'A new prompt',
+        'b-g1-0',
+        1,
+      )
+
+      expect(child).toMatchObject({ id: 'b-g1-0', technique: b.technique, prompt: 'A new prompt' })
+      expect(child.metadata?.evolution).toEqual({
+        generation: 1,
+        operator: 'crossover',
+        parents: ['b', 'c'],
+      })
+      expect(child.stages).toBeUndefined()
+      expect(child.cost_usd).toBeLessThan(b.cost_usd)
+    })
+  })
+
+  describe('stopping', () => {
+    const summary = (overrides: object) => ({
+      generations: 1,
+      stop_reason: 'generations' as const,
+      best_scores: [0.5, 0.6],
+      variants_bred: 4,
+      spent_usd: 0.01,
+      ...overrides,
+    })
+
+    it('should stop after the last generation', () => {
+      const options = resolveEvolutionOptions({ generations: 1 })
+
+      expect(stopReason(summary({}), options)).toBe('generations')
+    })
+
+    it('should stop when the budget is spent', () => {
+      const options = resolveEvolutionOptions({ budget_usd: 0.01 })
+
+      expect(stopReason(summary({}), options)).toBe('budget')
+      expect(stopReason(summary({ spent_usd: 0.005 }), options)).toBeNull()
+    })
+
+    it('should stop when the best score plateaus', () => {
+      const options = resolveEvolutionOptions({ plateau_generations: 2, min_improvement: 0.05 })
+
+      expect(hasPlateaued([0.5, 0.52], options)).toBe(false)
+      expect(hasPlateaued([0.5, 0.52, 0.54], options)).toBe(true)
+      expect(hasPlateaued([0.5, 0.52, 0.6], options)).toBe(false)
+      expect(stopReason(summary({ best_scores: [0.5, 0.52, 0.54], generations: 2 }), options)).toBe(
+        'plateau',
+      )
+    })
+  })
+})
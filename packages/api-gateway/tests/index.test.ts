@@ -22,11 +22,13 @@ const mockTelemetry = {
   }),
 }
 
-vi.mock('@promptdial/shared', () => ({
+vi.mock('@promptdial/shared', async () => ({
+  validateRubric: ((await vi.importActual('@promptdial/shared')) as any).validateRubric,
   createLogger: () => mockLogger,
   getTelemetryService: () => mockTelemetry,
   ERROR_CODES: {
     INVALID_PROMPT: 'E001',
+    INVALID_PARAMETERS: 'E002',
     INTERNAL_ERROR: 'E999',
   },
   DEFAULTS: {
@@ -189,6 +191,58 @@ describe('API Gateway', () => {
       expect(response.body.error).toContain('prompt is required')
     })
 
+    it('should reject invalid evolution options', async () => {
+      const response = await request(app)
+        .post('/api/optimize')
+        .send({ prompt: 'Test prompt', options: { evolution: { generations: 0 } } })
+        .expect(400)
+
+      expect(response.body.error).toContain('evolution.generations must be an integer from 1 to 10')
+      expect(response.body.code).toBe('E002')
+      expect(mockOrchestrator.optimize).not.toHaveBeenCalled()
+    })
+
+    it('should reject test cases without a call or expected output', async () => {
+      const response = await request(app)
+        .post('/api/optimize')
+        .send({
+          prompt: 'Test prompt',
+          options: { tests: [{ call: 'add(1, 2)' }, { expected: 3 }] },
+        })
+        .expect(400)
+
+      expect(response.body.error).toContain('tests[1] must be an object')
+      expect(response.body.code).toBe('E002')
+    })
+
+    it('should reject a pass_k that is not a positive integer', async () => {
+      const response = await request(app)
+        .post('/api/optimize')
+        .send({ prompt: 'Test prompt', options: { pass_k: 0 } })
+        .expect(400)
+
+      expect(response.body.error).toContain('pass_k must be a positive integer')
+    })
+
+    it('should reject a rubric that is neither a name nor an object', async () => {
+      const response = await request(app)
+        .post('/api/optimize')
+        .send({ prompt: 'Test prompt', options: { rubric: ['tone'] } })
+        .expect(400)
+
+      expect(response.body.error).toContain('rubric must be a registered rubric name')
+    })
+
+    it('should reject a malformed inline rubric', async () => {
+      const response = await request(app)
+        .post('/api/optimize')
+        .send({ prompt: 'Test prompt', options: { rubric: { name: 'house-style', criteria: [] } } })
+        .expect(400)
+
+      expect(response.body.error).toContain('rubric must have at least one criterion')
+      expect(mockOrchestrator.optimize).not.toHaveBeenCalled()
+    })
+
     it('should use default options when not provided', async () => {
       await request(app).post('/api/optimize').send({ prompt: 'Test prompt' }).expect(200)
 
@@ -460,6 +514,20 @@ describe('API Gateway', () => {
 
       expect(response.body.code).toBe('E999')
     })
+
+    it('should answer 400 when a service rejects the request parameters', async () => {
+      const invalid = new Error('Unknown rubric: house-style') as any
+      invalid.code = 'E002'
+
+      mockOrchestrator.optimize.mockRejectedValueOnce(invalid)
+
+      const response = await request(app)
+        .post('/api/optimize')
+        .send({ prompt: 'Test', options: { rubric: 'house-style' } })
+        .expect(400)
+
+      expect(response.body).toMatchObject({ error: 'Unknown rubric: house-style', code: 'E002' })
+    })
   })
 
   describe('server startup', () => {
@@ -1,12 +1,15 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import axios from 'axios'
-import { RequestOrchestrator } from '../src/orchestrator'
+import { InvalidParametersError, RequestOrchestrator } from '../src/orchestrator'
 import { ServiceConfig } from '../src/services'
+import { handleRunVariantRequest } from '../../llm-runner/src/index'
+import { handleEvaluateRequest } from '../../evaluator/src/index'
 import {
   createTestOptimizationRequest,
   createTestPromptVariant,
   createTestTaskClassification,
   createTestEvaluationResult,
+  ERROR_CODES,
 } from '@promptdial/shared'
 import type { OptimizationRequest } from '@promptdial/shared'
 
@@ -26,7 +29,10 @@ vi.mock('@promptdial/shared', async () => {
     }),
     getTelemetryService: () => ({
       recordMetric: vi.fn(),
+      recordLatency: vi.fn(),
       recordCounter: vi.fn(),
+      incrementCounter: vi.fn(),
+      logEvent: vi.fn(),
       trackEvent: vi.fn(),
       trackError: vi.fn(),
       flush: vi.fn(),
@@ -34,6 +40,21 @@ vi.mock('@promptdial/shared', async () => {
   }
 })
 
+// Answers LLM Runner and Evaluator calls with their real request handlers,
+// failing with the status their routes send, the way axios would
+async function serveFromHandlers(url: string, body: any) {
+  // Bodies cross the wire as JSON, as they would through express
+  const request = JSON.parse(JSON.stringify(body))
+  const data = url.endsWith('/run')
+    ? await handleRunVariantRequest(request)
+    : await handleEvaluateRequest(request)
+  if (data.success) {
+    return { data }
+  }
+  const status = data.error?.code === ERROR_CODES.INVALID_PARAMETERS ? 400 : 500
+  throw { response: { status, data }, message: `Request failed with status code ${status}` }
+}
+
 describe('RequestOrchestrator', () => {
   let orchestrator: RequestOrchestrator
   let mockServices: Record<string, ServiceConfig>
@@ -119,7 +140,20 @@ describe('RequestOrchestrator', () => {
         },
         retrieval: {
           data: {
-            documents: ['Example 1', 'Example 2'],
+            success: true,
+            data: {
+              examples: [
+                {
+                  id: 'math-average-speed',
+                  question: 'If a train travels 120 miles in 2 hours, what is its average speed?',
+                  reasoning: 'Speed = 120 / 2',
+                  answer: '60 miles per hour',
+                  task_type: 'math_reasoning',
+                  version: 1,
+                },
+              ],
+              bank_version: 1,
+            },
           },
         },
         technique: {
@@ -129,11 +163,12 @@ describe('RequestOrchestrator', () => {
         },
         llm_runner: {
           data: {
-            response: 'Test LLM response',
+            success: true,
+            data: { content: 'Test LLM response' },
           },
         },
         evaluator: {
-          data: testEvaluation,
+          data: { success: true, data: testEvaluation },
         },
         optimizer: {
           data: {
@@ -155,7 +190,7 @@ describe('RequestOrchestrator', () => {
         if (url.includes('/check-variant'))
           return Promise.resolve(mockResponses.safety_check_variant)
         if (url.includes('/classify')) return Promise.resolve(mockResponses.classify)
-        if (url.includes('/search')) return Promise.resolve(mockResponses.retrieval)
+        if (url.includes('/examples/select')) return Promise.resolve(mockResponses.retrieval)
         if (url.includes('/generate')) return Promise.resolve(mockResponses.technique)
         if (url.includes('/run')) return Promise.resolve(mockResponses.llm_runner)
         if (url.includes('/evaluate')) return Promise.resolve(mockResponses.evaluator)
@@ -196,6 +231,26 @@ describe('RequestOrchestrator', () => {
       )
     })
 
+    it('should pass examples selected for the prompt to the technique engine', async () => {
+      const request = createTestOptimizationRequest()
+      await orchestrator.optimize(request, 'trace-123')
+
+      expect(mockAxios.post).toHaveBeenCalledWith(
+        expect.stringContaining('/examples/select'),
+        expect.objectContaining({
+          payload: expect.objectContaining({ query: 'Test prompt', k: 3 }),
+        }),
+        expect.any(Object),
+      )
+      expect(mockAxios.post).toHaveBeenCalledWith(
+        expect.stringContaining('/generate'),
+        expect.objectContaining({
+          retrieved_examples: mockResponses.retrieval.data.data.examples,
+        }),
+        expect.any(Object),
+      )
+    })
+
     it('should handle unsafe prompts', async () => {
       mockResponses.safety_check.data = {
         safe: false,
@@ -229,7 +284,7 @@ describe('RequestOrchestrator', () => {
     it('should handle retrieval failures gracefully', async () => {
       // Make retrieval fail
       mockAxios.post.mockImplementation((url: string) => {
-        if (url.includes('/search')) {
+        if (url.includes('/examples/select')) {
           return Promise.reject(new Error('Retrieval service down'))
         }
         // Return default responses for other endpoints
@@ -262,7 +317,7 @@ describe('RequestOrchestrator', () => {
         // Return default responses for other endpoints
         if (url.includes('/check')) return Promise.resolve(mockResponses.safety_check)
         if (url.includes('/classify')) return Promise.resolve(mockResponses.classify)
-        if (url.includes('/search')) return Promise.resolve(mockResponses.retrieval)
+        if (url.includes('/examples/select')) return Promise.resolve(mockResponses.retrieval)
         if (url.includes('/generate')) return Promise.resolve(mockResponses.technique)
         if (url.includes('/run')) return Promise.resolve(mockResponses.llm_runner)
         if (url.includes('/evaluate')) return Promise.resolve(mockResponses.evaluator)
@@ -312,6 +367,123 @@ describe('RequestOrchestrator', () => {
         'No safe variants available',
       )
     })
+
+    describe('with evolution', () => {
+      // Rewrites append a step; each appended step raises the score by `gain`
+      const mockEvolution = (gain: number) => {
+        mockAxios.post.mockImplementation((url: string, body: any) => {
+          if (url.includes('/run')) {
+            const { variant } = body.payload
+            const rewriting = variant.technique === 'evolution_rewriter'
+            const prompt = variant.prompt.match(/<<<\n([\s\S]*?)\n>>>/)?.[1]
+            const content = rewriting ? `${prompt} Then check.` : 'Test LLM response'
+            return Promise.resolve({ data: { success: true, data: { content } } })
+          }
+          if (url.includes('/evaluate')) {
+            const { variant } = body.payload
+            const steps = variant.prompt.split('Then check.').length - 1
+            const evaluation = createTestEvaluationResult({
+              variant_id: variant.id,
+              final_score: 0.5 + steps * gain,
+            })
+            return Promise.resolve({ data: { success: true, data: evaluation } })
+          }
+          if (url.includes('/optimize')) {
+            // Every variant on the frontier, best first
+            const solutions = body.variants
+              .map(({ variant, evaluation }: any) => ({
+                variant,
+                objectives: { quality: evaluation.final_score, cost: 0.1, latency: 0.5 },
+              }))
+              .sort((x: any, y: any) => y.objectives.quality - x.objectives.quality)
+            return Promise.resolve({
+              data: {
+                recommended: solutions[0],
+                alternatives: solutions.slice(1),
+                pareto_frontier: solutions,
+              },
+            })
+          }
+          if (url.includes('/check-variant'))
+            return Promise.resolve(mockResponses.safety_check_variant)
+          if (url.includes('/check')) return Promise.resolve(mockResponses.safety_check)
+          if (url.includes('/classify')) return Promise.resolve(mockResponses.classify)
+          if (url.includes('/examples/select')) return Promise.resolve(mockResponses.retrieval)
+          if (url.includes('/generate')) return Promise.resolve(mockResponses.technique)
+          return Promise.reject(new Error('Unknown endpoint'))
+        })
+      }
+
+      it('should breed, run and evaluate variants from the frontier each generation', async () => {
+        mockEvolution(0.1)
+        const request = createTestOptimizationRequest({
+          evolution: { generations: 2, population_size: 2 },
+        })
+
+        const result = await orchestrator.optimize(request, 'trace-123')
+
+        const evolution = result.optimization_metadata.evolution!
+        expect(evolution.generations).toBe(2)
+        expect(evolution.stop_reason).toBe('generations')
+        expect(evolution.variants_bred).toBe(4)
+        expect(evolution.best_scores[0]).toBeCloseTo(0.5, 5)
+        expect(evolution.best_scores[2]).toBeCloseTo(0.7, 5)
+        expect(result.evaluation_results).toHaveLength(5)
+        expect(result.optimization_metadata.total_variants_generated).toBe(5)
+        expect(result.recommended_variant.prompt).toContain('Then check. Then check.')
+        expect(result.recommended_variant.metadata?.evolution).toMatchObject({ generation: 2 })
+      })
+
+      it('should stop when the best score plateaus', async () => {
+        mockEvolution(0)
+        const request = createTestOptimizationRequest({
+          evolution: { generations: 5, population_size: 1, plateau_generations: 1 },
+        })
+
+        const result = await orchestrator.optimize(request, 'trace-123')
+
+        expect(result.optimization_metadata.evolution).toMatchObject({
+          generations: 1,
+          stop_reason: 'plateau',
+        })
+      })
+
+      it('should stop when the budget is spent', async () => {
+        mockEvolution(0.1)
+        const request = createTestOptimizationRequest({
+          evolution: { generations: 5, budget_usd: 0.001 },
+        })
+
+        const result = await orchestrator.optimize(request, 'trace-123')
+
+        expect(result.optimization_metadata.evolution).toMatchObject({
+          generations: 0,
+          stop_reason: 'budget',
+          variants_bred: 0,
+        })
+      })
+
+      it('should skip rewrites that fail', async () => {
+        mockEvolution(0.1)
+        const respond = mockAxios.post.getMockImplementation()
+        mockAxios.post.mockImplementation((url: string, body: any) =>
+          body.payload?.variant?.technique === 'evolution_rewriter'
+            ? Promise.reject(new Error('Rewriter down'))
+            : respond(url, body),
+        )
+        const request = createTestOptimizationRequest({
+          evolution: { generations: 1, population_size: 2 },
+        })
+
+        const result = await orchestrator.optimize(request, 'trace-123')
+
+        expect(result.optimization_metadata.evolution).toMatchObject({
+          generations: 1,
+          variants_bred: 0,
+        })
+        expect(result.evaluation_results).toHaveLength(1)
+      })
+    })
   })
 
   describe('callService', () => {
@@ -392,7 +564,7 @@ describe('RequestOrchestrator', () => {
       ]
 
       mockAxios.post.mockResolvedValue({
-        data: { response: 'LLM response' },
+        data: { success: true, data: { content: 'LLM response' } },
       })
 
       const results = await (orchestrator as any).executeVariants(variants, 'trace-123')
@@ -402,6 +574,43 @@ describe('RequestOrchestrator', () => {
       expect(results[1].response).toBe('LLM response')
     })
 
+    it('should keep the transcript of multi-stage variants', async () => {
+      const transcript = { stages: [], iterations: 2, stop_reason: 'stop_pattern' }
+      mockAxios.post.mockResolvedValue({
+        data: { success: true, data: { content: 'Final answer', transcript } },
+      })
+
+      const results = await (orchestrator as any).executeVariants(
+        [createTestPromptVariant({ id: 'v1' })],
+        'trace-123',
+      )
+
+      expect(results[0].response).toBe('Final answer')
+      expect(results[0].transcript).toEqual(transcript)
+    })
+
+    it('should run variants through the LLM Runner /run handler', async () => {
+      delete process.env.OPENAI_API_KEY
+      delete process.env.ANTHROPIC_API_KEY
+      delete process.env.GOOGLE_AI_API_KEY
+      process.env.MOCK_LLM_ENABLED = 'true'
+      mockAxios.post.mockImplementation(serveFromHandlers)
+
+      const results = await (orchestrator as any).executeVariants(
+        [createTestPromptVariant({ id: 'v1', technique: 'chain_of_thought' })],
+        'trace-123',
+      )
+
+      expect(mockAxios.post).toHaveBeenCalledWith(
+        'http://localhost:4004/run',
+        expect.anything(),
+        expect.any(Object),
+      )
+      expect(results[0].response).toMatch(/^\[mock:chain_of_thought:[0-9a-f]+\]/)
+
+      delete process.env.MOCK_LLM_ENABLED
+    })
+
     it('should handle LLM runner failures', async () => {
       const variants = [createTestPromptVariant({ id: 'v1' })]
 
@@ -429,7 +638,7 @@ describe('RequestOrchestrator', () => {
         await new Promise((resolve) => setTimeout(resolve, 10))
 
         activeRequests--
-        return { data: { response: 'response' } }
+        return { data: { success: true, data: { content: 'response' } } }
       })
 
       await (orchestrator as any).executeVariants(variants, 'trace-123')
@@ -452,44 +661,6 @@ describe('RequestOrchestrator', () => {
     })
   })
 
-  describe('getLLMRunnerUrl', () => {
-    it('should return OpenAI runner URL when API key present', () => {
-      process.env.OPENAI_API_KEY = 'sk-test'
-      const url = (orchestrator as any).getLLMRunnerUrl()
-      expect(url).toBe('http://localhost:4001')
-    })
-
-    it('should return Anthropic runner URL when API key present', () => {
-      delete process.env.OPENAI_API_KEY
-      process.env.ANTHROPIC_API_KEY = 'ant-test'
-      const url = (orchestrator as any).getLLMRunnerUrl()
-      expect(url).toBe('http://localhost:4002')
-    })
-
-    it('should return Google runner URL when API key present', () => {
-      delete process.env.OPENAI_API_KEY
-      delete process.env.ANTHROPIC_API_KEY
-      process.env.GOOGLE_AI_API_KEY = 'goog-test'
-      const url = (orchestrator as any).getLLMRunnerUrl()
-      expect(url).toBe('http://localhost:4003')
-    })
-
-    it('should use custom URLs from environment', () => {
-      process.env.OPENAI_API_KEY = 'sk-test'
-      process.env.OPENAI_RUNNER_URL = 'http://custom:5000'
-      const url = (orchestrator as any).getLLMRunnerUrl()
-      expect(url).toBe('http://custom:5000')
-    })
-
-    it('should return null when no API keys', () => {
-      delete process.env.OPENAI_API_KEY
-      delete process.env.ANTHROPIC_API_KEY
-      delete process.env.GOOGLE_AI_API_KEY
-      const url = (orchestrator as any).getLLMRunnerUrl()
-      expect(url).toBeNull()
-    })
-  })
-
   describe('evaluateVariants', () => {
     it('should evaluate all variants', async () => {
       const variantResponses = [
@@ -498,12 +669,17 @@ describe('RequestOrchestrator', () => {
       ]
 
       const mockEvaluation = createTestEvaluationResult()
-      mockAxios.post.mockResolvedValue({ data: mockEvaluation })
+      mockAxios.post.mockResolvedValue({ data: { success: true, data: mockEvaluation } })
+
+      const context = {
+        reference_output: 'Reference output',
+        tests: [{ call: 'add(2, 3)', expected: 5 }],
+      }
 
       const results = await (orchestrator as any).evaluateVariants(
         variantResponses,
         createTestTaskClassification(),
-        'Reference output',
+        context,
         'trace-123',
       )
 
@@ -513,9 +689,32 @@ describe('RequestOrchestrator', () => {
       expect(mockAxios.post).toHaveBeenCalledWith(
         expect.stringContaining('/evaluate'),
         expect.objectContaining({
-          variant: variantResponses[0].variant,
-          response: 'Response 1',
-          references: ['Reference output'],
+          payload: expect.objectContaining({
+            variant: variantResponses[0].variant,
+            response: 'Response 1',
+            references: ['Reference output'],
+            context,
+          }),
+        }),
+        expect.any(Object),
+      )
+    })
+
+    it('should pass stage transcripts to the evaluator', async () => {
+      const transcript = { stages: [], iterations: 1, stop_reason: 'completed' }
+      mockAxios.post.mockResolvedValue({
+        data: { success: true, data: createTestEvaluationResult() },
+      })
+
+      await (orchestrator as any).evaluateVariants(
+        [{ variant: createTestPromptVariant({ id: 'v1' }), response: 'Response 1', transcript }],
+        createTestTaskClassification(),
+      )
+
+      expect(mockAxios.post).toHaveBeenCalledWith(
+        expect.stringContaining('/evaluate'),
+        expect.objectContaining({
+          payload: expect.objectContaining({ response: 'Response 1', transcript }),
         }),
         expect.any(Object),
       )
@@ -538,5 +737,91 @@ describe('RequestOrchestrator', () => {
       expect(results[0].final_score).toBeGreaterThanOrEqual(0)
       expect(results[0].scores).toBeDefined()
     })
+
+    describe('through the Evaluator handler', () => {
+      beforeEach(() => {
+        delete process.env.OPENAI_API_KEY
+        delete process.env.ANTHROPIC_API_KEY
+        delete process.env.GOOGLE_AI_API_KEY
+        process.env.MOCK_LLM_ENABLED = 'true'
+        mockAxios.post.mockImplementation(serveFromHandlers)
+      })
+
+      afterEach(() => {
+        delete process.env.MOCK_LLM_ENABLED
+      })
+
+      it('should score the criteria of an inline rubric', async () => {
+        const [evaluation] = await (orchestrator as any).evaluateVariants(
+          [{ variant: createTestPromptVariant({ id: 'v1' }), response: 'Response 1' }],
+          createTestTaskClassification(),
+          {
+            rubric: {
+              name: 'house-style',
+              criteria: [
+                {
+                  name: 'tone',
+                  description: 'Follows the brand voice',
+                  anchors: [{ score: 10, description: 'Unmistakably on brand' }],
+                },
+              ],
+            },
+          },
+        )
+
+        // The mock runner answers every judge prompt with 7/10
+        expect(evaluation.variant_id).toBe('v1')
+        expect(evaluation.scores.tone).toBeCloseTo(2 / 3, 5)
+      })
+
+      it('should run the test cases of a code generation task against the response', async () => {
+        const response = 'Here you go:\n```javascript\nfunction add(a, b) {\n  return a + b\n}\n```'
+
+        const [evaluation] = await (orchestrator as any).evaluateVariants(
+          [{ variant: createTestPromptVariant({ id: 'v1' }), response }],
+          createTestTaskClassification({ task_type: 'code_generation' }),
+          { tests: [{ call: 'add(2, 3)', expected: 5 }] },
+        )
+
+        expect(evaluation.scores.code_correctness).toBe(1)
+        expect(evaluation.code_execution).toMatchObject({ candidates: 1, passed: 1 })
+      })
+
+      it('should fail on an unknown rubric', async () => {
+        const evaluation = (orchestrator as any).evaluateVariants(
+          [{ variant: createTestPromptVariant({ id: 'v1' }), response: 'Response 1' }],
+          createTestTaskClassification(),
+          { rubric: 'no-such-rubric' },
+        )
+
+        await expect(evaluation).rejects.toThrow(InvalidParametersError)
+        await expect(evaluation).rejects.toThrow('Unknown rubric: no-such-rubric')
+      })
+    })
+
+    it('should fail when the evaluator rejects the request parameters', async () => {
+      mockAxios.post.mockRejectedValueOnce({
+        response: {
+          status: 400,
+          data: {
+            success: false,
+            error: { code: ERROR_CODES.INVALID_PARAMETERS, message: 'Unknown rubric: house-style' },
+          },
+        },
+        message: 'Request failed with status code 400',
+      })
+
+      const evaluation = (orchestrator as any).evaluateVariants(
+        [{ variant: createTestPromptVariant({ id: 'v1' }), response: 'Response 1' }],
+        createTestTaskClassification(),
+        { rubric: 'house-style' },
+      )
+
+      await expect(evaluation).rejects.toThrow(InvalidParametersError)
+      await expect(evaluation).rejects.toMatchObject({
+        code: ERROR_CODES.INVALID_PARAMETERS,
+        message: 'Unknown rubric: house-style',
+      })
+    })
   })
 })
@@ -74,20 +74,20 @@ export function toEvaluationMethod(method: string): EvaluationMethod {
   }
 }
 
+// Objectives by name; any other name optimizes for quality
+const OPTIMIZATION_OBJECTIVES: Record<string, OptimizationObjective> = {
+  quality: OptimizationObjective.QUALITY,
+  cost: OptimizationObjective.COST,
+  latency: OptimizationObjective.LATENCY,
+  diversity: OptimizationObjective.DIVERSITY,
+  safety_margin: OptimizationObjective.SAFETY_MARGIN,
+  token_length: OptimizationObjective.TOKEN_LENGTH,
+  evaluator_agreement: OptimizationObjective.EVALUATOR_AGREEMENT
+}
+
 // Convert string to OptimizationObjective enum
 export function toOptimizationObjective(objective: string): OptimizationObjective {
-  switch (objective) {
-    case 'quality':
-      return OptimizationObjective.QUALITY
-    case 'cost':
-      return OptimizationObjective.COST
-    case 'latency':
-      return OptimizationObjective.LATENCY
-    case 'diversity':
-      return OptimizationObjective.DIVERSITY
-    default:
-      return OptimizationObjective.QUALITY
-  }
+  return OPTIMIZATION_OBJECTIVES[objective] || OptimizationObjective.QUALITY
 }
 
 // Convert string to RetrievalTechnique enum
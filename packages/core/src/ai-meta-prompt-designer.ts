@@ -3,6 +3,7 @@ import Anthropic from '@anthropic-ai/sdk'
 import { GoogleGenerativeAI } from '@google/generative-ai'
 import { config } from 'dotenv'
 import { resolve } from 'path'
+import { withCassette } from '@promptdial/shared'
 
 // Load environment variables from multiple possible locations
 const envPaths = [
@@ -467,7 +468,14 @@ IMPORTANT: Never transform simple questions into philosophical explorations unle
     // Generating variants for optimization request
 
     this.validateInput(request)
-    
+
+    // Route through the active cassette so optimization runs can be recorded and replayed
+    return withCassette('core:meta-prompt-designer', { ...request }, () =>
+      this.generateLiveVariants(request),
+    )
+  }
+
+  private async generateLiveVariants(request: OptimizationRequest): Promise<OptimizedVariant[]> {
     // Auto-detect model if not specified
     if (!request.targetModel) {
       if (getAnthropic()) request.targetModel = 'claude-3-opus'
@@ -0,0 +1,277 @@
+/**
+ * PromptDial 3.0 - Score Aggregation
+ *
+ * Combines evaluator scores into a final score as a weighted mean. Weights are
+ * configured per task type, and once enough human feedback has come in for a
+ * task type they are learned from it by linear stacking: the convex
+ * combination of evaluator scores that best predicts the human scores, kept
+ * close to the configured weights. Weights only change when feedback arrives,
+ * so the same scores always aggregate to the same final score in between.
+ */
+
+import { TaskType, EVALUATORS, createLogger, mean } from '@promptdial/shared'
+
+const logger = createLogger('aggregation')
+
+export type WeightTable = Record<string, number>
+
+export interface WeightConfig {
+  default?: WeightTable // Replaces entries of DEFAULT_EVALUATOR_WEIGHTS
+  tasks?: Partial<Record<TaskType, WeightTable>> // Replaces entries for one task type
+}
+
+export interface AggregationWeights {
+  method: 'configured' | 'linear_stacking'
+  weights: WeightTable // Normalized to sum to 1
+  samples: number // Human feedback the weights were learned from
+}
+
+export interface FeedbackSample {
+  task_type?: string
+  evaluator_scores: Record<string, number>
+  human_score?: number
+}
+
+// Relative trust in each evaluator; scores without a weight, such as the
+// per-criterion scores of G-EVAL, do not count towards the final score
+export const DEFAULT_EVALUATOR_WEIGHTS: WeightTable = {
+  [EVALUATORS.G_EVAL]: 3,
+  [EVALUATORS.CHAT_EVAL]: 2,
+  [EVALUATORS.ROLE_DEBATE]: 2,
+  [EVALUATORS.AUTOMATED_METRICS]: 2,
+  [EVALUATORS.CODE_CORRECTNESS]: 4,
+  [EVALUATORS.SELF_CONSISTENCY]: 1,
+}
+
+// Where a task type's evidence is stronger or weaker than usual
+export const TASK_EVALUATOR_WEIGHTS: Partial<Record<TaskType, WeightTable>> = {
+  code_generation: { [EVALUATORS.CODE_CORRECTNESS]: 6 },
+  math_reasoning: { [EVALUATORS.SELF_CONSISTENCY]: 2 },
+  translation: { [EVALUATORS.AUTOMATED_METRICS]: 3 },
+  summarization: { [EVALUATORS.AUTOMATED_METRICS]: 3 },
+}
+
+// Human feedback a task type needs before its weights are learned
+export const MIN_FEEDBACK_SAMPLES = 20
+
+// How strongly learned weights are pulled towards the configured ones
+const PRIOR_STRENGTH = 0.1
+
+const FIT_ITERATIONS = 500
+
+const TASK_TYPES: TaskType[] = [
+  'math_reasoning',
+  'code_generation',
+  'creative_writing',
+  'data_analysis',
+  'general_qa',
+  'summarization',
+  'translation',
+  'classification',
+  'general',
+]
+
+export class ScoreAggregator {
+  private learned: Map<string, AggregationWeights> = new Map()
+
+  constructor(private config: WeightConfig = {}) {}
+
+  /**
+   * The final score of a set of evaluator scores for a task type
+   */
+  aggregate(scores: Record<string, number>, taskType: string): number {
+    const learned = this.learned.get(taskType)?.weights
+    const configured = this.configuredWeights(taskType)
+    const weighted = [learned, configured]
+      .map((weights) => weights && weightedMean(scores, weights))
+      .find((score) => typeof score === 'number')
+
+    // Nothing with a weight, so every score counts the same
+    return weighted ?? mean(Object.values(scores))
+  }
+
+  /**
+   * The weights a task type's scores are currently combined with
+   */
+  weights(taskType: string): AggregationWeights {
+    return (
+      this.learned.get(taskType) || {
+        method: 'configured',
+        weights: normalize(this.configuredWeights(taskType)),
+        samples: 0,
+      }
+    )
+  }
+
+  /**
+   * The current weights of every task type
+   */
+  describe(): Record<string, AggregationWeights> {
+    return Object.fromEntries(TASK_TYPES.map((taskType) => [taskType, this.weights(taskType)]))
+  }
+
+  /**
+   * Learn the weights of every task type with enough human feedback; the
+   * others go back to their configured weights
+   */
+  fit(feedback: FeedbackSample[]): void {
+    this.learned.clear()
+
+    for (const taskType of TASK_TYPES) {
+      const samples = feedback.filter(
+        (sample) => sample.task_type === taskType && sample.human_score !== undefined,
+      )
+      if (samples.length >= MIN_FEEDBACK_SAMPLES) {
+        const weights = fitStackingWeights(samples, this.configuredWeights(taskType))
+        this.learned.set(taskType, { method: 'linear_stacking', weights, samples: samples.length })
+        logger.info(`Learned ${taskType} evaluator weights from ${samples.length} samples`, {
+          weights,
+        })
+      }
+    }
+  }
+
+  private configuredWeights(taskType: string): WeightTable {
+    return {
+      ...DEFAULT_EVALUATOR_WEIGHTS,
+      ...this.config.default,
+      ...TASK_EVALUATOR_WEIGHTS[taskType as TaskType],
+      ...this.config.tasks?.[taskType as TaskType],
+    }
+  }
+}
+
+// Null when none of the scores has a positive weight
+function weightedMean(scores: Record<string, number>, weights: WeightTable): number | null {
+  const weighted = Object.keys(scores).filter((name) => weights[name] > 0)
+  const total = weighted.reduce((sum, name) => sum + weights[name], 0)
+  if (total === 0) {
+    return null
+  }
+  return weighted.reduce((sum, name) => sum + scores[name] * weights[name], 0) / total
+}
+
+function normalize(weights: WeightTable): WeightTable {
+  const total = Object.values(weights).reduce((sum, weight) => sum + weight, 0)
+  return Object.fromEntries(
+    Object.entries(weights).map(([name, weight]) => [name, total > 0 ? weight / total : 0]),
+  )
+}
+
+// ============= Linear Stacking =============
+
+/**
+ * Non-negative weights summing to 1 that minimize the squared error of the
+ * weighted evaluator scores against the human scores, plus a penalty on the
+ * distance to the configured weights. Solved by projected gradient descent
+ * from the configured weights with a fixed step and iteration count, so the
+ * same feedback always gives the same weights. Evaluators that no feedback
+ * has scores of keep their configured share.
+ */
+export function fitStackingWeights(samples: FeedbackSample[], prior: WeightTable): WeightTable {
+  const configured = normalize(prior)
+  const evaluators = Object.keys(configured).filter(
+    (name) => configured[name] > 0 && samples.some((sample) => name in sample.evaluator_scores),
+  )
+  const share = evaluators.reduce((sum, name) => sum + configured[name], 0)
+  if (share === 0) {
+    return configured
+  }
+
+  const rows = samples.map((sample) => featureRow(sample.evaluator_scores, evaluators))
+  const targets = samples.map((sample) => sample.human_score!)
+  const priorWeights = evaluators.map((name) => configured[name] / share)
+
+  // Scores lie in [0, 1], so this step is below 1 / the gradient's Lipschitz constant
+  const step = 1 / (2 * (evaluators.length + PRIOR_STRENGTH))
+  let weights = priorWeights
+  for (let iteration = 0; iteration < FIT_ITERATIONS; iteration++) {
+    const gradient = stackingGradient(rows, targets, weights, priorWeights)
+    weights = projectOntoSimplex(weights.map((weight, j) => weight - step * gradient[j]))
+  }
+
+  const learned = Object.fromEntries(evaluators.map((name, j) => [name, weights[j] * share]))
+  return { ...configured, ...learned }
+}
+
+// A missing score is filled in with the mean of the sample's other scores,
+// which is what it would have added to an unweighted mean
+function featureRow(scores: Record<string, number>, evaluators: string[]): number[] {
+  const present = evaluators.filter((name) => name in scores).map((name) => scores[name])
+  const fill = present.length > 0 ? mean(present) : 0
+  return evaluators.map((name) => scores[name] ?? fill)
+}
+
+function stackingGradient(
+  rows: number[][],
+  targets: number[],
+  weights: number[],
+  priorWeights: number[],
+): number[] {
+  const gradient = weights.map((weight, j) => 2 * PRIOR_STRENGTH * (weight - priorWeights[j]))
+  rows.forEach((row, i) => {
+    const residual = row.reduce((sum, x, j) => sum + x * weights[j], 0) - targets[i]
+    row.forEach((x, j) => (gradient[j] += (2 * residual * x) / rows.length))
+  })
+  return gradient
+}
+
+/**
+ * Euclidean projection onto the probability simplex (Duchi et al., 2008)
+ */
+export function projectOntoSimplex(values: number[]): number[] {
+  const sorted = [...values].sort((a, b) => b - a)
+  let cumulative = 0
+  let theta = 0
+  sorted.forEach((value, i) => {
+    cumulative += value
+    const candidate = (cumulative - 1) / (i + 1)
+    if (value - candidate > 0) {
+      theta = candidate
+    }
+  })
+  return values.map((value) => Math.max(0, value - theta))
+}
+
+// ============= Configuration =============
+
+/**
+ * Weight configuration from JSON such as
+ * `{"default": {"self_consistency": 0.5}, "tasks": {"code_generation": {"g_eval": 1}}}`;
+ * an invalid configuration is ignored so the service still starts
+ */
+export function loadWeightConfig(json?: string): WeightConfig {
+  if (!json) {
+    return {}
+  }
+  try {
+    const config = JSON.parse(json) as WeightConfig
+    const invalid = validateWeightConfig(config)
+    if (invalid) {
+      throw new Error(invalid)
+    }
+    return config
+  } catch (error) {
+    logger.warn(`Ignoring evaluator weight configuration: ${(error as Error).message}`)
+    return {}
+  }
+}
+
+/**
+ * Why a weight configuration cannot be used, or null if it can
+ */
+export function validateWeightConfig(config: WeightConfig): string | null {
+  const tables = [config.default, ...Object.values(config.tasks || {})]
+  const unknownTask = Object.keys(config.tasks || {}).find(
+    (taskType) => !TASK_TYPES.includes(taskType as TaskType),
+  )
+  if (unknownTask) {
+    return `unknown task type ${unknownTask}`
+  }
+  const valid = tables.every((table) => table === undefined || Object.values(table).every(isWeight))
+  return valid ? null : 'weights must be non-negative numbers'
+}
+
+function isWeight(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0
+}
@@ -10,6 +10,7 @@ const logger = createLogger('calibration')
 
 export interface CalibrationDataPoint {
   variant_id: string
+  task_type?: string
   evaluator_scores: Record<string, number>
   human_score?: number
   timestamp: Date
@@ -52,6 +53,13 @@ export class CalibrationMonitor {
     }
   }
 
+  /**
+   * Data points that have a human score, oldest first
+   */
+  getFeedback(): CalibrationDataPoint[] {
+    return this.dataPoints.filter((p) => p.human_score !== undefined)
+  }
+
   /**
    * Get calibration statistics for each evaluator
    */
@@ -0,0 +1,73 @@
+/**
+ * PromptDial 3.0 - Automated Metrics Evaluator
+ *
+ * Scores responses offline against reference answers and the variant's
+ * required output format, with the metrics chosen by task type
+ */
+
+import { BaseEvaluator } from './base'
+import { PromptVariant, EvaluationResult, TaskClassification, EVALUATORS } from '@promptdial/shared'
+
+import {
+  AutomatedMetric,
+  jsonSchemaConformance,
+  outputConstraints,
+  regexConformance,
+  scoreAgainstReferences,
+  selectMetrics,
+} from '../metrics'
+
+export class AutomatedMetricsEvaluator extends BaseEvaluator {
+  constructor() {
+    super({
+      name: EVALUATORS.AUTOMATED_METRICS,
+      description: 'Reference and format metrics (EM, F1, ROUGE-L, BLEU, chrF, schema)',
+      requiresReference: true,
+      requiresLLM: false,
+    })
+  }
+
+  async evaluate(
+    variant: PromptVariant,
+    response: string,
+    taskMeta: TaskClassification,
+    references?: string[],
+  ): Promise<Partial<EvaluationResult>> {
+    const metrics = selectMetrics(taskMeta.task_type, variant, references)
+    if (metrics.length === 0) {
+      throw new Error('No references or output format to score against')
+    }
+
+    const scores: Record<string, number> = {}
+    for (const metric of metrics) {
+      scores[metric] = this.scoreMetric(metric, variant, response, references || [])
+    }
+
+    // Overall score is the mean of the selected metrics
+    const overallScore = Object.values(scores).reduce((sum, s) => sum + s, 0) / metrics.length
+
+    return {
+      scores: {
+        automated_metrics: overallScore,
+        ...scores,
+      } as EvaluationResult['scores'],
+    }
+  }
+
+  private scoreMetric(
+    metric: AutomatedMetric,
+    variant: PromptVariant,
+    response: string,
+    references: string[],
+  ): number {
+    const constraints = outputConstraints(variant)
+    if (metric === 'json_schema') {
+      return jsonSchemaConformance(response, constraints.schema!)
+    }
+    if (metric === 'regex_match') {
+      return regexConformance(response, constraints.pattern!)
+    }
+    const nonEmpty = references.filter((reference) => reference.trim())
+    return scoreAgainstReferences(metric, response, nonEmpty)
+  }
+}
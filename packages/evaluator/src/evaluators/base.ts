@@ -8,8 +8,19 @@ import {
   PromptVariant,
   EvaluationResult,
   TaskClassification,
+  OptimizationContext,
+  ServiceResponse,
   createLogger,
+  getLLMRunnerUrl,
+  withCassette,
 } from '@promptdial/shared'
+import axios from 'axios'
+
+// The part of the LLM Runner's response an evaluator reads
+interface LLMRunnerResponse {
+  content: string
+  error?: string // Set when the provider call failed
+}
 
 export interface EvaluatorConfig {
   name: string
@@ -33,6 +44,7 @@ export abstract class BaseEvaluator {
     response: string,
     taskMeta: TaskClassification,
     references?: string[],
+    context?: OptimizationContext,
   ): Promise<Partial<EvaluationResult>>
 
   /**
@@ -56,6 +68,45 @@ export abstract class BaseEvaluator {
     return this.config.requiresLLM || false
   }
 
+  /**
+   * Run an evaluation prompt through the LLM Runner service.
+   * Calls are routed through the active cassette for record/replay.
+   */
+  protected async runLLM(variant: PromptVariant, traceId: string): Promise<{ response: string }> {
+    return withCassette(
+      `evaluator:${this.config.name}`,
+      { prompt: variant.prompt, temperature: variant.temperature },
+      async () => {
+        const llmRunnerUrl = this.getLLMRunnerUrl()
+        const result = await axios.post<ServiceResponse<LLMRunnerResponse>>(
+          `${llmRunnerUrl}/run`,
+          {
+            trace_id: traceId,
+            timestamp: new Date(),
+            service: 'evaluator',
+            method: 'runLLM',
+            payload: { variant, trace_id: traceId },
+          },
+          {
+            timeout: 30000,
+            headers: {
+              'Content-Type': 'application/json',
+            },
+          },
+        )
+        return { response: runnerContent(result.data) }
+      },
+    )
+  }
+
+  protected getLLMRunnerUrl(): string {
+    const url = getLLMRunnerUrl()
+    if (!url) {
+      throw new Error('No LLM provider configured')
+    }
+    return url
+  }
+
   /**
    * Normalize score to 0-1 range
    */
@@ -104,3 +155,12 @@ export abstract class BaseEvaluator {
     }
   }
 }
+
+// The answer of a /run call; a failed provider call is still a successful service call
+function runnerContent(result: ServiceResponse<LLMRunnerResponse>): string {
+  const { data } = result
+  if (!data || data.error) {
+    throw new Error(`LLM Runner call failed: ${data?.error || result.error?.message}`)
+  }
+  return data.content
+}
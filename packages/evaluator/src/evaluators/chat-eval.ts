@@ -6,7 +6,6 @@
 
 import { BaseEvaluator } from './base'
 import { PromptVariant, EvaluationResult, TaskClassification, EVALUATORS } from '@promptdial/shared'
-import axios from 'axios'
 
 export class ChatEvalEvaluator extends BaseEvaluator {
   constructor() {
@@ -62,23 +61,10 @@ export class ChatEvalEvaluator extends BaseEvaluator {
 
     try {
       // Call LLM Runner service
-      const llmRunnerUrl = this.getLLMRunnerUrl()
-      const llmResponse = await axios.post(
-        `${llmRunnerUrl}/run`,
-        {
-          variant: probeVariant,
-          trace_id: `chat-eval-${Date.now()}`,
-        },
-        {
-          timeout: 30000,
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        },
-      )
+      const llmResponse = await this.runLLM(probeVariant, `chat-eval-${Date.now()}`)
 
       // Evaluate the probe response
-      return await this.scoreProbeResponse(llmResponse.data.response, probe, response)
+      return await this.scoreProbeResponse(llmResponse.response, probe, response)
     } catch (error) {
       this.logger.error('ChatEval probe failed', error)
       return 0.5
@@ -150,22 +136,9 @@ RATING: [number 1-10]`
     }
 
     try {
-      const llmRunnerUrl = this.getLLMRunnerUrl()
-      const judgment = await axios.post(
-        `${llmRunnerUrl}/run`,
-        {
-          variant: judgmentVariant,
-          trace_id: `chat-eval-judge-${Date.now()}`,
-        },
-        {
-          timeout: 30000,
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        },
-      )
+      const judgment = await this.runLLM(judgmentVariant, `chat-eval-judge-${Date.now()}`)
 
-      const scoreMatch = judgment.data.response.match(/RATING:\s*(\d+)/i)
+      const scoreMatch = judgment.response.match(/RATING:\s*(\d+)/i)
       if (scoreMatch) {
         return this.normalizeScore(parseInt(scoreMatch[1]), 1, 10)
       }
@@ -232,20 +205,6 @@ RATING: [number 1-10]`
     const specific = taskSpecificProbes[taskType] || []
     return [...baseProbes, ...specific].slice(0, 3) // Limit to 3 probes
   }
-
-  private getLLMRunnerUrl(): string {
-    // Check which API keys are available
-    if (process.env.OPENAI_API_KEY) {
-      return process.env.OPENAI_RUNNER_URL || 'http://localhost:4001'
-    }
-    if (process.env.ANTHROPIC_API_KEY) {
-      return process.env.ANTHROPIC_RUNNER_URL || 'http://localhost:4002'
-    }
-    if (process.env.GOOGLE_AI_API_KEY) {
-      return process.env.GOOGLE_RUNNER_URL || 'http://localhost:4003'
-    }
-    throw new Error('No LLM provider configured')
-  }
 }
 
 interface ConversationalProbe {
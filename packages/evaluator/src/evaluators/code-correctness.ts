@@ -0,0 +1,193 @@
+/**
+ * PromptDial 3.0 - Code Correctness Evaluator
+ *
+ * Runs the JavaScript code blocks of a response against the request's test
+ * cases in a sandbox and scores pass@k, so functionality is measured rather
+ * than judged
+ */
+
+import { BaseEvaluator } from './base'
+import {
+  PromptVariant,
+  EvaluationResult,
+  TaskClassification,
+  OptimizationContext,
+  CodeTestCase,
+  CodeErrorCategory,
+  CodeExecutionReport,
+  EVALUATORS,
+} from '@promptdial/shared'
+
+import {
+  DEFAULT_SANDBOX_LIMITS,
+  SandboxError,
+  SandboxLimits,
+  SandboxRun,
+  TestRun,
+  runInSandbox,
+} from '../sandbox'
+
+export interface CodeBlock {
+  language: string // Lowercased fence label, empty when unlabeled
+  code: string
+}
+
+// Fence labels of code the sandbox can run; unlabeled blocks are tried as JavaScript
+const RUNNABLE_LANGUAGES = ['', 'js', 'javascript', 'node', 'cjs', 'mjs']
+
+// Runnable blocks run as candidates; any beyond these are counted as skipped
+export const MAX_CODE_CANDIDATES = 5
+
+// Each test either passes (null) or fails for one reason
+type TestOutcome = CodeErrorCategory | null
+
+export class CodeCorrectnessEvaluator extends BaseEvaluator {
+  constructor(private limits: SandboxLimits = DEFAULT_SANDBOX_LIMITS) {
+    super({
+      name: EVALUATORS.CODE_CORRECTNESS,
+      description: 'Runs generated code against test cases and scores pass@k',
+      requiresReference: false,
+      requiresLLM: false,
+    })
+  }
+
+  async evaluate(
+    variant: PromptVariant,
+    response: string,
+    taskMeta: TaskClassification,
+    references?: string[],
+    context?: OptimizationContext,
+  ): Promise<Partial<EvaluationResult>> {
+    const tests = context?.tests || []
+    if (tests.length === 0) {
+      throw new Error('No test cases to run the code against')
+    }
+
+    const blocks = extractCodeBlocks(response)
+    const runnable = blocks.filter((block) => RUNNABLE_LANGUAGES.includes(block.language))
+    const candidates = runnable.slice(0, MAX_CODE_CANDIDATES)
+
+    // Candidates run one after another so a response cannot fork many workers at once
+    const outcomes: TestOutcome[][] = []
+    for (const block of candidates) {
+      const run = await runInSandbox(toScript(block.code), tests, this.limits)
+      outcomes.push(testOutcomes(run, tests))
+    }
+    if (candidates.length === 0) {
+      outcomes.push(tests.map(() => (blocks.length > 0 ? 'unsupported_language' : 'no_code')))
+    }
+
+    const report: CodeExecutionReport = {
+      ...executionReport(outcomes, candidates.length, tests.length, context?.pass_k),
+      skipped: runnable.length - candidates.length,
+    }
+    this.logger.info(`Code passed ${report.passed}/${report.candidates} candidates`, {
+      variant: variant.id,
+      errors: report.errors,
+    })
+
+    return {
+      scores: { code_correctness: report.pass_at_k } as EvaluationResult['scores'],
+      code_execution: report,
+    }
+  }
+}
+
+// ============= Extraction =============
+
+/**
+ * Fenced code blocks of a response, in order
+ */
+export function extractCodeBlocks(response: string): CodeBlock[] {
+  return Array.from(response.matchAll(/```([^\n`]*)\n([\s\S]*?)```/g), (match) => ({
+    language: match[1].trim().split(/\s+/)[0].toLowerCase(),
+    code: match[2],
+  }))
+}
+
+// ES module exports are dropped so the declarations run as a plain script
+function toScript(code: string): string {
+  return code.replace(
+    /^export\s+(?:default\s+)?(?=(?:async\s+)?function|class|const|let|var)/gm,
+    '',
+  )
+}
+
+// ============= Scoring =============
+
+function testOutcomes(run: SandboxRun, tests: CodeTestCase[]): TestOutcome[] {
+  if (run.memory_exceeded) {
+    return tests.map(() => 'memory_limit')
+  }
+  const failure = run.error
+  if (failure) {
+    return tests.map(() => categorize(failure))
+  }
+  return tests.map((test, i) => testOutcome(test, run.tests[i]))
+}
+
+function testOutcome(test: CodeTestCase, run?: TestRun): TestOutcome {
+  if (!run) {
+    return 'runtime_error'
+  }
+  if (run.error) {
+    return categorize(run.error)
+  }
+  return passes(test, run) ? null : 'wrong_answer'
+}
+
+export function passes(test: CodeTestCase, run: TestRun): boolean {
+  const valueMatches = test.expected === undefined || run.value === JSON.stringify(test.expected)
+  const outputMatches =
+    test.expected_output === undefined || run.output.trim() === test.expected_output.trim()
+  return valueMatches && outputMatches
+}
+
+function categorize(error: SandboxError): CodeErrorCategory {
+  if (error.timeout) {
+    return 'timeout'
+  }
+  return error.name === 'SyntaxError' ? 'syntax_error' : 'runtime_error'
+}
+
+function executionReport(
+  outcomes: TestOutcome[][],
+  candidates: number,
+  testCount: number,
+  passK: number = 1,
+): Omit<CodeExecutionReport, 'skipped'> {
+  const passed = outcomes.filter((tests) => tests.every((outcome) => outcome === null)).length
+  const k = Math.max(1, Math.min(Math.floor(passK), candidates || 1))
+  const errors: CodeExecutionReport['errors'] = {}
+  outcomes.flat().forEach((outcome) => {
+    if (outcome) {
+      errors[outcome] = (errors[outcome] || 0) + 1
+    }
+  })
+
+  return {
+    candidates,
+    passed: candidates > 0 ? passed : 0,
+    k,
+    pass_at_k: candidates > 0 ? passAtK(candidates, passed, k) : 0,
+    tests_passed: Math.max(...outcomes.map((tests) => tests.filter((o) => o === null).length)),
+    tests_total: testCount,
+    errors,
+  }
+}
+
+/**
+ * Chance that at least one of k candidates drawn from n passes, when c of the
+ * n pass: 1 - C(n - c, k) / C(n, k), as a product to stay numerically stable
+ * (Chen et al., 2021)
+ */
+export function passAtK(n: number, c: number, k: number): number {
+  if (n - c < k) {
+    return 1
+  }
+  let allFail = 1
+  for (let i = n - c + 1; i <= n; i++) {
+    allFail *= 1 - k / i
+  }
+  return 1 - allFail
+}
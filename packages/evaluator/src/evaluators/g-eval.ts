@@ -5,8 +5,15 @@
  */
 
 import { BaseEvaluator } from './base'
-import { PromptVariant, EvaluationResult, TaskClassification, EVALUATORS } from '@promptdial/shared'
-import axios from 'axios'
+import {
+  PromptVariant,
+  EvaluationResult,
+  TaskClassification,
+  OptimizationContext,
+  EvaluationRubric,
+  RubricCriterion,
+  EVALUATORS,
+} from '@promptdial/shared'
 
 export class GEvalEvaluator extends BaseEvaluator {
   constructor() {
@@ -23,8 +30,11 @@ export class GEvalEvaluator extends BaseEvaluator {
     response: string,
     taskMeta: TaskClassification,
     references?: string[],
+    context?: OptimizationContext,
   ): Promise<Partial<EvaluationResult>> {
-    const criteria = this.getCriteriaForTask(taskMeta.task_type)
+    // Named rubrics are resolved by the ensemble before they get here
+    const rubric = typeof context?.rubric === 'object' ? context.rubric : undefined
+    const criteria = this.getCriteriaForTask(taskMeta.task_type, rubric)
     const scores: Record<string, number> = {}
 
     // Evaluate each criterion
@@ -33,8 +43,11 @@ export class GEvalEvaluator extends BaseEvaluator {
       scores[criterion.name] = score
     }
 
-    // Calculate overall score
-    const overallScore = Object.values(scores).reduce((sum, s) => sum + s, 0) / criteria.length
+    // Calculate overall score, weighting criteria by their rubric weights
+    const weights = criteria.map((criterion) => criterion.weight ?? 1)
+    const overallScore =
+      criteria.reduce((sum, criterion, i) => sum + scores[criterion.name] * weights[i], 0) /
+      weights.reduce((sum, weight) => sum + weight, 0)
 
     return {
       scores: {
@@ -63,23 +76,10 @@ export class GEvalEvaluator extends BaseEvaluator {
 
     try {
       // Call LLM Runner service
-      const llmRunnerUrl = this.getLLMRunnerUrl()
-      const response = await axios.post(
-        `${llmRunnerUrl}/run`,
-        {
-          variant: evalVariant,
-          trace_id: `eval-${Date.now()}`,
-        },
-        {
-          timeout: 30000,
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        },
-      )
+      const result = await this.runLLM(evalVariant, `eval-${Date.now()}`)
 
       // Extract score from response
-      return this.extractScore(response.data.response)
+      return this.extractScore(result.response)
     } catch (error) {
       this.logger.error('G-EVAL failed', error)
       return 0.5 // Default middle score on error
@@ -142,7 +142,12 @@ JUSTIFICATION: [Brief explanation of the score]`
     return 0.5
   }
 
-  private getCriteriaForTask(taskType: string): EvaluationCriterion[] {
+  private getCriteriaForTask(taskType: string, rubric?: EvaluationRubric): EvaluationCriterion[] {
+    const custom = (rubric?.criteria || []).map(toEvaluationCriterion)
+    if (rubric && !rubric.extends_defaults) {
+      return custom
+    }
+
     const baseCriteria: EvaluationCriterion[] = [
       {
         name: 'relevance',
@@ -212,20 +217,8 @@ JUSTIFICATION: [Brief explanation of the score]`
 
     const specific = taskSpecific[taskType] || []
     return [...baseCriteria, ...specific]
-  }
-
-  private getLLMRunnerUrl(): string {
-    // Check which API keys are available
-    if (process.env.OPENAI_API_KEY) {
-      return process.env.OPENAI_RUNNER_URL || 'http://localhost:4001'
-    }
-    if (process.env.ANTHROPIC_API_KEY) {
-      return process.env.ANTHROPIC_RUNNER_URL || 'http://localhost:4002'
-    }
-    if (process.env.GOOGLE_AI_API_KEY) {
-      return process.env.GOOGLE_RUNNER_URL || 'http://localhost:4003'
-    }
-    throw new Error('No LLM provider configured')
+      .filter((criterion) => !custom.some((own) => own.name === criterion.name))
+      .concat(custom)
   }
 }
 
@@ -233,4 +226,16 @@ interface EvaluationCriterion {
   name: string
   description: string
   rubric: string
+  weight?: number // Relative weight in the g_eval score (default 1)
+}
+
+// Anchors become rubric lines such as "3: Uses passive voice throughout"
+function toEvaluationCriterion(criterion: RubricCriterion): EvaluationCriterion {
+  const anchors = [...criterion.anchors].sort((a, b) => a.score - b.score)
+  return {
+    name: criterion.name,
+    description: criterion.description,
+    rubric: '\n' + anchors.map((anchor) => `${anchor.score}: ${anchor.description}`).join('\n'),
+    weight: criterion.weight,
+  }
 }
@@ -7,18 +7,24 @@ export { GEvalEvaluator } from './g-eval'
 export { ChatEvalEvaluator } from './chat-eval'
 export { RoleDebateEvaluator } from './role-debate'
 export { SelfConsistencyEvaluator } from './self-consistency-eval'
+export { AutomatedMetricsEvaluator } from './automated-metrics'
+export { CodeCorrectnessEvaluator } from './code-correctness'
 
 import { BaseEvaluator } from './base'
 import { GEvalEvaluator } from './g-eval'
 import { ChatEvalEvaluator } from './chat-eval'
 import { RoleDebateEvaluator } from './role-debate'
 import { SelfConsistencyEvaluator } from './self-consistency-eval'
+import { AutomatedMetricsEvaluator } from './automated-metrics'
+import { CodeCorrectnessEvaluator } from './code-correctness'
 
 export const ALL_EVALUATORS = [
   GEvalEvaluator,
   ChatEvalEvaluator,
   RoleDebateEvaluator,
   SelfConsistencyEvaluator,
+  AutomatedMetricsEvaluator,
+  CodeCorrectnessEvaluator,
 ]
 
 export function createEvaluatorRegistry(): Map<string, BaseEvaluator> {
@@ -0,0 +1,133 @@
+/**
+ * PromptDial 3.0 - Pairwise Judge
+ *
+ * LLM-as-judge A/B comparison of two responses, asked in both orders so a
+ * preference for whichever response comes first cancels out
+ */
+
+import { BaseEvaluator } from './base'
+import { PromptVariant, EvaluationResult, TaskClassification, EVALUATORS } from '@promptdial/shared'
+
+import { PairwiseJudgment, Verdict, combineVerdicts, unswap } from '../pairwise'
+
+export interface JudgedResponse {
+  id: string
+  response: string
+}
+
+// Score of a response against the reference by its judged outcome
+const OUTCOME_SCORES = { win: 1, tie: 0.5, loss: 0 }
+
+export class PairwiseJudge extends BaseEvaluator {
+  constructor() {
+    super({
+      name: EVALUATORS.PAIRWISE_JUDGE,
+      description: 'LLM-as-judge A/B comparison with position swapping',
+      requiresReference: true,
+      requiresLLM: true,
+    })
+  }
+
+  /**
+   * Judge a response against the first reference answer: 1 if it is
+   * preferred in both orders, 0 if the reference is, 0.5 otherwise
+   */
+  async evaluate(
+    variant: PromptVariant,
+    response: string,
+    taskMeta: TaskClassification,
+    references?: string[],
+  ): Promise<Partial<EvaluationResult>> {
+    if (!references?.length) {
+      throw new Error('Pairwise judging needs a reference answer')
+    }
+
+    const judgment = await this.compare(
+      { id: variant.id, response },
+      { id: 'reference', response: references[0] },
+      taskMeta,
+    )
+    const outcome =
+      judgment.winner === null ? 'tie' : judgment.winner === variant.id ? 'win' : 'loss'
+
+    return {
+      scores: { pairwise_judge: OUTCOME_SCORES[outcome] } as EvaluationResult['scores'],
+    }
+  }
+
+  /**
+   * Judge a pair in the given order and swapped
+   */
+  async compare(
+    a: JudgedResponse,
+    b: JudgedResponse,
+    taskMeta: TaskClassification,
+    task?: string,
+  ): Promise<PairwiseJudgment> {
+    const [verdict, swapped] = await Promise.all([
+      this.judge(a.response, b.response, taskMeta, task),
+      this.judge(b.response, a.response, taskMeta, task),
+    ])
+    return combineVerdicts(a.id, b.id, verdict, unswap(swapped))
+  }
+
+  private async judge(
+    first: string,
+    second: string,
+    taskMeta: TaskClassification,
+    task?: string,
+  ): Promise<Verdict> {
+    const judgeVariant: PromptVariant = {
+      id: 'pairwise-judge',
+      technique: 'pairwise-judge',
+      prompt: this.createJudgePrompt(first, second, taskMeta, task),
+      temperature: 0, // Deterministic, so the two orders differ only by position
+      est_tokens: 800,
+      cost_usd: 0.01,
+    }
+
+    const result = await this.runLLM(judgeVariant, `pairwise-${Date.now()}`)
+    return parseVerdict(result.response)
+  }
+
+  private createJudgePrompt(
+    first: string,
+    second: string,
+    taskMeta: TaskClassification,
+    task?: string,
+  ): string {
+    const taskSection = task ? `\nTASK:\n${task}\n` : ''
+
+    return `You are an impartial judge comparing two responses to the same task.
+${taskSection}
+TASK CONTEXT:
+- Task Type: ${taskMeta.task_type}
+- Domain: ${taskMeta.domain}
+
+RESPONSE A:
+${first}
+
+RESPONSE B:
+${second}
+
+Decide which response is better overall: more correct, complete, relevant and clear.
+Do not let the order of the responses or their length influence you.
+Answer TIE only if neither is better.
+
+Format your response as:
+REASONING: [Brief comparison]
+WINNER: [A, B or TIE]`
+  }
+}
+
+/**
+ * The verdict in a judge's answer; anything unreadable counts as a tie
+ */
+export function parseVerdict(answer: string): Verdict {
+  const match = answer.match(/WINNER:\s*\[?\s*(A|B|TIE)\b/i)
+  if (!match) {
+    return 'tie'
+  }
+  const verdict = match[1].toUpperCase()
+  return verdict === 'TIE' ? 'tie' : (verdict as Verdict)
+}
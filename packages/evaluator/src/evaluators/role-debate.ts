@@ -6,7 +6,6 @@
 
 import { BaseEvaluator } from './base'
 import { PromptVariant, EvaluationResult, TaskClassification, EVALUATORS } from '@promptdial/shared'
-import axios from 'axios'
 
 export class RoleDebateEvaluator extends BaseEvaluator {
   constructor() {
@@ -104,25 +103,12 @@ IMPROVEMENTS:
     }
 
     try {
-      const llmRunnerUrl = this.getLLMRunnerUrl()
-      const result = await axios.post(
-        `${llmRunnerUrl}/run`,
-        {
-          variant: critiqueVariant,
-          trace_id: `role-debate-critique-${Date.now()}`,
-        },
-        {
-          timeout: 30000,
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        },
-      )
+      const result = await this.runLLM(critiqueVariant, `role-debate-critique-${Date.now()}`)
 
       return {
         role,
-        content: result.data.response,
-        score: this.extractScoreFromCritique(result.data.response),
+        content: result.response,
+        score: this.extractScoreFromCritique(result.response),
       }
     } catch (error) {
       this.logger.error(`Role ${role.name} critique failed`, error)
@@ -195,21 +181,8 @@ Keep your rebuttal focused and professional.`
     }
 
     try {
-      const llmRunnerUrl = this.getLLMRunnerUrl()
-      const result = await axios.post(
-        `${llmRunnerUrl}/run`,
-        {
-          variant: rebuttalVariant,
-          trace_id: `role-debate-rebuttal-${Date.now()}`,
-        },
-        {
-          timeout: 30000,
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        },
-      )
-      return result.data.response
+      const result = await this.runLLM(rebuttalVariant, `role-debate-rebuttal-${Date.now()}`)
+      return result.response
     } catch (error) {
       this.logger.error(`Rebuttal from ${defender.name} failed`, error)
       return 'No rebuttal provided'
@@ -260,27 +233,14 @@ REASONING: [Brief explanation of the consensus score]`
     }
 
     try {
-      const llmRunnerUrl = this.getLLMRunnerUrl()
-      const result = await axios.post(
-        `${llmRunnerUrl}/run`,
-        {
-          variant: consensusVariant,
-          trace_id: `role-debate-consensus-${Date.now()}`,
-        },
-        {
-          timeout: 30000,
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        },
-      )
+      const result = await this.runLLM(consensusVariant, `role-debate-consensus-${Date.now()}`)
 
-      const scoreMatch = result.data.response.match(/FINAL SCORE:\s*(\d+)/i)
+      const scoreMatch = result.response.match(/FINAL SCORE:\s*(\d+)/i)
       const score = scoreMatch ? this.normalizeScore(parseInt(scoreMatch[1]), 1, 10) : 0.7
 
       return {
         score,
-        reasoning: result.data.response,
+        reasoning: result.response,
       }
     } catch (error) {
       this.logger.error('Consensus generation failed', error)
@@ -363,20 +323,6 @@ REASONING: [Brief explanation of the consensus score]`
 
     return critique.slice(0, 200) + '...'
   }
-
-  private getLLMRunnerUrl(): string {
-    // Check which API keys are available
-    if (process.env.OPENAI_API_KEY) {
-      return process.env.OPENAI_RUNNER_URL || 'http://localhost:4001'
-    }
-    if (process.env.ANTHROPIC_API_KEY) {
-      return process.env.ANTHROPIC_RUNNER_URL || 'http://localhost:4002'
-    }
-    if (process.env.GOOGLE_AI_API_KEY) {
-      return process.env.GOOGLE_RUNNER_URL || 'http://localhost:4003'
-    }
-    throw new Error('No LLM provider configured')
-  }
 }
 
 interface DebateRole {
@@ -8,6 +8,9 @@ import {
   PromptVariant,
   EvaluationResult,
   TaskClassification,
+  VariantTranscript,
+  OptimizationContext,
+  EvaluationRubric,
   ServiceRequest,
   ServiceResponse,
   createServiceResponse,
@@ -16,13 +19,29 @@ import {
   ERROR_CODES,
   EVALUATORS,
   getTelemetryService,
-  mean,
   confidenceInterval,
+  validateRubric,
 } from '@promptdial/shared'
 
 import { BaseEvaluator, createEvaluatorRegistry } from './evaluators'
+import { PairwiseJudge } from './evaluators/pairwise-judge'
 
+import { AggregationWeights, ScoreAggregator, loadWeightConfig } from './aggregation'
 import { CalibrationMonitor, CalibrationDataPoint, getCalibrationMonitor } from './calibration'
+import { selectMetrics } from './metrics'
+import {
+  MAX_PAIRWISE_VARIANTS,
+  PAIRWISE_CONCURRENCY,
+  PairwiseJudgment,
+  PairwiseRanking,
+  rankPairwise,
+} from './pairwise'
+import {
+  RubricRecord,
+  RubricRegistry,
+  getRubricRegistry,
+  rubricLabel,
+} from './rubrics'
 
 // LLM Runner will be accessed via service calls, not direct import
 
@@ -30,14 +49,53 @@ const logger = createLogger('evaluator')
 
 // ============= Evaluator Ensemble =============
 
+type InclusionRule = (
+  taskMeta: TaskClassification,
+  variant: PromptVariant,
+  references?: string[],
+  context?: OptimizationContext,
+) => boolean
+
+// When each evaluator joins the ensemble; evaluators without a rule never do
+const INCLUSION_RULES: Record<string, InclusionRule> = {
+  // Always include G-EVAL and self-consistency
+  [EVALUATORS.G_EVAL]: () => true,
+  [EVALUATORS.SELF_CONSISTENCY]: () => true,
+
+  // Include chat-eval for interactive tasks
+  [EVALUATORS.CHAT_EVAL]: (taskMeta) =>
+    ['general_qa', 'creative_writing'].includes(taskMeta.task_type),
+
+  // Include role-debate for high complexity
+  [EVALUATORS.ROLE_DEBATE]: (taskMeta) => taskMeta.complexity > 0.7,
+
+  // Include automated metrics whenever there are references or an output format to check
+  [EVALUATORS.AUTOMATED_METRICS]: (taskMeta, variant, references) =>
+    selectMetrics(taskMeta.task_type, variant, references).length > 0,
+
+  // Include code correctness when generated code has tests to run against
+  [EVALUATORS.CODE_CORRECTNESS]: (taskMeta, _variant, _references, context) =>
+    taskMeta.task_type === 'code_generation' && (context?.tests?.length || 0) > 0,
+}
+
+export type CompareMode = 'pointwise' | 'pairwise'
+
 export class CalibratedEvaluatorEnsemble {
   private evaluators: Map<string, BaseEvaluator>
+  private pairwiseJudge: PairwiseJudge
   private calibrationMonitor: CalibrationMonitor
+  private aggregator: ScoreAggregator
+  private rubricRegistry: RubricRegistry
   private llmRunner: any
 
   constructor() {
     this.evaluators = createEvaluatorRegistry()
+    this.pairwiseJudge = new PairwiseJudge()
     this.calibrationMonitor = getCalibrationMonitor()
+    this.aggregator = new ScoreAggregator(
+      loadWeightConfig(process.env.PROMPTDIAL_EVALUATOR_WEIGHTS),
+    )
+    this.rubricRegistry = getRubricRegistry()
 
     // LLM runner will be accessed via HTTP calls to the service
     // Set to true to enable LLM-based evaluators
@@ -54,11 +112,22 @@ export class CalibratedEvaluatorEnsemble {
     taskMeta: TaskClassification,
     references?: string[],
     traceId?: string,
+    transcript?: VariantTranscript,
+    context?: OptimizationContext,
   ): Promise<EvaluationResult> {
     const startTime = Date.now()
 
+    // Evaluators get the rubric itself, not the name it is registered under
+    const rubric = await this.resolveRubric(context?.rubric, taskMeta.domain)
+    const evaluationContext = rubric ? { ...context, rubric } : context
+
     // Select applicable evaluators
-    const applicableEvaluators = this.selectEvaluators(taskMeta, variant)
+    const applicableEvaluators = this.selectEvaluators(
+      taskMeta,
+      variant,
+      references,
+      evaluationContext,
+    )
 
     logger.info(`Evaluating with ${applicableEvaluators.length} evaluators`, {
       traceId,
@@ -67,7 +136,14 @@ export class CalibratedEvaluatorEnsemble {
 
     // Run evaluations in parallel
     const evaluationPromises = applicableEvaluators.map((evaluator) =>
-      this.runEvaluator(evaluator, variant, response, taskMeta, references).catch((error) => {
+      this.runEvaluator(
+        evaluator,
+        variant,
+        response,
+        taskMeta,
+        references,
+        evaluationContext,
+      ).catch((error) => {
         logger.error(`Evaluator ${evaluator.getName()} failed`, error)
         return null
       }),
@@ -79,19 +155,46 @@ export class CalibratedEvaluatorEnsemble {
     const combinedResult = this.combineResults(
       evaluationResults.filter((r) => r !== null) as Partial<EvaluationResult>[],
       variant.id,
+      taskMeta.task_type,
     )
 
-    // Apply calibration
-    const calibratedResult = this.applyCalibration(combinedResult)
+    // Apply calibration, noting which rubric version the scores were judged by
+    const calibratedResult = {
+      ...this.applyCalibration(combinedResult, taskMeta.task_type),
+      ...(rubric && { rubric: rubricLabel(rubric) }),
+    }
 
     // Record for future calibration
-    this.recordForCalibration(variant.id, calibratedResult)
+    this.recordForCalibration(variant.id, calibratedResult, taskMeta.task_type)
 
     // Log telemetry
     const duration = Date.now() - startTime
     await this.logTelemetry(traceId, variant.id, calibratedResult, duration)
 
-    return calibratedResult
+    // Keep the stage-by-stage record of multi-stage variants with their scores
+    return transcript ? { ...calibratedResult, transcript } : calibratedResult
+  }
+
+  /**
+   * The rubric a context carries inline or names, checked for use
+   */
+  async resolveRubric(
+    rubric: string | EvaluationRubric | undefined,
+    domain: string,
+  ): Promise<EvaluationRubric | RubricRecord | undefined> {
+    if (typeof rubric === 'string') {
+      const record = await this.rubricRegistry.resolve(rubric, domain)
+      if (!record) {
+        throw new ValidationError(`Unknown rubric: ${rubric}`)
+      }
+      return record
+    }
+
+    const invalid = rubric && validateRubric(rubric)
+    if (invalid) {
+      throw new ValidationError(invalid)
+    }
+    return rubric
   }
 
   /**
@@ -101,14 +204,22 @@ export class CalibratedEvaluatorEnsemble {
     variants: Array<{
       variant: PromptVariant
       response: string
+      transcript?: VariantTranscript
     }>,
     taskMeta: TaskClassification,
     references?: string[],
   ): Promise<Array<{ variant: PromptVariant; evaluation: EvaluationResult }>> {
     const results = await Promise.all(
-      variants.map(async ({ variant, response }) => ({
+      variants.map(async ({ variant, response, transcript }) => ({
         variant,
-        evaluation: await this.evaluate(variant, response, taskMeta, references),
+        evaluation: await this.evaluate(
+          variant,
+          response,
+          taskMeta,
+          references,
+          undefined,
+          transcript,
+        ),
       })),
     )
 
@@ -116,11 +227,56 @@ export class CalibratedEvaluatorEnsemble {
     return results.sort((a, b) => (b.evaluation.final_score || 0) - (a.evaluation.final_score || 0))
   }
 
+  /**
+   * Rank variants by judging every pair of responses head to head, in both
+   * orders, and fitting a Bradley–Terry model to the outcomes. Pairs whose
+   * judging fails are left out of the fit and counted; if no pair could be
+   * judged there is nothing to rank and a PairwiseJudgingError is thrown.
+   */
+  async rankVariantsPairwise(
+    variants: Array<{ variant: PromptVariant; response: string }>,
+    taskMeta: TaskClassification,
+    task?: string,
+  ): Promise<PairwiseRanking> {
+    if (variants.length > MAX_PAIRWISE_VARIANTS) {
+      throw new Error(`Pairwise comparison supports at most ${MAX_PAIRWISE_VARIANTS} variants`)
+    }
+
+    const contestants = variants.map(({ variant, response }) => ({ id: variant.id, response }))
+    const pairs = contestants.flatMap((a, i) => contestants.slice(i + 1).map((b) => [a, b]))
+
+    const results = await mapConcurrently(pairs, PAIRWISE_CONCURRENCY, ([a, b]) =>
+      this.pairwiseJudge.compare(a, b, taskMeta, task).catch((error) => {
+        logger.error(`Pairwise judging of ${a.id} and ${b.id} failed`, error)
+        return null
+      }),
+    )
+    const judgments = results.filter((judgment): judgment is PairwiseJudgment => judgment !== null)
+    const failedPairs = pairs.length - judgments.length
+    if (pairs.length > 0 && judgments.length === 0) {
+      throw new PairwiseJudgingError(`Judging failed for all ${failedPairs} pairs`)
+    }
+
+    const ranking = rankPairwise(
+      contestants.map(({ id }) => id),
+      judgments,
+      failedPairs,
+    )
+    getTelemetryService().recordMetric(
+      'pairwise_position_consistency',
+      ranking.position_consistency,
+    )
+    return ranking
+  }
+
   /**
    * Add human feedback for calibration
    */
   addHumanFeedback(variantId: string, humanScore: number): void {
     this.calibrationMonitor.addHumanFeedback(variantId, humanScore)
+
+    // Relearn how much each evaluator counts from all feedback so far
+    this.aggregator.fit(this.calibrationMonitor.getFeedback())
   }
 
   /**
@@ -130,7 +286,19 @@ export class CalibratedEvaluatorEnsemble {
     return this.calibrationMonitor.getCalibrationStats()
   }
 
-  private selectEvaluators(taskMeta: TaskClassification, variant: PromptVariant): BaseEvaluator[] {
+  /**
+   * The weights each task type's evaluator scores are combined with
+   */
+  getAggregationWeights(): Record<string, AggregationWeights> {
+    return this.aggregator.describe()
+  }
+
+  private selectEvaluators(
+    taskMeta: TaskClassification,
+    variant: PromptVariant,
+    references?: string[],
+    context?: OptimizationContext,
+  ): BaseEvaluator[] {
     const selected: BaseEvaluator[] = []
 
     for (const evaluator of this.evaluators.values()) {
@@ -149,7 +317,7 @@ export class CalibratedEvaluatorEnsemble {
       }
 
       // Include based on task type and complexity
-      if (this.shouldIncludeEvaluator(evaluator, taskMeta)) {
+      if (this.shouldIncludeEvaluator(evaluator, taskMeta, variant, references, context)) {
         selected.push(evaluator)
       }
     }
@@ -157,26 +325,15 @@ export class CalibratedEvaluatorEnsemble {
     return selected
   }
 
-  private shouldIncludeEvaluator(evaluator: BaseEvaluator, taskMeta: TaskClassification): boolean {
-    // Always include G-EVAL and self-consistency
-    if ([EVALUATORS.G_EVAL, EVALUATORS.SELF_CONSISTENCY].includes(evaluator.getName())) {
-      return true
-    }
-
-    // Include chat-eval for interactive tasks
-    if (
-      evaluator.getName() === EVALUATORS.CHAT_EVAL &&
-      ['general_qa', 'creative_writing'].includes(taskMeta.task_type)
-    ) {
-      return true
-    }
-
-    // Include role-debate for high complexity
-    if (evaluator.getName() === EVALUATORS.ROLE_DEBATE && taskMeta.complexity > 0.7) {
-      return true
-    }
-
-    return false
+  private shouldIncludeEvaluator(
+    evaluator: BaseEvaluator,
+    taskMeta: TaskClassification,
+    variant: PromptVariant,
+    references?: string[],
+    context?: OptimizationContext,
+  ): boolean {
+    const rule = INCLUSION_RULES[evaluator.getName()]
+    return rule ? rule(taskMeta, variant, references, context) : false
   }
 
   private async runEvaluator(
@@ -185,9 +342,10 @@ export class CalibratedEvaluatorEnsemble {
     response: string,
     taskMeta: TaskClassification,
     references?: string[],
+    context?: OptimizationContext,
   ): Promise<Partial<EvaluationResult>> {
     try {
-      return await evaluator.evaluate(variant, response, taskMeta, references)
+      return await evaluator.evaluate(variant, response, taskMeta, references, context)
     } catch (error) {
       logger.error(`Evaluator ${evaluator.getName()} failed`, error as Error)
       throw error
@@ -197,6 +355,7 @@ export class CalibratedEvaluatorEnsemble {
   private combineResults(
     results: Partial<EvaluationResult>[],
     variantId: string,
+    taskType: string,
   ): EvaluationResult {
     // Collect all scores
     const allScores: Record<string, number> = {}
@@ -209,22 +368,26 @@ export class CalibratedEvaluatorEnsemble {
 
     // Calculate final score with confidence interval
     const scoreValues = Object.values(allScores)
-    const finalScore = mean(scoreValues)
+    const finalScore = this.aggregator.aggregate(allScores, taskType)
     const ci = confidenceInterval(scoreValues)
 
     // Detect significant disagreement
     const calibrationError = this.detectDisagreement(scoreValues)
 
+    // Keep the test results of executed code with the scores
+    const codeExecution = results.find((result) => result.code_execution)?.code_execution
+
     return {
       variant_id: variantId,
       scores: allScores,
       final_score: finalScore,
       confidence_interval: ci,
       calibration_error: calibrationError,
+      ...(codeExecution && { code_execution: codeExecution }),
     }
   }
 
-  private applyCalibration(result: EvaluationResult): EvaluationResult {
+  private applyCalibration(result: EvaluationResult, taskType: string): EvaluationResult {
     const calibratedScores: Record<string, number> = {}
 
     for (const [evaluator, score] of Object.entries(result.scores)) {
@@ -233,7 +396,7 @@ export class CalibratedEvaluatorEnsemble {
 
     // Recalculate final score with calibrated values
     const calibratedValues = Object.values(calibratedScores)
-    const calibratedFinal = mean(calibratedValues)
+    const calibratedFinal = this.aggregator.aggregate(calibratedScores, taskType)
     const calibratedCI = confidenceInterval(calibratedValues)
 
     return {
@@ -259,9 +422,14 @@ export class CalibratedEvaluatorEnsemble {
     return maxDiff > 0.3 ? maxDiff : undefined
   }
 
-  private recordForCalibration(variantId: string, result: EvaluationResult): void {
+  private recordForCalibration(
+    variantId: string,
+    result: EvaluationResult,
+    taskType: string,
+  ): void {
     const dataPoint: CalibrationDataPoint = {
       variant_id: variantId,
+      task_type: taskType,
       evaluator_scores: result.scores,
       timestamp: new Date(),
     }
@@ -292,8 +460,43 @@ export class CalibratedEvaluatorEnsemble {
   }
 }
 
+/**
+ * Map `items` through `fn` with at most `limit` calls in flight, keeping the
+ * results in the order of the items
+ */
+async function mapConcurrently<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index])
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+  return results
+}
+
 // ============= Service API =============
 
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ValidationError'
+  }
+}
+
+export class PairwiseJudgingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PairwiseJudgingError'
+  }
+}
+
 let ensembleInstance: CalibratedEvaluatorEnsemble | null = null
 
 export function getEvaluatorEnsemble(): CalibratedEvaluatorEnsemble {
@@ -310,10 +513,13 @@ export async function handleEvaluateRequest(
     task_meta: TaskClassification
     references?: string[]
     trace_id?: string
+    transcript?: VariantTranscript
+    context?: OptimizationContext
   }>,
 ): Promise<ServiceResponse<EvaluationResult>> {
   try {
-    const { variant, response, task_meta, references, trace_id } = request.payload
+    const { variant, response, task_meta, references, trace_id, transcript, context } =
+      request.payload
 
     const result = await getEvaluatorEnsemble().evaluate(
       variant,
@@ -321,14 +527,17 @@ export async function handleEvaluateRequest(
       task_meta,
       references,
       trace_id,
+      transcript,
+      context,
     )
 
     return createServiceResponse(request, result)
   } catch (error) {
+    const invalid = error instanceof ValidationError
     const serviceError = createServiceError(
-      ERROR_CODES.EVALUATION_FAILED,
-      'Evaluation failed',
-      true,
+      invalid ? ERROR_CODES.INVALID_PARAMETERS : ERROR_CODES.EVALUATION_FAILED,
+      invalid ? error.message : 'Evaluation failed',
+      !invalid,
     )
     return createServiceResponse(request, undefined, serviceError)
   }
@@ -339,25 +548,60 @@ export async function handleCompareRequest(
     variants: Array<{
       variant: PromptVariant
       response: string
+      transcript?: VariantTranscript
     }>
     task_meta: TaskClassification
     references?: string[]
+    mode?: CompareMode
+    task?: string // The task the responses answer, shown to the pairwise judge
   }>,
-): Promise<ServiceResponse<Array<{ variant: PromptVariant; evaluation: EvaluationResult }>>> {
+): Promise<
+  ServiceResponse<
+    Array<{ variant: PromptVariant; evaluation: EvaluationResult }> | PairwiseRanking
+  >
+> {
   try {
-    const { variants, task_meta, references } = request.payload
+    const { variants, task_meta, references, mode = 'pointwise', task } = request.payload
+
+    const invalid = validateCompareRequest(variants, mode)
+    if (invalid) {
+      throw new ValidationError(invalid)
+    }
 
-    const results = await getEvaluatorEnsemble().compareVariants(variants, task_meta, references)
+    const ensemble = getEvaluatorEnsemble()
+    const results =
+      mode === 'pairwise'
+        ? await ensemble.rankVariantsPairwise(variants, task_meta, task)
+        : await ensemble.compareVariants(variants, task_meta, references)
 
     return createServiceResponse(request, results)
   } catch (error) {
-    const serviceError = createServiceError(
-      ERROR_CODES.EVALUATION_FAILED,
-      'Comparison failed',
-      true,
-    )
-    return createServiceResponse(request, undefined, serviceError)
+    return createServiceResponse(request, undefined, compareFailure(error))
+  }
+}
+
+function compareFailure(error: unknown) {
+  if (error instanceof ValidationError) {
+    return createServiceError(ERROR_CODES.INVALID_PARAMETERS, error.message)
   }
+  const message =
+    error instanceof PairwiseJudgingError
+      ? `Comparison failed: ${error.message}`
+      : 'Comparison failed'
+  return createServiceError(ERROR_CODES.EVALUATION_FAILED, message)
+}
+
+/**
+ * Why a comparison cannot be run, or null if it can
+ */
+function validateCompareRequest(variants: unknown[], mode: string): string | null {
+  if (!['pointwise', 'pairwise'].includes(mode)) {
+    return `Unknown compare mode: ${mode} (expected pointwise or pairwise)`
+  }
+  if (mode === 'pairwise' && variants.length > MAX_PAIRWISE_VARIANTS) {
+    return `Pairwise comparison supports at most ${MAX_PAIRWISE_VARIANTS} variants`
+  }
+  return null
 }
 
 export async function handleFeedbackRequest(
@@ -427,7 +671,8 @@ if (require.main === module) {
     }
 
     const response = await handleEvaluateRequest(req.body)
-    res.status(response.success ? 200 : 500).json(response)
+    const invalid = response.error?.code === ERROR_CODES.INVALID_PARAMETERS
+    res.status(response.success ? 200 : invalid ? 400 : 500).json(response)
   }))
 
   // Compare variants
@@ -444,7 +689,8 @@ if (require.main === module) {
     }
 
     const response = await handleCompareRequest(req.body)
-    res.status(response.success ? 200 : 500).json(response)
+    const invalid = response.error?.code === ERROR_CODES.INVALID_PARAMETERS
+    res.status(response.success ? 200 : invalid ? 400 : 500).json(response)
   }))
 
   // Human feedback
@@ -466,8 +712,44 @@ if (require.main === module) {
 
   // Get calibration stats
   app.get('/calibration', asyncHandler(async (_req: any, res: any) => {
-    const stats = getEvaluatorEnsemble().getCalibrationStats()
-    res.json({ stats })
+    const ensemble = getEvaluatorEnsemble()
+    res.json({
+      stats: ensemble.getCalibrationStats(),
+      weights: ensemble.getAggregationWeights(),
+    })
+  }))
+
+  // Register a rubric, or a new version of one
+  app.post('/rubrics', asyncHandler(async (req: any, res: any) => {
+    const invalid = validateRubric(req.body)
+    if (invalid) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: ERROR_CODES.INVALID_PARAMETERS,
+          message: invalid,
+          retryable: false,
+        },
+      })
+    }
+
+    const rubric = await getRubricRegistry().register(req.body)
+    res.json({ rubric })
+  }))
+
+  // Latest version of every rubric, optionally of one domain
+  app.get('/rubrics', asyncHandler(async (req: any, res: any) => {
+    const rubrics = await getRubricRegistry().list(req.query.domain)
+    res.json({ rubrics })
+  }))
+
+  // Every version of one rubric
+  app.get('/rubrics/:domain/:name', asyncHandler(async (req: any, res: any) => {
+    const versions = await getRubricRegistry().versions(req.params.domain, req.params.name)
+    if (versions.length === 0) {
+      return res.status(404).json({ error: 'Rubric not found' })
+    }
+    res.json({ versions })
   }))
 
   app.get('/health', asyncHandler(async (_req: any, res: any) => {
@@ -0,0 +1,407 @@
+/**
+ * PromptDial 3.0 - Automated Metrics
+ *
+ * Offline reference metrics (exact match, token F1, ROUGE-L, BLEU, chrF) and
+ * output format checks (JSON schema, regex), each scored from 0 to 1, plus
+ * which of them suit a task
+ */
+
+import { PromptVariant, TaskType } from '@promptdial/shared'
+
+export type ReferenceMetric = 'exact_match' | 'token_f1' | 'rouge_l' | 'bleu' | 'chrf'
+
+export type FormatMetric = 'json_schema' | 'regex_match'
+
+export type AutomatedMetric = ReferenceMetric | FormatMetric
+
+// Reference metrics that suit each task, most telling first
+export const TASK_METRICS: Record<TaskType, ReferenceMetric[]> = {
+  math_reasoning: ['exact_match', 'token_f1'],
+  code_generation: ['bleu', 'chrf'],
+  creative_writing: ['rouge_l', 'chrf'],
+  data_analysis: ['token_f1', 'rouge_l'],
+  general_qa: ['exact_match', 'token_f1'],
+  summarization: ['rouge_l', 'token_f1'],
+  translation: ['chrf', 'bleu'],
+  classification: ['exact_match', 'token_f1'],
+  general: ['token_f1', 'rouge_l'],
+}
+
+const BLEU_MAX_ORDER = 4
+
+const CHRF_MAX_ORDER = 6
+
+// chrF weighs recall this many times as much as precision
+const CHRF_BETA = 2
+
+const ARTICLES = /\b(a|an|the)\b/g
+
+/**
+ * Output format a variant's response must follow, from metadata.output_schema
+ * (a JSON schema) and metadata.output_pattern (a regular expression)
+ */
+export interface OutputConstraints {
+  schema?: JsonSchema
+  pattern?: RegExp
+}
+
+export interface JsonSchema {
+  type?: JsonType | JsonType[]
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean
+  items?: JsonSchema
+  enum?: unknown[]
+  minimum?: number
+  maximum?: number
+  minLength?: number
+  maxLength?: number
+  minItems?: number
+  maxItems?: number
+  pattern?: string
+}
+
+type JsonType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null'
+
+// ============= Selection =============
+
+/**
+ * The metrics to score a response with: the task's reference metrics when
+ * there are references, and a format check for each output constraint
+ */
+export function selectMetrics(
+  taskType: TaskType,
+  variant: PromptVariant,
+  references?: string[],
+): AutomatedMetric[] {
+  const constraints = outputConstraints(variant)
+  const formats: FormatMetric[] = [
+    ...(constraints.schema ? (['json_schema'] as const) : []),
+    ...(constraints.pattern ? (['regex_match'] as const) : []),
+  ]
+  const hasReferences = (references || []).some((reference) => reference.trim())
+  return [...(hasReferences ? TASK_METRICS[taskType] || TASK_METRICS.general : []), ...formats]
+}
+
+export function outputConstraints(variant: PromptVariant): OutputConstraints {
+  const schema = variant.metadata?.output_schema
+  return {
+    schema: typeof schema === 'object' && schema !== null ? (schema as JsonSchema) : undefined,
+    pattern: compilePattern(variant.metadata?.output_pattern),
+  }
+}
+
+// An unusable pattern is left out rather than failing every response
+function compilePattern(pattern: unknown): RegExp | undefined {
+  if (typeof pattern !== 'string') {
+    return undefined
+  }
+  try {
+    return new RegExp(pattern)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Score one reference metric, taking the best match over all references
+ */
+export function scoreAgainstReferences(
+  metric: ReferenceMetric,
+  response: string,
+  references: string[],
+): number {
+  const score = REFERENCE_METRICS[metric]
+  return references.reduce((best, reference) => Math.max(best, score(response, reference)), 0)
+}
+
+const REFERENCE_METRICS: Record<ReferenceMetric, (response: string, reference: string) => number> =
+  {
+    exact_match: exactMatch,
+    token_f1: tokenF1,
+    rouge_l: rougeL,
+    bleu,
+    chrf,
+  }
+
+// ============= Reference Metrics =============
+
+/**
+ * 1 if the response equals the reference once case, punctuation, articles and
+ * extra whitespace are ignored
+ */
+export function exactMatch(response: string, reference: string): number {
+  return normalizeAnswer(response) === normalizeAnswer(reference) ? 1 : 0
+}
+
+/**
+ * F1 of the words shared by response and reference, after normalization
+ */
+export function tokenF1(response: string, reference: string): number {
+  const responseTokens = normalizeAnswer(response).split(' ').filter(Boolean)
+  const referenceTokens = normalizeAnswer(reference).split(' ').filter(Boolean)
+  const shared = overlap(countNgrams(responseTokens, 1), countNgrams(referenceTokens, 1))
+  return fMeasure(shared, responseTokens.length, referenceTokens.length)
+}
+
+/**
+ * F1 of the longest common subsequence of words
+ */
+export function rougeL(response: string, reference: string): number {
+  const responseTokens = normalizeAnswer(response).split(' ').filter(Boolean)
+  const referenceTokens = normalizeAnswer(reference).split(' ').filter(Boolean)
+  const lcs = longestCommonSubsequence(responseTokens, referenceTokens)
+  return fMeasure(lcs, responseTokens.length, referenceTokens.length)
+}
+
+/**
+ * Sentence BLEU up to 4-grams with add-one smoothing of the higher orders
+ * (Lin & Och, 2004), so short responses are not scored 0 for lacking a 4-gram
+ */
+export function bleu(response: string, reference: string): number {
+  const responseTokens = tokenize(response)
+  const referenceTokens = tokenize(reference)
+  if (responseTokens.length === 0 || referenceTokens.length === 0) {
+    return 0
+  }
+
+  let logPrecision = 0
+  for (let n = 1; n <= BLEU_MAX_ORDER; n++) {
+    const candidate = countNgrams(responseTokens, n)
+    const matches = overlap(candidate, countNgrams(referenceTokens, n))
+    const total = Math.max(responseTokens.length - n + 1, 0)
+    const smoothing = n > 1 ? 1 : 0
+    if (matches + smoothing === 0) {
+      return 0
+    }
+    logPrecision += Math.log((matches + smoothing) / (total + smoothing)) / BLEU_MAX_ORDER
+  }
+
+  const brevityPenalty = Math.min(1, Math.exp(1 - referenceTokens.length / responseTokens.length))
+  return brevityPenalty * Math.exp(logPrecision)
+}
+
+/**
+ * Character n-gram F-score up to 6-grams with whitespace removed (Popović, 2015),
+ * which credits partly correct word forms in translations
+ */
+export function chrf(response: string, reference: string): number {
+  const responseChars = Array.from(response.replace(/\s+/g, ''))
+  const referenceChars = Array.from(reference.replace(/\s+/g, ''))
+
+  const orders = Array.from({ length: CHRF_MAX_ORDER }, (_, i) => i + 1).filter(
+    (n) => responseChars.length >= n && referenceChars.length >= n,
+  )
+  if (orders.length === 0) {
+    return response.trim() === reference.trim() ? 1 : 0
+  }
+
+  let precision = 0
+  let recall = 0
+  for (const n of orders) {
+    const matches = overlap(countNgrams(responseChars, n), countNgrams(referenceChars, n))
+    precision += matches / (responseChars.length - n + 1) / orders.length
+    recall += matches / (referenceChars.length - n + 1) / orders.length
+  }
+
+  const betaSquared = CHRF_BETA * CHRF_BETA
+  const denominator = betaSquared * precision + recall
+  return denominator > 0 ? ((1 + betaSquared) * precision * recall) / denominator : 0
+}
+
+// ============= Format Metrics =============
+
+/**
+ * 1 if the response is JSON, bare or in a code fence, that satisfies the schema
+ */
+export function jsonSchemaConformance(response: string, schema: JsonSchema): number {
+  const value = parseJson(response)
+  return value !== undefined && schemaViolations(value, schema).length === 0 ? 1 : 0
+}
+
+export function regexConformance(response: string, pattern: RegExp): number {
+  return pattern.test(response.trim()) ? 1 : 0
+}
+
+/**
+ * Where and how a value breaks the schema. Supports type, properties,
+ * required, additionalProperties, items, enum and the numeric, length and
+ * pattern bounds; other keywords are ignored.
+ */
+export function schemaViolations(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  if (schema.type && !typesOf(schema.type).some((type) => isType(value, type))) {
+    return [`${path} must be ${typesOf(schema.type).join(' or ')}`]
+  }
+  if (schema.enum && !schema.enum.some((option) => deepEqual(option, value))) {
+    return [`${path} must be one of ${JSON.stringify(schema.enum)}`]
+  }
+  return [
+    ...boundViolations(value, schema, path),
+    ...objectViolations(value, schema, path),
+    ...arrayViolations(value, schema, path),
+  ]
+}
+
+function boundViolations(value: unknown, schema: JsonSchema, path: string): string[] {
+  const checks: Array<[boolean, string]> = []
+  if (typeof value === 'number') {
+    checks.push([value >= (schema.minimum ?? -Infinity), `${path} must be >= ${schema.minimum}`])
+    checks.push([value <= (schema.maximum ?? Infinity), `${path} must be <= ${schema.maximum}`])
+  }
+  if (typeof value === 'string') {
+    checks.push(...lengthChecks(value.length, schema.minLength, schema.maxLength, path))
+    checks.push([matchesPattern(value, schema.pattern), `${path} must match ${schema.pattern}`])
+  }
+  return failed(checks)
+}
+
+function objectViolations(value: unknown, schema: JsonSchema, path: string): string[] {
+  if (!isType(value, 'object')) {
+    return []
+  }
+  const object = value as Record<string, unknown>
+  const properties = schema.properties || {}
+
+  const missing = (schema.required || [])
+    .filter((key) => !(key in object))
+    .map((key) => `${path}.${key} is required`)
+  const unexpected =
+    schema.additionalProperties === false
+      ? Object.keys(object)
+          .filter((key) => !(key in properties))
+          .map((key) => `${path}.${key} is not allowed`)
+      : []
+  const nested = Object.entries(properties)
+    .filter(([key]) => key in object)
+    .flatMap(([key, property]) => schemaViolations(object[key], property, `${path}.${key}`))
+
+  return [...missing, ...unexpected, ...nested]
+}
+
+function arrayViolations(value: unknown, schema: JsonSchema, path: string): string[] {
+  if (!Array.isArray(value)) {
+    return []
+  }
+  const items = schema.items
+  return [
+    ...failed(lengthChecks(value.length, schema.minItems, schema.maxItems, path)),
+    ...(items ? value.flatMap((item, i) => schemaViolations(item, items, `${path}[${i}]`)) : []),
+  ]
+}
+
+function lengthChecks(
+  length: number,
+  min: number | undefined,
+  max: number | undefined,
+  path: string,
+): Array<[boolean, string]> {
+  return [
+    [length >= (min ?? 0), `${path} must have a length of at least ${min}`],
+    [length <= (max ?? Infinity), `${path} must have a length of at most ${max}`],
+  ]
+}
+
+function failed(checks: Array<[boolean, string]>): string[] {
+  return checks.filter(([ok]) => !ok).map(([, message]) => message)
+}
+
+// ============= Helpers =============
+
+/**
+ * Lowercase, drop punctuation and articles and collapse whitespace, as in the
+ * SQuAD evaluation script
+ */
+export function normalizeAnswer(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(ARTICLES, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// Lowercased words and punctuation marks, which BLEU counts as tokens
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}_]+|[^\p{L}\p{N}_\s]/gu) || []
+}
+
+function countNgrams(tokens: string[], n: number): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (let i = 0; i + n <= tokens.length; i++) {
+    const ngram = tokens.slice(i, i + n).join('\u0001')
+    counts.set(ngram, (counts.get(ngram) || 0) + 1)
+  }
+  return counts
+}
+
+// Matches of the candidate's n-grams, each clipped to its count in the reference
+function overlap(candidate: Map<string, number>, reference: Map<string, number>): number {
+  let matches = 0
+  candidate.forEach((count, ngram) => {
+    matches += Math.min(count, reference.get(ngram) || 0)
+  })
+  return matches
+}
+
+function fMeasure(matches: number, responseLength: number, referenceLength: number): number {
+  if (responseLength === 0 || referenceLength === 0) {
+    return responseLength === referenceLength ? 1 : 0
+  }
+  const precision = matches / responseLength
+  const recall = matches / referenceLength
+  return precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0
+}
+
+function longestCommonSubsequence(a: string[], b: string[]): number {
+  let previous = new Array<number>(b.length + 1).fill(0)
+  for (const token of a) {
+    const current = [0]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = token === b[j - 1] ? previous[j - 1] + 1 : Math.max(previous[j], current[j - 1])
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+function parseJson(response: string): unknown {
+  const fenced = response.match(/```(?:json)?\s*\n([\s\S]*?)\n```/i)
+  for (const text of [response.trim(), fenced?.[1]]) {
+    if (text === undefined) {
+      continue
+    }
+    try {
+      return JSON.parse(text)
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return undefined
+}
+
+function typesOf(type: JsonType | JsonType[]): JsonType[] {
+  return Array.isArray(type) ? type : [type]
+}
+
+function isType(value: unknown, type: JsonType): boolean {
+  return TYPE_CHECKS[type](value)
+}
+
+const TYPE_CHECKS: Record<JsonType, (value: unknown) => boolean> = {
+  object: (value) => typeof value === 'object' && value !== null && !Array.isArray(value),
+  array: (value) => Array.isArray(value),
+  string: (value) => typeof value === 'string',
+  number: (value) => typeof value === 'number',
+  integer: (value) => Number.isInteger(value),
+  boolean: (value) => typeof value === 'boolean',
+  null: (value) => value === null,
+}
+
+function matchesPattern(value: string, pattern?: string): boolean {
+  const compiled = compilePattern(pattern)
+  return !compiled || compiled.test(value)
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
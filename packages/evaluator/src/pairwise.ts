@@ -0,0 +1,206 @@
+/**
+ * PromptDial 3.0 - Pairwise Ranking
+ *
+ * Turns A/B verdicts between responses into a ranking: each pair is judged in
+ * both orders to cancel position bias, and the outcomes are fit with a
+ * Bradley–Terry model, which separates close variants better than comparing
+ * absolute scores
+ */
+
+export type Verdict = 'A' | 'B' | 'tie'
+
+export interface PairwiseJudgment {
+  a: string // Variant shown first in the original order
+  b: string
+  verdict: Verdict // In the original order
+  swapped_verdict: Verdict // With b shown first, already mapped back to the original order
+  winner: string | null // null for a tie, including when the two orders disagree
+  consistent: boolean // Whether both orders gave the same verdict
+}
+
+export interface RankedVariant {
+  variant_id: string
+  rank: number // 1 is best
+  strength: number // Bradley–Terry strength; strengths of all variants sum to 1
+  confidence: number // Probability of beating the variant ranked next, 1 for the last
+  wins: number
+  losses: number
+  ties: number
+}
+
+export interface PairwiseRanking {
+  method: 'bradley_terry'
+  ranking: RankedVariant[]
+  judgments: PairwiseJudgment[]
+  position_consistency: number // Share of pairs judged the same in both orders
+  failed_pairs: number // Pairs left out of the fit because judging them failed
+}
+
+// Every pair is judged twice, so this already means 56 judge calls
+export const MAX_PAIRWISE_VARIANTS = 8
+
+// Pairs judged at the same time; each pair is two judge calls
+export const PAIRWISE_CONCURRENCY = 4
+
+// Virtual ties added to every judged pair, so a clean sweep has finite strength
+const PRIOR_TIES = 0.5
+
+const MAX_ITERATIONS = 200
+
+const CONVERGENCE_TOLERANCE = 1e-9
+
+/**
+ * One pair's outcome from its verdicts in the original and the swapped order
+ */
+export function combineVerdicts(
+  a: string,
+  b: string,
+  verdict: Verdict,
+  swappedVerdict: Verdict,
+): PairwiseJudgment {
+  const consistent = verdict === swappedVerdict
+  const winners: Record<Verdict, string | null> = { A: a, B: b, tie: null }
+  return {
+    a,
+    b,
+    verdict,
+    swapped_verdict: swappedVerdict,
+    winner: consistent ? winners[verdict] : null,
+    consistent,
+  }
+}
+
+/**
+ * The verdict of the swapped order, expressed in the original order
+ */
+export function unswap(verdict: Verdict): Verdict {
+  const flipped: Record<Verdict, Verdict> = { A: 'B', B: 'A', tie: 'tie' }
+  return flipped[verdict]
+}
+
+/**
+ * Rank variants by Bradley–Terry strengths fit to the judgments, counting a
+ * tie as half a win for each side
+ */
+export function rankPairwise(
+  variantIds: string[],
+  judgments: PairwiseJudgment[],
+  failedPairs = 0,
+): PairwiseRanking {
+  const strengths = bradleyTerry(variantIds, judgments)
+  const ordered = [...variantIds].sort((x, y) => strengths[y] - strengths[x])
+
+  const ranking = ordered.map((id, i) => {
+    const next = ordered[i + 1]
+    return {
+      variant_id: id,
+      rank: i + 1,
+      strength: strengths[id],
+      confidence: next ? strengths[id] / (strengths[id] + strengths[next]) : 1,
+      ...record(id, judgments),
+    }
+  })
+
+  return {
+    method: 'bradley_terry',
+    ranking,
+    judgments,
+    position_consistency:
+      judgments.length > 0
+        ? judgments.filter((judgment) => judgment.consistent).length / judgments.length
+        : 1,
+    failed_pairs: failedPairs,
+  }
+}
+
+/**
+ * Bradley–Terry strengths by the minorization–maximization updates of Hunter
+ * (2004): p_i = W_i / sum_j n_ij / (p_i + p_j), normalized to sum to 1
+ */
+export function bradleyTerry(
+  variantIds: string[],
+  judgments: PairwiseJudgment[],
+): Record<string, number> {
+  const wins = winMatrix(variantIds, judgments)
+  let strengths = Object.fromEntries(variantIds.map((id) => [id, 1 / variantIds.length]))
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const updated = Object.fromEntries(
+      variantIds.map((i) => [i, updatedStrength(i, variantIds, wins, strengths)]),
+    )
+    const total = Object.values(updated).reduce((sum, p) => sum + p, 0)
+    variantIds.forEach((id) => (updated[id] = total > 0 ? updated[id] / total : strengths[id]))
+
+    const change = Math.max(...variantIds.map((id) => Math.abs(updated[id] - strengths[id])))
+    strengths = updated
+    if (change < CONVERGENCE_TOLERANCE) {
+      break
+    }
+  }
+
+  return strengths
+}
+
+function updatedStrength(
+  i: string,
+  variantIds: string[],
+  wins: Map<string, Map<string, number>>,
+  strengths: Record<string, number>,
+): number {
+  let totalWins = 0
+  let denominator = 0
+  for (const j of variantIds) {
+    const games = wins.get(i)!.get(j)! + wins.get(j)!.get(i)!
+    if (i !== j && games > 0) {
+      totalWins += wins.get(i)!.get(j)!
+      denominator += games / (strengths[i] + strengths[j])
+    }
+  }
+  // A variant that was never judged keeps its strength
+  return denominator > 0 ? totalWins / denominator : strengths[i]
+}
+
+// wins[i][j]: wins of i over j, with ties and the prior counted as half a win each
+function winMatrix(
+  variantIds: string[],
+  judgments: PairwiseJudgment[],
+): Map<string, Map<string, number>> {
+  const wins = new Map(variantIds.map((i) => [i, new Map(variantIds.map((j) => [j, 0]))]))
+  const add = (winner: string, loser: string, amount: number) => {
+    const row = wins.get(winner)
+    if (row?.has(loser)) {
+      row.set(loser, row.get(loser)! + amount)
+    }
+  }
+
+  const judgedPairs = new Set<string>()
+  for (const { a, b, winner } of judgments) {
+    const loser = winner === a ? b : a
+    if (winner) {
+      add(winner, loser, 1)
+    } else {
+      add(a, b, 0.5)
+      add(b, a, 0.5)
+    }
+    judgedPairs.add([a, b].sort().join('\u0000'))
+  }
+
+  judgedPairs.forEach((pair) => {
+    const [a, b] = pair.split('\u0000')
+    add(a, b, PRIOR_TIES / 2)
+    add(b, a, PRIOR_TIES / 2)
+  })
+  return wins
+}
+
+function record(
+  id: string,
+  judgments: PairwiseJudgment[],
+): Pick<RankedVariant, 'wins' | 'losses' | 'ties'> {
+  const own = judgments.filter((judgment) => judgment.a === id || judgment.b === id)
+  return {
+    wins: own.filter((judgment) => judgment.winner === id).length,
+    losses: own.filter((judgment) => judgment.winner && judgment.winner !== id).length,
+    ties: own.filter((judgment) => !judgment.winner).length,
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * PromptDial 3.0 - Rubric Registry
+ *
+ * Custom G-EVAL rubrics, registered by name per domain so teams can score
+ * responses against their own style and compliance standards. Registering a
+ * changed rubric under a taken name adds a version; every version stays
+ * resolvable as `name@version`, so past scores remain reproducible.
+ */
+
+import { EvaluationRubric, JsonFileStore, createLogger } from '@promptdial/shared'
+
+const logger = createLogger('rubric-registry')
+
+export const DEFAULT_RUBRIC_DOMAIN = 'general'
+
+export interface RubricRecord extends EvaluationRubric {
+  domain: string
+  extends_defaults: boolean
+  version: number // Starts at 1 and increases each time the rubric changes
+  created_at: string // ISO timestamp of this version
+}
+
+interface PersistedRubrics {
+  rubrics: RubricRecord[]
+}
+
+export class RubricRegistry {
+  private rubrics: Map<string, RubricRecord[]> = new Map() // Versions, oldest first
+  private store: JsonFileStore<PersistedRubrics>
+  private ready: Promise<void> | null = null
+
+  /**
+   * @param file JSON file the registry persists to; kept in memory when unset
+   */
+  constructor(file?: string) {
+    this.store = new JsonFileStore(file)
+  }
+
+  /**
+   * Register a rubric, as a new version if its domain already has one of that
+   * name; re-registering the latest version unchanged returns it as is
+   */
+  async register(rubric: EvaluationRubric): Promise<RubricRecord> {
+    await this.initialize()
+
+    const domain = rubric.domain || DEFAULT_RUBRIC_DOMAIN
+    const versions = this.rubrics.get(rubricKey(domain, rubric.name)) || []
+    const latest = versions[versions.length - 1]
+    const record: RubricRecord = {
+      name: rubric.name,
+      domain,
+      criteria: rubric.criteria,
+      extends_defaults: rubric.extends_defaults === true,
+      version: (latest?.version || 0) + 1,
+      created_at: new Date().toISOString(),
+    }
+    if (latest && sameRubric(latest, record)) {
+      return latest
+    }
+
+    this.rubrics.set(rubricKey(domain, rubric.name), [...versions, record])
+    await this.save()
+    logger.info(`Registered rubric ${domain}/${rubric.name}@${record.version}`)
+    return record
+  }
+
+  /**
+   * One version of a rubric, the latest when none is given
+   */
+  async get(domain: string, name: string, version?: number): Promise<RubricRecord | undefined> {
+    const versions = await this.versions(domain, name)
+    return version === undefined
+      ? versions[versions.length - 1]
+      : versions.find((record) => record.version === version)
+  }
+
+  async versions(domain: string, name: string): Promise<RubricRecord[]> {
+    await this.initialize()
+    return this.rubrics.get(rubricKey(domain, name)) || []
+  }
+
+  /**
+   * The latest version of every rubric, optionally of one domain
+   */
+  async list(domain?: string): Promise<RubricRecord[]> {
+    await this.initialize()
+    return Array.from(this.rubrics.values())
+      .map((versions) => versions[versions.length - 1])
+      .filter((record) => !domain || record.domain === domain)
+  }
+
+  /**
+   * The rubric a reference of the form `name` or `name@version` points to,
+   * looked up in the task's domain and then in the general one
+   */
+  async resolve(reference: string, domain: string): Promise<RubricRecord | undefined> {
+    const { name, version } = parseRubricReference(reference)
+    const own = await this.get(domain, name, version)
+    return own || this.get(DEFAULT_RUBRIC_DOMAIN, name, version)
+  }
+
+  // ============= Persistence =============
+
+  private initialize(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.load().catch((error) => {
+        this.ready = null
+        throw error
+      })
+    }
+    return this.ready
+  }
+
+  private async load(): Promise<void> {
+    const persisted = await this.store.read()
+    persisted?.rubrics.forEach((record) => {
+      const key = rubricKey(record.domain, record.name)
+      this.rubrics.set(key, [...(this.rubrics.get(key) || []), record])
+    })
+    if (persisted) {
+      logger.info(`Loaded ${persisted.rubrics.length} rubric versions from ${this.store.file}`)
+    }
+  }
+
+  private save(): Promise<void> {
+    return this.store.write({ rubrics: Array.from(this.rubrics.values()).flat() })
+  }
+}
+
+function rubricKey(domain: string, name: string): string {
+  return `${domain}/${name}`
+}
+
+function sameRubric(a: RubricRecord, b: RubricRecord): boolean {
+  return (
+    a.extends_defaults === b.extends_defaults &&
+    JSON.stringify(a.criteria) === JSON.stringify(b.criteria)
+  )
+}
+
+/**
+ * The name and, when pinned, the version of a rubric reference
+ */
+export function parseRubricReference(reference: string): { name: string; version?: number } {
+  const match = reference.match(/^(.+)@(\d+)$/)
+  return match ? { name: match[1], version: parseInt(match[2], 10) } : { name: reference }
+}
+
+/**
+ * How an evaluation names the rubric it was judged by: `domain/name@version`
+ * for registered rubrics, the bare name for inline ones
+ */
+export function rubricLabel(rubric: EvaluationRubric | RubricRecord): string {
+  return 'version' in rubric ? `${rubric.domain}/${rubric.name}@${rubric.version}` : rubric.name
+}
+
+// ============= Shared Registry =============
+
+let rubricRegistry: RubricRegistry | null = null
+
+export function getRubricRegistry(): RubricRegistry {
+  if (!rubricRegistry) {
+    rubricRegistry = new RubricRegistry(process.env.PROMPTDIAL_RUBRIC_REGISTRY_PATH)
+  }
+  return rubricRegistry
+}
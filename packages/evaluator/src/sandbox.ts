@@ -0,0 +1,149 @@
+/**
+ * PromptDial 3.0 - Code Sandbox
+ *
+ * Runs untrusted JavaScript in a sandboxed worker process, inside a `vm`
+ * context without `require`, `process` or timers, with every script and
+ * test call limited in time.
+ */
+
+import { CodeTestCase, exceededMemory, runSandboxedWorker } from '@promptdial/shared'
+
+export interface SandboxLimits {
+  timeout_ms: number // Per script: the code itself and each test call
+  memory_mb: number // Heap limit of the worker process
+}
+
+export const DEFAULT_SANDBOX_LIMITS: SandboxLimits = {
+  timeout_ms: 2000,
+  memory_mb: 64,
+}
+
+export interface SandboxError {
+  name: string
+  message: string
+  timeout?: boolean
+}
+
+export interface TestRun {
+  value?: string // JSON of what `call` returned
+  output: string // Everything printed, one line per console call
+  error?: SandboxError
+}
+
+export interface SandboxRun {
+  error?: SandboxError // The code itself failed, so no test ran
+  memory_exceeded?: boolean
+  tests: TestRun[]
+}
+
+// Time the worker process gets on top of its script limits before it is killed
+const PROCESS_OVERHEAD_MS = 1000
+
+// Plain JavaScript, passed to `node -e` so the sandbox runs the same from source and dist
+const WORKER_SOURCE = `
+const vm = require('vm')
+
+function describe(error) {
+  const err = error || {}
+  return {
+    name: String(err.name || 'Error'),
+    message: String(err.message || err),
+    timeout: err.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT',
+  }
+}
+
+function settle(value, timeout) {
+  if (!value || typeof value.then !== 'function') {
+    return Promise.resolve(value)
+  }
+  let timer
+  const expired = new Promise((_, reject) => {
+    timer = setTimeout(
+      () => reject({ name: 'Error', message: 'Promise did not settle', code: 'ERR_SCRIPT_EXECUTION_TIMEOUT' }),
+      timeout,
+    )
+  })
+  return Promise.race([value, expired]).finally(() => clearTimeout(timer))
+}
+
+async function main(input) {
+  const { code, tests, timeout } = JSON.parse(input)
+  const output = []
+  const print = (...args) => output.push(args.map(String).join(' '))
+  const module = { exports: {} }
+  const context = vm.createContext({
+    console: { log: print, info: print, warn: print, error: print },
+    module,
+    exports: module.exports,
+  })
+
+  try {
+    vm.runInContext(code, context, { timeout })
+  } catch (error) {
+    return { error: describe(error), tests: [] }
+  }
+
+  const printedByCode = output.length
+  const runs = []
+  for (const test of tests) {
+    output.length = printedByCode
+    try {
+      const value = test.call ? await settle(vm.runInContext(test.call, context, { timeout }), timeout) : undefined
+      runs.push({ value: JSON.stringify(value), output: output.join('\\n') })
+    } catch (error) {
+      runs.push({ output: output.join('\\n'), error: describe(error) })
+    }
+  }
+  return { tests: runs }
+}
+
+let input = ''
+process.stdin.on('data', (chunk) => (input += chunk))
+process.stdin.on('end', () =>
+  main(input).then((result) => {
+    process.stdout.write(JSON.stringify(result))
+    process.exit(0)
+  }),
+)
+`
+
+/**
+ * Run code and then each test's call in a fresh worker process
+ */
+export async function runInSandbox(
+  code: string,
+  tests: CodeTestCase[],
+  limits: SandboxLimits = DEFAULT_SANDBOX_LIMITS,
+): Promise<SandboxRun> {
+  const exit = await runSandboxedWorker(
+    WORKER_SOURCE,
+    JSON.stringify({ code, tests, timeout: limits.timeout_ms }),
+    {
+      memory_mb: limits.memory_mb,
+      deadline_ms: limits.timeout_ms * (tests.length + 1) + PROCESS_OVERHEAD_MS,
+    },
+  )
+  if (exit.spawn_error) {
+    return { error: { name: 'SandboxError', message: exit.spawn_error }, tests: [] }
+  }
+  return parseRun(exit.stdout, exit.stderr)
+}
+
+// A worker that printed nothing ran out of memory or was killed at the deadline
+function parseRun(stdout: string, stderr: string): SandboxRun {
+  try {
+    return JSON.parse(stdout) as SandboxRun
+  } catch {
+    if (exceededMemory(stderr)) {
+      return {
+        error: { name: 'RangeError', message: 'Memory limit exceeded' },
+        memory_exceeded: true,
+        tests: [],
+      }
+    }
+    return {
+      error: { name: 'Error', message: 'Sandbox process was killed', timeout: true },
+      tests: [],
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  FeedbackSample,
+  MIN_FEEDBACK_SAMPLES,
+  ScoreAggregator,
+  fitStackingWeights,
+  loadWeightConfig,
+  projectOntoSimplex,
+} from '../src/aggregation'
+
+// Mock logger
+vi.mock('@promptdial/shared', async () => {
+  const actual = await vi.importActual('@promptdial/shared')
+  return {
+    ...actual,
+    createLogger: () => ({
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    }),
+  }
+})
+
+// Humans agree with G-EVAL; self-consistency says 0.5 whatever the response
+const feedback = (taskType: string, count = MIN_FEEDBACK_SAMPLES): FeedbackSample[] =>
+  Array.from({ length: count }, (_, i) => ({
+    task_type: taskType,
+    evaluator_scores: { g_eval: i / count, self_consistency: 0.5, relevance: 1 },
+    human_score: i / count,
+  }))
+
+describe('ScoreAggregator', () => {
+  it('should weight evaluators by their configured trust', () => {
+    const aggregator = new ScoreAggregator()
+
+    // g_eval counts three times as much as self_consistency; criterion scores not at all
+    expect(
+      aggregator.aggregate({ g_eval: 0.8, self_consistency: 0.4, relevance: 0 }, 'general_qa'),
+    ).toBeCloseTo(0.7, 10)
+  })
+
+  it('should apply task-specific and configured weights', () => {
+    const aggregator = new ScoreAggregator({
+      default: { self_consistency: 3 },
+      tasks: { code_generation: { g_eval: 0 } },
+    })
+    const scores = { g_eval: 1, self_consistency: 0, code_correctness: 0.5 }
+
+    expect(aggregator.aggregate(scores, 'general_qa')).toBeCloseTo((3 + 2) / 10, 10)
+    expect(aggregator.aggregate(scores, 'code_generation')).toBeCloseTo(3 / 9, 10)
+    expect(aggregator.weights('general_qa').weights.self_consistency).toBeCloseTo(3 / 16, 10)
+  })
+
+  it('should fall back to the plain mean when no score has a weight', () => {
+    expect(new ScoreAggregator().aggregate({ tone: 1, clarity: 0.5 }, 'general')).toBe(0.75)
+  })
+
+  it('should learn weights once a task type has enough feedback', () => {
+    const aggregator = new ScoreAggregator()
+
+    aggregator.fit([...feedback('general_qa'), ...feedback('translation', 5)])
+
+    const learned = aggregator.weights('general_qa')
+    expect(learned).toMatchObject({ method: 'linear_stacking', samples: MIN_FEEDBACK_SAMPLES })
+    expect(learned.weights.g_eval).toBeGreaterThan(3 / 16)
+    expect(learned.weights.self_consistency).toBeLessThan(1 / 16)
+    expect(aggregator.weights('translation').method).toBe('configured')
+
+    // The learned weights now decide, the same way every time
+    const scores = { g_eval: 0.9, self_consistency: 0.1 }
+    const final = aggregator.aggregate(scores, 'general_qa')
+    expect(final).toBeGreaterThan(new ScoreAggregator().aggregate(scores, 'general_qa'))
+    expect(aggregator.aggregate(scores, 'general_qa')).toBe(final)
+  })
+})
+
+describe('fitStackingWeights', () => {
+  it('should return weights summing to 1 and keep the share of unseen evaluators', () => {
+    const weights = fitStackingWeights(feedback('general_qa'), {
+      g_eval: 1,
+      self_consistency: 1,
+      code_correctness: 2,
+    })
+
+    expect(Object.values(weights).reduce((sum, w) => sum + w, 0)).toBeCloseTo(1, 10)
+    expect(weights.code_correctness).toBeCloseTo(0.5, 10)
+    expect(weights.g_eval).toBeGreaterThan(weights.self_consistency)
+    expect(fitStackingWeights(feedback('general_qa'), { g_eval: 1, self_consistency: 1 })).toEqual(
+      fitStackingWeights(feedback('general_qa'), { g_eval: 1, self_consistency: 1 }),
+    )
+  })
+
+  it('should project onto the probability simplex', () => {
+    expect(projectOntoSimplex([0.5, 0.5])).toEqual([0.5, 0.5])
+    expect(projectOntoSimplex([2, 0])).toEqual([1, 0])
+    const projected = projectOntoSimplex([0.6, 0.6, -0.4])
+    expect(projected[0]).toBeCloseTo(0.5, 10)
+    expect(projected[1]).toBeCloseTo(0.5, 10)
+    expect(projected[2]).toBe(0)
+  })
+})
+
+describe('loadWeightConfig', () => {
+  it('should read a JSON weight configuration', () => {
+    expect(loadWeightConfig('{"tasks": {"general_qa": {"g_eval": 2}}}')).toEqual({
+      tasks: { general_qa: { g_eval: 2 } },
+    })
+  })
+
+  it('should ignore an invalid configuration', () => {
+    expect(loadWeightConfig('{"default": {"g_eval": -1}}')).toEqual({})
+    expect(loadWeightConfig('{"tasks": {"poetry": {}}}')).toEqual({})
+    expect(loadWeightConfig('not json')).toEqual({})
+    expect(loadWeightConfig(undefined)).toEqual({})
+  })
+})
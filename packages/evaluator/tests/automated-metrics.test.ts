@@ -0,0 +1,179 @@
+import { describe, it, expect, vi } from 'vitest'
+import { AutomatedMetricsEvaluator } from '../src/evaluators/automated-metrics'
+import {
+  bleu,
+  chrf,
+  exactMatch,
+  jsonSchemaConformance,
+  regexConformance,
+  rougeL,
+  schemaViolations,
+  scoreAgainstReferences,
+  selectMetrics,
+  tokenF1,
+} from '../src/metrics'
+import { createTestPromptVariant, createTestTaskClassification } from '@promptdial/shared'
+
+// Mock logger
+vi.mock('@promptdial/shared', async () => {
+  const actual = await vi.importActual('@promptdial/shared')
+  return {
+    ...actual,
+    createLogger: () => ({
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    }),
+  }
+})
+
+const SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    sentiment: { type: 'string' as const, enum: ['positive', 'negative'] },
+    confidence: { type: 'number' as const, minimum: 0, maximum: 1 },
+  },
+  required: ['sentiment'],
+  additionalProperties: false,
+}
+
+describe('Automated metrics', () => {
+  describe('reference metrics', () => {
+    it('should match answers that differ only in case, punctuation and articles', () => {
+      expect(exactMatch('The Eiffel Tower.', 'eiffel tower')).toBe(1)
+      expect(exactMatch('The Eiffel Tower', 'Big Ben')).toBe(0)
+    })
+
+    it('should give partial credit for shared words', () => {
+      expect(tokenF1('Paris is the capital', 'Paris')).toBeCloseTo(0.5, 5)
+      expect(tokenF1('Paris', 'Paris')).toBe(1)
+      expect(tokenF1('London', 'Paris')).toBe(0)
+    })
+
+    it('should score word order with ROUGE-L', () => {
+      expect(rougeL('the cat sat on the mat', 'the cat sat on the mat')).toBe(1)
+      expect(rougeL('cat sat mat', 'cat sat on mat')).toBeCloseTo(6 / 7, 5)
+      expect(rougeL('mat on sat cat', 'cat sat on mat')).toBeLessThan(0.5)
+    })
+
+    it('should score identical text as perfect BLEU and penalize short output', () => {
+      const reference = 'the quick brown fox jumps over the lazy dog'
+
+      expect(bleu(reference, reference)).toBeCloseTo(1, 5)
+      expect(bleu('the quick brown fox', reference)).toBeLessThan(0.5)
+      expect(bleu('', reference)).toBe(0)
+    })
+
+    it('should credit partly correct word forms with chrF', () => {
+      const reference = 'Die Katze sitzt auf der Matte'
+
+      expect(chrf(reference, reference)).toBeCloseTo(1, 5)
+      expect(chrf('Die Katzen sitzen auf der Matte', reference)).toBeGreaterThan(
+        chrf('Der Hund liegt im Garten', reference),
+      )
+    })
+
+    it('should take the best match over several references', () => {
+      expect(scoreAgainstReferences('exact_match', 'Paris', ['London', 'paris'])).toBe(1)
+      expect(scoreAgainstReferences('token_f1', 'Paris', [])).toBe(0)
+    })
+  })
+
+  describe('format metrics', () => {
+    it('should accept JSON that satisfies the schema, bare or fenced', () => {
+      expect(jsonSchemaConformance('{"sentiment": "positive", "confidence": 0.9}', SCHEMA)).toBe(1)
+      expect(jsonSchemaConformance('```json\n{"sentiment": "negative"}\n```', SCHEMA)).toBe(1)
+    })
+
+    it('should reject invalid JSON and schema violations', () => {
+      expect(jsonSchemaConformance('The sentiment is positive', SCHEMA)).toBe(0)
+      expect(
+        schemaViolations({ sentiment: 'neutral', confidence: 2, extra: true }, SCHEMA),
+      ).toEqual([
+        '$.extra is not allowed',
+        '$.sentiment must be one of ["positive","negative"]',
+        '$.confidence must be <= 1',
+      ])
+      expect(schemaViolations({}, SCHEMA)).toEqual(['$.sentiment is required'])
+      expect(schemaViolations([1, 'two'], { type: 'array', items: { type: 'integer' } })).toEqual([
+        '$[1] must be integer',
+      ])
+    })
+
+    it('should check the trimmed response against a pattern', () => {
+      expect(regexConformance('  2024-01-31\n', /^\d{4}-\d{2}-\d{2}$/)).toBe(1)
+      expect(regexConformance('January 31st', /^\d{4}-\d{2}-\d{2}$/)).toBe(0)
+    })
+  })
+
+  describe('selectMetrics', () => {
+    it('should pick reference metrics by task type', () => {
+      const variant = createTestPromptVariant()
+
+      expect(selectMetrics('translation', variant, ['ref'])).toEqual(['chrf', 'bleu'])
+      expect(selectMetrics('summarization', variant, ['ref'])).toEqual(['rouge_l', 'token_f1'])
+      expect(selectMetrics('general_qa', variant, ['ref'])).toEqual(['exact_match', 'token_f1'])
+    })
+
+    it('should add format checks from the variant and skip blank references', () => {
+      const variant = createTestPromptVariant({
+        metadata: { output_schema: SCHEMA, output_pattern: '^\\{' },
+      })
+
+      expect(selectMetrics('classification', variant, [' '])).toEqual([
+        'json_schema',
+        'regex_match',
+      ])
+      expect(selectMetrics('general', createTestPromptVariant())).toEqual([])
+    })
+
+    it('should ignore an output pattern that does not compile', () => {
+      const variant = createTestPromptVariant({ metadata: { output_pattern: '([' } })
+
+      expect(selectMetrics('general', variant)).toEqual([])
+    })
+  })
+})
+
+describe('AutomatedMetricsEvaluator', () => {
+  const evaluator = new AutomatedMetricsEvaluator()
+
+  it('should be an offline evaluator that uses references', () => {
+    expect(evaluator.getName()).toBe('automated_metrics')
+    expect(evaluator.requiresLLM()).toBe(false)
+    expect(evaluator.requiresReference()).toBe(true)
+  })
+
+  it('should report each selected metric and their mean', async () => {
+    const result = await evaluator.evaluate(
+      createTestPromptVariant(),
+      'Paris is the capital',
+      createTestTaskClassification({ task_type: 'general_qa' }),
+      ['Paris'],
+    )
+
+    expect(result.scores).toEqual({
+      automated_metrics: 0.25,
+      exact_match: 0,
+      token_f1: 0.5,
+    })
+  })
+
+  it('should score format conformance without references', async () => {
+    const variant = createTestPromptVariant({ metadata: { output_schema: SCHEMA } })
+    const result = await evaluator.evaluate(
+      variant,
+      '{"sentiment": "positive"}',
+      createTestTaskClassification({ task_type: 'classification' }),
+    )
+
+    expect(result.scores).toEqual({ automated_metrics: 1, json_schema: 1 })
+  })
+
+  it('should fail when there is nothing to score against', async () => {
+    await expect(
+      evaluator.evaluate(createTestPromptVariant(), 'Anything', createTestTaskClassification()),
+    ).rejects.toThrow('No references or output format')
+  })
+})
@@ -1,8 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
+import axios from 'axios'
 import { BaseEvaluator, EvaluatorConfig } from '../src/evaluators/base'
 import { createTestPromptVariant, createTestTaskClassification } from '@promptdial/shared'
 import type { PromptVariant, TaskClassification, EvaluationResult } from '@promptdial/shared'
 
+import { handleRunVariantRequest } from '../../llm-runner/src/index'
+
 // Mock logger
 vi.mock('@promptdial/shared', async () => {
   const actual = await vi.importActual('@promptdial/shared')
@@ -17,6 +20,8 @@ vi.mock('@promptdial/shared', async () => {
   }
 })
 
+vi.mock('axios')
+
 // Concrete implementation for testing
 class TestEvaluator extends BaseEvaluator {
   async evaluate(
@@ -235,4 +240,31 @@ describe('BaseEvaluator', () => {
       expect(result.scores).toEqual({ test: 0.8 })
     })
   })
+
+  describe('runLLM', () => {
+    it('should read the answer from the LLM Runner /run handler', async () => {
+      delete process.env.OPENAI_API_KEY
+      delete process.env.ANTHROPIC_API_KEY
+      delete process.env.GOOGLE_AI_API_KEY
+      process.env.MOCK_LLM_ENABLED = 'true'
+      // Bodies cross the wire as JSON, as they would through express
+      vi.mocked(axios).post.mockImplementation(async (url: string, body: any) => ({
+        data: await handleRunVariantRequest(JSON.parse(JSON.stringify(body))),
+      }))
+
+      const result = await evaluator['runLLM'](
+        createTestPromptVariant({ technique: 'g_eval', prompt: 'Rate this' }),
+        'trace-123',
+      )
+
+      expect(vi.mocked(axios).post).toHaveBeenCalledWith(
+        'http://localhost:4004/run',
+        expect.anything(),
+        expect.any(Object),
+      )
+      expect(result.response).toMatch(/^\[mock:g_eval:[0-9a-f]+\] Score: 7\/10$/)
+
+      delete process.env.MOCK_LLM_ENABLED
+    })
+  })
 })
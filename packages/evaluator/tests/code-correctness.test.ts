@@ -0,0 +1,164 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  CodeCorrectnessEvaluator,
+  MAX_CODE_CANDIDATES,
+  extractCodeBlocks,
+  passAtK,
+} from '../src/evaluators/code-correctness'
+import { runInSandbox } from '../src/sandbox'
+import { createTestPromptVariant, createTestTaskClassification } from '@promptdial/shared'
+
+// Mock logger
+vi.mock('@promptdial/shared', async () => {
+  const actual = await vi.importActual('@promptdial/shared')
+  return {
+    ...actual,
+    createLogger: () => ({
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    }),
+  }
+})
+
+const LIMITS = { timeout_ms: 200, memory_mb: 32 }
+
+const TESTS = [
+  { name: 'adds', call: 'add(2, 3)', expected: 5 },
+  { name: 'negatives', call: 'add(-1, -1)', expected: -2 },
+]
+
+const fence = (code: string, language = 'javascript') => '```' + language + '\n' + code + '\n```'
+
+describe('Code sandbox', () => {
+  it('should return values and printed output of test calls', async () => {
+    const run = await runInSandbox(
+      'console.log("loaded")\nfunction add(a, b) { console.log("adding"); return a + b }',
+      [{ call: 'add(1, 2)' }, { call: 'add(2, 2)' }],
+      LIMITS,
+    )
+
+    expect(run.error).toBeUndefined()
+    expect(run.tests).toEqual([
+      { value: '3', output: 'loaded\nadding' },
+      { value: '4', output: 'loaded\nadding' },
+    ])
+  })
+
+  it('should stop code that runs too long', async () => {
+    const run = await runInSandbox('while (true) {}', [{ call: '1' }], LIMITS)
+
+    expect(run.error?.timeout).toBe(true)
+  })
+
+  it('should not expose require, process or code generation', async () => {
+    const run = await runInSandbox(
+      '',
+      [
+        { call: 'typeof require + typeof process' },
+        { call: 'console.log.constructor("return process")()' },
+      ],
+      LIMITS,
+    )
+
+    expect(run.tests[0].value).toBe('"undefinedundefined"')
+    expect(run.tests[1].error?.name).toBe('EvalError')
+  })
+})
+
+describe('CodeCorrectnessEvaluator', () => {
+  const evaluator = new CodeCorrectnessEvaluator(LIMITS)
+  const taskMeta = createTestTaskClassification({ task_type: 'code_generation' })
+
+  it('should extract fenced code blocks with their language', () => {
+    expect(extractCodeBlocks('Try:\n```JS\nf()\n```\nor\n```\ng()\n```')).toEqual([
+      { language: 'js', code: 'f()\n' },
+      { language: '', code: 'g()\n' },
+    ])
+  })
+
+  it('should compute pass@k over candidates', () => {
+    expect(passAtK(1, 1, 1)).toBe(1)
+    expect(passAtK(4, 1, 1)).toBeCloseTo(0.25, 5)
+    expect(passAtK(4, 1, 2)).toBeCloseTo(0.5, 5)
+    expect(passAtK(4, 0, 2)).toBe(0)
+  })
+
+  it('should score code that passes every test', async () => {
+    const response = `Here you go:\n${fence('export function add(a, b) {\n  return a + b\n}')}`
+
+    const result = await evaluator.evaluate(createTestPromptVariant(), response, taskMeta, [], {
+      tests: TESTS,
+    })
+
+    expect(result.scores).toEqual({ code_correctness: 1 })
+    expect(result.code_execution).toEqual({
+      candidates: 1,
+      passed: 1,
+      k: 1,
+      pass_at_k: 1,
+      tests_passed: 2,
+      tests_total: 2,
+      errors: {},
+      skipped: 0,
+    })
+  })
+
+  it('should categorize failures and score pass@k over several candidates', async () => {
+    const response = [
+      fence('function add(a, b) { return a - b }'),
+      fence('function add(a, b) { return a + b'),
+      fence('const add = (a, b) => a + b', 'js'),
+    ].join('\n')
+
+    const result = await evaluator.evaluate(createTestPromptVariant(), response, taskMeta, [], {
+      tests: TESTS,
+      pass_k: 2,
+    })
+
+    expect(result.code_execution).toMatchObject({
+      candidates: 3,
+      passed: 1,
+      k: 2,
+      tests_passed: 2,
+      errors: { wrong_answer: 2, syntax_error: 2 },
+    })
+    expect(result.scores?.code_correctness).toBeCloseTo(2 / 3, 5)
+  })
+
+  it('should run at most a limited number of candidates and count the rest as skipped', async () => {
+    const response = Array.from({ length: MAX_CODE_CANDIDATES + 2 }, () =>
+      fence('function add(a, b) { return a + b }'),
+    ).join('\n')
+
+    const result = await evaluator.evaluate(createTestPromptVariant(), response, taskMeta, [], {
+      tests: TESTS,
+    })
+
+    expect(result.code_execution).toMatchObject({
+      candidates: MAX_CODE_CANDIDATES,
+      passed: MAX_CODE_CANDIDATES,
+      skipped: 2,
+    })
+  })
+
+  it('should report responses without runnable code', async () => {
+    const result = await evaluator.evaluate(
+      createTestPromptVariant(),
+      fence('def add(a, b):\n    return a + b', 'python'),
+      taskMeta,
+      [],
+      { tests: TESTS },
+    )
+
+    expect(result.scores).toEqual({ code_correctness: 0 })
+    expect(result.code_execution?.errors).toEqual({ unsupported_language: 2 })
+  })
+
+  it('should fail without test cases', async () => {
+    await expect(
+      evaluator.evaluate(createTestPromptVariant(), fence('1'), taskMeta, [], {}),
+    ).rejects.toThrow('No test cases')
+  })
+})
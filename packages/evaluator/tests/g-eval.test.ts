@@ -52,7 +52,10 @@ describe('GEvalEvaluator', () => {
 
         return Promise.resolve({
           data: {
-            response: `Based on the evaluation criteria, I would rate this response as ${score}/10.`,
+            success: true,
+            data: {
+              content: `Based on the evaluation criteria, I would rate this response as ${score}/10.`,
+            },
           },
         })
       })
@@ -99,7 +102,7 @@ describe('GEvalEvaluator', () => {
       mockAxios.post.mockImplementation(() => {
         const response = scoreFormats[formatIndex % scoreFormats.length]
         formatIndex++
-        return Promise.resolve({ data: { response } })
+        return Promise.resolve({ data: { success: true, data: { content: response } } })
       })
 
       const variant = createTestPromptVariant()
@@ -114,9 +117,7 @@ describe('GEvalEvaluator', () => {
 
     it('should use default score when parsing fails', async () => {
       mockAxios.post.mockResolvedValue({
-        data: {
-          response: 'This response contains no numeric score',
-        },
+        data: { success: true, data: { content: 'This response contains no numeric score' } },
       })
 
       const variant = createTestPromptVariant()
@@ -135,7 +136,7 @@ describe('GEvalEvaluator', () => {
       mockAxios.post.mockImplementation((url: string, data: any) => {
         capturedPrompts.push(data.messages?.[0]?.content || '')
         return Promise.resolve({
-          data: { response: 'Score: 8/10' },
+          data: { success: true, data: { content: 'Score: 8/10' } },
         })
       })
 
@@ -166,7 +167,7 @@ describe('GEvalEvaluator', () => {
           capturedPrompt = data.messages?.[0]?.content || ''
         }
         return Promise.resolve({
-          data: { response: 'Score: 9/10' },
+          data: { success: true, data: { content: 'Score: 9/10' } },
         })
       })
 
@@ -188,7 +189,7 @@ describe('GEvalEvaluator', () => {
       mockAxios.post.mockImplementation(() => {
         const score = criterionScores[scoreIndex++]
         return Promise.resolve({
-          data: { response: `Score: ${score}/10` },
+          data: { success: true, data: { content: `Score: ${score}/10` } },
         })
       })
 
@@ -201,6 +202,52 @@ describe('GEvalEvaluator', () => {
       // Mean of scores normalized to 0-1
       expect(result.scores!.g_eval).toBe(0.8) // 8/10
     })
+
+    it('should score a custom rubric by its weighted criteria', async () => {
+      process.env.OPENAI_API_KEY = 'test-key'
+      const capturedPrompts: string[] = []
+
+      mockAxios.post.mockImplementation((url: string, data: any) => {
+        const prompt: string = data.payload.variant.prompt
+        capturedPrompts.push(prompt)
+        const score = prompt.includes('EVALUATION CRITERION: tone') ? 10 : 1
+        return Promise.resolve({ data: { success: true, data: { content: `SCORE: ${score}` } } })
+      })
+
+      const result = await evaluator.evaluate(
+        createTestPromptVariant(),
+        'Test response',
+        createTestTaskClassification(),
+        [],
+        {
+          rubric: {
+            name: 'house-style',
+            criteria: [
+              {
+                name: 'tone',
+                description: 'Follows the brand voice',
+                anchors: [
+                  { score: 10, description: 'Unmistakably on brand' },
+                  { score: 1, description: 'Formal or full of jargon' },
+                ],
+                weight: 3,
+              },
+              {
+                name: 'disclaimers',
+                description: 'Carries the required legal disclaimers',
+                anchors: [{ score: 1, description: 'No disclaimer' }],
+              },
+            ],
+          },
+        },
+      )
+
+      expect(capturedPrompts).toHaveLength(2)
+      expect(capturedPrompts[0]).toContain('1: Formal or full of jargon\n10: Unmistakably on brand')
+      expect(result.scores).toEqual({ g_eval: 0.75, tone: 1, disclaimers: 0 })
+
+      delete process.env.OPENAI_API_KEY
+    })
   })
 
   describe('configuration', () => {
@@ -222,7 +269,7 @@ describe('GEvalEvaluator', () => {
       process.env.OPENAI_API_KEY = 'test-key'
 
       mockAxios.post.mockResolvedValue({
-        data: { response: 'Score: 8/10' },
+        data: { success: true, data: { content: 'Score: 8/10' } },
       })
 
       const variant = createTestPromptVariant()
@@ -245,7 +292,7 @@ describe('GEvalEvaluator', () => {
       process.env.OPENAI_RUNNER_URL = 'http://custom:5000'
 
       mockAxios.post.mockResolvedValue({
-        data: { response: 'Score: 8/10' },
+        data: { success: true, data: { content: 'Score: 8/10' } },
       })
 
       const variant = createTestPromptVariant()
@@ -6,6 +6,8 @@ import {
   handleCompareRequest,
   handleFeedbackRequest,
 } from '../src/index'
+import { getRubricRegistry } from '../src/rubrics'
+import { MAX_PAIRWISE_VARIANTS, PAIRWISE_CONCURRENCY } from '../src/pairwise'
 import {
   createTestPromptVariant,
   createTestTaskClassification,
@@ -87,17 +89,42 @@ const mockCalibrationMonitor = {
   calibrateScore: vi.fn((evaluator: string, score: number) => score),
   addDataPoint: vi.fn(),
   addHumanFeedback: vi.fn(),
+  getFeedback: vi.fn().mockReturnValue([]),
   getCalibrationStats: vi.fn().mockReturnValue({
     total_samples: 100,
     calibrated_evaluators: ['g_eval', 'chat_eval'],
   }),
 }
 
+// Mock pairwise judge: the variant with the longer response wins
+const mockPairwiseJudge = {
+  compare: vi.fn(async (a: any, b: any) => {
+    const winner = a.response.length >= b.response.length ? a.id : b.id
+    const verdict = winner === a.id ? 'A' : 'B'
+    return { a: a.id, b: b.id, verdict, swapped_verdict: verdict, winner, consistent: true }
+  }),
+}
+
+vi.mock('../src/evaluators/pairwise-judge', () => ({
+  PairwiseJudge: vi.fn(() => mockPairwiseJudge),
+}))
+
 vi.mock('../src/calibration', () => ({
   getCalibrationMonitor: () => mockCalibrationMonitor,
   CalibrationMonitor: vi.fn(),
 }))
 
+const HOUSE_STYLE = {
+  name: 'house-style',
+  criteria: [
+    {
+      name: 'tone',
+      description: 'Follows the brand voice',
+      anchors: [{ score: 10, description: 'Unmistakably on brand' }],
+    },
+  ],
+}
+
 describe('CalibratedEvaluatorEnsemble', () => {
   let ensemble: CalibratedEvaluatorEnsemble
 
@@ -125,6 +152,44 @@ describe('CalibratedEvaluatorEnsemble', () => {
       expect(mockEvaluator.evaluate).toHaveBeenCalled()
     })
 
+    it('should attach the transcript of multi-stage variants to the result', async () => {
+      const transcript = {
+        stages: [],
+        iterations: 1,
+        stop_reason: 'completed' as const,
+        tokens_used: 0,
+        cost_usd: 0,
+        latency_ms: 0,
+      }
+
+      const result = await ensemble.evaluate(
+        createTestPromptVariant(),
+        'Test response',
+        createTestTaskClassification(),
+        undefined,
+        'trace-123',
+        transcript,
+      )
+
+      expect(result.transcript).toEqual(transcript)
+    })
+
+    it('should note the version of the registered rubric it judged by', async () => {
+      await getRubricRegistry().register(HOUSE_STYLE)
+
+      const result = await ensemble.evaluate(
+        createTestPromptVariant(),
+        'Test response',
+        createTestTaskClassification(),
+        undefined,
+        'trace-123',
+        undefined,
+        { rubric: 'house-style' },
+      )
+
+      expect(result.rubric).toBe('general/house-style@1')
+    })
+
     it('should handle evaluator failures gracefully', async () => {
       mockEvaluator.evaluate.mockRejectedValueOnce(new Error('Evaluator failed'))
 
@@ -231,12 +296,111 @@ describe('CalibratedEvaluatorEnsemble', () => {
     })
   })
 
+  describe('rankVariantsPairwise', () => {
+    it('should rank variants from head-to-head judgments', async () => {
+      const variants = [
+        { variant: createTestPromptVariant({ id: 'v1' }), response: 'Short' },
+        { variant: createTestPromptVariant({ id: 'v2' }), response: 'The longest response' },
+        { variant: createTestPromptVariant({ id: 'v3' }), response: 'Medium response' },
+      ]
+
+      const ranking = await ensemble.rankVariantsPairwise(
+        variants,
+        createTestTaskClassification(),
+        'Explain photosynthesis',
+      )
+
+      expect(mockPairwiseJudge.compare).toHaveBeenCalledTimes(3)
+      expect(ranking.ranking.map((r) => r.variant_id)).toEqual(['v2', 'v3', 'v1'])
+      expect(ranking.ranking[0]).toMatchObject({ rank: 1, wins: 2, losses: 0 })
+      expect(ranking.position_consistency).toBe(1)
+    })
+
+    it('should leave out and count pairs whose judging fails', async () => {
+      mockPairwiseJudge.compare.mockRejectedValueOnce(new Error('LLM unavailable'))
+
+      const ranking = await ensemble.rankVariantsPairwise(
+        [
+          { variant: createTestPromptVariant({ id: 'v1' }), response: 'Short' },
+          { variant: createTestPromptVariant({ id: 'v2' }), response: 'Longer response' },
+          { variant: createTestPromptVariant({ id: 'v3' }), response: 'The longest response' },
+        ],
+        createTestTaskClassification(),
+      )
+
+      expect(ranking.judgments).toHaveLength(2)
+      expect(ranking.failed_pairs).toBe(1)
+      expect(ranking.ranking).toHaveLength(3)
+    })
+
+    it('should fail when no pair could be judged', async () => {
+      mockPairwiseJudge.compare.mockRejectedValueOnce(new Error('LLM unavailable'))
+
+      await expect(
+        ensemble.rankVariantsPairwise(
+          [
+            { variant: createTestPromptVariant({ id: 'v1' }), response: 'Short' },
+            { variant: createTestPromptVariant({ id: 'v2' }), response: 'Longer response' },
+          ],
+          createTestTaskClassification(),
+        ),
+      ).rejects.toThrow('Judging failed for all 1 pairs')
+    })
+
+    it('should judge a limited number of pairs at a time', async () => {
+      const compare = mockPairwiseJudge.compare.getMockImplementation()!
+      let inFlight = 0
+      let maxInFlight = 0
+      const tracked = async (a: any, b: any) => {
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        await new Promise((resolve) => setTimeout(resolve, 1))
+        inFlight--
+        return compare(a, b)
+      }
+      // Every pair of eight variants
+      for (let i = 0; i < 28; i++) {
+        mockPairwiseJudge.compare.mockImplementationOnce(tracked)
+      }
+
+      const ranking = await ensemble.rankVariantsPairwise(
+        Array.from({ length: MAX_PAIRWISE_VARIANTS }, (_, i) => ({
+          variant: createTestPromptVariant({ id: `v${i}` }),
+          response: `Response ${i}`,
+        })),
+        createTestTaskClassification(),
+      )
+
+      expect(ranking.judgments).toHaveLength(28)
+      expect(maxInFlight).toBe(PAIRWISE_CONCURRENCY)
+    })
+  })
+
   describe('addHumanFeedback', () => {
     it('should add human feedback for calibration', () => {
       ensemble.addHumanFeedback('variant-123', 0.85)
 
       expect(mockCalibrationMonitor.addHumanFeedback).toHaveBeenCalledWith('variant-123', 0.85)
     })
+
+    it('should learn evaluator weights from the feedback', () => {
+      mockCalibrationMonitor.getFeedback.mockReturnValueOnce(
+        Array.from({ length: 20 }, (_, i) => ({
+          variant_id: `v${i}`,
+          task_type: 'general_qa',
+          evaluator_scores: { g_eval: i / 20, self_consistency: 0.5 },
+          human_score: i / 20,
+          timestamp: new Date(),
+        })),
+      )
+
+      ensemble.addHumanFeedback('v19', 0.95)
+
+      const weights = ensemble.getAggregationWeights()
+      expect(weights.general_qa).toMatchObject({ method: 'linear_stacking', samples: 20 })
+      expect(weights.general_qa.weights.g_eval).toBeGreaterThan(3 / 16)
+      expect(weights.creative_writing.method).toBe('configured')
+    })
   })
 
   describe('getCalibrationStats', () => {
@@ -289,6 +453,21 @@ describe('Service Handlers', () => {
       expect(response.error).toBeDefined()
       expect(response.error.code).toBe('E005')
     })
+
+    it('should reject a rubric that is not registered', async () => {
+      const request = createTestServiceRequest({
+        variant: createTestPromptVariant(),
+        response: 'Test response',
+        task_meta: createTestTaskClassification(),
+        context: { rubric: 'house-style@9' },
+      })
+
+      const response = await handleEvaluateRequest(request as any)
+
+      expect(response.success).toBe(false)
+      expect(response.error.code).toBe('INVALID_PARAMETERS')
+      expect(response.error.message).toBe('Unknown rubric: house-style@9')
+    })
   })
 
   describe('handleCompareRequest', () => {
@@ -311,6 +490,55 @@ describe('Service Handlers', () => {
       expect(response.data[0].evaluation).toBeDefined()
     })
 
+    it('should rank variants pairwise when asked', async () => {
+      const request = createTestServiceRequest({
+        variants: [
+          { variant: createTestPromptVariant({ id: 'v1' }), response: 'Short' },
+          { variant: createTestPromptVariant({ id: 'v2' }), response: 'Longer response' },
+        ],
+        task_meta: createTestTaskClassification(),
+        mode: 'pairwise',
+      })
+
+      const response = await handleCompareRequest(request as any)
+
+      expect(response.success).toBe(true)
+      expect(response.data.method).toBe('bradley_terry')
+      expect(response.data.ranking[0].variant_id).toBe('v2')
+    })
+
+    it('should report a comparison in which no pair could be judged', async () => {
+      mockPairwiseJudge.compare.mockRejectedValueOnce(new Error('LLM unavailable'))
+      const request = createTestServiceRequest({
+        variants: [
+          { variant: createTestPromptVariant({ id: 'v1' }), response: 'Short' },
+          { variant: createTestPromptVariant({ id: 'v2' }), response: 'Longer response' },
+        ],
+        task_meta: createTestTaskClassification(),
+        mode: 'pairwise',
+      })
+
+      const response = await handleCompareRequest(request as any)
+
+      expect(response.success).toBe(false)
+      expect(response.error.code).toBe('EVALUATION_FAILED')
+      expect(response.error.message).toContain('Judging failed for all 1 pairs')
+    })
+
+    it('should reject an unknown compare mode', async () => {
+      const request = createTestServiceRequest({
+        variants: [],
+        task_meta: createTestTaskClassification(),
+        mode: 'tournament',
+      })
+
+      const response = await handleCompareRequest(request as any)
+
+      expect(response.success).toBe(false)
+      expect(response.error.code).toBe('INVALID_PARAMETERS')
+      expect(response.error.message).toContain('Unknown compare mode: tournament')
+    })
+
     it('should handle comparison failure', async () => {
       mockEvaluator.evaluate.mockRejectedValueOnce(new Error('Comparison failed'))
 
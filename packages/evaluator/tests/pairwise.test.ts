@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { PairwiseJudge, parseVerdict } from '../src/evaluators/pairwise-judge'
+import { bradleyTerry, combineVerdicts, rankPairwise, unswap } from '../src/pairwise'
+import { createTestPromptVariant, createTestTaskClassification } from '@promptdial/shared'
+
+// Mock logger
+vi.mock('@promptdial/shared', async () => {
+  const actual = await vi.importActual('@promptdial/shared')
+  return {
+    ...actual,
+    createLogger: () => ({
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    }),
+  }
+})
+
+describe('Pairwise ranking', () => {
+  describe('combineVerdicts', () => {
+    it('should count a win only when both orders agree', () => {
+      expect(combineVerdicts('x', 'y', 'A', 'A')).toMatchObject({ winner: 'x', consistent: true })
+      expect(combineVerdicts('x', 'y', 'B', 'B')).toMatchObject({ winner: 'y', consistent: true })
+      expect(combineVerdicts('x', 'y', 'A', 'B')).toMatchObject({ winner: null, consistent: false })
+      expect(combineVerdicts('x', 'y', 'tie', 'tie')).toMatchObject({ winner: null })
+    })
+
+    it('should map swapped verdicts back to the original order', () => {
+      expect(unswap('A')).toBe('B')
+      expect(unswap('B')).toBe('A')
+      expect(unswap('tie')).toBe('tie')
+    })
+  })
+
+  describe('bradleyTerry', () => {
+    it('should give equal strengths to evenly matched variants', () => {
+      const strengths = bradleyTerry(
+        ['x', 'y'],
+        [combineVerdicts('x', 'y', 'A', 'A'), combineVerdicts('x', 'y', 'B', 'B')],
+      )
+
+      expect(strengths.x).toBeCloseTo(0.5, 6)
+      expect(strengths.y).toBeCloseTo(0.5, 6)
+    })
+
+    it('should keep a clean sweep finite and ordered', () => {
+      const strengths = bradleyTerry(
+        ['x', 'y', 'z'],
+        [
+          combineVerdicts('x', 'y', 'A', 'A'),
+          combineVerdicts('x', 'z', 'A', 'A'),
+          combineVerdicts('y', 'z', 'A', 'A'),
+        ],
+      )
+
+      expect(strengths.x).toBeGreaterThan(strengths.y)
+      expect(strengths.y).toBeGreaterThan(strengths.z)
+      expect(strengths.z).toBeGreaterThan(0)
+      expect(strengths.x + strengths.y + strengths.z).toBeCloseTo(1, 6)
+    })
+  })
+
+  describe('rankPairwise', () => {
+    it('should rank by strength with the chance of beating the next variant', () => {
+      const ranking = rankPairwise(
+        ['x', 'y', 'z'],
+        [
+          combineVerdicts('x', 'y', 'B', 'B'),
+          combineVerdicts('x', 'z', 'A', 'B'),
+          combineVerdicts('y', 'z', 'A', 'A'),
+        ],
+      )
+
+      expect(ranking.method).toBe('bradley_terry')
+      expect(ranking.ranking.map((r) => r.variant_id)).toEqual(['y', 'x', 'z'])
+      expect(ranking.ranking[0]).toMatchObject({ rank: 1, wins: 2, losses: 0, ties: 0 })
+      expect(ranking.ranking[1]).toMatchObject({ wins: 0, losses: 1, ties: 1 })
+      expect(ranking.ranking[0].confidence).toBeGreaterThan(0.5)
+      expect(ranking.ranking[2].confidence).toBe(1)
+      expect(ranking.position_consistency).toBeCloseTo(2 / 3, 6)
+    })
+  })
+})
+
+describe('PairwiseJudge', () => {
+  let judge: PairwiseJudge
+  let runLLM: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    judge = new PairwiseJudge()
+    runLLM = vi.fn()
+    ;(judge as any).runLLM = runLLM
+  })
+
+  it('should read the verdict from the judge answer', () => {
+    expect(parseVerdict('REASONING: B is clearer\nWINNER: B')).toBe('B')
+    expect(parseVerdict('WINNER: [a]')).toBe('A')
+    expect(parseVerdict('WINNER: Tie')).toBe('tie')
+    expect(parseVerdict('I cannot decide')).toBe('tie')
+  })
+
+  it('should judge a pair in both orders', async () => {
+    runLLM.mockImplementation(async (variant) => ({
+      response:
+        variant.prompt.indexOf('Good') < variant.prompt.indexOf('Poor') ? 'WINNER: A' : 'WINNER: B',
+    }))
+
+    const judgment = await judge.compare(
+      { id: 'poor', response: 'Poor answer' },
+      { id: 'good', response: 'Good answer' },
+      createTestTaskClassification(),
+      'Answer the question',
+    )
+
+    expect(runLLM).toHaveBeenCalledTimes(2)
+    expect(runLLM.mock.calls[0][0].prompt).toContain('TASK:\nAnswer the question')
+    expect(judgment).toMatchObject({ winner: 'good', consistent: true })
+  })
+
+  it('should call a pair a tie when the judge always prefers the first response', async () => {
+    runLLM.mockResolvedValue({ response: 'WINNER: A' })
+
+    const judgment = await judge.compare(
+      { id: 'x', response: 'One' },
+      { id: 'y', response: 'Two' },
+      createTestTaskClassification(),
+    )
+
+    expect(judgment).toMatchObject({ winner: null, consistent: false })
+  })
+
+  it('should score a response against the reference answer', async () => {
+    runLLM.mockResolvedValue({ response: 'WINNER: B' })
+
+    const result = await judge.evaluate(
+      createTestPromptVariant(),
+      'Response',
+      createTestTaskClassification(),
+      ['Reference'],
+    )
+
+    expect(result.scores).toEqual({ pairwise_judge: 0.5 })
+  })
+})
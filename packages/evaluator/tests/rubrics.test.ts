@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { EvaluationRubric } from '@promptdial/shared'
+import { RubricRegistry, parseRubricReference, rubricLabel } from '../src/rubrics'
+
+// Mock logger
+vi.mock('@promptdial/shared', async () => {
+  const actual = await vi.importActual('@promptdial/shared')
+  return {
+    ...actual,
+    createLogger: () => ({
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    }),
+  }
+})
+
+const HOUSE_STYLE: EvaluationRubric = {
+  name: 'house-style',
+  domain: 'marketing',
+  criteria: [
+    {
+      name: 'tone',
+      description: 'Follows the brand voice: warm, direct, no jargon',
+      anchors: [
+        { score: 1, description: 'Formal or full of jargon' },
+        { score: 10, description: 'Unmistakably on brand' },
+      ],
+      weight: 2,
+    },
+  ],
+}
+
+const withWeight = (weight: number): EvaluationRubric => ({
+  ...HOUSE_STYLE,
+  criteria: [{ ...HOUSE_STYLE.criteria[0], weight }],
+})
+
+describe('RubricRegistry', () => {
+  let registry: RubricRegistry
+
+  beforeEach(() => {
+    registry = new RubricRegistry()
+  })
+
+  it('should add a version when a changed rubric is registered again', async () => {
+    const first = await registry.register(HOUSE_STYLE)
+    const unchanged = await registry.register(HOUSE_STYLE)
+    const second = await registry.register(withWeight(3))
+
+    expect(first).toMatchObject({ domain: 'marketing', version: 1, extends_defaults: false })
+    expect(unchanged.version).toBe(1)
+    expect(second.version).toBe(2)
+    expect((await registry.versions('marketing', 'house-style')).map((r) => r.version)).toEqual([
+      1, 2,
+    ])
+    expect(await registry.list()).toEqual([second])
+  })
+
+  it('should resolve references in the task domain before the general one', async () => {
+    await registry.register({ ...HOUSE_STYLE, domain: undefined })
+    await registry.register(HOUSE_STYLE)
+    await registry.register(withWeight(3))
+
+    expect(await registry.resolve('house-style', 'marketing')).toMatchObject({
+      domain: 'marketing',
+      version: 2,
+    })
+    expect(await registry.resolve('house-style@1', 'marketing')).toMatchObject({
+      domain: 'marketing',
+      version: 1,
+    })
+    expect(await registry.resolve('house-style', 'legal')).toMatchObject({ domain: 'general' })
+    expect(await registry.resolve('house-style@3', 'marketing')).toBeUndefined()
+  })
+
+  it('should persist every version to its file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rubrics-'))
+    const file = path.join(dir, 'rubrics.json')
+    try {
+      const writer = new RubricRegistry(file)
+      await writer.register(HOUSE_STYLE)
+      await writer.register(withWeight(3))
+
+      const reader = new RubricRegistry(file)
+      expect(await reader.get('marketing', 'house-style', 1)).toMatchObject({ version: 1 })
+      expect(await reader.get('marketing', 'house-style')).toMatchObject({ version: 2 })
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('should persist every one of overlapping registrations', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rubrics-'))
+    const file = path.join(dir, 'rubrics.json')
+    try {
+      const writer = new RubricRegistry(file)
+      await Promise.all(
+        ['tone', 'legal', 'brevity'].map((name) => writer.register({ ...HOUSE_STYLE, name })),
+      )
+
+      const reader = new RubricRegistry(file)
+      expect((await reader.list()).map((rubric) => rubric.name)).toEqual([
+        'tone',
+        'legal',
+        'brevity',
+      ])
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('should parse and label rubric references', async () => {
+    expect(parseRubricReference('house-style@2')).toEqual({ name: 'house-style', version: 2 })
+    expect(parseRubricReference('house-style')).toEqual({ name: 'house-style' })
+    expect(rubricLabel(await registry.register(HOUSE_STYLE))).toBe('marketing/house-style@1')
+    expect(rubricLabel(HOUSE_STYLE)).toBe('house-style')
+  })
+})
@@ -4,6 +4,9 @@
  * Manages multi-provider LLM execution with streaming support
  */
 
+import { existsSync } from 'fs'
+import { join } from 'path'
+
 import {
   PromptVariant,
   LLMProviderConfig,
@@ -16,20 +19,42 @@ import {
   TECHNIQUES,
   getTelemetryService,
   createTelemetryEvent,
+  getCassette,
+  withCassette,
 } from '@promptdial/shared'
 
-import { BaseLLMProvider, LLMResponse, StreamingCallback } from './providers/base'
+import { BaseLLMProvider, LLMResponse, StreamingCallback, streamResponse } from './providers/base'
 import { OpenAIProvider } from './providers/openai'
 import { AnthropicProvider } from './providers/anthropic'
 import { SafeAnthropicProvider } from './providers/anthropic-safe'
 import { GoogleAIProvider } from './providers/google'
+import {
+  MockFixture,
+  MockLLMProvider,
+  MockProviderConfig,
+  loadMockFixtures,
+} from './providers/mock'
 import { SelfConsistencyHandler, SelfConsistencyResult } from './self-consistency'
+import { StageExecutor } from './stage-executor'
+import { ReActLoop } from './react-loop'
+import { TreeSearchExecutor } from './tree-search'
+import { ToolRegistry, createDefaultToolRegistry } from './tools'
 
 const logger = createLogger('llm-runner')
 
 // ============= Provider Registry =============
 
-type ProviderType = 'openai' | 'anthropic' | 'google' | 'cohere'
+type ProviderType = 'openai' | 'anthropic' | 'google' | 'cohere' | 'mock'
+
+// Models of the providers registered from the environment
+const DEFAULT_MODELS: Partial<Record<ProviderType, string>> = {
+  openai: 'gpt-3.5-turbo',
+  anthropic: 'claude-3-5-sonnet-20241022',
+  google: 'gemini-1.5-flash',
+  mock: 'mock-1',
+}
+
+const DEFAULT_MOCK_FIXTURES = join(__dirname, '..', 'fixtures', 'mock-llm.json')
 
 class ProviderRegistry {
   private providers: Map<ProviderType, BaseLLMProvider> = new Map()
@@ -48,6 +73,9 @@ class ProviderRegistry {
       case 'google':
         provider = new GoogleAIProvider(config)
         break
+      case 'mock':
+        provider = new MockLLMProvider(config as MockProviderConfig)
+        break
       default:
         throw new Error(`Unsupported provider: ${config.provider}`)
     }
@@ -78,10 +106,18 @@ class ProviderRegistry {
 export class LLMRunner {
   private registry: ProviderRegistry
   private selfConsistencyHandler: SelfConsistencyHandler
+  private stageExecutor: StageExecutor
+  private toolRegistry: ToolRegistry
+  private reactLoop: ReActLoop
+  private treeSearchExecutor: TreeSearchExecutor
 
   constructor() {
     this.registry = new ProviderRegistry()
     this.selfConsistencyHandler = new SelfConsistencyHandler(this)
+    this.stageExecutor = new StageExecutor(this)
+    this.toolRegistry = createDefaultToolRegistry()
+    this.reactLoop = new ReActLoop(this, this.toolRegistry)
+    this.treeSearchExecutor = new TreeSearchExecutor(this)
 
     // Auto-register providers from environment
     this.autoRegisterProviders()
@@ -95,14 +131,25 @@ export class LLMRunner {
     streaming: boolean = false,
     callback?: StreamingCallback,
     traceId?: string,
+  ): Promise<LLMResponse> {
+    return (
+      this.runMultiCall(variant, callback, traceId) ??
+      this.runProviderCall(variant, streaming, callback, traceId)
+    )
+  }
+
+  /**
+   * Run a variant as one provider call
+   */
+  private async runProviderCall(
+    variant: PromptVariant,
+    streaming: boolean,
+    callback?: StreamingCallback,
+    traceId?: string,
   ): Promise<LLMResponse> {
     const startTime = Date.now()
 
-    // Determine provider from variant or model name
-    const provider = this.selectProvider(variant)
-    if (!provider) {
-      throw new Error(`No provider available for model: ${variant.technique}`)
-    }
+    const provider = this.resolveProvider(variant)
 
     // Log start event
     if (traceId) {
@@ -110,11 +157,7 @@ export class LLMRunner {
     }
 
     try {
-      // Execute the call
-      const response = await provider.call(variant, streaming, callback)
-
-      // Update response with actual cost
-      response.cost_usd = provider['calculateCost'](response.tokens_used, response.model)
+      const response = await this.callThroughCassette(provider, variant, streaming, callback)
 
       // Log completion
       if (traceId) {
@@ -138,6 +181,81 @@ export class LLMRunner {
     }
   }
 
+  /**
+   * Run a multi-stage variant and return the final answer with its transcript
+   */
+  async runStages(variant: PromptVariant, traceId?: string): Promise<LLMResponse> {
+    if (traceId) {
+      await this.logEvent('stage_pipeline_start', traceId, variant.id)
+    }
+
+    const response = await this.stageExecutor.execute(variant, traceId)
+
+    if (traceId) {
+      await this.logEvent('stage_pipeline_complete', traceId, variant.id, {
+        stages: response.transcript?.stages.length,
+        iterations: response.transcript?.iterations,
+        stop_reason: response.transcript?.stop_reason,
+        latency_ms: response.latency_ms,
+        tokens_used: response.tokens_used,
+        cost_usd: response.cost_usd,
+      })
+    }
+
+    return response
+  }
+
+  /**
+   * Run a ReAct variant, invoking registered tools until the model gives a final answer
+   */
+  async runToolLoop(variant: PromptVariant, traceId?: string): Promise<LLMResponse> {
+    if (traceId) {
+      await this.logEvent('tool_loop_start', traceId, variant.id)
+    }
+
+    const response = await this.reactLoop.execute(variant, traceId)
+
+    if (traceId) {
+      await this.logEvent('tool_loop_complete', traceId, variant.id, {
+        steps: response.tool_trace?.steps.length,
+        tool_calls: response.tool_trace?.steps.filter((s) => s.tool).length,
+        stop_reason: response.tool_trace?.stop_reason,
+        latency_ms: response.latency_ms,
+        tokens_used: response.tokens_used,
+        cost_usd: response.cost_usd,
+      })
+    }
+
+    return response
+  }
+
+  /**
+   * Run a Tree-of-Thought variant, searching over LLM-proposed reasoning steps
+   */
+  async runTreeSearch(variant: PromptVariant, traceId?: string): Promise<LLMResponse> {
+    if (traceId) {
+      await this.logEvent('tree_search_start', traceId, variant.id)
+    }
+
+    const response = await this.treeSearchExecutor.execute(variant, traceId)
+
+    if (traceId) {
+      const tree = response.thought_tree
+      await this.logEvent('tree_search_complete', traceId, variant.id, {
+        strategy: tree?.strategy,
+        nodes: tree?.nodes.length,
+        pruned: tree?.nodes.filter((n) => n.status === 'pruned').length,
+        stop_reason: tree?.stop_reason,
+        llm_calls: tree?.llm_calls,
+        latency_ms: response.latency_ms,
+        tokens_used: response.tokens_used,
+        cost_usd: response.cost_usd,
+      })
+    }
+
+    return response
+  }
+
   /**
    * Run multiple variants in parallel
    */
@@ -190,6 +308,13 @@ export class LLMRunner {
     return this.registry.getConfigured().map((p) => p.getProvider())
   }
 
+  /**
+   * Tools available to ReAct variants; register custom tools here
+   */
+  getToolRegistry(): ToolRegistry {
+    return this.toolRegistry
+  }
+
   /**
    * Register a custom provider configuration
    */
@@ -197,6 +322,87 @@ export class LLMRunner {
     this.registry.register(config)
   }
 
+  /**
+   * Dispatch variants that need more than one provider call. These do not
+   * stream, so a streaming callback only receives the combined response.
+   */
+  private runMultiCall(
+    variant: PromptVariant,
+    callback?: StreamingCallback,
+    traceId?: string,
+  ): Promise<LLMResponse> | null {
+    const run = this.selectMultiCall(variant)?.call(this, variant, traceId)
+
+    return (
+      run?.then((response) => {
+        callback?.onComplete?.(response)
+        return response
+      }) ?? null
+    )
+  }
+
+  private selectMultiCall(
+    variant: PromptVariant,
+  ): ((variant: PromptVariant, traceId?: string) => Promise<LLMResponse>) | null {
+    if (variant.stages?.steps.length) {
+      return this.runStages
+    }
+    if (variant.tool_loop) {
+      return this.runToolLoop
+    }
+    return variant.tree_search ? this.runTreeSearch : null
+  }
+
+  /**
+   * Call the provider through the active cassette. A replayed call never
+   * reaches a provider, so its recorded content is streamed to the callback.
+   */
+  private async callThroughCassette(
+    provider: BaseLLMProvider | null,
+    variant: PromptVariant,
+    streaming: boolean,
+    callback?: StreamingCallback,
+  ): Promise<LLMResponse> {
+    const replaying = getCassette()?.getMode() === 'replay'
+    const response = await withCassette('llm-runner', cassetteRequest(variant, provider), () =>
+      this.callProvider(provider, variant, streaming, callback),
+    )
+    if (replaying && streaming && !response.error) {
+      streamResponse(response, callback)
+    }
+    return response
+  }
+
+  /**
+   * Call the provider and attach the actual cost to the response
+   */
+  private async callProvider(
+    provider: BaseLLMProvider | null,
+    variant: PromptVariant,
+    streaming: boolean,
+    callback?: StreamingCallback,
+  ): Promise<LLMResponse> {
+    if (!provider) {
+      throw new Error(`No provider available for model: ${variant.technique}`)
+    }
+
+    const response = await provider.call(variant, streaming, callback)
+    response.cost_usd = provider['calculateCost'](response.tokens_used, response.model)
+    return response
+  }
+
+  /**
+   * Determine provider from variant or model name. In replay mode responses
+   * come from the cassette, so no provider is required.
+   */
+  private resolveProvider(variant: PromptVariant): BaseLLMProvider | null {
+    const provider = this.selectProvider(variant)
+    if (!provider && getCassette()?.getMode() !== 'replay') {
+      throw new Error(`No provider available for model: ${variant.technique}`)
+    }
+    return provider
+  }
+
   /**
    * Select provider based on variant
    */
@@ -206,6 +412,7 @@ export class LLMRunner {
       gpt: 'openai',
       claude: 'anthropic',
       gemini: 'google',
+      mock: 'mock',
     }
 
     for (const [hint, provider] of Object.entries(providerHints)) {
@@ -229,7 +436,7 @@ export class LLMRunner {
       this.registry.register({
         provider: 'openai',
         api_key: process.env.OPENAI_API_KEY,
-        default_model: 'gpt-3.5-turbo',
+        default_model: DEFAULT_MODELS.openai,
         rate_limit: {
           requests_per_minute: 60,
           tokens_per_minute: 90000,
@@ -242,7 +449,7 @@ export class LLMRunner {
       this.registry.register({
         provider: 'anthropic',
         api_key: process.env.ANTHROPIC_API_KEY,
-        default_model: 'claude-3-5-sonnet-20241022',
+        default_model: DEFAULT_MODELS.anthropic,
         rate_limit: {
           requests_per_minute: 50,
           tokens_per_minute: 100000,
@@ -255,13 +462,18 @@ export class LLMRunner {
       this.registry.register({
         provider: 'google',
         api_key: process.env.GOOGLE_AI_API_KEY,
-        default_model: 'gemini-1.5-flash',
+        default_model: DEFAULT_MODELS.google,
         rate_limit: {
           requests_per_minute: 60,
           tokens_per_minute: 1000000,
         },
       })
     }
+
+    // Offline mock provider (CI / local development without API keys)
+    if (process.env.MOCK_LLM_ENABLED === 'true') {
+      this.registry.register(mockProviderConfig())
+    }
   }
 
   /**
@@ -299,6 +511,51 @@ export class LLMRunner {
   }
 }
 
+/**
+ * Mock provider configured through MOCK_LLM_FIXTURES / _LATENCY_MS / _ERROR_RATE
+ */
+function mockProviderConfig(): MockProviderConfig {
+  return {
+    provider: 'mock',
+    api_key: '',
+    default_model: DEFAULT_MODELS.mock,
+    mock: {
+      fixtures: mockFixtures(),
+      latency_ms: parseInt(process.env.MOCK_LLM_LATENCY_MS || '0'),
+      error_rate: parseFloat(process.env.MOCK_LLM_ERROR_RATE || '0'),
+    },
+  }
+}
+
+/**
+ * Fixtures from MOCK_LLM_FIXTURES, or else the bundled ones that give
+ * services such as the strategy planner a usable answer offline
+ */
+function mockFixtures(): MockFixture[] {
+  if (process.env.MOCK_LLM_FIXTURES) {
+    return loadMockFixtures(process.env.MOCK_LLM_FIXTURES)
+  }
+  return existsSync(DEFAULT_MOCK_FIXTURES) ? loadMockFixtures(DEFAULT_MOCK_FIXTURES) : []
+}
+
+/**
+ * What a provider call is recorded and replayed under; the same variant sent
+ * to another provider or model is a different call. A runner replaying
+ * without API keys has no provider, so it replays the provider and model the
+ * cassette recorded the variant with.
+ */
+function cassetteRequest(variant: PromptVariant, provider: BaseLLMProvider | null): object {
+  const call = {
+    technique: variant.technique,
+    prompt: variant.prompt,
+    temperature: variant.temperature,
+  }
+  if (provider) {
+    return { provider: provider.getProvider(), model: provider.getModel(), ...call }
+  }
+  return (getCassette()?.nextRecordedRequest('llm-runner', call) as object | undefined) ?? call
+}
+
 // ============= Service API =============
 
 let runnerInstance: LLMRunner | null = null
@@ -433,6 +690,15 @@ if (require.main === module) {
     }
   })
 
+  // List ReAct tools
+  app.get('/tools', (_req: any, res: any) => {
+    const tools = getLLMRunner()
+      .getToolRegistry()
+      .list()
+      .map(({ name, description, input_hint }) => ({ name, description, input_hint }))
+    res.json({ tools })
+  })
+
   // Get available providers
   app.get('/providers', (_req: any, res: any) => {
     const providers = getLLMRunner().getAvailableProviders()
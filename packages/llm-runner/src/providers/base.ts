@@ -6,11 +6,14 @@
 
 import {
   PromptVariant,
+  VariantTranscript,
+  ThoughtTree,
   LLMProviderConfig,
   createLogger,
   estimateTokens,
   getTelemetryService,
 } from '@promptdial/shared'
+import type { ReActTrace } from '../tools/base'
 
 export interface LLMResponse {
   content: string
@@ -20,6 +23,10 @@ export interface LLMResponse {
   model: string
   finish_reason?: string
   error?: string
+  cost_usd?: number
+  transcript?: VariantTranscript // Set when the variant ran as a multi-stage program
+  tool_trace?: ReActTrace // Set when the variant ran as a ReAct tool loop
+  thought_tree?: ThoughtTree // Set when the variant ran as a Tree-of-Thought search
 }
 
 export interface StreamingCallback {
@@ -28,6 +35,17 @@ export interface StreamingCallback {
   onError?: (error: Error) => void
 }
 
+/**
+ * Play a response that did not come from a provider stream to a streaming
+ * callback, one whitespace-delimited token at a time
+ */
+export function streamResponse(response: LLMResponse, callback?: StreamingCallback): void {
+  if (!callback) return
+
+  response.content.split(/(?<=\s)/).forEach((token) => callback.onToken?.(token))
+  callback.onComplete?.(response)
+}
+
 export abstract class BaseLLMProvider {
   protected config: LLMProviderConfig
   protected logger: any
@@ -60,6 +78,13 @@ export abstract class BaseLLMProvider {
     return this.config.provider
   }
 
+  /**
+   * Get the model calls are sent to
+   */
+  getModel(): string | undefined {
+    return this.config.default_model
+  }
+
   /**
    * Check rate limits
    */
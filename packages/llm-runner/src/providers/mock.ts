@@ -0,0 +1,166 @@
+/**
+ * PromptDial 3.0 - Mock Provider
+ *
+ * Offline, deterministic provider for CI and local development.
+ * Responses are scripted through fixtures matched by prompt hash,
+ * technique or regex, with configurable latency, token counts and
+ * error injection.
+ */
+
+import { createHash } from 'crypto'
+import { readFileSync } from 'fs'
+
+import { PromptVariant, LLMProviderConfig } from '@promptdial/shared'
+
+import { BaseLLMProvider, LLMResponse, StreamingCallback, streamResponse } from './base'
+
+export interface MockFixture {
+  match: {
+    prompt_hash?: string
+    technique?: string
+    pattern?: string
+  }
+  response?: string
+  error?: string
+  tokens_used?: number
+  latency_ms?: number
+  finish_reason?: string
+}
+
+export interface MockProviderOptions {
+  fixtures?: MockFixture[]
+  default_response?: string
+  latency_ms?: number
+  error_rate?: number
+}
+
+export interface MockProviderConfig extends LLMProviderConfig {
+  mock?: MockProviderOptions
+}
+
+/**
+ * Stable hash of a prompt, used as the fixture key
+ */
+export function hashPrompt(prompt: string): string {
+  return createHash('sha256').update(prompt).digest('hex').slice(0, 16)
+}
+
+/**
+ * Load fixtures from a JSON file (either an array or `{ fixtures: [...] }`)
+ */
+export function loadMockFixtures(path: string): MockFixture[] {
+  const parsed = JSON.parse(readFileSync(path, 'utf-8'))
+  return Array.isArray(parsed) ? parsed : parsed.fixtures || []
+}
+
+export class MockLLMProvider extends BaseLLMProvider {
+  private options: MockProviderOptions
+
+  constructor(config: MockProviderConfig) {
+    super(config)
+    this.options = config.mock || {}
+  }
+
+  async call(
+    variant: PromptVariant,
+    streaming: boolean = false,
+    callback?: StreamingCallback,
+  ): Promise<LLMResponse> {
+    const model = this.config.default_model || 'mock-1'
+    const promptHash = hashPrompt(variant.prompt)
+    const fixture = this.lookupFixture(variant, promptHash)
+    const latencyMs = fixture.latency_ms ?? this.options.latency_ms ?? 0
+
+    await this.checkRateLimit()
+    await this.simulateLatency(latencyMs)
+
+    const error = this.fixtureError(fixture, promptHash)
+    if (error) {
+      this.logger.warn(`Mock error injected for ${variant.id}: ${error}`)
+      return this.createErrorResponse(new Error(error), 'mock', model)
+    }
+
+    const response = this.simulateResponse(variant, fixture, promptHash, model, latencyMs)
+    if (streaming) {
+      streamResponse(response, callback)
+    }
+    await this.logTelemetry(variant, response)
+
+    return response
+  }
+
+  /**
+   * The mock provider never needs an API key
+   */
+  isConfigured(): boolean {
+    return true
+  }
+
+  // A prompt without a matching fixture gets the defaults
+  private lookupFixture(variant: PromptVariant, promptHash: string): MockFixture {
+    return this.findFixture(variant, promptHash) || { match: {} }
+  }
+
+  /**
+   * Fixtures are checked in order; the first match wins
+   */
+  private findFixture(variant: PromptVariant, promptHash: string): MockFixture | undefined {
+    return (this.options.fixtures || []).find(
+      ({ match }) =>
+        (!match.prompt_hash || match.prompt_hash === promptHash) &&
+        (!match.technique || match.technique === variant.technique) &&
+        (!match.pattern || new RegExp(match.pattern, 'i').test(variant.prompt)),
+    )
+  }
+
+  private fixtureError(fixture: MockFixture, promptHash: string): string | null {
+    return fixture.error || this.injectedError(promptHash)
+  }
+
+  /**
+   * Deterministic error injection: the same prompt always fails or succeeds
+   */
+  private injectedError(promptHash: string): string | null {
+    const errorRate = this.options.error_rate || 0
+    if (errorRate <= 0) return null
+
+    const roll = parseInt(promptHash.slice(0, 8), 16) / 0xffffffff
+    return roll < errorRate ? 'Mock provider injected failure' : null
+  }
+
+  // Tokens default to the variant's estimate plus about four characters per response token
+  private simulateResponse(
+    variant: PromptVariant,
+    fixture: MockFixture,
+    promptHash: string,
+    model: string,
+    latencyMs: number,
+  ): LLMResponse {
+    const content = fixture.response ?? this.defaultResponse(variant, promptHash)
+    return {
+      content,
+      tokens_used: fixture.tokens_used ?? variant.est_tokens + Math.ceil(content.length / 4),
+      latency_ms: latencyMs,
+      provider: 'mock',
+      model,
+      finish_reason: fixture.finish_reason || 'stop',
+    }
+  }
+
+  private defaultResponse(variant: PromptVariant, promptHash: string): string {
+    if (this.options.default_response) {
+      return this.options.default_response
+    }
+    return `[mock:${variant.technique}:${promptHash}] Score: 7/10`
+  }
+
+  private async simulateLatency(latencyMs: number): Promise<void> {
+    if (latencyMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, latencyMs))
+    }
+  }
+
+  protected extractTokenFromChunk(chunk: any): string | null {
+    return typeof chunk === 'string' ? chunk : null
+  }
+}
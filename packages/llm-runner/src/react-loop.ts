@@ -0,0 +1,275 @@
+/**
+ * PromptDial 3.0 - ReAct Loop
+ *
+ * Executes ReAct variants: the model alternates Thought/Action turns, each
+ * action is run against the tool registry and its observation is fed back
+ * until the model gives a final answer
+ */
+
+import {
+  PromptVariant,
+  ClaudeMessage,
+  fixToolUseResults,
+  validateToolUseResults,
+  createLogger,
+} from '@promptdial/shared'
+
+import { LLMResponse } from './providers/base'
+import { LLMRunner } from './index'
+import { ReActStep, ReActTool, ReActTrace, ToolRegistry } from './tools'
+
+const logger = createLogger('react-loop')
+
+export const DEFAULT_REACT_MAX_STEPS = 6
+
+// Upper bound on model turns, whatever the variant asks for
+export const MAX_REACT_STEPS = 20
+
+const MAX_OBSERVATION_CHARS = 2000
+
+const OBSERVATION_PATTERN = /\n\s*Observation(?:\s*\d+)?:/i
+const FINAL_ANSWER_PATTERN = /Final Answer:\s*/i
+const ACTION_PATTERN = /Action(?:\s*\d+)?:\s*([\w-]+)\s*\[([\s\S]*)\]/i
+const THOUGHT_PATTERN = /Thought(?:\s*\d+)?:\s*([\s\S]*?)(?=\n\s*(?:Action|Final Answer)|$)/i
+
+export interface ParsedReActTurn {
+  thought: string
+  action?: { tool: string; input: string }
+  final_answer?: string
+}
+
+type MessageBlock = Exclude<ClaudeMessage['content'], string>[number]
+
+interface LoopState {
+  messages: ClaudeMessage[]
+  steps: ReActStep[]
+  last?: LLMResponse
+}
+
+interface StepOutcome {
+  done: boolean
+  answer: string
+  stop_reason: ReActTrace['stop_reason']
+}
+
+/**
+ * Parse one model turn. An action counts only if it comes before any final
+ * answer, and anything after the first "Observation:" is dropped because
+ * observations must come from real tool calls.
+ */
+export function parseReActTurn(output: string): ParsedReActTurn {
+  const text = output.split(OBSERVATION_PATTERN)[0]
+  const thought = THOUGHT_PATTERN.exec(text)?.[1].trim() || ''
+  const finalIndex = text.search(FINAL_ANSWER_PATTERN)
+
+  const action = ACTION_PATTERN.exec(finalIndex >= 0 ? text.slice(0, finalIndex) : text)
+  if (action) {
+    return { thought, action: { tool: action[1], input: action[2].trim() } }
+  }
+
+  if (finalIndex >= 0) {
+    return {
+      thought,
+      final_answer: text.slice(finalIndex).replace(FINAL_ANSWER_PATTERN, '').trim(),
+    }
+  }
+
+  return { thought }
+}
+
+export class ReActLoop {
+  constructor(
+    private runner: LLMRunner,
+    private registry: ToolRegistry,
+  ) {}
+
+  /**
+   * Run the Thought/Action/Observation loop and return the final answer with its trace
+   */
+  async execute(variant: PromptVariant, traceId?: string): Promise<LLMResponse> {
+    const tools = this.registry.select(variant.tool_loop?.tools || [])
+    if (tools.length === 0) {
+      throw new Error(`Variant ${variant.id} has no registered tools`)
+    }
+
+    const requestedSteps = variant.tool_loop?.max_steps || DEFAULT_REACT_MAX_STEPS
+    const maxSteps = Math.min(Math.max(requestedSteps, 1), MAX_REACT_STEPS)
+    const startTime = Date.now()
+    const state: LoopState = { messages: [{ role: 'user', content: variant.prompt }], steps: [] }
+    let outcome: StepOutcome = { done: false, answer: '', stop_reason: 'max_steps' }
+
+    for (let step = 1; step <= maxSteps && !outcome.done; step++) {
+      outcome = await this.runStep(variant, tools, state, step, traceId)
+    }
+
+    logger.info(`Variant ${variant.id} finished after ${state.steps.length} ReAct steps`, {
+      stop_reason: outcome.stop_reason,
+      tool_calls: state.steps.filter((s) => s.tool).length,
+    })
+
+    return this.buildResponse(state, outcome, Date.now() - startTime)
+  }
+
+  private async runStep(
+    variant: PromptVariant,
+    tools: ReActTool[],
+    state: LoopState,
+    step: number,
+    traceId?: string,
+  ): Promise<StepOutcome> {
+    state.messages = this.ensureToolResults(state.messages)
+    const response = await this.runner.runSingle(
+      {
+        ...variant,
+        id: `${variant.id}_react_${step}`,
+        prompt: this.renderPrompt(tools, state.messages),
+        stages: undefined,
+        tool_loop: undefined,
+      },
+      false,
+      undefined,
+      traceId,
+    )
+    if (response.error) {
+      throw new Error(`ReAct step ${step} failed: ${response.error}`)
+    }
+
+    const turn = parseReActTurn(response.content)
+    const record: ReActStep = {
+      step,
+      thought: turn.thought,
+      tokens_used: response.tokens_used,
+      cost_usd: response.cost_usd || 0,
+      latency_ms: response.latency_ms,
+    }
+    state.steps.push(record)
+    state.last = response
+
+    if (turn.action) {
+      await this.runAction(`${variant.id}_tool_${step}`, turn, record, tools, state)
+      return { done: false, answer: turn.thought, stop_reason: 'max_steps' }
+    }
+
+    state.messages.push({ role: 'assistant', content: response.content })
+    return turn.final_answer !== undefined
+      ? { done: true, answer: turn.final_answer, stop_reason: 'final_answer' }
+      : { done: true, answer: response.content.trim(), stop_reason: 'no_action' }
+  }
+
+  /**
+   * Invoke the requested tool and record the call as a tool_use/tool_result pair
+   */
+  private async runAction(
+    toolUseId: string,
+    turn: ParsedReActTurn,
+    record: ReActStep,
+    tools: ReActTool[],
+    state: LoopState,
+  ): Promise<void> {
+    const { tool, input } = turn.action as { tool: string; input: string }
+    const thought = turn.thought ? [{ type: 'text' as const, text: turn.thought }] : []
+
+    state.messages.push({
+      role: 'assistant',
+      content: [...thought, { type: 'tool_use', id: toolUseId, name: tool, input: { input } }],
+    })
+
+    const observation = await this.invokeTool(tools, tool, input)
+    state.messages.push({
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: toolUseId, content: observation }],
+    })
+
+    Object.assign(record, { tool, tool_input: input, observation })
+  }
+
+  private async invokeTool(tools: ReActTool[], name: string, input: string): Promise<string> {
+    const tool = tools.find((t) => t.name === name)
+    if (!tool) {
+      return `Unknown tool "${name}". Available tools: ${tools.map((t) => t.name).join(', ')}`
+    }
+
+    try {
+      const observation = await tool.execute(input)
+      return observation.slice(0, MAX_OBSERVATION_CHARS)
+    } catch (error) {
+      logger.warn(`Tool ${name} failed`, { error: (error as Error).message })
+      return `Error: ${(error as Error).message}`
+    }
+  }
+
+  /**
+   * Every tool_use must be answered by a tool_result before the next turn,
+   * the same pairing Anthropic enforces on message histories
+   */
+  private ensureToolResults(messages: ClaudeMessage[]): ClaudeMessage[] {
+    const errors = validateToolUseResults(messages)
+    if (errors.length === 0) {
+      return messages
+    }
+
+    logger.warn('Repairing unpaired tool calls in ReAct history', { errors })
+    return fixToolUseResults(messages)
+  }
+
+  private renderPrompt(tools: ReActTool[], messages: ClaudeMessage[]): string {
+    const [task, ...history] = messages
+    const toolList = tools.map((t) => `- ${t.name}[${t.input_hint}]: ${t.description}`).join('\n')
+
+    return `${task.content}
+
+You can use these tools:
+${toolList}
+
+Use this format:
+Thought: reason about what to do next
+Action: tool_name[input]
+
+Each action is answered with an Observation containing the tool's result.
+Repeat Thought/Action as often as needed. When you know the answer, reply with:
+Thought: I now know the final answer
+Final Answer: the answer
+${history.map((message) => this.renderMessage(message)).join('\n')}`
+  }
+
+  private renderMessage(message: ClaudeMessage): string {
+    if (typeof message.content === 'string') {
+      return message.content
+    }
+
+    return message.content.map((block) => this.renderBlock(block)).join('\n')
+  }
+
+  private renderBlock(block: MessageBlock): string {
+    if (block.type === 'tool_use') {
+      return `Action: ${block.name}[${block.input?.input ?? ''}]`
+    }
+    if (block.type === 'tool_result') {
+      return `Observation: ${block.content}`
+    }
+    return `Thought: ${block.text}`
+  }
+
+  private buildResponse(state: LoopState, outcome: StepOutcome, latencyMs: number): LLMResponse {
+    const last = state.last as LLMResponse
+    const trace: ReActTrace = {
+      steps: state.steps,
+      messages: this.ensureToolResults(state.messages),
+      stop_reason: outcome.stop_reason,
+      tokens_used: state.steps.reduce((sum, s) => sum + s.tokens_used, 0),
+      cost_usd: state.steps.reduce((sum, s) => sum + s.cost_usd, 0),
+      latency_ms: latencyMs,
+    }
+
+    return {
+      content: outcome.answer,
+      tokens_used: trace.tokens_used,
+      latency_ms: latencyMs,
+      provider: last.provider,
+      model: last.model,
+      finish_reason: last.finish_reason,
+      cost_usd: trace.cost_usd,
+      tool_trace: trace,
+    }
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * PromptDial 3.0 - Stage Executor
+ *
+ * Runs multi-stage prompt variants: renders each stage from earlier
+ * outputs, loops until a stop pattern matches or the iteration limit is
+ * reached, and records a per-stage transcript
+ */
+
+import {
+  PromptVariant,
+  VariantStage,
+  VariantStages,
+  StageExecution,
+  VariantTranscript,
+  createLogger,
+} from '@promptdial/shared'
+
+import { LLMResponse } from './providers/base'
+import { LLMRunner } from './index'
+
+const logger = createLogger('stage-executor')
+
+// Upper bound on loop passes, whatever the variant asks for
+export const MAX_STAGE_ITERATIONS = 10
+
+const TEMPLATE_VARIABLE = /\{\{\s*([\w-]+)\s*\}\}/g
+
+interface ExecutionState {
+  outputs: Record<string, string>
+  executions: StageExecution[]
+  last?: LLMResponse
+}
+
+/**
+ * Variable a stage writes its output to
+ */
+export function stageOutputName(stage: VariantStage): string {
+  return stage.output || stage.name
+}
+
+/**
+ * Replace {{var}} placeholders with the latest output written to var.
+ * Variables that have not been written yet render as an empty string.
+ */
+export function renderStageTemplate(template: string, outputs: Record<string, string>): string {
+  return template.replace(TEMPLATE_VARIABLE, (_match, name: string) => outputs[name] ?? '')
+}
+
+export class StageExecutor {
+  constructor(private runner: LLMRunner) {}
+
+  /**
+   * Execute every stage of the variant and combine the calls into one response
+   */
+  async execute(variant: PromptVariant, traceId?: string): Promise<LLMResponse> {
+    const program = this.validate(variant)
+    const loopStart = program.loop_from
+      ? program.steps.findIndex((step) => step.name === program.loop_from)
+      : -1
+    const maxIterations = Math.min(Math.max(program.max_iterations || 1, 1), MAX_STAGE_ITERATIONS)
+
+    const startTime = Date.now()
+    const state: ExecutionState = { outputs: {}, executions: [] }
+    let iteration = 1
+    let stopReason = await this.runPass(variant, program.steps, iteration, state, traceId)
+
+    while (stopReason === 'completed' && loopStart >= 0) {
+      if (iteration >= maxIterations) {
+        stopReason = 'max_iterations'
+        break
+      }
+      iteration++
+      stopReason = await this.runPass(
+        variant,
+        program.steps.slice(loopStart),
+        iteration,
+        state,
+        traceId,
+      )
+    }
+
+    logger.info(`Variant ${variant.id} ran ${state.executions.length} stages`, {
+      iterations: iteration,
+      stop_reason: stopReason,
+    })
+
+    return this.buildResponse(program, state, {
+      iterations: iteration,
+      stop_reason: stopReason,
+      latency_ms: Date.now() - startTime,
+    })
+  }
+
+  /**
+   * Reject programs the executor cannot run before any call is made
+   */
+  private validate(variant: PromptVariant): VariantStages {
+    const program = variant.stages
+    if (!program || program.steps.length === 0) {
+      throw new Error(`Variant ${variant.id} has no stages to execute`)
+    }
+
+    if (program.loop_from && !program.steps.some((step) => step.name === program.loop_from)) {
+      throw new Error(`Unknown loop_from stage "${program.loop_from}" in variant ${variant.id}`)
+    }
+
+    // Compiling throws on an invalid pattern
+    program.steps.forEach((step) => step.stop_pattern && new RegExp(step.stop_pattern))
+
+    return program
+  }
+
+  /**
+   * Run steps in order, stopping early when a stop pattern matches
+   */
+  private async runPass(
+    variant: PromptVariant,
+    steps: VariantStage[],
+    iteration: number,
+    state: ExecutionState,
+    traceId?: string,
+  ): Promise<VariantTranscript['stop_reason']> {
+    for (const step of steps) {
+      const output = await this.runStage(variant, step, iteration, state, traceId)
+      if (step.stop_pattern && new RegExp(step.stop_pattern, 'i').test(output)) {
+        return 'stop_pattern'
+      }
+    }
+    return 'completed'
+  }
+
+  private async runStage(
+    variant: PromptVariant,
+    step: VariantStage,
+    iteration: number,
+    state: ExecutionState,
+    traceId?: string,
+  ): Promise<string> {
+    const prompt = renderStageTemplate(step.prompt, state.outputs)
+    const stageVariant: PromptVariant = {
+      ...variant,
+      id: `${variant.id}_${step.name}_${iteration}`,
+      prompt,
+      temperature: step.temperature ?? variant.temperature,
+      stages: undefined,
+    }
+
+    const response = await this.runner.runSingle(stageVariant, false, undefined, traceId)
+    if (response.error) {
+      throw new Error(`Stage ${step.name} failed: ${response.error}`)
+    }
+
+    state.outputs[stageOutputName(step)] = response.content
+    state.last = response
+    state.executions.push({
+      stage: step.name,
+      iteration,
+      prompt,
+      output: response.content,
+      tokens_used: response.tokens_used,
+      cost_usd: response.cost_usd || 0,
+      latency_ms: response.latency_ms,
+    })
+
+    return response.content
+  }
+
+  private buildResponse(
+    program: VariantStages,
+    state: ExecutionState,
+    run: Pick<VariantTranscript, 'iterations' | 'stop_reason' | 'latency_ms'>,
+  ): LLMResponse {
+    const last = state.last as LLMResponse
+    const resultName = program.result || stageOutputName(program.steps[program.steps.length - 1])
+    const transcript: VariantTranscript = {
+      stages: state.executions,
+      ...run,
+      tokens_used: state.executions.reduce((sum, e) => sum + e.tokens_used, 0),
+      cost_usd: state.executions.reduce((sum, e) => sum + e.cost_usd, 0),
+    }
+
+    return {
+      content: state.outputs[resultName] ?? last.content,
+      tokens_used: transcript.tokens_used,
+      latency_ms: transcript.latency_ms,
+      provider: last.provider,
+      model: last.model,
+      finish_reason: last.finish_reason,
+      cost_usd: transcript.cost_usd,
+      transcript,
+    }
+  }
+}
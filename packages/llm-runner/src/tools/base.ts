@@ -0,0 +1,66 @@
+/**
+ * PromptDial 3.0 - ReAct Tool Interface
+ *
+ * Tools the ReAct loop can invoke, and the registry they are plugged into
+ */
+
+import { ClaudeMessage, createLogger } from '@promptdial/shared'
+
+const logger = createLogger('react-tools')
+
+export interface ReActTool {
+  name: string
+  description: string
+  input_hint: string // Shown to the model as name[input_hint]
+  execute(input: string): Promise<string>
+}
+
+export interface ReActStep {
+  step: number
+  thought: string
+  tool?: string
+  tool_input?: string
+  observation?: string
+  tokens_used: number
+  cost_usd: number
+  latency_ms: number
+}
+
+export interface ReActTrace {
+  steps: ReActStep[]
+  messages: ClaudeMessage[] // Tool calls as Anthropic tool_use/tool_result pairs
+  stop_reason: 'final_answer' | 'max_steps' | 'no_action'
+  tokens_used: number
+  cost_usd: number
+  latency_ms: number
+}
+
+export class ToolRegistry {
+  private tools: Map<string, ReActTool> = new Map()
+
+  register(tool: ReActTool): void {
+    if (this.tools.has(tool.name)) {
+      logger.warn(`Replacing registered tool: ${tool.name}`)
+    }
+    this.tools.set(tool.name, tool)
+  }
+
+  unregister(name: string): boolean {
+    return this.tools.delete(name)
+  }
+
+  get(name: string): ReActTool | null {
+    return this.tools.get(name) || null
+  }
+
+  list(): ReActTool[] {
+    return Array.from(this.tools.values())
+  }
+
+  /**
+   * Registered tools among the given names, in the order given
+   */
+  select(names: string[]): ReActTool[] {
+    return names.map((name) => this.get(name)).filter((tool): tool is ReActTool => tool !== null)
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * PromptDial 3.0 - Calculator Tool
+ *
+ * Evaluates arithmetic expressions with a small recursive-descent parser,
+ * so model input is never passed to eval
+ */
+
+import { REACT_TOOLS } from '@promptdial/shared'
+import { ReActTool } from './base'
+
+interface BinaryOperator {
+  precedence: number
+  right_associative?: boolean
+  apply: (a: number, b: number) => number
+}
+
+const BINARY_OPERATORS: Record<string, BinaryOperator> = {
+  '+': { precedence: 1, apply: (a, b) => a + b },
+  '-': { precedence: 1, apply: (a, b) => a - b },
+  '*': { precedence: 2, apply: (a, b) => a * b },
+  '/': { precedence: 2, apply: (a, b) => a / b },
+  '%': { precedence: 2, apply: (a, b) => a % b },
+  '^': { precedence: 3, right_associative: true, apply: (a, b) => Math.pow(a, b) },
+}
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  log: Math.log10,
+  ln: Math.log,
+  exp: Math.exp,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+}
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+}
+
+const TOKEN_PATTERN = /\s*(\d+(?:\.\d+)?(?:e[+-]?\d+)?|\.\d+|[a-z_]+|[-+*/%^(),])/iy
+const NUMBER_PATTERN = /^[\d.]/
+
+function hasOwn(record: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, key)
+}
+
+function tokenize(expression: string): string[] {
+  const tokens: string[] = []
+  const source = expression.trim()
+  TOKEN_PATTERN.lastIndex = 0
+
+  while (TOKEN_PATTERN.lastIndex < source.length) {
+    const start = TOKEN_PATTERN.lastIndex
+    const match = TOKEN_PATTERN.exec(source)
+    if (!match) {
+      throw new Error(`Unexpected character "${source[start]}" at position ${start}`)
+    }
+    tokens.push(match[1].toLowerCase())
+  }
+
+  return tokens
+}
+
+class ExpressionParser {
+  private position = 0
+
+  constructor(private tokens: string[]) {}
+
+  parse(): number {
+    const value = this.parseBinary(0)
+    if (this.position < this.tokens.length) {
+      throw new Error(`Unexpected token "${this.tokens[this.position]}"`)
+    }
+    return value
+  }
+
+  private parseBinary(minPrecedence: number): number {
+    let left = this.parseUnary()
+
+    for (;;) {
+      const operator = BINARY_OPERATORS[this.tokens[this.position]]
+      if (!operator || operator.precedence < minPrecedence) {
+        return left
+      }
+      this.position++
+      const nextPrecedence = operator.precedence + (operator.right_associative ? 0 : 1)
+      left = operator.apply(left, this.parseBinary(nextPrecedence))
+    }
+  }
+
+  private parseUnary(): number {
+    const token = this.tokens[this.position]
+    if (token === '-' || token === '+') {
+      this.position++
+      // Unary minus binds looser than ^, so -2^2 is -4
+      const operand = this.parseBinary(BINARY_OPERATORS['^'].precedence)
+      return token === '-' ? -operand : operand
+    }
+    return this.parsePrimary()
+  }
+
+  private parsePrimary(): number {
+    const token = this.tokens[this.position++]
+    if (token === undefined) {
+      throw new Error('Unexpected end of expression')
+    }
+    if (NUMBER_PATTERN.test(token)) {
+      return parseFloat(token)
+    }
+    if (token === '(') {
+      const value = this.parseBinary(0)
+      this.expect(')')
+      return value
+    }
+    if (hasOwn(FUNCTIONS, token)) {
+      return this.parseCall(token)
+    }
+    if (hasOwn(CONSTANTS, token)) {
+      return CONSTANTS[token]
+    }
+    throw new Error(`Unknown identifier "${token}"`)
+  }
+
+  private parseCall(name: string): number {
+    this.expect('(')
+    const args = [this.parseBinary(0)]
+    while (this.tokens[this.position] === ',') {
+      this.position++
+      args.push(this.parseBinary(0))
+    }
+    this.expect(')')
+    return FUNCTIONS[name](...args)
+  }
+
+  private expect(token: string): void {
+    if (this.tokens[this.position] !== token) {
+      throw new Error(`Expected "${token}"`)
+    }
+    this.position++
+  }
+}
+
+/**
+ * Evaluate an arithmetic expression such as `sqrt(16) + 2^3 * (1 - 0.5)`
+ */
+export function evaluateExpression(expression: string): number {
+  const result = new ExpressionParser(tokenize(expression)).parse()
+  if (!Number.isFinite(result)) {
+    throw new Error('Result is not a finite number')
+  }
+  return result
+}
+
+export class CalculatorTool implements ReActTool {
+  name = REACT_TOOLS.CALCULATOR
+  description = 'Evaluates an arithmetic expression (+ - * / % ^, parentheses, sqrt, log, ...)'
+  input_hint = 'expression'
+
+  async execute(input: string): Promise<string> {
+    // Drop float noise such as 0.1 + 0.2 = 0.30000000000000004
+    return String(Number(evaluateExpression(input).toPrecision(12)))
+  }
+}
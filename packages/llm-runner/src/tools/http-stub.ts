@@ -0,0 +1,40 @@
+/**
+ * PromptDial 3.0 - HTTP Stub Tool
+ *
+ * Answers GET requests from canned responses so agents can exercise HTTP
+ * actions without touching the network
+ */
+
+import { readFileSync } from 'fs'
+import { REACT_TOOLS } from '@promptdial/shared'
+import { ReActTool } from './base'
+
+/**
+ * Load stub routes from a JSON file mapping URLs to response bodies
+ */
+export function loadHttpStubRoutes(path: string): Record<string, string> {
+  return JSON.parse(readFileSync(path, 'utf-8'))
+}
+
+export class HttpStubTool implements ReActTool {
+  name = REACT_TOOLS.HTTP
+  description = 'Fetches a URL with GET and returns the response body'
+  input_hint = 'url'
+
+  constructor(private routes: Record<string, string> = {}) {}
+
+  addRoute(url: string, body: string): void {
+    this.routes[this.normalize(url)] = body
+  }
+
+  async execute(input: string): Promise<string> {
+    const url = this.normalize(input.replace(/^GET\s+/i, ''))
+    const body = Object.entries(this.routes).find(([route]) => this.normalize(route) === url)?.[1]
+
+    return body === undefined ? `404 Not Found: ${url}` : `200 OK\n${body}`
+  }
+
+  private normalize(url: string): string {
+    return url.trim().replace(/\/+$/, '')
+  }
+}
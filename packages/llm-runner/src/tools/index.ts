@@ -0,0 +1,33 @@
+/**
+ * PromptDial 3.0 - ReAct Tools
+ *
+ * Exports the built-in tools and the default registry
+ */
+
+import { ToolRegistry } from './base'
+import { CalculatorTool } from './calculator'
+import { JavaScriptTool } from './javascript'
+import { RetrievalSearchTool } from './search'
+import { HttpStubTool, loadHttpStubRoutes } from './http-stub'
+
+export * from './base'
+export { CalculatorTool, evaluateExpression } from './calculator'
+export { JavaScriptTool, JavaScriptToolOptions } from './javascript'
+export { RetrievalSearchTool, SearchToolOptions } from './search'
+export { HttpStubTool, loadHttpStubRoutes } from './http-stub'
+
+/**
+ * Registry with every built-in tool; HTTP stub routes are read from
+ * PROMPTDIAL_HTTP_STUB_ROUTES when set
+ */
+export function createDefaultToolRegistry(): ToolRegistry {
+  const routesPath = process.env.PROMPTDIAL_HTTP_STUB_ROUTES
+  const registry = new ToolRegistry()
+
+  registry.register(new CalculatorTool())
+  registry.register(new RetrievalSearchTool())
+  registry.register(new JavaScriptTool())
+  registry.register(new HttpStubTool(routesPath ? loadHttpStubRoutes(routesPath) : {}))
+
+  return registry
+}
@@ -0,0 +1,127 @@
+/**
+ * PromptDial 3.0 - JavaScript Evaluator Tool
+ *
+ * Runs model-written JavaScript in a sandboxed worker process, inside a `vm`
+ * context without `require`, `process` or timers. Each script, including the
+ * microtasks it queues, is limited in time, and the worker is killed at a
+ * deadline whatever it is doing.
+ */
+
+import { REACT_TOOLS, exceededMemory, runSandboxedWorker } from '@promptdial/shared'
+import { ReActTool } from './base'
+
+export interface JavaScriptToolOptions {
+  timeout_ms?: number
+  max_output_chars?: number
+  memory_mb?: number
+}
+
+// Time the worker process gets on top of its script limits before it is killed
+const PROCESS_OVERHEAD_MS = 1000
+
+// Plain JavaScript, passed to `node -e` so the tool runs the same from source and dist.
+// The bootstrap is defined inside the context so no worker function is reachable from user code.
+const WORKER_SOURCE = `
+const vm = require('vm')
+
+const BOOTSTRAP = \`
+globalThis.__format = (value) => {
+  if (typeof value === 'string') return value
+  try {
+    const json = JSON.stringify(value)
+    return json === undefined ? String(value) : json
+  } catch (error) {
+    return String(value)
+  }
+}
+globalThis.__logs = []
+globalThis.console = {
+  log: (...args) => { __logs.push(args.map(__format).join(' ')) },
+}
+\`
+
+// Formatting can call user-defined toJSON/toString, so it runs under the timeout too
+const FORMAT = '[...__logs, ...(__result === undefined ? [] : ["=> " + __format(__result)])].join("\\\\n")'
+
+function main(input) {
+  const { code, timeout, max_output_chars } = JSON.parse(input)
+  const context = vm.createContext(
+    {},
+    { codeGeneration: { strings: false, wasm: false }, microtaskMode: 'afterEvaluate' },
+  )
+  const run = (script) => vm.runInContext(script, context, { timeout })
+
+  try {
+    run(BOOTSTRAP)
+    context.__result = run(code)
+    const output = String(run(FORMAT))
+    return { output: (output || 'undefined').slice(0, max_output_chars) }
+  } catch (error) {
+    const err = error || {}
+    return { error: { name: String(err.name || 'Error'), message: String(err.message || err) } }
+  }
+}
+
+let input = ''
+process.stdin.on('data', (chunk) => (input += chunk))
+process.stdin.on('end', () => {
+  process.stdout.write(JSON.stringify(main(input)))
+  process.exit(0)
+})
+`
+
+interface WorkerResult {
+  output?: string
+  error?: { name: string; message: string }
+}
+
+export class JavaScriptTool implements ReActTool {
+  name = REACT_TOOLS.JAVASCRIPT
+  description =
+    'Runs a JavaScript snippet and returns console output and the value of the last expression'
+  input_hint = 'code'
+
+  private timeoutMs: number
+  private maxOutputChars: number
+  private memoryMb: number
+
+  constructor(options: JavaScriptToolOptions = {}) {
+    this.timeoutMs = options.timeout_ms ?? 1000
+    this.maxOutputChars = options.max_output_chars ?? 2000
+    this.memoryMb = options.memory_mb ?? 64
+  }
+
+  async execute(input: string): Promise<string> {
+    const exit = await runSandboxedWorker(
+      WORKER_SOURCE,
+      JSON.stringify({
+        code: input,
+        timeout: this.timeoutMs,
+        max_output_chars: this.maxOutputChars,
+      }),
+      // Bootstrap, code and formatting each get the script timeout
+      { memory_mb: this.memoryMb, deadline_ms: this.timeoutMs * 3 + PROCESS_OVERHEAD_MS },
+    )
+    if (exit.spawn_error) {
+      throw new Error(`Could not start JavaScript sandbox: ${exit.spawn_error}`)
+    }
+
+    const result = parseResult(exit.stdout, exit.stderr)
+    if (result.error) {
+      throw new Error(result.error.message)
+    }
+    return result.output ?? 'undefined'
+  }
+}
+
+// A worker that printed nothing ran out of memory or was killed at the deadline
+function parseResult(stdout: string, stderr: string): WorkerResult {
+  try {
+    return JSON.parse(stdout) as WorkerResult
+  } catch {
+    const message = exceededMemory(stderr)
+      ? 'JavaScript memory limit exceeded'
+      : 'JavaScript execution timed out'
+    return { error: { name: 'Error', message } }
+  }
+}
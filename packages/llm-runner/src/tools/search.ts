@@ -0,0 +1,62 @@
+/**
+ * PromptDial 3.0 - Retrieval Search Tool
+ *
+ * Searches the retrieval hub's document index over HTTP
+ */
+
+import { REACT_TOOLS, RetrievalQuery, RetrievalResult, ServiceRequest } from '@promptdial/shared'
+import { ReActTool } from './base'
+
+export interface SearchToolOptions {
+  url?: string
+  top_k?: number
+  max_chars_per_document?: number
+  fetch?: typeof fetch
+}
+
+export class RetrievalSearchTool implements ReActTool {
+  name = REACT_TOOLS.SEARCH
+  description = 'Searches the document index and returns the most relevant passages'
+  input_hint = 'query'
+
+  private url: string
+  private topK: number
+  private maxChars: number
+  private fetchFn: typeof fetch
+
+  constructor(options: SearchToolOptions = {}) {
+    this.url = options.url || process.env.RETRIEVAL_URL || 'http://localhost:3004'
+    this.topK = options.top_k ?? 3
+    this.maxChars = options.max_chars_per_document ?? 500
+    this.fetchFn = options.fetch || fetch
+  }
+
+  async execute(input: string): Promise<string> {
+    const request: ServiceRequest<RetrievalQuery> = {
+      trace_id: `react-search-${Date.now()}`,
+      timestamp: new Date(),
+      service: 'llm-runner',
+      method: 'search',
+      payload: { query: input.trim(), top_k: this.topK },
+    }
+
+    const response = await this.fetchFn(`${this.url}/search`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    })
+    if (!response.ok) {
+      throw new Error(`Retrieval hub returned ${response.status}`)
+    }
+
+    const body = (await response.json()) as { data?: RetrievalResult }
+    const documents = body.data?.documents || []
+    if (documents.length === 0) {
+      return 'No matching documents found'
+    }
+
+    return documents
+      .map((doc, i) => `[${i + 1}] ${doc.content.slice(0, this.maxChars)}`)
+      .join('\n\n')
+  }
+}
@@ -0,0 +1,400 @@
+/**
+ * PromptDial 3.0 - Tree-of-Thought Search Executor
+ *
+ * Expands reasoning steps with the LLM, scores partial solutions with a
+ * value prompt and searches the resulting tree breadth-first, depth-first
+ * or with a beam, within the variant's budget
+ */
+
+import {
+  PromptVariant,
+  BudgetConstraints,
+  ThoughtNode,
+  ThoughtTree,
+  VariantTreeSearch,
+  createLogger,
+} from '@promptdial/shared'
+
+import { LLMResponse } from './providers/base'
+import { LLMRunner } from './index'
+
+const logger = createLogger('tree-search')
+
+// Upper bounds, whatever the variant asks for
+export const MAX_TREE_BREADTH = 5
+export const MAX_TREE_DEPTH = 5
+
+const SCORE_PATTERN = /SCORE:\s*(\d+(?:\.\d+)?)/i
+const NUMBERED_LINE_PATTERN = /^\s*(?:\d+[.):]|[-*])\s+(.+)$/gm
+
+// Verdict words used by the original ToT value prompt, as a fallback
+const VERDICT_SCORES: Record<string, number> = {
+  sure: 1,
+  likely: 0.5,
+  impossible: 0,
+}
+
+interface SearchState {
+  variant: PromptVariant
+  config: Required<Omit<VariantTreeSearch, 'budget'>>
+  limits: { cost_usd: number; latency_ms: number; tokens: number }
+  nodes: ThoughtNode[]
+  calls: LLMResponse[]
+  start_time: number
+  budget_exhausted: boolean
+  trace_id?: string
+}
+
+/**
+ * Parse the proposed next steps out of an expansion response
+ */
+export function parseThoughts(output: string, breadth: number): string[] {
+  const numbered = Array.from(output.matchAll(NUMBERED_LINE_PATTERN), (m) => m[1].trim())
+  const lines = numbered.length > 0 ? numbered : output.split('\n').map((l) => l.trim())
+
+  return Array.from(new Set(lines.filter((line) => line.length > 0))).slice(0, breadth)
+}
+
+/**
+ * Parse a value prompt response into a 0-1 score
+ */
+export function parseValueScore(output: string): number {
+  const match = SCORE_PATTERN.exec(output)
+  if (match) {
+    return Math.min(parseFloat(match[1]), 10) / 10
+  }
+
+  const verdict = Object.keys(VERDICT_SCORES).find((word) =>
+    new RegExp(`\\b${word}\\b`, 'i').test(output),
+  )
+  return verdict ? VERDICT_SCORES[verdict] : 0
+}
+
+export class TreeSearchExecutor {
+  constructor(private runner: LLMRunner) {}
+
+  /**
+   * Search the thought tree and answer from the best path found
+   */
+  async execute(variant: PromptVariant, traceId?: string): Promise<LLMResponse> {
+    const state = this.createState(variant, traceId)
+    const root = this.addNode(state, null, '')
+    const solved = await this.search(state, root)
+    const bestPath = this.findBestPath(state)
+
+    if (state.budget_exhausted) {
+      state.nodes
+        .filter((node) => node.status === 'unexplored')
+        .forEach((node) => Object.assign(node, { status: 'pruned', prune_reason: 'budget' }))
+    }
+
+    const answer = await this.call(state, 'answer', this.createAnswerPrompt(state, bestPath), 0.3)
+
+    const tree: ThoughtTree = {
+      strategy: state.config.strategy,
+      nodes: state.nodes,
+      best_path: bestPath.map((node) => node.id),
+      stop_reason: this.getStopReason(state, solved),
+      llm_calls: state.calls.length,
+      tokens_used: state.calls.reduce((sum, c) => sum + c.tokens_used, 0),
+      cost_usd: state.calls.reduce((sum, c) => sum + (c.cost_usd || 0), 0),
+      latency_ms: Date.now() - state.start_time,
+    }
+
+    logger.info(`Variant ${variant.id} explored ${tree.nodes.length} thoughts`, {
+      strategy: tree.strategy,
+      pruned: tree.nodes.filter((node) => node.status === 'pruned').length,
+      stop_reason: tree.stop_reason,
+    })
+
+    return {
+      content: answer.content,
+      tokens_used: tree.tokens_used,
+      latency_ms: tree.latency_ms,
+      provider: answer.provider,
+      model: answer.model,
+      finish_reason: answer.finish_reason,
+      cost_usd: tree.cost_usd,
+      thought_tree: tree,
+    }
+  }
+
+  private createState(variant: PromptVariant, traceId?: string): SearchState {
+    const search = variant.tree_search as VariantTreeSearch
+    const breadth = Math.min(Math.max(search.breadth, 1), MAX_TREE_BREADTH)
+
+    return {
+      variant,
+      config: {
+        strategy: search.strategy,
+        breadth,
+        depth: Math.min(Math.max(search.depth, 1), MAX_TREE_DEPTH),
+        beam_width: Math.max(search.beam_width || breadth, 1),
+        prune_threshold: search.prune_threshold,
+      },
+      limits: this.getLimits(search.budget),
+      nodes: [],
+      calls: [],
+      start_time: Date.now(),
+      budget_exhausted: false,
+      trace_id: traceId,
+    }
+  }
+
+  private getLimits(budget?: BudgetConstraints): SearchState['limits'] {
+    return {
+      cost_usd: budget ? Math.min(budget.remaining_cost_usd, budget.max_cost_usd) : Infinity,
+      latency_ms: budget ? Math.min(budget.remaining_time_ms, budget.max_latency_ms) : Infinity,
+      tokens: budget ? budget.max_tokens : Infinity,
+    }
+  }
+
+  private search(state: SearchState, root: ThoughtNode): Promise<boolean> {
+    return state.config.strategy === 'dfs'
+      ? this.depthFirst(state, root)
+      : this.levelByLevel(state, root)
+  }
+
+  /**
+   * BFS keeps every thought above the threshold; beam search keeps the best beam_width per level
+   */
+  private async levelByLevel(state: SearchState, root: ThoughtNode): Promise<boolean> {
+    let frontier = [root]
+
+    while (frontier.length > 0 && !state.budget_exhausted) {
+      const next: ThoughtNode[] = []
+      for (const node of frontier) {
+        next.push(...(await this.expand(state, node)))
+      }
+      frontier = this.applyBeam(state, next).filter((node) => node.status === 'unexplored')
+    }
+
+    return false
+  }
+
+  /**
+   * Follow the most promising thought first, backtracking from pruned
+   * branches, and stop at the first leaf that clears the threshold
+   */
+  private async depthFirst(state: SearchState, node: ThoughtNode): Promise<boolean> {
+    if (node.status === 'leaf') {
+      return true
+    }
+
+    const children = await this.expand(state, node)
+    for (const child of children.sort((a, b) => (b.score || 0) - (a.score || 0))) {
+      if (await this.depthFirst(state, child)) {
+        return true
+      }
+    }
+
+    return false
+  }
+
+  /**
+   * Propose child thoughts and score each one. Returns the children that
+   * survived pruning; an empty list once the budget runs out.
+   */
+  private async expand(state: SearchState, node: ThoughtNode): Promise<ThoughtNode[]> {
+    if (!this.canAffordExpansion(state)) {
+      state.budget_exhausted = true
+      return []
+    }
+
+    const path = this.getPath(state, node)
+    const response = await this.call(
+      state,
+      `expand_${node.id}`,
+      this.createExpandPrompt(state, path),
+      state.variant.temperature,
+    )
+    node.status = 'expanded'
+
+    const children = parseThoughts(response.content, state.config.breadth).map((thought) =>
+      this.addNode(state, node, thought),
+    )
+    for (const child of children) {
+      await this.score(state, child, [...path, child])
+    }
+
+    return children.filter((child) => child.status !== 'pruned')
+  }
+
+  private async score(state: SearchState, node: ThoughtNode, path: ThoughtNode[]): Promise<void> {
+    const response = await this.call(
+      state,
+      `value_${node.id}`,
+      this.createValuePrompt(state, path),
+      0,
+    )
+    node.score = parseValueScore(response.content)
+
+    if (node.score < state.config.prune_threshold) {
+      Object.assign(node, { status: 'pruned', prune_reason: 'below_threshold' })
+    } else if (node.depth >= state.config.depth) {
+      node.status = 'leaf'
+    }
+  }
+
+  private applyBeam(state: SearchState, nodes: ThoughtNode[]): ThoughtNode[] {
+    if (state.config.strategy !== 'beam') {
+      return nodes
+    }
+
+    const ranked = [...nodes].sort((a, b) => (b.score || 0) - (a.score || 0))
+    ranked
+      .slice(state.config.beam_width)
+      .forEach((node) => Object.assign(node, { status: 'pruned', prune_reason: 'beam_width' }))
+    return ranked.slice(0, state.config.beam_width)
+  }
+
+  /**
+   * An expansion costs one proposal call plus one value call per child, and
+   * one more call must remain for the final answer. Spend so far is the
+   * per-call estimate.
+   */
+  private canAffordExpansion(state: SearchState): boolean {
+    const calls = state.calls.length
+    if (calls === 0) {
+      return true
+    }
+
+    const projected = (total: number) => total + (total / calls) * (state.config.breadth + 2)
+    const spent = {
+      cost_usd: state.calls.reduce((sum, c) => sum + (c.cost_usd || 0), 0),
+      latency_ms: Date.now() - state.start_time,
+      tokens: state.calls.reduce((sum, c) => sum + c.tokens_used, 0),
+    }
+
+    return (Object.keys(spent) as Array<keyof typeof spent>).every(
+      (key) => projected(spent[key]) <= state.limits[key],
+    )
+  }
+
+  private getStopReason(state: SearchState, solved: boolean): ThoughtTree['stop_reason'] {
+    if (solved) {
+      return 'solution_found'
+    }
+    return state.budget_exhausted ? 'budget_exhausted' : 'completed'
+  }
+
+  /**
+   * Highest-scoring leaf, or the best surviving partial solution when no
+   * leaf was reached
+   */
+  private findBestPath(state: SearchState): ThoughtNode[] {
+    const scored = state.nodes.filter(
+      (node) => node.score !== undefined && node.status !== 'pruned',
+    )
+    const leaves = scored.filter((node) => node.status === 'leaf')
+    const candidates = leaves.length > 0 ? leaves : scored
+
+    const best = candidates.reduce<ThoughtNode | null>(
+      (top, node) =>
+        !top ||
+        (node.score as number) > (top.score as number) ||
+        (node.score === top.score && node.depth > top.depth)
+          ? node
+          : top,
+      null,
+    )
+
+    return best ? this.getPath(state, best).slice(1) : []
+  }
+
+  private getPath(state: SearchState, node: ThoughtNode): ThoughtNode[] {
+    const path: ThoughtNode[] = []
+    let current: ThoughtNode | undefined = node
+    while (current) {
+      path.unshift(current)
+      current = state.nodes.find((n) => n.id === current?.parent_id)
+    }
+    return path
+  }
+
+  private addNode(state: SearchState, parent: ThoughtNode | null, thought: string): ThoughtNode {
+    const node: ThoughtNode = {
+      id: `n${state.nodes.length}`,
+      parent_id: parent ? parent.id : null,
+      depth: parent ? parent.depth + 1 : 0,
+      thought,
+      status: 'unexplored',
+    }
+    state.nodes.push(node)
+    return node
+  }
+
+  private async call(
+    state: SearchState,
+    step: string,
+    prompt: string,
+    temperature: number,
+  ): Promise<LLMResponse> {
+    const response = await this.runner.runSingle(
+      {
+        ...state.variant,
+        id: `${state.variant.id}_tot_${step}`,
+        prompt,
+        temperature,
+        stages: undefined,
+        tool_loop: undefined,
+        tree_search: undefined,
+      },
+      false,
+      undefined,
+      state.trace_id,
+    )
+    if (response.error) {
+      throw new Error(`Tree search call ${step} failed: ${response.error}`)
+    }
+
+    state.calls.push(response)
+    return response
+  }
+
+  private formatSteps(path: ThoughtNode[]): string {
+    return path
+      .filter((node) => node.depth > 0)
+      .map((node) => `${node.depth}. ${node.thought}`)
+      .join('\n')
+  }
+
+  private createExpandPrompt(state: SearchState, path: ThoughtNode[]): string {
+    const steps = this.formatSteps(path)
+    const { breadth } = state.config
+
+    return `${state.variant.prompt}
+
+${steps ? `REASONING SO FAR:\n${steps}` : 'No reasoning steps yet.'}
+
+Propose ${breadth} different possible next steps toward solving the problem.
+Each step should be one concrete thought that builds on the reasoning so far.
+Output exactly ${breadth} lines, numbered 1 to ${breadth}, and nothing else.`
+  }
+
+  private createValuePrompt(state: SearchState, path: ThoughtNode[]): string {
+    return `${state.variant.prompt}
+
+PARTIAL SOLUTION:
+${this.formatSteps(path)}
+
+Evaluate how likely this partial solution is to lead to a correct, complete answer.
+Check whether each step is valid and whether it makes progress.
+
+End with a line of the form:
+SCORE: [0-10]`
+  }
+
+  private createAnswerPrompt(state: SearchState, path: ThoughtNode[]): string {
+    if (path.length === 0) {
+      return state.variant.prompt
+    }
+
+    return `${state.variant.prompt}
+
+REASONING STEPS:
+${this.formatSteps(path)}
+
+Using these reasoning steps, give the complete final answer.`
+  }
+}
@@ -0,0 +1,90 @@
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Cassette, createTestPromptVariant, setCassette } from '@promptdial/shared'
+
+import { LLMRunner } from '../src/index'
+
+vi.mock('@promptdial/shared', async () => {
+  const actual = await vi.importActual('@promptdial/shared')
+  return {
+    ...actual,
+    createLogger: () => ({
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    }),
+    getTelemetryService: () => ({
+      incrementCounter: vi.fn(),
+      recordLatency: vi.fn(),
+      recordMetric: vi.fn(),
+      logEvent: vi.fn(),
+    }),
+  }
+})
+
+const VARIANT = createTestPromptVariant({ id: 'v1', technique: 'mock_cot', prompt: 'Add 2 and 3' })
+
+function createMockRunner(): LLMRunner {
+  const runner = new LLMRunner()
+  runner.registerProvider({
+    provider: 'mock',
+    api_key: '',
+    default_model: 'mock-2',
+    mock: {
+      fixtures: [{ match: { pattern: 'Add 2 and 3' }, response: 'The sum is 5' }],
+      latency_ms: 0,
+    },
+  } as any)
+  return runner
+}
+
+describe('LLMRunner with a cassette', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    delete process.env.OPENAI_API_KEY
+    delete process.env.ANTHROPIC_API_KEY
+    delete process.env.GOOGLE_AI_API_KEY
+    delete process.env.MOCK_LLM_ENABLED
+    dir = mkdtempSync(join(tmpdir(), 'llm-runner-cassette-'))
+
+    setCassette(new Cassette({ name: 'run', dir, mode: 'record' }))
+    await createMockRunner().runSingle(VARIANT)
+    setCassette(new Cassette({ name: 'run', dir, mode: 'replay' }))
+  })
+
+  afterEach(() => {
+    setCassette(undefined)
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should replay with the provider and model the call was recorded with', async () => {
+    const response = await new LLMRunner().runSingle(VARIANT)
+
+    expect(response).toMatchObject({ content: 'The sum is 5', provider: 'mock', model: 'mock-2' })
+  })
+
+  it('should stream replayed responses to the callback', async () => {
+    const tokens: string[] = []
+    const onComplete = vi.fn()
+
+    const response = await new LLMRunner().runSingle(VARIANT, true, {
+      onToken: (token) => tokens.push(token),
+      onComplete,
+    })
+
+    expect(tokens.join('')).toBe('The sum is 5')
+    expect(tokens.length).toBeGreaterThan(1)
+    expect(onComplete).toHaveBeenCalledWith(response)
+  })
+
+  it('should miss variants the cassette has no recording of', async () => {
+    const unrecorded = { ...VARIANT, prompt: 'Add 4 and 5' }
+
+    await expect(new LLMRunner().runSingle(unrecorded)).rejects.toThrow('No recorded interaction')
+  })
+})
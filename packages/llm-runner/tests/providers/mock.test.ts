@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { MockLLMProvider, MockProviderConfig, hashPrompt } from '../../src/providers/mock'
+import { createTestPromptVariant } from '@promptdial/shared'
+
+vi.mock('@promptdial/shared', async () => {
+  const actual = await vi.importActual('@promptdial/shared')
+  return {
+    ...actual,
+    createLogger: () => ({
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    }),
+    getTelemetryService: () => ({
+      incrementCounter: vi.fn(),
+      recordLatency: vi.fn(),
+      recordMetric: vi.fn(),
+    }),
+  }
+})
+
+describe('MockLLMProvider', () => {
+  let config: MockProviderConfig
+
+  beforeEach(() => {
+    config = {
+      provider: 'mock',
+      api_key: '',
+      default_model: 'mock-1',
+    }
+  })
+
+  describe('configuration', () => {
+    it('should be configured without an API key', () => {
+      const provider = new MockLLMProvider(config)
+      expect(provider.isConfigured()).toBe(true)
+      expect(provider.getProvider()).toBe('mock')
+    })
+  })
+
+  describe('call', () => {
+    it('should return a deterministic default response', async () => {
+      const provider = new MockLLMProvider(config)
+      const variant = createTestPromptVariant({ prompt: 'What is 2+2?' })
+
+      const first = await provider.call(variant)
+      const second = await provider.call(variant)
+
+      expect(first.content).toBe(second.content)
+      expect(first.content).toContain(hashPrompt('What is 2+2?'))
+      expect(first.provider).toBe('mock')
+      expect(first.model).toBe('mock-1')
+    })
+
+    it('should match fixtures by prompt hash', async () => {
+      const prompt = 'Summarize the report'
+      config.mock = {
+        fixtures: [{ match: { prompt_hash: hashPrompt(prompt) }, response: 'Hashed answer' }],
+      }
+      const provider = new MockLLMProvider(config)
+
+      const response = await provider.call(createTestPromptVariant({ prompt }))
+      expect(response.content).toBe('Hashed answer')
+    })
+
+    it('should match fixtures by technique and pattern in order', async () => {
+      config.mock = {
+        fixtures: [
+          { match: { technique: 'g-eval', pattern: 'coherence' }, response: 'SCORE: 9' },
+          { match: { technique: 'g-eval' }, response: 'SCORE: 5' },
+        ],
+      }
+      const provider = new MockLLMProvider(config)
+
+      const coherence = await provider.call(
+        createTestPromptVariant({ technique: 'g-eval', prompt: 'Rate on coherence' }),
+      )
+      const relevance = await provider.call(
+        createTestPromptVariant({ technique: 'g-eval', prompt: 'Rate on relevance' }),
+      )
+
+      expect(coherence.content).toBe('SCORE: 9')
+      expect(relevance.content).toBe('SCORE: 5')
+    })
+
+    it('should use fixture token counts and latency', async () => {
+      config.mock = {
+        fixtures: [{ match: { pattern: '.*' }, response: 'ok', tokens_used: 42, latency_ms: 5 }],
+      }
+      const provider = new MockLLMProvider(config)
+
+      const response = await provider.call(createTestPromptVariant())
+      expect(response.tokens_used).toBe(42)
+      expect(response.latency_ms).toBe(5)
+    })
+
+    it('should return error responses for fixtures with errors', async () => {
+      config.mock = {
+        fixtures: [{ match: { pattern: 'fail' }, error: 'Rate limited' }],
+      }
+      const provider = new MockLLMProvider(config)
+
+      const response = await provider.call(createTestPromptVariant({ prompt: 'please fail' }))
+      expect(response.error).toBe('Rate limited')
+      expect(response.content).toBe('')
+    })
+
+    it('should inject errors deterministically by error rate', async () => {
+      config.mock = { error_rate: 1 }
+      const provider = new MockLLMProvider(config)
+
+      const response = await provider.call(createTestPromptVariant())
+      expect(response.error).toBe('Mock provider injected failure')
+    })
+
+    it('should stream tokens and complete', async () => {
+      config.mock = { default_response: 'one two three' }
+      const provider = new MockLLMProvider(config)
+      const tokens: string[] = []
+      const onComplete = vi.fn()
+
+      const response = await provider.call(createTestPromptVariant(), true, {
+        onToken: (token) => tokens.push(token),
+        onComplete,
+      })
+
+      expect(tokens.join('')).toBe('one two three')
+      expect(onComplete).toHaveBeenCalledWith(response)
+    })
+  })
+})
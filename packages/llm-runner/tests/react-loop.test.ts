@@ -0,0 +1,199 @@
+import { describe, it, expect, vi } from 'vitest'
+import { LLMRunner } from '../src/index'
+import { MockFixture } from '../src/providers/mock'
+import { MAX_REACT_STEPS, parseReActTurn } from '../src/react-loop'
+import { createTestPromptVariant, validateToolUseResults, REACT_TOOLS } from '@promptdial/shared'
+import type { PromptVariant, VariantToolLoop } from '@promptdial/shared'
+
+vi.mock('@promptdial/shared', async () => {
+  const actual = await vi.importActual('@promptdial/shared')
+  return {
+    ...actual,
+    createLogger: () => ({
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    }),
+    getTelemetryService: () => ({
+      incrementCounter: vi.fn(),
+      recordLatency: vi.fn(),
+      recordMetric: vi.fn(),
+      logEvent: vi.fn(),
+    }),
+  }
+})
+
+function createRunner(fixtures: MockFixture[]): LLMRunner {
+  const runner = new LLMRunner()
+  runner.registerProvider({
+    provider: 'mock',
+    api_key: '',
+    default_model: 'mock-1',
+    mock: { fixtures, latency_ms: 0 },
+  } as any)
+  return runner
+}
+
+function createToolVariant(toolLoop: VariantToolLoop): PromptVariant {
+  return createTestPromptVariant({
+    id: 'react',
+    technique: 'mock_react',
+    prompt: 'What is 17% of 2340?',
+    tool_loop: toolLoop,
+  })
+}
+
+describe('parseReActTurn', () => {
+  it('should parse a thought and an action', () => {
+    expect(
+      parseReActTurn('Thought: I need to compute it\nAction: calculator[2340 * 0.17]'),
+    ).toEqual({
+      thought: 'I need to compute it',
+      action: { tool: 'calculator', input: '2340 * 0.17' },
+    })
+  })
+
+  it('should keep brackets inside the action input', () => {
+    const turn = parseReActTurn('Thought: run it\nAction: javascript[[1, 2].map((n) => n * 2)]')
+    expect(turn.action?.input).toBe('[1, 2].map((n) => n * 2)')
+  })
+
+  it('should ignore observations the model invents', () => {
+    const turn = parseReActTurn(
+      'Thought: compute\nAction: calculator[1 + 1]\nObservation: 3\nThought: done\nFinal Answer: 3',
+    )
+    expect(turn.action).toEqual({ tool: 'calculator', input: '1 + 1' })
+    expect(turn.final_answer).toBeUndefined()
+  })
+
+  it('should parse a final answer', () => {
+    expect(parseReActTurn('Thought: I now know the final answer\nFinal Answer: 397.8')).toEqual({
+      thought: 'I now know the final answer',
+      final_answer: '397.8',
+    })
+  })
+})
+
+describe('ReActLoop', () => {
+  it('should invoke tools, inject observations and stop on the final answer', async () => {
+    const runner = createRunner([
+      {
+        match: { pattern: 'Observation: 397\\.8' },
+        response: 'Thought: I now know the final answer\nFinal Answer: 397.8',
+        tokens_used: 40,
+      },
+      {
+        match: { pattern: 'What is 17%' },
+        response: 'Thought: I should calculate it\nAction: calculator[2340 * 0.17]',
+        tokens_used: 30,
+      },
+    ])
+
+    const response = await runner.runSingle(
+      createToolVariant({ tools: [REACT_TOOLS.CALCULATOR], max_steps: 4 }),
+    )
+
+    expect(response.content).toBe('397.8')
+    expect(response.tokens_used).toBe(70)
+    expect(response.tool_trace?.stop_reason).toBe('final_answer')
+    expect(response.tool_trace?.steps[0]).toMatchObject({
+      tool: REACT_TOOLS.CALCULATOR,
+      tool_input: '2340 * 0.17',
+      observation: '397.8',
+    })
+    expect(validateToolUseResults(response.tool_trace!.messages)).toEqual([])
+  })
+
+  it('should report tool errors and unknown tools as observations', async () => {
+    const runner = createRunner([
+      {
+        match: { pattern: 'Observation: Unknown tool' },
+        response: 'Final Answer: gave up',
+      },
+      {
+        match: { pattern: 'Observation: Error' },
+        response: 'Thought: try another tool\nAction: shell[ls]',
+      },
+      { match: { pattern: 'What is 17%' }, response: 'Action: calculator[2340 *]' },
+    ])
+
+    const response = await runner.runSingle(createToolVariant({ tools: [REACT_TOOLS.CALCULATOR] }))
+
+    const [first, second] = response.tool_trace!.steps
+    expect(first.observation).toContain('Error: Unexpected end of expression')
+    expect(second.observation).toBe('Unknown tool "shell". Available tools: calculator')
+    expect(response.content).toBe('gave up')
+  })
+
+  it('should only expose the tools the variant asks for', async () => {
+    const runner = createRunner([
+      { match: { pattern: 'Observation:' }, response: 'Final Answer: done' },
+      { match: { pattern: 'What is 17%' }, response: 'Action: javascript[1 + 1]' },
+    ])
+
+    const response = await runner.runSingle(createToolVariant({ tools: [REACT_TOOLS.CALCULATOR] }))
+
+    expect(response.tool_trace?.steps[0].observation).toContain('Unknown tool "javascript"')
+  })
+
+  it('should stop after max_steps when the model never answers', async () => {
+    const runner = createRunner([
+      { match: { pattern: 'What is 17%' }, response: 'Thought: again\nAction: calculator[1 + 1]' },
+    ])
+
+    const response = await runner.runSingle(
+      createToolVariant({ tools: [REACT_TOOLS.CALCULATOR], max_steps: 3 }),
+    )
+
+    expect(response.tool_trace?.steps).toHaveLength(3)
+    expect(response.tool_trace?.stop_reason).toBe('max_steps')
+    expect(validateToolUseResults(response.tool_trace!.messages)).toEqual([])
+  })
+
+  it('should cap the steps a variant can request', async () => {
+    const runner = createRunner([
+      { match: { pattern: 'What is 17%' }, response: 'Action: calculator[1 + 1]' },
+    ])
+
+    const response = await runner.runSingle(
+      createToolVariant({ tools: [REACT_TOOLS.CALCULATOR], max_steps: 500 }),
+    )
+
+    expect(response.tool_trace?.steps).toHaveLength(MAX_REACT_STEPS)
+  })
+
+  it('should return a direct answer when the model takes no action', async () => {
+    const runner = createRunner([{ match: { pattern: 'What is 17%' }, response: 'It is 397.8.' }])
+
+    const response = await runner.runSingle(createToolVariant({ tools: [REACT_TOOLS.CALCULATOR] }))
+
+    expect(response.content).toBe('It is 397.8.')
+    expect(response.tool_trace?.stop_reason).toBe('no_action')
+  })
+
+  it('should use tools registered at runtime', async () => {
+    const runner = createRunner([
+      { match: { pattern: 'Observation: sunny' }, response: 'Final Answer: It is sunny' },
+      { match: { pattern: 'What is 17%' }, response: 'Action: weather[Paris]' },
+    ])
+    runner.getToolRegistry().register({
+      name: 'weather',
+      description: 'Current weather for a city',
+      input_hint: 'city',
+      execute: async () => 'sunny',
+    })
+
+    const response = await runner.runSingle(createToolVariant({ tools: ['weather'] }))
+
+    expect(response.content).toBe('It is sunny')
+  })
+
+  it('should reject variants without any registered tool', async () => {
+    const runner = createRunner([])
+
+    await expect(runner.runSingle(createToolVariant({ tools: ['missing'] }))).rejects.toThrow(
+      'has no registered tools',
+    )
+  })
+})
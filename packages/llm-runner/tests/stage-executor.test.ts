@@ -0,0 +1,227 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { LLMRunner } from '../src/index'
+import { MockFixture } from '../src/providers/mock'
+import { MAX_STAGE_ITERATIONS, renderStageTemplate, stageOutputName } from '../src/stage-executor'
+import { createTestPromptVariant } from '@promptdial/shared'
+import type { PromptVariant, VariantStages } from '@promptdial/shared'
+
+vi.mock('@promptdial/shared', async () => {
+  const actual = await vi.importActual('@promptdial/shared')
+  return {
+    ...actual,
+    createLogger: () => ({
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    }),
+    getTelemetryService: () => ({
+      incrementCounter: vi.fn(),
+      recordLatency: vi.fn(),
+      recordMetric: vi.fn(),
+      logEvent: vi.fn(),
+    }),
+  }
+})
+
+const REFINE_STAGES: VariantStages = {
+  steps: [
+    { name: 'draft', output: 'answer', prompt: 'DRAFT the answer' },
+    {
+      name: 'critique',
+      output: 'feedback',
+      prompt: 'CRITIQUE this: {{answer}}',
+      stop_pattern: 'NO_FURTHER_IMPROVEMENTS',
+    },
+    { name: 'revise', output: 'answer', prompt: 'REVISE {{ answer }} using {{feedback}}' },
+  ],
+  loop_from: 'critique',
+  max_iterations: 3,
+}
+
+function createRunner(fixtures: MockFixture[]): LLMRunner {
+  const runner = new LLMRunner()
+  runner.registerProvider({
+    provider: 'mock',
+    api_key: '',
+    default_model: 'mock-1',
+    mock: { fixtures, latency_ms: 0 },
+  } as any)
+  return runner
+}
+
+function createStagedVariant(stages: VariantStages): PromptVariant {
+  return createTestPromptVariant({ id: 'staged', technique: 'mock_staged', stages })
+}
+
+describe('renderStageTemplate', () => {
+  it('should substitute earlier outputs and blank unknown variables', () => {
+    const rendered = renderStageTemplate('A={{a}} B={{ b }} C={{missing}}', { a: '1', b: '2' })
+    expect(rendered).toBe('A=1 B=2 C=')
+  })
+
+  it('should default the output variable to the stage name', () => {
+    expect(stageOutputName({ name: 'solve', prompt: '' })).toBe('solve')
+    expect(stageOutputName({ name: 'revise', output: 'answer', prompt: '' })).toBe('answer')
+  })
+})
+
+describe('StageExecutor', () => {
+  let runSingleSpy: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should run stages in order and feed outputs into later templates', async () => {
+    const runner = createRunner([
+      { match: { pattern: '^DECOMPOSE' }, response: '1. Find x', tokens_used: 10 },
+      { match: { pattern: '^SOLVE' }, response: 'x = 4', tokens_used: 20 },
+    ])
+    runSingleSpy = vi.spyOn(runner, 'runSingle')
+
+    const response = await runner.runSingle(
+      createStagedVariant({
+        steps: [
+          { name: 'decompose', prompt: 'DECOMPOSE the problem' },
+          { name: 'solve', prompt: 'SOLVE using {{decompose}}' },
+        ],
+      }),
+    )
+
+    expect(response.content).toBe('x = 4')
+    expect(response.tokens_used).toBe(30)
+    expect(response.transcript?.stop_reason).toBe('completed')
+    expect(response.transcript?.stages.map((s) => s.stage)).toEqual(['decompose', 'solve'])
+    expect(response.transcript?.stages[1].prompt).toBe('SOLVE using 1. Find x')
+    expect(runSingleSpy.mock.calls[2][0]).toMatchObject({ id: 'staged_solve_1', stages: undefined })
+  })
+
+  it('should record tokens, cost and latency for every stage', async () => {
+    const runner = createRunner([
+      { match: { pattern: '^DECOMPOSE' }, response: 'parts', tokens_used: 1000, latency_ms: 5 },
+      { match: { pattern: '^SOLVE' }, response: 'done', tokens_used: 3000, latency_ms: 5 },
+    ])
+
+    const response = await runner.runSingle(
+      createStagedVariant({
+        steps: [
+          { name: 'decompose', prompt: 'DECOMPOSE' },
+          { name: 'solve', prompt: 'SOLVE {{decompose}}' },
+        ],
+      }),
+    )
+
+    const [first, second] = response.transcript!.stages
+    expect(first).toMatchObject({ tokens_used: 1000, latency_ms: 5, iteration: 1 })
+    expect(second.tokens_used).toBe(3000)
+    expect(first.cost_usd).toBeGreaterThan(0)
+    expect(response.cost_usd).toBeCloseTo(first.cost_usd + second.cost_usd)
+    expect(response.transcript!.latency_ms).toBe(response.latency_ms)
+  })
+
+  it('should loop from loop_from until the stop pattern matches', async () => {
+    let critiques = 0
+    const runner = createRunner([
+      { match: { pattern: '^DRAFT' }, response: 'v1' },
+      { match: { pattern: '^REVISE v1' }, response: 'v2' },
+      { match: { pattern: '^CRITIQUE this: v1' }, response: 'Add detail' },
+      { match: { pattern: '^CRITIQUE this: v2' }, response: 'NO_FURTHER_IMPROVEMENTS' },
+    ])
+    const runSingle = runner.runSingle.bind(runner)
+    vi.spyOn(runner, 'runSingle').mockImplementation((variant, ...rest) => {
+      if (variant.prompt.startsWith('CRITIQUE')) critiques++
+      return runSingle(variant, ...rest)
+    })
+
+    const response = await runner.runSingle(createStagedVariant(REFINE_STAGES))
+
+    expect(critiques).toBe(2)
+    expect(response.content).toBe('v2')
+    expect(response.transcript?.iterations).toBe(2)
+    expect(response.transcript?.stop_reason).toBe('stop_pattern')
+    expect(response.transcript?.stages.map((s) => `${s.stage}#${s.iteration}`)).toEqual([
+      'draft#1',
+      'critique#1',
+      'revise#1',
+      'critique#2',
+    ])
+  })
+
+  it('should stop after max_iterations passes', async () => {
+    const runner = createRunner([{ match: { pattern: '^CRITIQUE' }, response: 'Still wrong' }])
+
+    const response = await runner.runSingle(createStagedVariant(REFINE_STAGES))
+
+    expect(response.transcript?.iterations).toBe(3)
+    expect(response.transcript?.stop_reason).toBe('max_iterations')
+    expect(response.transcript?.stages).toHaveLength(7)
+  })
+
+  it('should cap the iterations a variant can request', async () => {
+    const runner = createRunner([])
+
+    const response = await runner.runSingle(
+      createStagedVariant({ ...REFINE_STAGES, max_iterations: 1000 }),
+    )
+
+    expect(response.transcript?.iterations).toBe(MAX_STAGE_ITERATIONS)
+  })
+
+  it('should return the variable named by result', async () => {
+    const runner = createRunner([
+      { match: { pattern: '^ANSWER' }, response: '42' },
+      { match: { pattern: '^CHECK' }, response: 'Looks right' },
+    ])
+
+    const response = await runner.runSingle(
+      createStagedVariant({
+        steps: [
+          { name: 'answer', prompt: 'ANSWER' },
+          { name: 'check', prompt: 'CHECK {{answer}}' },
+        ],
+        result: 'answer',
+      }),
+    )
+
+    expect(response.content).toBe('42')
+  })
+
+  it('should fail when a stage call fails', async () => {
+    const runner = createRunner([{ match: { pattern: '^SOLVE' }, error: 'Rate limited' }])
+
+    await expect(
+      runner.runSingle(
+        createStagedVariant({
+          steps: [
+            { name: 'decompose', prompt: 'DECOMPOSE' },
+            { name: 'solve', prompt: 'SOLVE {{decompose}}' },
+          ],
+        }),
+      ),
+    ).rejects.toThrow('Stage solve failed')
+  })
+
+  it('should reject an unknown loop_from stage before calling the model', async () => {
+    const runner = createRunner([])
+    runSingleSpy = vi.spyOn(runner, 'runSingle')
+
+    await expect(
+      runner.runSingle(createStagedVariant({ ...REFINE_STAGES, loop_from: 'missing' })),
+    ).rejects.toThrow('Unknown loop_from stage "missing"')
+    expect(runSingleSpy).toHaveBeenCalledTimes(1)
+  })
+
+  it('should isolate failures to the staged variant in a batch', async () => {
+    const runner = createRunner([])
+
+    const [staged, single] = await runner.runBatch([
+      createStagedVariant({ ...REFINE_STAGES, loop_from: 'missing' }),
+      createTestPromptVariant({ id: 'single', technique: 'mock_single' }),
+    ])
+
+    expect(staged.error).toContain('Unknown loop_from stage')
+    expect(single.error).toBeUndefined()
+    expect(single.transcript).toBeUndefined()
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest'
+import { ToolRegistry, ReActTool } from '../../src/tools/base'
+import { HttpStubTool } from '../../src/tools/http-stub'
+import { RetrievalSearchTool } from '../../src/tools/search'
+import { createDefaultToolRegistry } from '../../src/tools'
+import { REACT_TOOLS } from '@promptdial/shared'
+
+vi.mock('@promptdial/shared', async () => {
+  const actual = await vi.importActual('@promptdial/shared')
+  return {
+    ...actual,
+    createLogger: () => ({
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    }),
+  }
+})
+
+function createTool(name: string): ReActTool {
+  return { name, description: name, input_hint: 'input', execute: async (input) => input }
+}
+
+describe('ToolRegistry', () => {
+  it('should select registered tools in the requested order', () => {
+    const registry = new ToolRegistry()
+    registry.register(createTool('a'))
+    registry.register(createTool('b'))
+
+    expect(registry.select(['b', 'missing', 'a']).map((t) => t.name)).toEqual(['b', 'a'])
+  })
+
+  it('should let custom tools replace and remove built-ins', () => {
+    const registry = createDefaultToolRegistry()
+    const custom = createTool(REACT_TOOLS.CALCULATOR)
+
+    registry.register(custom)
+    expect(registry.get(REACT_TOOLS.CALCULATOR)).toBe(custom)
+
+    expect(registry.unregister(REACT_TOOLS.HTTP)).toBe(true)
+    expect(registry.get(REACT_TOOLS.HTTP)).toBeNull()
+  })
+
+  it('should register every built-in tool by default', () => {
+    const names = createDefaultToolRegistry()
+      .list()
+      .map((t) => t.name)
+
+    expect(names.sort()).toEqual(Object.values(REACT_TOOLS).sort())
+  })
+})
+
+describe('HttpStubTool', () => {
+  it('should answer known URLs and 404 everything else', async () => {
+    const tool = new HttpStubTool({ 'https://api.example.com/rates': '{"usd": 1}' })
+
+    expect(await tool.execute('GET https://api.example.com/rates/')).toBe('200 OK\n{"usd": 1}')
+    expect(await tool.execute('https://other.example.com')).toBe(
+      '404 Not Found: https://other.example.com',
+    )
+  })
+})
+
+describe('RetrievalSearchTool', () => {
+  it('should post the query to the retrieval hub and format passages', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        success: true,
+        data: {
+          documents: [
+            { id: 'd1', content: 'Paris is the capital of France.', score: 0.9 },
+            { id: 'd2', content: 'France is in Europe.', score: 0.7 },
+          ],
+        },
+      }),
+    })
+    const tool = new RetrievalSearchTool({ url: 'http://hub', top_k: 2, fetch: fetchMock })
+
+    const output = await tool.execute(' capital of France ')
+
+    expect(output).toBe('[1] Paris is the capital of France.\n\n[2] France is in Europe.')
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(url).toBe('http://hub/search')
+    expect(JSON.parse(init.body).payload).toEqual({ query: 'capital of France', top_k: 2 })
+  })
+
+  it('should fail on hub errors so the loop reports them as observations', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({ ok: false, status: 503 })
+    const tool = new RetrievalSearchTool({ fetch: fetchMock })
+
+    await expect(tool.execute('anything')).rejects.toThrow('Retrieval hub returned 503')
+  })
+})
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { CalculatorTool, evaluateExpression } from '../../src/tools/calculator'
+
+describe('evaluateExpression', () => {
+  it('should respect operator precedence and parentheses', () => {
+    expect(evaluateExpression('2 + 3 * 4')).toBe(14)
+    expect(evaluateExpression('(2 + 3) * 4')).toBe(20)
+    expect(evaluateExpression('10 - 4 - 3')).toBe(3)
+    expect(evaluateExpression('2 ^ 3 ^ 2')).toBe(512)
+  })
+
+  it('should handle unary signs, decimals and exponents', () => {
+    expect(evaluateExpression('-2 ^ 2')).toBe(-4)
+    expect(evaluateExpression('-(3 - 5)')).toBe(2)
+    expect(evaluateExpression('.5 * 1.5e2')).toBe(75)
+  })
+
+  it('should support functions and constants', () => {
+    expect(evaluateExpression('sqrt(16) + max(1, 7, 3)')).toBe(11)
+    expect(evaluateExpression('round(pi * 100)')).toBe(314)
+    expect(evaluateExpression('ln(e)')).toBe(1)
+  })
+
+  it('should reject anything that is not arithmetic', () => {
+    expect(() => evaluateExpression('process.exit(1)')).toThrow('Unexpected character')
+    expect(() => evaluateExpression('constructor(1)')).toThrow('Unknown identifier')
+    expect(() => evaluateExpression('2 +')).toThrow('Unexpected end of expression')
+    expect(() => evaluateExpression('(1 + 2')).toThrow('Expected ")"')
+    expect(() => evaluateExpression('1 / 0')).toThrow('not a finite number')
+  })
+})
+
+describe('CalculatorTool', () => {
+  it('should format results without floating point noise', async () => {
+    const tool = new CalculatorTool()
+    expect(await tool.execute('0.1 + 0.2')).toBe('0.3')
+    expect(await tool.execute('2340 * 0.17')).toBe('397.8')
+  })
+})
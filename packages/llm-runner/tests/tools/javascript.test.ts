@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { JavaScriptTool } from '../../src/tools/javascript'
+
+describe('JavaScriptTool', () => {
+  it('should return console output and the last expression value', async () => {
+    const tool = new JavaScriptTool()
+
+    const output = await tool.execute('console.log("sum", 1 + 2); [1, 2, 3].map((n) => n * 2)')
+
+    expect(output).toBe('sum 3\n=> [2,4,6]')
+  })
+
+  it('should not expose host globals', async () => {
+    const tool = new JavaScriptTool()
+
+    expect(await tool.execute('typeof process + " " + typeof require')).toBe(
+      '=> undefined undefined',
+    )
+    await expect(tool.execute('console.log.constructor("return process")()')).rejects.toThrow()
+    await expect(
+      tool.execute('this.constructor.constructor("return process.version")()'),
+    ).rejects.toThrow()
+  })
+
+  it('should stop code that runs past the timeout', async () => {
+    const tool = new JavaScriptTool({ timeout_ms: 50 })
+
+    await expect(tool.execute('while (true) {}')).rejects.toThrow(/timed out/)
+    await expect(tool.execute('Promise.resolve().then(() => { while (true) {} })')).rejects.toThrow(
+      /timed out/,
+    )
+  })
+
+  it('should truncate long output', async () => {
+    const tool = new JavaScriptTool({ max_output_chars: 10 })
+
+    expect(await tool.execute('"x".repeat(100)')).toHaveLength(10)
+  })
+})
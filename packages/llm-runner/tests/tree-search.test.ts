@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { LLMRunner } from '../src/index'
+import { MockFixture } from '../src/providers/mock'
+import { MAX_TREE_BREADTH, parseThoughts, parseValueScore } from '../src/tree-search'
+import { createTestPromptVariant } from '@promptdial/shared'
+import type { PromptVariant, ThoughtNode, VariantTreeSearch } from '@promptdial/shared'
+
+vi.mock('@promptdial/shared', async () => {
+  const actual = await vi.importActual('@promptdial/shared')
+  return {
+    ...actual,
+    createLogger: () => ({
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    }),
+    getTelemetryService: () => ({
+      incrementCounter: vi.fn(),
+      recordLatency: vi.fn(),
+      recordMetric: vi.fn(),
+      logEvent: vi.fn(),
+    }),
+  }
+})
+
+// Value fixtures match on the last step of the partial solution
+const TREE_FIXTURES: MockFixture[] = [
+  { match: { pattern: 'No reasoning steps yet' }, response: '1. Try A\n2. Try B\n3. Try C' },
+  { match: { pattern: 'REASONING SO FAR' }, response: '1. Finish A\n2. Finish B' },
+  { match: { pattern: 'Try B\\s+Evaluate' }, response: 'Dead end.\nSCORE: 2' },
+  { match: { pattern: 'Try C\\s+Evaluate' }, response: 'Promising.\nSCORE: 7' },
+  { match: { pattern: 'Finish A\\s+Evaluate' }, response: 'Correct.\nSCORE: 9' },
+  { match: { pattern: 'Evaluate how likely' }, response: 'Plausible.\nSCORE: 6' },
+  { match: { pattern: 'give the complete final answer' }, response: 'FINAL' },
+]
+
+function createRunner(fixtures: MockFixture[] = TREE_FIXTURES): LLMRunner {
+  const runner = new LLMRunner()
+  runner.registerProvider({
+    provider: 'mock',
+    api_key: '',
+    default_model: 'mock-1',
+    mock: { fixtures, latency_ms: 0 },
+  } as any)
+  return runner
+}
+
+function createSearchVariant(tree_search: VariantTreeSearch): PromptVariant {
+  return createTestPromptVariant({
+    id: 'tot',
+    technique: 'mock_tree_of_thought',
+    prompt: 'Solve the puzzle',
+    tree_search,
+  })
+}
+
+function byThought(nodes: ThoughtNode[], thought: string): ThoughtNode[] {
+  return nodes.filter((node) => node.thought === thought)
+}
+
+describe('parseThoughts', () => {
+  it('should read numbered and bulleted lines up to the breadth', () => {
+    expect(parseThoughts('Ideas:\n1. First\n2) Second\n- Third', 2)).toEqual(['First', 'Second'])
+  })
+
+  it('should fall back to non-empty lines and drop duplicates', () => {
+    expect(parseThoughts('Alpha\n\nBeta\nAlpha', MAX_TREE_BREADTH)).toEqual(['Alpha', 'Beta'])
+  })
+})
+
+describe('parseValueScore', () => {
+  it('should scale the SCORE line to 0-1', () => {
+    expect(parseValueScore('Looks right.\nSCORE: 8')).toBe(0.8)
+    expect(parseValueScore('SCORE: 15')).toBe(1)
+  })
+
+  it('should fall back to sure/likely/impossible verdicts', () => {
+    expect(parseValueScore('likely')).toBe(0.5)
+    expect(parseValueScore('This is impossible')).toBe(0)
+    expect(parseValueScore('no idea')).toBe(0)
+  })
+})
+
+describe('TreeSearchExecutor', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should expand every thought above the threshold in BFS', async () => {
+    const runner = createRunner()
+    const response = await runner.runSingle(
+      createSearchVariant({ strategy: 'bfs', breadth: 3, depth: 2, prune_threshold: 0.5 }),
+    )
+
+    const tree = response.thought_tree!
+    expect(response.content).toBe('FINAL')
+    expect(tree.stop_reason).toBe('completed')
+    expect(byThought(tree.nodes, 'Try B')[0]).toMatchObject({
+      status: 'pruned',
+      prune_reason: 'below_threshold',
+      score: 0.2,
+    })
+    expect(byThought(tree.nodes, 'Try A')[0].status).toBe('expanded')
+    expect(byThought(tree.nodes, 'Try C')[0].status).toBe('expanded')
+    expect(byThought(tree.nodes, 'Finish A').every((n) => n.status === 'leaf')).toBe(true)
+
+    // 1 root + 2 expansions, 3 + 2 + 2 value calls, 1 answer
+    expect(tree.llm_calls).toBe(11)
+    const best = tree.best_path.map((id) => tree.nodes.find((n) => n.id === id)!.thought)
+    expect(best).toHaveLength(2)
+    expect(best[1]).toBe('Finish A')
+  })
+
+  it('should keep only the best beam_width thoughts per level in beam search', async () => {
+    const runner = createRunner()
+    const response = await runner.runSingle(
+      createSearchVariant({
+        strategy: 'beam',
+        breadth: 3,
+        depth: 2,
+        beam_width: 1,
+        prune_threshold: 0,
+      }),
+    )
+
+    const tree = response.thought_tree!
+    expect(byThought(tree.nodes, 'Try C')[0].status).toBe('expanded')
+    expect(byThought(tree.nodes, 'Try A')[0]).toMatchObject({
+      status: 'pruned',
+      prune_reason: 'beam_width',
+    })
+    expect(byThought(tree.nodes, 'Finish B')[0]).toMatchObject({
+      status: 'pruned',
+      prune_reason: 'beam_width',
+    })
+  })
+
+  it('should follow the best thought first and stop at a leaf in DFS', async () => {
+    const runner = createRunner()
+    const response = await runner.runSingle(
+      createSearchVariant({ strategy: 'dfs', breadth: 3, depth: 2, prune_threshold: 0.5 }),
+    )
+
+    const tree = response.thought_tree!
+    expect(tree.stop_reason).toBe('solution_found')
+    expect(byThought(tree.nodes, 'Try C')[0].status).toBe('expanded')
+    expect(byThought(tree.nodes, 'Try A')[0].status).toBe('unexplored')
+  })
+
+  it('should stop expanding and prune the frontier once the budget is spent', async () => {
+    const runner = createRunner()
+    const response = await runner.runSingle(
+      createSearchVariant({
+        strategy: 'bfs',
+        breadth: 3,
+        depth: 3,
+        prune_threshold: 0.5,
+        budget: {
+          max_cost_usd: 1,
+          max_latency_ms: 60000,
+          max_tokens: 1,
+          remaining_cost_usd: 1,
+          remaining_time_ms: 60000,
+        },
+      }),
+    )
+
+    const tree = response.thought_tree!
+    expect(tree.stop_reason).toBe('budget_exhausted')
+    expect(byThought(tree.nodes, 'Try A')[0]).toMatchObject({
+      status: 'pruned',
+      prune_reason: 'budget',
+    })
+    // The answer is still built from the best thought reached
+    expect(tree.best_path).toEqual([byThought(tree.nodes, 'Try C')[0].id])
+    expect(response.content).toBe('FINAL')
+    expect(tree.llm_calls).toBe(5)
+  })
+
+  it('should report the combined usage of every call', async () => {
+    const runner = createRunner()
+    const runSingleSpy = vi.spyOn(runner, 'runSingle')
+    const response = await runner.runSingle(
+      createSearchVariant({ strategy: 'bfs', breadth: 2, depth: 1, prune_threshold: 0 }),
+    )
+
+    const tree = response.thought_tree!
+    expect(response.tokens_used).toBe(tree.tokens_used)
+    expect(response.cost_usd).toBeCloseTo(tree.cost_usd)
+    expect(runSingleSpy.mock.calls[1][0]).toMatchObject({
+      id: 'tot_tot_expand_n0',
+      tree_search: undefined,
+    })
+    expect(runSingleSpy.mock.calls[2][0].temperature).toBe(0)
+  })
+
+  it('should fail when a search call errors', async () => {
+    const runner = createRunner([{ match: {}, error: 'provider down' }])
+
+    await expect(
+      runner.runTreeSearch(
+        createSearchVariant({ strategy: 'bfs', breadth: 2, depth: 1, prune_threshold: 0 }),
+      ),
+    ).rejects.toThrow('Tree search call expand_n0 failed: provider down')
+  })
+})
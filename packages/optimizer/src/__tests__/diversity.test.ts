@@ -0,0 +1,113 @@
+/**
+ * PromptDial 3.0 - Variant Diversity Tests
+ */
+
+import { describe, it, expect } from 'vitest'
+import { PromptVariant } from '@promptdial/shared'
+import {
+  diversityOf,
+  promptSimilarity,
+  selectByMMR,
+  shingles,
+  techniqueSimilarity,
+  variantSimilarity,
+} from '../diversity'
+import { ParetoSolution } from '../types'
+
+const createVariant = (
+  id: string,
+  prompt: string,
+  technique: string = 'FewShot_CoT',
+  metadata?: Record<string, unknown>,
+): PromptVariant => ({
+  id,
+  technique,
+  prompt,
+  temperature: 0.7,
+  est_tokens: 100,
+  cost_usd: 0.01,
+  metadata,
+})
+
+const BASE = 'Explain step by step how photosynthesis turns sunlight into chemical energy'
+
+describe('Variant diversity', () => {
+  describe('similarity', () => {
+    it('should build word shingles', () => {
+      expect(shingles('The quick brown fox jumps')).toEqual(
+        new Set(['the quick brown', 'quick brown fox', 'brown fox jumps']),
+      )
+      expect(shingles('Too short')).toEqual(new Set(['too short']))
+    })
+
+    it('should rate rewordings as more similar than different prompts', () => {
+      const original = createVariant('a', BASE)
+      const reworded = createVariant('b', `${BASE}, please`)
+      const different = createVariant('c', 'List three risks of deploying on a Friday afternoon')
+
+      expect(promptSimilarity(original, original)).toBe(1)
+      expect(promptSimilarity(original, reworded)).toBeGreaterThan(0.8)
+      expect(promptSimilarity(original, different)).toBe(0)
+    })
+
+    it('should prefer embeddings when both variants carry one', () => {
+      const a = createVariant('a', BASE, 'FewShot_CoT', { embedding: [1, 0] })
+      const b = createVariant('b', 'Unrelated wording', 'FewShot_CoT', { embedding: [1, 0] })
+
+      expect(promptSimilarity(a, b)).toBeCloseTo(1, 5)
+    })
+
+    it('should rate techniques of the same family as partly similar', () => {
+      const cot = createVariant('a', BASE, 'FewShot_CoT')
+      const cotAlias = createVariant('b', BASE, 'chain_of_thought')
+      const tot = createVariant('c', BASE, 'TreeOfThought')
+      const refine = createVariant('d', BASE, 'SelfRefine')
+
+      expect(techniqueSimilarity(cot, cotAlias)).toBe(1)
+      expect(techniqueSimilarity(cot, tot)).toBe(0.5)
+      expect(techniqueSimilarity(cot, refine)).toBe(0)
+    })
+
+    it('should combine prompt and technique similarity', () => {
+      const a = createVariant('a', BASE, 'FewShot_CoT')
+
+      expect(variantSimilarity(a, createVariant('b', BASE, 'FewShot_CoT'))).toBeCloseTo(1, 5)
+      expect(variantSimilarity(a, createVariant('c', BASE, 'SelfRefine'))).toBeCloseTo(0.7, 5)
+    })
+  })
+
+  describe('diversityOf', () => {
+    it('should score a variant by its closest neighbour', () => {
+      const original = createVariant('a', BASE)
+      const duplicate = createVariant('b', BASE)
+      const distinct = createVariant('c', 'List three risks of deploying on a Friday', 'SelfRefine')
+      const population = [original, duplicate, distinct]
+
+      expect(diversityOf(original, population)).toBeCloseTo(0, 5)
+      expect(diversityOf(distinct, population)).toBeCloseTo(1, 5)
+      expect(diversityOf(original, [original])).toBe(1)
+    })
+  })
+
+  describe('selectByMMR', () => {
+    const solution = (variant: PromptVariant, quality: number): ParetoSolution => ({
+      variant_id: variant.id,
+      objectives: { quality, cost: 0.5, latency: 0.5 },
+      variant,
+    })
+
+    it('should pass over near-duplicates of what is already chosen', () => {
+      const recommended = solution(createVariant('rec', BASE), 0.9)
+      const reworded = solution(createVariant('reworded', `${BASE}, please`), 0.85)
+      const distinct = solution(
+        createVariant('distinct', 'Describe the light and dark reactions', 'SelfRefine'),
+        0.8,
+      )
+      const relevance = (s: ParetoSolution) => s.objectives.quality
+
+      expect(selectByMMR([reworded, distinct], [recommended], 1, relevance)[0]).toBe(distinct)
+      expect(selectByMMR([reworded, distinct], [recommended], 1, relevance, 1)[0]).toBe(reworded)
+      expect(selectByMMR([reworded, distinct], [recommended], 5, relevance)).toHaveLength(2)
+    })
+  })
+})
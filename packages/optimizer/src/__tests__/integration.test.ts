@@ -7,6 +7,13 @@ import { OptimizerService } from '../index'
 import { OptimizationRequest, OptimizationResult } from '../types'
 import { PromptVariant, EvaluationResult } from '@promptdial/shared'
 
+const telemetry = vi.hoisted(() => ({
+  recordMetric: vi.fn(),
+  recordLatency: vi.fn(),
+  recordCounter: vi.fn(),
+  incrementCounter: vi.fn(),
+}))
+
 // Mock dependencies
 vi.mock('@promptdial/shared', async (importOriginal) => {
   const actual = await importOriginal<typeof import('@promptdial/shared')>()
@@ -18,12 +25,7 @@ vi.mock('@promptdial/shared', async (importOriginal) => {
       warn: vi.fn(),
       error: vi.fn(),
     }),
-    getTelemetryService: () => ({
-      recordMetric: vi.fn(),
-      recordLatency: vi.fn(),
-      recordCounter: vi.fn(),
-      incrementCounter: vi.fn(),
-    }),
+    getTelemetryService: () => telemetry,
   }
 })
 
@@ -238,4 +240,201 @@ describe('OptimizerService Integration', () => {
       )
     })
   })
+
+  describe('objectives', () => {
+    const withMetadata = (
+      variant: PromptVariant,
+      metadata: Record<string, unknown>,
+    ): PromptVariant => ({ ...variant, metadata })
+
+    it('should optimize over the three default objectives', async () => {
+      const result = await optimizer.optimize({
+        variants: [
+          {
+            variant: createVariant('v1', 0.01, 1000),
+            evaluation: createEvaluation('v1', 0.8),
+          },
+        ],
+      })
+
+      expect(result.objectives.map((o) => o.name)).toEqual(['quality', 'cost', 'latency'])
+    })
+
+    it('should trade off the requested objectives', async () => {
+      const result = await optimizer.optimize({
+        variants: [
+          {
+            variant: withMetadata(createVariant('risky', 0.01, 1000), { safety_risk: 0.6 }),
+            evaluation: createEvaluation('risky', 0.8),
+          },
+          {
+            variant: withMetadata(createVariant('safe', 0.01, 1000), { safety_risk: 0.1 }),
+            evaluation: createEvaluation('safe', 0.8),
+          },
+        ],
+        objectives: ['quality', 'cost', 'safety_margin'],
+      })
+
+      expect(result.objectives).toEqual([
+        expect.objectContaining({ name: 'quality', direction: 'max' }),
+        expect.objectContaining({ name: 'cost', direction: 'min' }),
+        expect.objectContaining({ name: 'safety_margin', direction: 'max' }),
+      ])
+      expect(result.pareto_frontier.map((s) => s.variant_id)).toEqual(['safe'])
+      expect(result.recommended.objectives.safety_margin).toBeCloseTo(0.9, 5)
+      expect(result.recommended.objectives.latency).toBeDefined()
+    })
+
+    it('should measure token length and evaluator agreement', async () => {
+      const long = { ...createVariant('long', 0.01, 1000), est_tokens: 2000 }
+      const result = await optimizer.optimize({
+        variants: [
+          {
+            variant: long,
+            evaluation: { ...createEvaluation('long', 0.8), scores: { a: 0.9, b: 0.5 } },
+          },
+        ],
+        objectives: ['token_length', 'evaluator_agreement'],
+      })
+
+      expect(result.recommended.objectives.token_length).toBeCloseTo(0.5, 5)
+      expect(result.recommended.objectives.evaluator_agreement).toBeCloseTo(0.6, 5)
+    })
+
+    it('should reject unknown objectives', async () => {
+      await expect(
+        optimizer.optimize({
+          variants: [
+            {
+              variant: createVariant('v1', 0.01, 1000),
+              evaluation: createEvaluation('v1', 0.8),
+            },
+          ],
+          objectives: ['quality', 'vibes'],
+        }),
+      ).rejects.toThrow('Unknown objective: vibes')
+    })
+  })
+
+  describe('alternative selection', () => {
+    const BASE = 'Explain step by step how photosynthesis turns sunlight into chemical energy'
+
+    const createSolution = (
+      id: string,
+      prompt: string,
+      technique: string,
+      cost: number,
+      score: number,
+    ) => ({
+      variant: { ...createVariant(id, cost, 1000), prompt, technique },
+      evaluation: createEvaluation(id, score),
+    })
+
+    // Five frontier variants; the first three are rewordings of one another
+    const variants = [
+      createSolution('rec', BASE, 'FewShot_CoT', 0.05, 0.9),
+      createSolution('reworded-1', `${BASE}, please`, 'FewShot_CoT', 0.045, 0.89),
+      createSolution('reworded-2', `Please ${BASE}`, 'FewShot_CoT', 0.04, 0.88),
+      createSolution('refine', 'Draft an answer about photosynthesis', 'SelfRefine', 0.02, 0.7),
+      createSolution('react', 'Look up photosynthesis, then summarise it', 'ReAct', 0.01, 0.6),
+    ]
+
+    const request = (overrides: Partial<OptimizationRequest>): OptimizationRequest => ({
+      variants,
+      preferences: { quality: 1 },
+      max_alternatives: 2,
+      ...overrides,
+    })
+
+    it('should keep frontier order in frontier mode', async () => {
+      const result = await optimizer.optimize(request({ alternative_selection: 'frontier' }))
+
+      expect(result.recommended.variant_id).toBe('rec')
+      expect(result.alternatives.map((s) => s.variant_id)).toEqual(['reworded-1', 'reworded-2'])
+    })
+
+    it('should skip rewordings of the recommended variant in mmr mode', async () => {
+      const result = await optimizer.optimize(request({ alternative_selection: 'mmr' }))
+
+      expect(result.alternatives.map((s) => s.variant_id)).toEqual(['refine', 'react'])
+      expect(result.trade_offs).toHaveLength(2)
+    })
+
+    it('should default to mmr', async () => {
+      const result = await optimizer.optimize(request({}))
+
+      expect(result.alternatives.map((s) => s.variant_id)).toEqual(['refine', 'react'])
+    })
+
+    it('should prefer the extremes of the frontier in crowding mode', async () => {
+      const result = await optimizer.optimize(request({ alternative_selection: 'crowding' }))
+
+      expect(result.alternatives.map((s) => s.variant_id)).toContain('react')
+      expect(result.alternatives).toHaveLength(2)
+    })
+
+    it('should measure diversity as an objective', async () => {
+      const result = await optimizer.optimize(
+        request({ objectives: ['quality', 'diversity'], alternative_selection: 'frontier' }),
+      )
+
+      const diversity = Object.fromEntries(
+        result.pareto_frontier.map((s) => [s.variant_id, s.objectives.diversity]),
+      )
+      expect(diversity.refine).toBeGreaterThan(0.5)
+      expect(diversity.rec).toBeLessThan(0.2)
+      expect(result.objectives.map((o) => o.name)).toEqual(['quality', 'diversity'])
+    })
+  })
+
+  describe('frontier metrics', () => {
+    const request: OptimizationRequest = {
+      variants: [
+        {
+          variant: createVariant('v1', 0.01, 1000),
+          evaluation: createEvaluation('v1', 0.9),
+        },
+        {
+          variant: { ...createVariant('v2', 0.002, 500), technique: 'other' },
+          evaluation: createEvaluation('v2', 0.7),
+        },
+      ],
+    }
+
+    it('should return hypervolume, spread and generational distance', async () => {
+      const result = await optimizer.optimize(request)
+
+      expect(result.frontier_metrics.hypervolume).toBeGreaterThan(0)
+      expect(result.frontier_metrics.hypervolume).toBeLessThanOrEqual(1)
+      expect(result.frontier_metrics.spread).toBe(0)
+      expect(result.frontier_metrics.generational_distance).toBeGreaterThan(0)
+    })
+
+    it('should measure generational distance to a reference frontier', async () => {
+      const first = await optimizer.optimize(request)
+      const second = await optimizer.optimize({
+        ...request,
+        reference_frontier: first.pareto_frontier.map((s) => s.objectives),
+      })
+
+      expect(second.frontier_metrics.generational_distance).toBeCloseTo(0, 5)
+    })
+
+    it('should record the metrics labelled by objectives and techniques', async () => {
+      const result = await optimizer.optimize(request)
+
+      const labels = { objectives: 'quality,cost,latency', techniques: 'other,test' }
+      expect(telemetry.recordMetric).toHaveBeenCalledWith(
+        'frontier_hypervolume',
+        result.frontier_metrics.hypervolume,
+        labels,
+      )
+      expect(telemetry.recordMetric).toHaveBeenCalledWith('frontier_spread', 0, labels)
+      expect(telemetry.recordMetric).toHaveBeenCalledWith(
+        'frontier_generational_distance',
+        result.frontier_metrics.generational_distance,
+        labels,
+      )
+    })
+  })
 })
@@ -213,4 +213,184 @@ describe('ParetoOptimizer', () => {
       expect(utility).toBeCloseTo(0.73, 2)
     })
   })
+
+  describe('custom objectives', () => {
+    const objectives = [
+      { name: 'quality', direction: 'max' as const },
+      { name: 'safety_margin', direction: 'max' as const },
+      { name: 'token_length', direction: 'min' as const },
+    ]
+
+    const solution = (
+      variant_id: string,
+      quality: number,
+      safety_margin: number,
+      token_length: number,
+    ): ParetoSolution => ({
+      variant_id,
+      objectives: { quality, cost: 0.5, latency: 0.5, safety_margin, token_length },
+    })
+
+    beforeEach(() => {
+      optimizer = new ParetoOptimizer(objectives)
+    })
+
+    it('should compare solutions on every configured objective', () => {
+      const safer = solution('safer', 0.8, 0.9, 0.3)
+      const riskier = solution('riskier', 0.8, 0.6, 0.3)
+      const shorterButRiskier = solution('short', 0.8, 0.6, 0.1)
+
+      expect(optimizer.dominates(safer, riskier)).toBe(true)
+      expect(optimizer.dominates(riskier, safer)).toBe(false)
+      expect(optimizer.dominates(safer, shorterButRiskier)).toBe(false)
+      expect(optimizer.dominates(shorterButRiskier, safer)).toBe(false)
+    })
+
+    it('should ignore objectives that are not configured', () => {
+      const a = { ...solution('a', 0.8, 0.9, 0.3), objectives: { quality: 0.8, cost: 0.9 } }
+      const b = { ...solution('b', 0.7, 0.9, 0.3), objectives: { quality: 0.7, cost: 0.1 } }
+
+      expect(new ParetoOptimizer([objectives[0]]).dominates(a, b)).toBe(true)
+    })
+
+    it('should keep solutions that trade off the extra objectives', () => {
+      const frontier = optimizer.findParetoFrontier([
+        solution('best-quality', 0.9, 0.5, 0.5),
+        solution('safest', 0.7, 0.95, 0.5),
+        solution('shortest', 0.7, 0.5, 0.1),
+        solution('dominated', 0.6, 0.5, 0.5),
+      ])
+
+      expect(frontier.map((s) => s.variant_id).sort()).toEqual([
+        'best-quality',
+        'safest',
+        'shortest',
+      ])
+    })
+
+    it('should weight utility by objective direction', () => {
+      const utility = optimizer.calculateUtility(solution('v', 0.8, 0.6, 0.2), {
+        quality: 1,
+        safety_margin: 1,
+        token_length: 2,
+      })
+
+      // 0.8 * 1 + 0.6 * 1 + (1 - 0.2) * 2, token_length inverted because lower is better
+      expect(utility).toBeCloseTo(3, 5)
+    })
+
+    it('should pick the knee point closest to the ideal on all objectives', () => {
+      const knee = optimizer.findKneePoint([
+        solution('quality-only', 1, 0, 1),
+        solution('balanced', 0.8, 0.8, 0.2),
+        solution('short-only', 0, 0, 0),
+      ])
+
+      expect(knee.variant_id).toBe('balanced')
+    })
+
+    it('should report changes on every objective', () => {
+      const analysis = optimizer.analyzeTradeOffs(
+        solution('from', 0.8, 0.9, 0.2),
+        solution('to', 0.8, 0.5, 0.1),
+      )
+
+      expect(analysis.objective_changes.safety_margin).toBeCloseTo(-0.4, 5)
+      expect(analysis.objective_changes.token_length).toBeCloseTo(-0.1, 5)
+      expect(analysis.recommendation).toBe(
+        'Trade-off: 10.0% better token_length vs 40.0% worse safety_margin',
+      )
+    })
+  })
+
+  describe('crowding distance', () => {
+    const frontier: ParetoSolution[] = [
+      { variant_id: 'cheap', objectives: { quality: 0.5, cost: 0.1, latency: 0.5 } },
+      { variant_id: 'crowded-1', objectives: { quality: 0.6, cost: 0.2, latency: 0.5 } },
+      { variant_id: 'crowded-2', objectives: { quality: 0.62, cost: 0.22, latency: 0.5 } },
+      { variant_id: 'middle', objectives: { quality: 0.75, cost: 0.45, latency: 0.5 } },
+      { variant_id: 'best', objectives: { quality: 0.9, cost: 0.8, latency: 0.5 } },
+    ]
+
+    it('should give the extremes infinite distance', () => {
+      const distances = optimizer.crowdingDistances(frontier)
+
+      expect(distances[0]).toBe(Infinity)
+      expect(distances[4]).toBe(Infinity)
+      expect(distances[3]).toBeGreaterThan(distances[1])
+      expect(distances[3]).toBeGreaterThan(distances[2])
+      expect(optimizer.crowdingDistances([])).toEqual([])
+    })
+
+    it('should select the least crowded solutions', () => {
+      const selected = optimizer.selectByCrowding(frontier, 3).map((s) => s.variant_id)
+
+      expect(selected).toEqual(['cheap', 'best', 'middle'])
+    })
+  })
+
+  describe('frontier metrics', () => {
+    const twoObjectives = new ParetoOptimizer([
+      { name: 'quality', direction: 'max' },
+      { name: 'cost', direction: 'min' },
+    ])
+
+    const solution = (variant_id: string, quality: number, cost: number): ParetoSolution => ({
+      variant_id,
+      objectives: { quality, cost, latency: 0.5 },
+    })
+
+    it('should measure the hypervolume dominated by the frontier', () => {
+      // Desirabilities (0.5, 0.9) and (0.8, 0.4): 0.45 + 0.32 - 0.5 * 0.4 overlap
+      const hypervolume = twoObjectives.hypervolume([
+        solution('a', 0.5, 0.1),
+        solution('b', 0.8, 0.6),
+      ])
+
+      expect(hypervolume).toBeCloseTo(0.57, 5)
+      expect(twoObjectives.hypervolume([solution('ideal', 1, 0)])).toBeCloseTo(1, 5)
+      expect(twoObjectives.hypervolume([])).toBe(0)
+    })
+
+    it('should measure hypervolume in three dimensions', () => {
+      const hypervolume = optimizer.hypervolume([
+        { variant_id: 'a', objectives: { quality: 1, cost: 0.5, latency: 0.5 } },
+        { variant_id: 'b', objectives: { quality: 0.5, cost: 0, latency: 0.5 } },
+      ])
+
+      // Boxes 1 x 0.5 x 0.5 and 0.5 x 1 x 0.5 overlapping in 0.5 x 0.5 x 0.5
+      expect(hypervolume).toBeCloseTo(0.375, 5)
+    })
+
+    it('should report zero spread for evenly spaced solutions', () => {
+      const even = [solution('a', 0.2, 0.2), solution('b', 0.5, 0.5), solution('c', 0.8, 0.8)]
+      const clumped = [solution('a', 0.2, 0.2), solution('b', 0.25, 0.25), solution('c', 0.8, 0.8)]
+
+      expect(twoObjectives.spread(even)).toBeCloseTo(0, 5)
+      expect(twoObjectives.spread(clumped)).toBeGreaterThan(0.2)
+      expect(twoObjectives.spread([solution('a', 0.2, 0.2)])).toBe(0)
+    })
+
+    it('should measure generational distance to the reference or the ideal point', () => {
+      const frontier = [solution('a', 0.8, 0.2)]
+
+      expect(twoObjectives.generationalDistance(frontier)).toBeCloseTo(Math.sqrt(0.08), 5)
+      expect(
+        twoObjectives.generationalDistance(frontier, [{ quality: 0.8, cost: 0.2, latency: 0 }]),
+      ).toBeCloseTo(0, 5)
+    })
+
+    it('should evaluate all metrics together', () => {
+      const metrics = twoObjectives.evaluateFrontier([
+        solution('a', 0.5, 0.1),
+        solution('b', 0.8, 0.6),
+      ])
+
+      expect(Object.keys(metrics).sort()).toEqual([
+        'generational_distance',
+        'hypervolume',
+        'spread',
+      ])
+    })
+  })
 })
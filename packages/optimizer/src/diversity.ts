@@ -0,0 +1,140 @@
+/**
+ * PromptDial 3.0 - Variant Diversity
+ *
+ * How alike two variants are, from the overlap of their prompts and whether
+ * they use the same technique or technique family, and MMR selection over the
+ * frontier so alternatives are not rewordings of the recommended variant
+ */
+
+import { PromptVariant, getTechniqueEntry, resolveTechniqueId } from '@promptdial/shared'
+
+import { ParetoSolution } from './types'
+
+// Word n-grams compared between prompts
+const SHINGLE_SIZE = 3
+
+// Share of similarity that comes from the prompt text; the rest from the technique
+const PROMPT_WEIGHT = 0.7
+
+// Technique similarity of two different techniques from the same family
+const FAMILY_SIMILARITY = 0.5
+
+export const DEFAULT_MMR_LAMBDA = 0.5
+
+/**
+ * Similarity of two variants from 0 (nothing shared) to 1 (same prompt and technique)
+ */
+export function variantSimilarity(a: PromptVariant, b: PromptVariant): number {
+  return PROMPT_WEIGHT * promptSimilarity(a, b) + (1 - PROMPT_WEIGHT) * techniqueSimilarity(a, b)
+}
+
+/**
+ * Cosine similarity of the prompts' embeddings when both variants carry one in
+ * metadata.embedding, otherwise the Jaccard overlap of their word shingles
+ */
+export function promptSimilarity(a: PromptVariant, b: PromptVariant): number {
+  const embeddings = [embeddingOf(a), embeddingOf(b)]
+  if (embeddings[0] && embeddings[1]) {
+    return Math.max(cosineSimilarity(embeddings[0], embeddings[1]), 0)
+  }
+  return jaccard(shingles(a.prompt), shingles(b.prompt))
+}
+
+export function techniqueSimilarity(a: PromptVariant, b: PromptVariant): number {
+  if (techniqueId(a) === techniqueId(b)) {
+    return 1
+  }
+  const family = familyOf(a)
+  return family && family === familyOf(b) ? FAMILY_SIMILARITY : 0
+}
+
+/**
+ * 1 minus the similarity to the closest other variant of the population, so a
+ * variant with a near-duplicate scores close to 0
+ */
+export function diversityOf(variant: PromptVariant, population: PromptVariant[]): number {
+  const closest = population
+    .filter((other) => other.id !== variant.id)
+    .reduce((highest, other) => Math.max(highest, variantSimilarity(variant, other)), 0)
+  return 1 - closest
+}
+
+/**
+ * Greedily take the candidate maximising
+ * lambda * relevance - (1 - lambda) * (highest similarity to anything already chosen),
+ * starting from `chosen`. Solutions without a variant are treated as unlike any other.
+ */
+export function selectByMMR(
+  candidates: ParetoSolution[],
+  chosen: ParetoSolution[],
+  k: number,
+  relevance: (solution: ParetoSolution) => number,
+  lambda: number = DEFAULT_MMR_LAMBDA,
+): ParetoSolution[] {
+  const remaining = [...candidates]
+  const selected: ParetoSolution[] = []
+
+  while (selected.length < k && remaining.length > 0) {
+    const scores = remaining.map(
+      (candidate) =>
+        lambda * relevance(candidate) -
+        (1 - lambda) * redundancy(candidate, [...chosen, ...selected]),
+    )
+    const best = scores.indexOf(Math.max(...scores))
+    selected.push(...remaining.splice(best, 1))
+  }
+
+  return selected
+}
+
+function redundancy(candidate: ParetoSolution, selected: ParetoSolution[]): number {
+  return selected.reduce((highest, other) => {
+    const similarity =
+      candidate.variant && other.variant ? variantSimilarity(candidate.variant, other.variant) : 0
+    return Math.max(highest, similarity)
+  }, 0)
+}
+
+// ============= Helpers =============
+
+export function shingles(text: string, size: number = SHINGLE_SIZE): Set<string> {
+  const words = text.toLowerCase().split(/\W+/).filter(Boolean)
+  if (words.length <= size) {
+    return new Set([words.join(' ')])
+  }
+  return new Set(
+    words.slice(0, words.length - size + 1).map((_, i) => words.slice(i, i + size).join(' ')),
+  )
+}
+
+// Catalog id, so aliases and engine names of one technique compare equal
+function techniqueId(variant: PromptVariant): string {
+  return resolveTechniqueId(variant.technique) ?? variant.technique
+}
+
+function familyOf(variant: PromptVariant): string | undefined {
+  return getTechniqueEntry(variant.technique)?.category
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  const shared = Array.from(a).filter((shingle) => b.has(shingle)).length
+  const union = a.size + b.size - shared
+  return union > 0 ? shared / union : 1
+}
+
+function embeddingOf(variant: PromptVariant): number[] | undefined {
+  const embedding = variant.metadata?.embedding
+  return Array.isArray(embedding) && embedding.length > 0 ? embedding : undefined
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0
+}
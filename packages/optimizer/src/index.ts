@@ -18,10 +18,19 @@ import {
 } from '@promptdial/shared'
 
 import { ParetoOptimizer } from './pareto'
+import {
+  DEFAULT_OBJECTIVE_NAMES,
+  OBJECTIVES,
+  ObjectiveSpec,
+  definitionOf,
+  resolveObjectives,
+} from './objectives'
+import { selectByMMR } from './diversity'
 
 import {
   OptimizationRequest,
   OptimizationResult,
+  FrontierMetrics,
   ParetoSolution,
   OptimizationObjective,
   OptimizationPreferences,
@@ -30,6 +39,8 @@ import {
 
 const logger = createLogger('optimizer')
 
+const DEFAULT_ALTERNATIVES = 3
+
 // ============= Optimizer Service =============
 
 export class OptimizerService {
@@ -44,14 +55,18 @@ export class OptimizerService {
    */
   async optimize(request: OptimizationRequest): Promise<OptimizationResult> {
     const startTime = Date.now()
+    const objectives = resolveObjectives(request.objectives)
+    const paretoOptimizer = request.objectives
+      ? new ParetoOptimizer(objectives.map(definitionOf))
+      : this.paretoOptimizer
 
     // Convert variants to Pareto solutions
-    const solutions = this.convertToSolutions(request.variants)
+    const solutions = this.convertToSolutions(request.variants, objectives)
 
     // Apply constraints if provided
     let feasibleSolutions = solutions
     if (request.constraints) {
-      feasibleSolutions = this.paretoOptimizer.applyConstraints(
+      feasibleSolutions = paretoOptimizer.applyConstraints(
         solutions,
         this.normalizeConstraints(request.constraints),
       )
@@ -62,30 +77,43 @@ export class OptimizerService {
     }
 
     // Find Pareto frontier
-    const paretoFrontier = this.paretoOptimizer.findParetoFrontier(feasibleSolutions)
+    const paretoFrontier = paretoOptimizer.findParetoFrontier(feasibleSolutions)
 
     // Select recommended solution
     const recommended = this.selectRecommended(
+      paretoOptimizer,
       paretoFrontier,
       request.preferences,
       request.selection_mode,
     )
 
     // Find alternatives
-    const alternatives = this.findAlternatives(paretoFrontier, recommended)
+    const alternatives = this.findAlternatives(
+      paretoOptimizer,
+      paretoFrontier,
+      recommended,
+      request,
+    )
 
     // Analyze trade-offs
-    const tradeOffs = this.analyzeTradeOffs(recommended, alternatives)
+    const tradeOffs = this.analyzeTradeOffs(paretoOptimizer, recommended, alternatives)
+
+    const frontierMetrics = paretoOptimizer.evaluateFrontier(
+      paretoFrontier,
+      request.reference_frontier,
+    )
 
     // Log telemetry
     const duration = Date.now() - startTime
-    await this.logTelemetry(request, paretoFrontier, recommended, duration)
+    await this.logTelemetry(request, paretoFrontier, recommended, frontierMetrics, duration)
 
     return {
       pareto_frontier: paretoFrontier,
       recommended,
       alternatives,
       trade_offs: tradeOffs,
+      objectives: paretoOptimizer.getObjectives(),
+      frontier_metrics: frontierMetrics,
     }
   }
 
@@ -94,9 +122,11 @@ export class OptimizerService {
    */
   private convertToSolutions(
     variants: Array<{ variant: PromptVariant; evaluation: EvaluationResult }>,
+    specs: ObjectiveSpec[],
   ): ParetoSolution[] {
+    const population = variants.map(({ variant }) => variant)
     return variants.map(({ variant, evaluation }) => {
-      const objectives = this.calculateObjectives(variant, evaluation)
+      const objectives = this.calculateObjectives(variant, evaluation, specs, population)
 
       return {
         variant_id: variant.id,
@@ -108,24 +138,24 @@ export class OptimizerService {
   }
 
   /**
-   * Calculate normalized objectives for a variant
+   * Calculate normalized objectives for a variant; quality, cost and latency
+   * are always measured, as constraints and trade-offs refer to them
    */
   private calculateObjectives(
     variant: PromptVariant,
     evaluation: EvaluationResult,
+    specs: ObjectiveSpec[],
+    population: PromptVariant[],
   ): OptimizationObjective {
-    // Quality: use evaluation score directly
-    const quality = evaluation.final_score
-
-    // Cost: normalize to 0-1 range (assume max cost from defaults)
-    const maxCost = DEFAULTS.COST_CAP_USD
-    const cost = Math.min(variant.cost_usd / maxCost, 1)
-
-    // Latency: normalize to 0-1 range (assume max latency from defaults)
-    const maxLatency = DEFAULTS.LATENCY_CAP_MS
-    const latency = variant.latency_ms ? Math.min(variant.latency_ms / maxLatency, 1) : 0.5 // Default if not measured
-
-    return { quality, cost, latency }
+    const objectives: OptimizationObjective = {
+      quality: OBJECTIVES.quality.measure(variant, evaluation, population),
+      cost: OBJECTIVES.cost.measure(variant, evaluation, population),
+      latency: OBJECTIVES.latency.measure(variant, evaluation, population),
+    }
+    for (const spec of specs) {
+      objectives[spec.name] = spec.measure(variant, evaluation, population)
+    }
+    return objectives
   }
 
   /**
@@ -153,6 +183,7 @@ export class OptimizerService {
    * Select recommended solution based on mode and preferences
    */
   private selectRecommended(
+    paretoOptimizer: ParetoOptimizer,
     frontier: ParetoSolution[],
     preferences?: OptimizationPreferences,
     mode?: 'pareto' | 'utility' | 'balanced',
@@ -167,42 +198,65 @@ export class OptimizerService {
         if (!preferences) {
           throw new Error('Preferences required for utility mode')
         }
-        return this.paretoOptimizer.selectByPreference(frontier, preferences)
+        return paretoOptimizer.selectByPreference(frontier, preferences)
 
       case 'pareto':
         // Find knee point (best compromise)
-        return this.paretoOptimizer.findKneePoint(frontier)
+        return paretoOptimizer.findKneePoint(frontier)
 
       case 'balanced':
       default:
         // Use preferences if provided, otherwise find knee point
         if (preferences) {
-          return this.paretoOptimizer.selectByPreference(frontier, preferences)
+          return paretoOptimizer.selectByPreference(frontier, preferences)
         } else {
-          return this.paretoOptimizer.findKneePoint(frontier)
+          return paretoOptimizer.findKneePoint(frontier)
         }
     }
   }
 
   /**
-   * Find alternative solutions
+   * Find alternative solutions on the frontier, picked by the requested mode
    */
   private findAlternatives(
+    paretoOptimizer: ParetoOptimizer,
     frontier: ParetoSolution[],
     recommended: ParetoSolution,
+    request: OptimizationRequest,
   ): ParetoSolution[] {
-    // Return up to 3 alternatives from the frontier
-    return frontier.filter((s) => s.variant_id !== recommended.variant_id).slice(0, 3)
+    const count = request.max_alternatives ?? DEFAULT_ALTERNATIVES
+    const isAlternative = (s: ParetoSolution) => s.variant_id !== recommended.variant_id
+
+    switch (request.alternative_selection) {
+      case 'frontier':
+        return frontier.filter(isAlternative).slice(0, count)
+
+      case 'crowding':
+        // Ranked over the whole frontier, so the recommended variant's own position counts
+        return paretoOptimizer
+          .selectByCrowding(frontier, count + 1)
+          .filter(isAlternative)
+          .slice(0, count)
+
+      case 'mmr':
+      default: {
+        const weights = paretoOptimizer.normalizeWeights(request.preferences)
+        return selectByMMR(frontier.filter(isAlternative), [recommended], count, (s) =>
+          paretoOptimizer.calculateUtility(s, weights),
+        )
+      }
+    }
   }
 
   /**
    * Analyze trade-offs between recommended and alternatives
    */
   private analyzeTradeOffs(
+    paretoOptimizer: ParetoOptimizer,
     recommended: ParetoSolution,
     alternatives: ParetoSolution[],
   ): TradeOffAnalysis[] {
-    return alternatives.map((alt) => this.paretoOptimizer.analyzeTradeOffs(recommended, alt))
+    return alternatives.map((alt) => paretoOptimizer.analyzeTradeOffs(recommended, alt))
   }
 
   /**
@@ -212,6 +266,7 @@ export class OptimizerService {
     request: OptimizationRequest,
     frontier: ParetoSolution[],
     recommended: ParetoSolution,
+    metrics: FrontierMetrics,
     duration: number,
   ): Promise<void> {
     const telemetry = getTelemetryService()
@@ -223,10 +278,22 @@ export class OptimizerService {
     telemetry.recordMetric('recommended_cost', recommended.objectives.cost)
     telemetry.recordMetric('recommended_latency', recommended.objectives.latency)
 
+    // Labelled so frontiers are compared only with runs of the same configuration
+    const labels = {
+      objectives: (request.objectives || DEFAULT_OBJECTIVE_NAMES).join(','),
+      techniques: Array.from(new Set(request.variants.map(({ variant }) => variant.technique)))
+        .sort()
+        .join(','),
+    }
+    telemetry.recordMetric('frontier_hypervolume', metrics.hypervolume, labels)
+    telemetry.recordMetric('frontier_spread', metrics.spread, labels)
+    telemetry.recordMetric('frontier_generational_distance', metrics.generational_distance, labels)
+
     logger.info('Optimization complete', {
       variants: request.variants.length,
       frontier_size: frontier.length,
       recommended: recommended.variant_id,
+      hypervolume: metrics.hypervolume,
       duration_ms: duration,
     })
   }
@@ -291,4 +358,6 @@ if (require.main === module) {
 // ============= Exports =============
 
 export { ParetoOptimizer } from './pareto'
+export { OBJECTIVES, DEFAULT_OBJECTIVES } from './objectives'
+export { variantSimilarity, diversityOf } from './diversity'
 export * from './types'
@@ -0,0 +1,122 @@
+/**
+ * PromptDial 3.0 - Optimization Objectives
+ *
+ * The objectives a request can trade off, each measured from a variant and
+ * its evaluation on a 0-1 scale
+ */
+
+import { DEFAULTS, EvaluationResult, PromptVariant } from '@promptdial/shared'
+
+import { diversityOf } from './diversity'
+import { ObjectiveDefinition } from './types'
+
+export interface ObjectiveSpec extends ObjectiveDefinition {
+  // population holds every variant of the request, for objectives relative to the others
+  measure: (
+    variant: PromptVariant,
+    evaluation: EvaluationResult,
+    population: PromptVariant[],
+  ) => number
+}
+
+// Prompts this long or longer score 1 on token_length
+const TOKEN_LENGTH_CAP = 4000
+
+// Latency assumed for variants that were never timed
+const UNMEASURED_LATENCY = 0.5
+
+export const OBJECTIVES: Record<string, ObjectiveSpec> = {
+  quality: {
+    name: 'quality',
+    direction: 'max',
+    improved: 'better quality',
+    worsened: 'worse quality',
+    measure: (_variant, evaluation) => evaluation.final_score,
+  },
+  cost: {
+    name: 'cost',
+    direction: 'min',
+    improved: 'cheaper',
+    worsened: 'more expensive',
+    measure: (variant) => Math.min(variant.cost_usd / DEFAULTS.COST_CAP_USD, 1),
+  },
+  latency: {
+    name: 'latency',
+    direction: 'min',
+    improved: 'faster',
+    worsened: 'slower',
+    measure: (variant) => {
+      const latency = (variant as PromptVariant & { latency_ms?: number }).latency_ms
+      return latency ? Math.min(latency / DEFAULTS.LATENCY_CAP_MS, 1) : UNMEASURED_LATENCY
+    },
+  },
+  // The safety guard's risk score for the variant, when it attached one
+  safety_margin: {
+    name: 'safety_margin',
+    direction: 'max',
+    improved: 'safer',
+    worsened: 'riskier',
+    measure: (variant) => 1 - clamp(Number(variant.metadata?.safety_risk ?? 0)),
+  },
+  token_length: {
+    name: 'token_length',
+    direction: 'min',
+    improved: 'shorter',
+    worsened: 'longer',
+    measure: (variant) => Math.min(variant.est_tokens / TOKEN_LENGTH_CAP, 1),
+  },
+  // How closely the individual evaluators' scores agree
+  evaluator_agreement: {
+    name: 'evaluator_agreement',
+    direction: 'max',
+    improved: 'more evaluator agreement',
+    worsened: 'less evaluator agreement',
+    measure: (_variant, evaluation) => {
+      const scores = Object.values(evaluation.scores).filter(
+        (score): score is number => typeof score === 'number',
+      )
+      return scores.length > 1 ? 1 - clamp(Math.max(...scores) - Math.min(...scores)) : 1
+    },
+  },
+  // How unlike the variant is to its closest neighbour, by prompt and technique
+  diversity: {
+    name: 'diversity',
+    direction: 'max',
+    improved: 'more distinct',
+    worsened: 'less distinct',
+    measure: (variant, _evaluation, population) => diversityOf(variant, population),
+  },
+}
+
+export const DEFAULT_OBJECTIVE_NAMES = ['quality', 'cost', 'latency']
+
+export const DEFAULT_OBJECTIVES: ObjectiveDefinition[] = DEFAULT_OBJECTIVE_NAMES.map((name) =>
+  definitionOf(OBJECTIVES[name]),
+)
+
+/**
+ * The objectives named in a request. Quality, cost and latency are always
+ * measured, since constraints and trade-off reports refer to them, but only
+ * the named ones are traded off.
+ */
+export function resolveObjectives(names: string[] = DEFAULT_OBJECTIVE_NAMES): ObjectiveSpec[] {
+  const unknown = names.find((name) => !Object.prototype.hasOwnProperty.call(OBJECTIVES, name))
+  if (unknown) {
+    throw new Error(
+      `Unknown objective: ${unknown} (expected one of ${Object.keys(OBJECTIVES).join(', ')})`,
+    )
+  }
+  if (names.length === 0) {
+    throw new Error('At least one objective is required')
+  }
+  return Array.from(new Set(names)).map((name) => OBJECTIVES[name])
+}
+
+export function definitionOf(spec: ObjectiveSpec): ObjectiveDefinition {
+  const { measure: _measure, ...definition } = spec
+  return definition
+}
+
+function clamp(value: number): number {
+  return Math.min(Math.max(value, 0), 1)
+}
@@ -6,8 +6,11 @@
 
 import { createLogger } from '@promptdial/shared'
 
+import { DEFAULT_OBJECTIVES } from './objectives'
 import {
   ParetoSolution,
+  FrontierMetrics,
+  ObjectiveDefinition,
   OptimizationObjective,
   OptimizationPreferences,
   OptimizationConstraints,
@@ -16,38 +19,27 @@ import {
 
 const logger = createLogger('pareto-optimizer')
 
+// Changes smaller than this are not mentioned in trade-off recommendations
+const TRADE_OFF_THRESHOLD = 0.05
+
 export class ParetoOptimizer {
+  /**
+   * @param objectives What to trade off, each minimized or maximized; the
+   * first also orders the frontier
+   */
+  constructor(private objectives: ObjectiveDefinition[] = DEFAULT_OBJECTIVES) {}
+
+  getObjectives(): ObjectiveDefinition[] {
+    return this.objectives
+  }
+
   /**
    * Check if solution A dominates solution B
    * A dominates B if A is no worse than B in all objectives and better in at least one
    */
   dominates(a: ParetoSolution, b: ParetoSolution): boolean {
-    let betterInOne = false
-    let worseInOne = false
-
-    // For quality: higher is better
-    if (a.objectives.quality > b.objectives.quality) {
-      betterInOne = true
-    } else if (a.objectives.quality < b.objectives.quality) {
-      worseInOne = true
-    }
-
-    // For cost: lower is better
-    if (a.objectives.cost < b.objectives.cost) {
-      betterInOne = true
-    } else if (a.objectives.cost > b.objectives.cost) {
-      worseInOne = true
-    }
-
-    // For latency: lower is better
-    if (a.objectives.latency < b.objectives.latency) {
-      betterInOne = true
-    } else if (a.objectives.latency > b.objectives.latency) {
-      worseInOne = true
-    }
-
-    // A dominates B if it's better in at least one objective and not worse in any
-    return betterInOne && !worseInOne
+    const gains = this.objectives.map((objective) => gain(objective, a, b))
+    return gains.some((value) => value > 0) && gains.every((value) => value >= 0)
   }
 
   /**
@@ -75,8 +67,9 @@ export class ParetoOptimizer {
       }
     }
 
-    // Sort frontier by quality for consistent ordering
-    frontier.sort((a, b) => b.objectives.quality - a.objectives.quality)
+    // Sort frontier by the primary objective, best first, for consistent ordering
+    const [primary] = this.objectives
+    frontier.sort((a, b) => gain(primary, b, a))
 
     logger.info(
       `Found Pareto frontier with ${frontier.length} solutions out of ${solutions.length}`,
@@ -92,13 +85,7 @@ export class ParetoOptimizer {
     solutions: ParetoSolution[],
     preferences: OptimizationPreferences,
   ): ParetoSolution {
-    // Normalize preferences
-    const total = preferences.quality + preferences.cost + preferences.latency
-    const weights = {
-      quality: preferences.quality / total,
-      cost: preferences.cost / total,
-      latency: preferences.latency / total,
-    }
+    const weights = this.normalizeWeights(preferences)
 
     let bestSolution = solutions[0]
     let bestUtility = this.calculateUtility(solutions[0], weights)
@@ -119,19 +106,31 @@ export class ParetoOptimizer {
   }
 
   /**
-   * Calculate utility score for a solution given weights
+   * Preferences normalized to sum to 1 over the objectives being traded off;
+   * without any preference every objective weighs the same
    */
-  calculateUtility(solution: ParetoSolution, weights: OptimizationPreferences): number {
-    // Quality: higher is better (use as-is)
-    const qualityUtil = solution.objectives.quality * weights.quality
-
-    // Cost: lower is better (invert)
-    const costUtil = (1 - solution.objectives.cost) * weights.cost
-
-    // Latency: lower is better (invert)
-    const latencyUtil = (1 - solution.objectives.latency) * weights.latency
+  normalizeWeights(preferences: OptimizationPreferences = {}): OptimizationPreferences {
+    const total = this.objectives.reduce((sum, { name }) => sum + (preferences[name] || 0), 0)
+    return Object.fromEntries(
+      this.objectives.map(({ name }) => [
+        name,
+        total > 0 ? (preferences[name] || 0) / total : 1 / this.objectives.length,
+      ]),
+    )
+  }
 
-    return qualityUtil + costUtil + latencyUtil
+  /**
+   * Calculate utility score for a solution given weights; objectives to
+   * minimize are inverted so that higher utility is always better
+   */
+  calculateUtility(solution: ParetoSolution, weights: OptimizationPreferences): number {
+    return this.objectives.reduce(
+      (utility, objective) =>
+        utility +
+        desirability(objective, solution.objectives[objective.name]) *
+          (weights[objective.name] || 0),
+      0,
+    )
   }
 
   /**
@@ -168,50 +167,29 @@ export class ParetoOptimizer {
    * Analyze trade-offs between solutions
    */
   analyzeTradeOffs(from: ParetoSolution, to: ParetoSolution): TradeOffAnalysis {
-    const qualityChange = to.objectives.quality - from.objectives.quality
-    const costChange = to.objectives.cost - from.objectives.cost
-    const latencyChange = to.objectives.latency - from.objectives.latency
-
     // Generate recommendation
     const improvements: string[] = []
     const degradations: string[] = []
 
-    if (qualityChange > 0.05) {
-      improvements.push(`${(qualityChange * 100).toFixed(1)}% better quality`)
-    } else if (qualityChange < -0.05) {
-      degradations.push(`${(-qualityChange * 100).toFixed(1)}% worse quality`)
-    }
-
-    if (costChange < -0.05) {
-      improvements.push(`${(-costChange * 100).toFixed(1)}% cheaper`)
-    } else if (costChange > 0.05) {
-      degradations.push(`${(costChange * 100).toFixed(1)}% more expensive`)
-    }
-
-    if (latencyChange < -0.05) {
-      improvements.push(`${(-latencyChange * 100).toFixed(1)}% faster`)
-    } else if (latencyChange > 0.05) {
-      degradations.push(`${(latencyChange * 100).toFixed(1)}% slower`)
-    }
-
-    let recommendation = ''
-    if (improvements.length > 0 && degradations.length === 0) {
-      recommendation = `Strongly recommended: ${improvements.join(', ')}`
-    } else if (improvements.length > degradations.length) {
-      recommendation = `Recommended: ${improvements.join(', ')} but ${degradations.join(', ')}`
-    } else if (improvements.length === degradations.length) {
-      recommendation = `Trade-off: ${improvements.join(', ')} vs ${degradations.join(', ')}`
-    } else {
-      recommendation = `Not recommended: ${degradations.join(', ')}`
+    for (const objective of this.objectives) {
+      const change = gain(objective, to, from)
+      if (change > TRADE_OFF_THRESHOLD) {
+        improvements.push(`${(change * 100).toFixed(1)}% ${improvedPhrase(objective)}`)
+      } else if (change < -TRADE_OFF_THRESHOLD) {
+        degradations.push(`${(-change * 100).toFixed(1)}% ${worsenedPhrase(objective)}`)
+      }
     }
 
     return {
       from_variant: from.variant_id,
       to_variant: to.variant_id,
-      quality_change: qualityChange,
-      cost_change: costChange,
-      latency_change: latencyChange,
-      recommendation,
+      quality_change: to.objectives.quality - from.objectives.quality,
+      cost_change: to.objectives.cost - from.objectives.cost,
+      latency_change: to.objectives.latency - from.objectives.latency,
+      objective_changes: Object.fromEntries(
+        this.objectives.map(({ name }) => [name, to.objectives[name] - from.objectives[name]]),
+      ),
+      recommendation: recommend(improvements, degradations),
     }
   }
 
@@ -224,17 +202,18 @@ export class ParetoOptimizer {
     // Normalize objectives to 0-1 range
     const normalized = this.normalizeObjectives(frontier)
 
-    // Find solution closest to ideal point (1, 0, 0) in normalized space
+    // Find solution closest to the ideal point (the best value of every objective)
     let bestSolution = frontier[0]
     let bestDistance = Infinity
 
     for (let i = 0; i < frontier.length; i++) {
       const norm = normalized[i]
-      // Distance to ideal point (max quality, min cost, min latency)
       const distance = Math.sqrt(
-        Math.pow(1 - norm.objectives.quality, 2) +
-          Math.pow(norm.objectives.cost, 2) +
-          Math.pow(norm.objectives.latency, 2),
+        this.objectives.reduce(
+          (sum, objective) =>
+            sum + Math.pow(1 - desirability(objective, norm.objectives[objective.name]), 2),
+          0,
+        ),
       )
 
       if (distance < bestDistance) {
@@ -248,6 +227,112 @@ export class ParetoOptimizer {
     return bestSolution
   }
 
+  /**
+   * Crowding distance of each solution (as in NSGA-II): the sum over objectives
+   * of the normalized gap between its two neighbours. Solutions at either end
+   * of an objective get Infinity, so the extremes are always preferred.
+   */
+  crowdingDistances(solutions: ParetoSolution[]): number[] {
+    if (solutions.length === 0) return []
+
+    const distances = solutions.map(() => 0)
+
+    for (const { name } of this.objectives) {
+      const order = solutions
+        .map((solution, index) => ({ value: solution.objectives[name], index }))
+        .sort((a, b) => a.value - b.value)
+      const range = order[order.length - 1].value - order[0].value
+
+      distances[order[0].index] = Infinity
+      distances[order[order.length - 1].index] = Infinity
+      for (let i = 1; i < order.length - 1; i++) {
+        distances[order[i].index] +=
+          range > 0 ? (order[i + 1].value - order[i - 1].value) / range : 0
+      }
+    }
+
+    return distances
+  }
+
+  /**
+   * The k solutions in the least crowded regions of objective space
+   */
+  selectByCrowding(solutions: ParetoSolution[], k: number): ParetoSolution[] {
+    const distances = this.crowdingDistances(solutions)
+    return solutions
+      .map((solution, index) => ({ solution, distance: distances[index] }))
+      .sort((a, b) => b.distance - a.distance)
+      .slice(0, k)
+      .map(({ solution }) => solution)
+  }
+
+  // ============= Frontier Metrics =============
+
+  /**
+   * Hypervolume, spread and generational distance of a frontier
+   * @param reference Best-known frontier; generational distance is measured
+   * to the ideal point when omitted
+   */
+  evaluateFrontier(
+    frontier: ParetoSolution[],
+    reference?: OptimizationObjective[],
+  ): FrontierMetrics {
+    return {
+      hypervolume: this.hypervolume(frontier),
+      spread: this.spread(frontier),
+      generational_distance: this.generationalDistance(frontier, reference),
+    }
+  }
+
+  /**
+   * Volume of the unit cube dominated by the frontier, measured from the worst
+   * point (0 on every objective once mapped so 1 is best). 1 means one solution
+   * is best at everything.
+   */
+  hypervolume(frontier: ParetoSolution[]): number {
+    return dominatedVolume(frontier.map((solution) => this.desirabilities(solution.objectives)))
+  }
+
+  /**
+   * How unevenly the frontier is spaced: the mean absolute deviation of each
+   * solution's distance to its nearest neighbour, relative to the mean of those
+   * distances. 0 when evenly spaced.
+   */
+  spread(frontier: ParetoSolution[]): number {
+    if (frontier.length < 2) return 0
+
+    const points = frontier.map((solution) => this.desirabilities(solution.objectives))
+    const nearest = points.map((point, i) =>
+      Math.min(...points.filter((_, j) => j !== i).map((other) => distance(point, other))),
+    )
+    const mean = nearest.reduce((sum, d) => sum + d, 0) / nearest.length
+    if (mean === 0) return 0
+
+    return nearest.reduce((sum, d) => sum + Math.abs(d - mean), 0) / (nearest.length * mean)
+  }
+
+  /**
+   * sqrt(sum of d²) / n, where d is the distance from each solution to the
+   * closest reference solution; without a reference, to the ideal point
+   */
+  generationalDistance(frontier: ParetoSolution[], reference?: OptimizationObjective[]): number {
+    if (frontier.length === 0) return 0
+
+    const targets = reference?.length
+      ? reference.map((objectives) => this.desirabilities(objectives))
+      : [this.objectives.map(() => 1)]
+    const squared = frontier.reduce((sum, solution) => {
+      const point = this.desirabilities(solution.objectives)
+      return sum + Math.pow(Math.min(...targets.map((target) => distance(point, target))), 2)
+    }, 0)
+
+    return Math.sqrt(squared) / frontier.length
+  }
+
+  private desirabilities(objectives: OptimizationObjective): number[] {
+    return this.objectives.map((objective) => desirability(objective, objectives[objective.name]))
+  }
+
   /**
    * Normalize objectives across solutions
    */
@@ -255,39 +340,76 @@ export class ParetoOptimizer {
     if (solutions.length === 0) return []
 
     // Find min/max for each objective
-    let minQuality = Infinity,
-      maxQuality = -Infinity
-    let minCost = Infinity,
-      maxCost = -Infinity
-    let minLatency = Infinity,
-      maxLatency = -Infinity
-
-    for (const sol of solutions) {
-      minQuality = Math.min(minQuality, sol.objectives.quality)
-      maxQuality = Math.max(maxQuality, sol.objectives.quality)
-      minCost = Math.min(minCost, sol.objectives.cost)
-      maxCost = Math.max(maxCost, sol.objectives.cost)
-      minLatency = Math.min(minLatency, sol.objectives.latency)
-      maxLatency = Math.max(maxLatency, sol.objectives.latency)
-    }
+    const ranges = this.objectives.map(({ name }) => {
+      const values = solutions.map((sol) => sol.objectives[name])
+      return { name, min: Math.min(...values), max: Math.max(...values) }
+    })
 
     // Normalize each solution
-    return solutions.map((sol) => ({
-      ...sol,
-      objectives: {
-        quality:
-          maxQuality > minQuality
-            ? (sol.objectives.quality - minQuality) / (maxQuality - minQuality)
-            : sol.objectives.quality,
-        cost:
-          maxCost > minCost
-            ? (sol.objectives.cost - minCost) / (maxCost - minCost)
-            : sol.objectives.cost,
-        latency:
-          maxLatency > minLatency
-            ? (sol.objectives.latency - minLatency) / (maxLatency - minLatency)
-            : sol.objectives.latency,
-      },
-    }))
+    return solutions.map((sol) => {
+      const objectives = { ...sol.objectives }
+      for (const { name, min, max } of ranges) {
+        if (max > min) {
+          objectives[name] = (sol.objectives[name] - min) / (max - min)
+        }
+      }
+      return { ...sol, objectives }
+    })
+  }
+}
+
+/**
+ * How much better solution A is than B in one objective; negative if worse
+ */
+function gain(objective: ObjectiveDefinition, a: ParetoSolution, b: ParetoSolution): number {
+  const difference = a.objectives[objective.name] - b.objectives[objective.name]
+  return objective.direction === 'max' ? difference : -difference
+}
+
+// A 0-1 value mapped so that 1 is always best
+function desirability(objective: ObjectiveDefinition, value: number): number {
+  return objective.direction === 'max' ? value : 1 - value
+}
+
+function distance(a: number[], b: number[]): number {
+  return Math.sqrt(a.reduce((sum, value, i) => sum + Math.pow(value - b[i], 2), 0))
+}
+
+/**
+ * Volume dominated by points in the unit cube, each covering the box from the
+ * origin to itself. Slices along the last dimension, so each slab is the
+ * volume of the points reaching it in one dimension fewer.
+ */
+function dominatedVolume(points: number[][]): number {
+  if (points.length === 0) return 0
+  const last = points[0].length - 1
+  if (last === 0) return Math.max(...points.map((point) => point[0]))
+
+  const sorted = [...points].sort((a, b) => b[last] - a[last])
+  return sorted.reduce((volume, point, i) => {
+    const height = point[last] - (sorted[i + 1]?.[last] ?? 0)
+    if (height <= 0) return volume
+    return volume + height * dominatedVolume(sorted.slice(0, i + 1).map((p) => p.slice(0, last)))
+  }, 0)
+}
+
+function improvedPhrase(objective: ObjectiveDefinition): string {
+  return objective.improved || `better ${objective.name}`
+}
+
+function worsenedPhrase(objective: ObjectiveDefinition): string {
+  return objective.worsened || `worse ${objective.name}`
+}
+
+function recommend(improvements: string[], degradations: string[]): string {
+  if (improvements.length > 0 && degradations.length === 0) {
+    return `Strongly recommended: ${improvements.join(', ')}`
+  }
+  if (improvements.length > degradations.length) {
+    return `Recommended: ${improvements.join(', ')} but ${degradations.join(', ')}`
+  }
+  if (improvements.length === degradations.length) {
+    return `Trade-off: ${improvements.join(', ')} vs ${degradations.join(', ')}`
   }
+  return `Not recommended: ${degradations.join(', ')}`
 }
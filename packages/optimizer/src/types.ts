@@ -4,10 +4,25 @@
 
 import { PromptVariant, EvaluationResult } from '@promptdial/shared'
 
+export type ObjectiveDirection = 'min' | 'max'
+
+/**
+ * An objective the optimizer trades off, identified by its key in
+ * OptimizationObjective. Values are expected on a 0-1 scale, which utility
+ * and knee-point selection rely on.
+ */
+export interface ObjectiveDefinition {
+  name: string
+  direction: ObjectiveDirection // 'max' if higher values are better, 'min' if lower are
+  improved?: string // Trade-off phrase for a gain, e.g. 'cheaper'
+  worsened?: string // Trade-off phrase for a loss, e.g. 'more expensive'
+}
+
 export interface OptimizationObjective {
   quality: number // 0-1, higher is better
   cost: number // 0-1, lower is better (normalized)
   latency: number // 0-1, lower is better (normalized)
+  [objective: string]: number // Further objectives, such as safety_margin or token_length
 }
 
 export interface ParetoSolution {
@@ -17,11 +32,8 @@ export interface ParetoSolution {
   evaluation?: EvaluationResult
 }
 
-export interface OptimizationPreferences {
-  quality: number // Weight for quality (0-1)
-  cost: number // Weight for cost (0-1)
-  latency: number // Weight for latency (0-1)
-}
+// Weight (0-1) per objective name; objectives without a weight do not count
+export type OptimizationPreferences = Record<string, number>
 
 export interface OptimizationConstraints {
   max_cost?: number // Maximum acceptable cost (USD)
@@ -30,6 +42,15 @@ export interface OptimizationConstraints {
   required_safety?: boolean // Must pass safety checks
 }
 
+/**
+ * How alternatives are picked from the frontier besides the recommended variant:
+ * - frontier: in frontier order
+ * - crowding: the least crowded in objective space, so the extremes come first
+ * - mmr: relevant by the preferences but unlike the recommended variant and each
+ *   other in prompt and technique
+ */
+export type AlternativeSelection = 'frontier' | 'crowding' | 'mmr'
+
 export interface OptimizationRequest {
   variants: Array<{
     variant: PromptVariant
@@ -38,6 +59,10 @@ export interface OptimizationRequest {
   preferences?: OptimizationPreferences
   constraints?: OptimizationConstraints
   selection_mode?: 'pareto' | 'utility' | 'balanced'
+  objectives?: string[] // Objectives to trade off; defaults to quality, cost and latency
+  alternative_selection?: AlternativeSelection // Defaults to 'mmr'
+  max_alternatives?: number // Defaults to 3
+  reference_frontier?: OptimizationObjective[] // Best-known frontier for generational distance
 }
 
 export interface OptimizationResult {
@@ -45,6 +70,18 @@ export interface OptimizationResult {
   recommended: ParetoSolution
   alternatives: ParetoSolution[]
   trade_offs: TradeOffAnalysis[]
+  objectives: ObjectiveDefinition[] // The objectives traded off
+  frontier_metrics: FrontierMetrics
+}
+
+/**
+ * Quality of a frontier, measured with every objective mapped so 1 is best.
+ * Comparable between runs that trade off the same objectives.
+ */
+export interface FrontierMetrics {
+  hypervolume: number // 0-1, share of objective space the frontier dominates; higher is better
+  spread: number // 0 when solutions are evenly spaced, higher as they clump together
+  generational_distance: number // Distance to the reference frontier, or the ideal point; lower is better
 }
 
 export interface TradeOffAnalysis {
@@ -53,5 +90,6 @@ export interface TradeOffAnalysis {
   quality_change: number
   cost_change: number
   latency_change: number
+  objective_changes: Record<string, number> // Change in every objective traded off
   recommendation: string
 }
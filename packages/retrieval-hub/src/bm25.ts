@@ -0,0 +1,134 @@
+/**
+ * PromptDial 3.0 - BM25 Keyword Index
+ *
+ * Inverted index scored with Okapi BM25, for exact-term matches on code
+ * identifiers, product names and other tokens embeddings blur together
+ */
+
+import { Document } from '@promptdial/shared'
+
+export interface KeywordMatch {
+  id: string
+  score: number
+}
+
+export interface BM25Options {
+  k1?: number // Term frequency saturation
+  b?: number // Document length normalization
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}_]+(?:[.-][\p{L}\p{N}_]+)*/gu
+const CAMEL_BOUNDARY = /(?<=[\p{Ll}\p{N}])(?=\p{Lu})|(?<=\p{Lu})(?=\p{Lu}\p{Ll})/u
+
+/**
+ * Lowercased terms. Compound identifiers such as getUserById, max_tokens or
+ * gpt-4.1 are kept whole so exact lookups score highest, and also split into
+ * their parts so partial lookups still match.
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = []
+
+  for (const word of text.match(WORD_PATTERN) || []) {
+    const parts = word
+      .split(/[._-]+/)
+      .flatMap((part) => part.split(CAMEL_BOUNDARY))
+      .filter((part) => part.length > 0)
+      .map((part) => part.toLowerCase())
+
+    terms.push(word.toLowerCase())
+    if (parts.length > 1) {
+      terms.push(...parts)
+    }
+  }
+
+  return terms
+}
+
+export class BM25Index {
+  private postings: Map<string, Map<string, number>> = new Map()
+  private lengths: Map<string, number> = new Map()
+  private documents: Map<string, Document> = new Map()
+  private totalLength: number = 0
+  private k1: number
+  private b: number
+
+  constructor(options: BM25Options = {}) {
+    this.k1 = options.k1 ?? 1.2
+    this.b = options.b ?? 0.75
+  }
+
+  get size(): number {
+    return this.documents.size
+  }
+
+  add(document: Document): void {
+    this.remove(document.id)
+
+    const terms = tokenize(document.content)
+    const frequencies = new Map<string, number>()
+    terms.forEach((term) => frequencies.set(term, (frequencies.get(term) || 0) + 1))
+
+    for (const [term, frequency] of frequencies) {
+      const posting = this.postings.get(term) || new Map<string, number>()
+      posting.set(document.id, frequency)
+      this.postings.set(term, posting)
+    }
+
+    this.documents.set(document.id, document)
+    this.lengths.set(document.id, terms.length)
+    this.totalLength += terms.length
+  }
+
+  addBatch(documents: Document[]): void {
+    documents.forEach((doc) => this.add(doc))
+  }
+
+  remove(id: string): void {
+    const document = this.documents.get(id)
+    if (!document) {
+      return
+    }
+
+    for (const term of new Set(tokenize(document.content))) {
+      const posting = this.postings.get(term)
+      posting?.delete(id)
+      if (posting?.size === 0) {
+        this.postings.delete(term)
+      }
+    }
+
+    this.totalLength -= this.lengths.get(id) || 0
+    this.lengths.delete(id)
+    this.documents.delete(id)
+  }
+
+  get(id: string): Document | undefined {
+    return this.documents.get(id)
+  }
+
+  /**
+   * Documents containing at least one query term, best first
+   */
+  search(query: string, topK: number, filter?: (document: Document) => boolean): KeywordMatch[] {
+    const scores = new Map<string, number>()
+    const averageLength = this.totalLength / Math.max(this.documents.size, 1)
+
+    for (const term of new Set(tokenize(query))) {
+      const posting = this.postings.get(term)
+      if (!posting) continue
+
+      const idf = Math.log(1 + (this.documents.size - posting.size + 0.5) / (posting.size + 0.5))
+      for (const [id, frequency] of posting) {
+        const length = this.lengths.get(id) || 0
+        const norm = this.k1 * (1 - this.b + (this.b * length) / averageLength)
+        const score = (idf * frequency * (this.k1 + 1)) / (frequency + norm)
+        scores.set(id, (scores.get(id) || 0) + score)
+      }
+    }
+
+    return Array.from(scores, ([id, score]) => ({ id, score }))
+      .filter(({ id }) => !filter || filter(this.documents.get(id) as Document))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK)
+  }
+}
@@ -5,6 +5,14 @@
  */
 
 import { Document, createLogger, generateTraceId } from '@promptdial/shared'
+import {
+  DocumentFormat,
+  DocumentSection,
+  ParsedDocument,
+  detectFormat,
+  fileExtension,
+  parseDocument,
+} from './formats'
 
 const logger = createLogger('document-processor')
 
@@ -16,6 +24,14 @@ export interface ProcessingOptions {
   includeMetadata?: boolean
   cleanText?: boolean
   preserveFormatting?: boolean
+  format?: DocumentFormat | 'auto' // Overrides detection from metadata and content
+}
+
+export interface SourceDocument {
+  content: string
+  metadata?: Record<string, unknown>
+  format?: DocumentFormat // Overrides the batch-wide format option
+  collection?: string // Overrides the batch-wide collection option
 }
 
 export interface ChunkMetadata {
@@ -24,6 +40,18 @@ export interface ChunkMetadata {
   total_chunks: number
   start_char: number
   end_char: number
+  section?: string // Heading path, record label or declaration name
+  page?: number // 1-based, counting form feeds in the source
+  format?: DocumentFormat
+}
+
+type ResolvedOptions = Required<Omit<ProcessingOptions, 'format'>>
+
+interface TextChunk {
+  text: string
+  metadata: Record<string, unknown>
+  start: number
+  end: number
   section?: string
   page?: number
 }
@@ -31,7 +59,7 @@ export interface ChunkMetadata {
 // ============= Document Processor =============
 
 export class DocumentProcessor {
-  private defaultOptions: Required<ProcessingOptions> = {
+  private defaultOptions: ResolvedOptions = {
     chunkSize: 512,
     chunkOverlap: 128,
     includeMetadata: true,
@@ -40,7 +68,9 @@ export class DocumentProcessor {
   }
 
   /**
-   * Process a single document into chunks
+   * Process a single document into chunks. Markdown, HTML, JSON, JSONL, CSV
+   * and source code are split along their structure; plain text, and content
+   * that fails to parse as its format, is cleaned and chunked by size.
    */
   async processDocument(
     content: string,
@@ -48,18 +78,14 @@ export class DocumentProcessor {
     options: ProcessingOptions = {},
   ): Promise<Document[]> {
     const opts = { ...this.defaultOptions, ...options }
+    const format =
+      opts.format && opts.format !== 'auto' ? opts.format : detectFormat(content, metadata)
 
-    // Clean text if requested
-    const processedContent = opts.cleanText ? this.cleanText(content) : content
-
-    // Extract sections if possible
-    const sections = this.extractSections(processedContent)
-
-    // Chunk the content
-    const chunks =
-      sections.length > 1
-        ? this.chunkBySections(sections, opts)
-        : this.chunkBySize(processedContent, opts)
+    const parsed = parseDocument(content, format, {
+      chunkSize: opts.chunkSize,
+      language: metadata.language || fileExtension(metadata),
+    })
+    const chunks = parsed ? this.chunkParsed(parsed, opts) : this.chunkText(content, opts)
 
     // Create documents
     const baseId = metadata.id || generateTraceId()
@@ -76,6 +102,8 @@ export class DocumentProcessor {
           start_char: chunk.start,
           end_char: chunk.end,
           section: chunk.section,
+          page: chunk.page,
+          format: parsed ? format : 'text',
         } as ChunkMetadata,
       },
     }))
@@ -85,13 +113,16 @@ export class DocumentProcessor {
    * Process multiple documents in batch
    */
   async processBatch(
-    documents: Array<{ content: string; metadata?: Record<string, any> }>,
+    documents: SourceDocument[],
     options: ProcessingOptions = {},
   ): Promise<Document[]> {
     const allChunks: Document[] = []
 
     for (const doc of documents) {
-      const chunks = await this.processDocument(doc.content, doc.metadata, options)
+      const chunks = await this.processDocument(doc.content, doc.metadata, {
+        ...options,
+        format: doc.format || options.format,
+      })
       allChunks.push(...chunks)
     }
 
@@ -99,6 +130,76 @@ export class DocumentProcessor {
     return allChunks
   }
 
+  /**
+   * Chunk plain text; form feeds separate pages, which are chunked one by one
+   */
+  private chunkText(content: string, options: ResolvedOptions): TextChunk[] {
+    const pages = content.split('\f')
+    if (pages.length === 1) {
+      return this.chunkPage(content, options)
+    }
+
+    let offset = 0
+    return pages.flatMap((page, i) => {
+      const chunks = this.chunkPage(page, options).map((chunk) => ({
+        ...chunk,
+        metadata: { ...chunk.metadata, page: i + 1 },
+        start: offset + chunk.start,
+        end: offset + chunk.end,
+        page: i + 1,
+      }))
+      offset += page.length + 1
+      return chunks
+    })
+  }
+
+  private chunkPage(content: string, options: ResolvedOptions): TextChunk[] {
+    // Clean text if requested
+    const processedContent = options.cleanText ? this.cleanText(content) : content
+
+    // Extract sections if possible
+    const sections = this.extractSections(processedContent)
+
+    // Chunk the content
+    return sections.length > 1
+      ? this.chunkBySections(sections, options)
+      : this.chunkBySize(processedContent, options)
+  }
+
+  /**
+   * Chunk structured sections; sections too large for one chunk are split by
+   * size, and every piece repeats the section's context
+   */
+  private chunkParsed(parsed: ParsedDocument, options: ResolvedOptions): TextChunk[] {
+    const pageBreaks = Array.from(parsed.text.matchAll(/\f/g), (match) => match.index!)
+
+    return parsed.sections.flatMap((section) =>
+      this.chunkSection(section, options).map((chunk) => {
+        if (pageBreaks.length === 0) return chunk
+
+        const page = 1 + pageBreaks.filter((offset) => offset < chunk.start).length
+        return { ...chunk, metadata: { ...chunk.metadata, page }, page }
+      }),
+    )
+  }
+
+  private chunkSection(section: DocumentSection, options: ResolvedOptions): TextChunk[] {
+    const prefix = section.context ? `${section.context}\n\n` : ''
+    const chunkSize = Math.max(options.chunkSize - prefix.length, Math.ceil(options.chunkSize / 2))
+    const pieces =
+      section.content.length <= chunkSize
+        ? [{ text: section.content, start: 0, end: section.content.length }]
+        : this.chunkBySize(section.content, { ...options, chunkSize })
+
+    return pieces.map((piece) => ({
+      text: prefix + piece.text,
+      metadata: { section: section.title },
+      start: section.start + piece.start,
+      end: Math.min(section.start + piece.end, section.end),
+      section: section.title,
+    }))
+  }
+
   /**
    * Clean text by removing excess whitespace and special characters
    */
@@ -158,7 +259,7 @@ export class DocumentProcessor {
    */
   private chunkBySections(
     sections: Array<{ title: string; content: string }>,
-    options: Required<ProcessingOptions>,
+    options: ResolvedOptions,
   ): Array<{ text: string; metadata: any; start: number; end: number; section?: string }> {
     const chunks: Array<{
       text: string
@@ -206,7 +307,7 @@ export class DocumentProcessor {
    */
   private chunkBySize(
     text: string,
-    options: Required<ProcessingOptions>,
+    options: ResolvedOptions,
   ): Array<{ text: string; metadata: any; start: number; end: number }> {
     const chunks: Array<{ text: string; metadata: any; start: number; end: number }> = []
     const { chunkSize, chunkOverlap } = options
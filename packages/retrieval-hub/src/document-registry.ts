@@ -0,0 +1,235 @@
+/**
+ * PromptDial 3.0 - Document Registry
+ *
+ * Tracks every source document the hub has indexed: its collection, a hash of
+ * its content, the chunks it was split into and the history of its versions.
+ * Re-indexing compares against this record so unchanged documents are skipped
+ * and changed ones replace only the chunks that differ.
+ */
+
+import { createHash } from 'crypto'
+
+import { JsonFileStore, createLogger } from '@promptdial/shared'
+
+import { DocumentFormat } from './formats'
+
+const logger = createLogger('document-registry')
+
+export const DEFAULT_COLLECTION = 'default'
+
+export interface DocumentVersion {
+  version: number
+  content_hash: string
+  chunk_count: number
+  indexed_at: string // ISO timestamp
+}
+
+export interface DocumentRecord {
+  id: string
+  collection: string
+  version: number // Starts at 1 and increases each time the document changes
+  content_hash: string // SHA-256 of the content, hex encoded
+  format?: DocumentFormat
+  metadata: Record<string, unknown>
+  chunk_ids: string[]
+  created_at: string
+  updated_at: string
+  versions: DocumentVersion[] // Every version, oldest first
+}
+
+// What indexing a new version of a document records
+export type DocumentEntry = Pick<
+  DocumentRecord,
+  'id' | 'collection' | 'content_hash' | 'format' | 'metadata' | 'chunk_ids'
+>
+
+export interface CollectionRecord {
+  name: string
+  description?: string
+  created_at: string
+}
+
+export interface CollectionSummary extends CollectionRecord {
+  document_count: number
+  chunk_count: number
+}
+
+interface PersistedRegistry {
+  documents: DocumentRecord[]
+  collections: CollectionRecord[]
+}
+
+export class DocumentRegistry {
+  private documents: Map<string, DocumentRecord> = new Map()
+  private collections: Map<string, CollectionRecord> = new Map()
+  private store: JsonFileStore<PersistedRegistry>
+  private ready: Promise<void> | null = null
+
+  /**
+   * @param file JSON file the registry persists to; kept in memory when unset
+   */
+  constructor(file?: string) {
+    this.store = new JsonFileStore(file)
+  }
+
+  async get(id: string): Promise<DocumentRecord | undefined> {
+    await this.initialize()
+    return this.documents.get(id)
+  }
+
+  /**
+   * Every document, optionally of one collection
+   */
+  async list(collection?: string): Promise<DocumentRecord[]> {
+    await this.initialize()
+    return Array.from(this.documents.values()).filter(
+      (record) => !collection || record.collection === collection,
+    )
+  }
+
+  /**
+   * Record a new version of each document, creating collections as needed
+   */
+  async record(entries: DocumentEntry[]): Promise<DocumentRecord[]> {
+    await this.initialize()
+
+    const now = new Date().toISOString()
+    const records = entries.map((entry) => {
+      this.addCollection(entry.collection, now)
+      const record = nextVersion(this.documents.get(entry.id), entry, now)
+      this.documents.set(record.id, record)
+      return record
+    })
+
+    if (records.length > 0) {
+      await this.save()
+    }
+    return records
+  }
+
+  async remove(ids: string[]): Promise<DocumentRecord[]> {
+    await this.initialize()
+
+    const removed = ids.flatMap((id) => {
+      const record = this.documents.get(id)
+      this.documents.delete(id)
+      return record ? [record] : []
+    })
+    if (removed.length > 0) {
+      await this.save()
+    }
+    return removed
+  }
+
+  // ============= Collections =============
+
+  /**
+   * Create a collection, or update the description of an existing one
+   */
+  async createCollection(name: string, description?: string): Promise<CollectionRecord> {
+    await this.initialize()
+
+    const collection = this.addCollection(name, new Date().toISOString())
+    if (description !== undefined) {
+      collection.description = description
+    }
+    await this.save()
+    return collection
+  }
+
+  async listCollections(): Promise<CollectionSummary[]> {
+    await this.initialize()
+
+    const documents = Array.from(this.documents.values())
+    return Array.from(this.collections.values()).map((collection) => {
+      const members = documents.filter((record) => record.collection === collection.name)
+      return {
+        ...collection,
+        document_count: members.length,
+        chunk_count: members.reduce((sum, record) => sum + record.chunk_ids.length, 0),
+      }
+    })
+  }
+
+  async hasCollection(name: string): Promise<boolean> {
+    await this.initialize()
+    return this.collections.has(name)
+  }
+
+  /**
+   * Forget a collection; its documents must be removed first
+   */
+  async deleteCollection(name: string): Promise<boolean> {
+    await this.initialize()
+
+    const deleted = this.collections.delete(name)
+    if (deleted) {
+      await this.save()
+    }
+    return deleted
+  }
+
+  private addCollection(name: string, now: string): CollectionRecord {
+    if (!this.collections.has(name)) {
+      this.collections.set(name, { name, created_at: now })
+    }
+    return this.collections.get(name)!
+  }
+
+  // ============= Persistence =============
+
+  private initialize(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.load().catch((error) => {
+        this.ready = null
+        throw error
+      })
+    }
+    return this.ready
+  }
+
+  private async load(): Promise<void> {
+    const persisted = await this.store.read()
+    persisted?.documents.forEach((record) => this.documents.set(record.id, record))
+    persisted?.collections.forEach((collection) =>
+      this.collections.set(collection.name, collection),
+    )
+    if (persisted) {
+      logger.info(`Loaded ${this.documents.size} documents from ${this.store.file}`)
+    }
+  }
+
+  private save(): Promise<void> {
+    return this.store.write({
+      documents: Array.from(this.documents.values()),
+      collections: Array.from(this.collections.values()),
+    })
+  }
+}
+
+function nextVersion(
+  current: DocumentRecord | undefined,
+  entry: DocumentEntry,
+  now: string,
+): DocumentRecord {
+  const version = (current?.version || 0) + 1
+  return {
+    ...entry,
+    version,
+    created_at: current?.created_at || now,
+    updated_at: now,
+    versions: [
+      ...(current?.versions || []),
+      {
+        version,
+        content_hash: entry.content_hash,
+        chunk_count: entry.chunk_ids.length,
+        indexed_at: now,
+      },
+    ],
+  }
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex')
+}
@@ -0,0 +1,391 @@
+/**
+ * PromptDial 3.0 - Embedding Providers
+ *
+ * Turns text into vectors for the vector stores: OpenAI, Google, or a local
+ * feature-hashing model that works offline
+ */
+
+import { createHash } from 'crypto'
+
+import { createLogger } from '@promptdial/shared'
+
+const logger = createLogger('embeddings')
+
+// ============= Embedding Provider Interface =============
+
+export interface EmbeddingProvider {
+  readonly name: string
+  readonly model: string
+  readonly dimensions: number // Negotiated length of every vector returned
+
+  /**
+   * Embed texts, returning one vector per text in the same order
+   */
+  embed(texts: string[]): Promise<number[][]>
+}
+
+export interface EmbeddingStats {
+  provider: string
+  model: string
+  dimensions: number
+  cache?: EmbeddingCacheStats
+}
+
+export interface EmbeddingCacheStats {
+  size: number
+  hits: number
+  misses: number
+}
+
+export type EmbeddingProviderType = 'local' | 'openai' | 'google'
+
+export interface EmbeddingProviderOptions {
+  model?: string
+  dimensions?: number // Requested size; providers settle on the closest they support
+  api_key?: string
+  fetch?: typeof fetch
+}
+
+const DEFAULT_LOCAL_DIMENSIONS = 384
+const DEFAULT_CACHE_SIZE = 10000
+
+/**
+ * Settle on the requested size when the model can shorten its vectors,
+ * otherwise fall back to the model's native size
+ */
+export function negotiateDimensions(
+  requested: number | undefined,
+  native: number,
+  shortenable: boolean,
+): number {
+  if (!requested || requested === native) {
+    return native
+  }
+  if (shortenable && requested < native) {
+    return requested
+  }
+
+  logger.warn(`Model does not support ${requested} dimensions, using ${native}`)
+  return native
+}
+
+function normalize(vector: number[]): number[] {
+  const magnitude = Math.sqrt(vector.reduce((sum, val) => sum + val * val, 0))
+  return magnitude === 0 ? vector : vector.map((val) => val / magnitude)
+}
+
+// ============= Local Feature-Hashing Provider =============
+
+/**
+ * Deterministic offline embeddings. Word unigrams, word bigrams and character
+ * trigrams are hashed into a fixed number of signed buckets with sublinear
+ * term frequency, so texts sharing words and word fragments land close
+ * together without any model or network access.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local'
+  readonly model = 'hashed-ngrams'
+  readonly dimensions: number
+
+  constructor(options: EmbeddingProviderOptions = {}) {
+    this.dimensions = options.dimensions || DEFAULT_LOCAL_DIMENSIONS
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedText(text))
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0)
+
+    for (const [feature, { count, weight }] of this.extractFeatures(text)) {
+      const hash = this.hash(feature)
+      const sign = hash & 0x80000000 ? -1 : 1
+      vector[hash % this.dimensions] += sign * weight * (1 + Math.log(count))
+    }
+
+    return normalize(vector)
+  }
+
+  private extractFeatures(text: string): Map<string, { count: number; weight: number }> {
+    const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []
+    const features = new Map<string, { count: number; weight: number }>()
+    const add = (feature: string, weight: number) => {
+      const existing = features.get(feature)
+      features.set(feature, { count: (existing?.count || 0) + 1, weight })
+    }
+
+    tokens.forEach((token, i) => {
+      add(`w:${token}`, 1)
+      if (i > 0) add(`b:${tokens[i - 1]}_${token}`, 0.7)
+
+      const padded = `#${token}#`
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        add(`c:${padded.slice(j, j + 3)}`, 0.4)
+      }
+    })
+
+    return features
+  }
+
+  /**
+   * 32-bit FNV-1a
+   */
+  private hash(feature: string): number {
+    let hash = 0x811c9dc5
+    for (let i = 0; i < feature.length; i++) {
+      hash ^= feature.charCodeAt(i)
+      hash = Math.imul(hash, 0x01000193)
+    }
+    return hash >>> 0
+  }
+}
+
+// ============= Remote Providers =============
+
+abstract class HttpEmbeddingProvider implements EmbeddingProvider {
+  abstract readonly name: string
+  readonly model: string
+  readonly dimensions: number
+  protected apiKey: string
+  protected fetchFn: typeof fetch
+  protected abstract batchSize: number
+
+  constructor(
+    options: EmbeddingProviderOptions,
+    defaults: { model: string; native_dimensions: number; shortenable: boolean },
+  ) {
+    this.model = options.model || defaults.model
+    this.dimensions = negotiateDimensions(
+      options.dimensions,
+      defaults.native_dimensions,
+      defaults.shortenable,
+    )
+    this.apiKey = options.api_key || ''
+    this.fetchFn = options.fetch || fetch
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = []
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      vectors.push(...(await this.request(texts.slice(i, i + this.batchSize))))
+    }
+
+    const mismatch = vectors.find((vector) => vector.length !== this.dimensions)
+    if (mismatch) {
+      throw new Error(
+        `${this.name} returned ${mismatch.length}-dimensional embeddings, expected ${this.dimensions}`,
+      )
+    }
+
+    return vectors
+  }
+
+  protected abstract request(texts: string[]): Promise<number[][]>
+
+  protected async post<T>(url: string, body: unknown, headers: Record<string, string> = {}) {
+    const response = await this.fetchFn(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    })
+    if (!response.ok) {
+      throw new Error(`${this.name} embeddings request failed with ${response.status}`)
+    }
+
+    return (await response.json()) as T
+  }
+}
+
+// text-embedding-3 models can shorten their vectors; ada-002 cannot
+const OPENAI_MODELS: Record<string, { native_dimensions: number; shortenable: boolean }> = {
+  'text-embedding-3-small': { native_dimensions: 1536, shortenable: true },
+  'text-embedding-3-large': { native_dimensions: 3072, shortenable: true },
+  'text-embedding-ada-002': { native_dimensions: 1536, shortenable: false },
+}
+
+export class OpenAIEmbeddingProvider extends HttpEmbeddingProvider {
+  readonly name = 'openai'
+  protected batchSize = 2048
+
+  constructor(options: EmbeddingProviderOptions = {}) {
+    const model = options.model || 'text-embedding-3-small'
+    super(options, { model, ...(OPENAI_MODELS[model] || OPENAI_MODELS['text-embedding-3-small']) })
+  }
+
+  protected async request(texts: string[]): Promise<number[][]> {
+    const native = OPENAI_MODELS[this.model]?.native_dimensions
+    const body = await this.post<{ data: Array<{ index: number; embedding: number[] }> }>(
+      'https://api.openai.com/v1/embeddings',
+      {
+        model: this.model,
+        input: texts,
+        ...(this.dimensions !== native ? { dimensions: this.dimensions } : {}),
+      },
+      { Authorization: `Bearer ${this.apiKey}` },
+    )
+
+    return [...body.data].sort((a, b) => a.index - b.index).map((item) => item.embedding)
+  }
+}
+
+export class GoogleEmbeddingProvider extends HttpEmbeddingProvider {
+  readonly name = 'google'
+  protected batchSize = 100
+
+  constructor(options: EmbeddingProviderOptions = {}) {
+    super(options, { model: 'text-embedding-004', native_dimensions: 768, shortenable: true })
+  }
+
+  protected async request(texts: string[]): Promise<number[][]> {
+    const model = `models/${this.model}`
+    const body = await this.post<{ embeddings: Array<{ values: number[] }> }>(
+      `https://generativelanguage.googleapis.com/v1beta/${model}:batchEmbedContents`,
+      {
+        requests: texts.map((text) => ({
+          model,
+          content: { parts: [{ text }] },
+          outputDimensionality: this.dimensions,
+        })),
+      },
+      { 'x-goog-api-key': this.apiKey },
+    )
+
+    return body.embeddings.map((embedding) => embedding.values)
+  }
+}
+
+// ============= Embedding Cache =============
+
+/**
+ * Remembers vectors by content hash so re-indexed chunks and repeated
+ * queries skip the provider. Least recently used entries are evicted first.
+ */
+export class CachedEmbeddingProvider implements EmbeddingProvider {
+  private cache: Map<string, number[]> = new Map()
+  private hits = 0
+  private misses = 0
+
+  constructor(
+    private provider: EmbeddingProvider,
+    private maxSize: number = DEFAULT_CACHE_SIZE,
+  ) {}
+
+  get name(): string {
+    return this.provider.name
+  }
+
+  get model(): string {
+    return this.provider.model
+  }
+
+  get dimensions(): number {
+    return this.provider.dimensions
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const keys = texts.map((text) => this.key(text))
+    const missing = Array.from(new Set(keys.filter((key) => !this.cache.has(key))))
+    this.misses += missing.length
+    this.hits += texts.length - missing.length
+
+    if (missing.length > 0) {
+      const missingTexts = missing.map((key) => texts[keys.indexOf(key)])
+      const vectors = await this.provider.embed(missingTexts)
+      missing.forEach((key, i) => this.cache.set(key, vectors[i]))
+    }
+
+    const results = keys.map((key) => this.touch(key))
+    this.evict()
+    return results
+  }
+
+  getCacheStats(): EmbeddingCacheStats {
+    return { size: this.cache.size, hits: this.hits, misses: this.misses }
+  }
+
+  clear(): void {
+    this.cache.clear()
+  }
+
+  private touch(key: string): number[] {
+    const vector = this.cache.get(key) as number[]
+    this.cache.delete(key)
+    this.cache.set(key, vector)
+    return vector
+  }
+
+  private evict(): void {
+    for (const key of this.cache.keys()) {
+      if (this.cache.size <= this.maxSize) break
+      this.cache.delete(key)
+    }
+  }
+
+  private key(text: string): string {
+    return createHash('sha256')
+      .update(`${this.provider.name}:${this.provider.model}:${this.dimensions}:${text}`)
+      .digest('hex')
+  }
+}
+
+/**
+ * Stats reported alongside the vector store's own
+ */
+export function describeEmbeddingProvider(provider: EmbeddingProvider): EmbeddingStats {
+  return {
+    provider: provider.name,
+    model: provider.model,
+    dimensions: provider.dimensions,
+    cache: provider instanceof CachedEmbeddingProvider ? provider.getCacheStats() : undefined,
+  }
+}
+
+// ============= Embedding Provider Factory =============
+
+const API_KEY_VARIABLES: Record<Exclude<EmbeddingProviderType, 'local'>, string> = {
+  openai: 'OPENAI_API_KEY',
+  google: 'GOOGLE_AI_API_KEY',
+}
+
+/**
+ * Create a cached provider. The type, model and dimensions default to
+ * PROMPTDIAL_EMBEDDING_PROVIDER, PROMPTDIAL_EMBEDDING_MODEL and
+ * PROMPTDIAL_EMBEDDING_DIMENSIONS; remote providers without an API key fall
+ * back to the local model.
+ */
+export function createEmbeddingProvider(
+  type: EmbeddingProviderType = (process.env
+    .PROMPTDIAL_EMBEDDING_PROVIDER as EmbeddingProviderType) || 'local',
+  options: EmbeddingProviderOptions = {},
+): EmbeddingProvider {
+  const resolved: EmbeddingProviderOptions = {
+    model: process.env.PROMPTDIAL_EMBEDDING_MODEL,
+    dimensions: Number(process.env.PROMPTDIAL_EMBEDDING_DIMENSIONS) || undefined,
+    ...options,
+  }
+
+  return new CachedEmbeddingProvider(createUncachedProvider(type, resolved))
+}
+
+function createUncachedProvider(
+  type: EmbeddingProviderType,
+  options: EmbeddingProviderOptions,
+): EmbeddingProvider {
+  if (type === 'local') {
+    return new HashingEmbeddingProvider(options)
+  }
+  if (!(type in API_KEY_VARIABLES)) {
+    throw new Error(`Unknown embedding provider: ${type}`)
+  }
+
+  const apiKey = options.api_key || process.env[API_KEY_VARIABLES[type]]
+  if (!apiKey) {
+    logger.warn(`No API key for ${type} embeddings, using local embeddings`)
+    return new HashingEmbeddingProvider({ dimensions: options.dimensions })
+  }
+
+  return type === 'openai'
+    ? new OpenAIEmbeddingProvider({ ...options, api_key: apiKey })
+    : new GoogleEmbeddingProvider({ ...options, api_key: apiKey })
+}
@@ -0,0 +1,302 @@
+/**
+ * PromptDial 3.0 - Few-Shot Example Bank
+ *
+ * Curated question / reasoning / answer examples, versioned on every revision
+ * and indexed for search, so few-shot variants show examples close to the
+ * user's prompt rather than a fixed set per task type
+ */
+
+import {
+  Domain,
+  FewShotExample,
+  JsonFileStore,
+  RetrievalFilter,
+  RetrievalQuery,
+  RetrievalResult,
+  TaskType,
+  createLogger,
+} from '@promptdial/shared'
+
+import { EmbeddingProvider } from './embeddings'
+import { ProcessingOptions, SourceDocument } from './document-processor'
+import { SEED_EXAMPLES } from './example-seeds'
+import { DEFAULT_MMR_LAMBDA, maximalMarginalRelevance } from './mmr'
+
+const logger = createLogger('example-bank')
+
+export type ExampleInput = Omit<FewShotExample, 'version' | 'updated_at'>
+
+export interface ExampleSelectionOptions {
+  task_type?: TaskType
+  domain?: Domain
+  k?: number // Examples to return; defaults to 3
+  diversity?: number // 0-1; 0 ranks by relevance alone, higher values favour variety
+}
+
+export interface ExampleSelection {
+  examples: FewShotExample[]
+  bank_version: number // Increases whenever an example is added or revised
+}
+
+// The part of the retrieval hub the bank indexes into and searches
+export interface ExampleIndex {
+  indexDocuments(documents: SourceDocument[], options?: ProcessingOptions): Promise<unknown>
+  search(query: RetrievalQuery): Promise<RetrievalResult>
+}
+
+export interface ExampleBankOptions {
+  index: ExampleIndex
+  embedder: EmbeddingProvider // Compares candidates with each other for diversity
+  path?: string // JSON file the bank persists to; defaults to PROMPTDIAL_EXAMPLE_BANK_PATH
+  seed?: ExampleInput[] // Used when nothing has been persisted yet
+}
+
+interface Candidate {
+  example: FewShotExample
+  relevance: number
+}
+
+interface PersistedBank {
+  version: number
+  examples: FewShotExample[]
+  history: FewShotExample[]
+}
+
+const DEFAULT_EXAMPLE_COUNT = 3
+const DEFAULT_DIVERSITY = 1 - DEFAULT_MMR_LAMBDA
+
+// MMR chooses among this many search candidates per example returned
+const CANDIDATES_PER_EXAMPLE = 4
+
+// Added to the relevance of examples from the requested domain
+const DOMAIN_BONUS = 0.05
+
+// Large enough that every example is indexed as one chunk
+const EXAMPLE_CHUNK_SIZE = 8192
+
+export class ExampleBank {
+  private examples: Map<string, FewShotExample> = new Map()
+  private history: FewShotExample[] = [] // Superseded versions, oldest first
+  private version: number = 0
+  private index: ExampleIndex
+  private embedder: EmbeddingProvider
+  private store: JsonFileStore<PersistedBank>
+  private seed: ExampleInput[]
+  private ready: Promise<void> | null = null
+
+  constructor(options: ExampleBankOptions) {
+    this.index = options.index
+    this.embedder = options.embedder
+    this.store = new JsonFileStore(options.path ?? process.env.PROMPTDIAL_EXAMPLE_BANK_PATH)
+    this.seed = options.seed ?? SEED_EXAMPLES
+  }
+
+  /**
+   * Add examples, or revise existing ones by id. Each revision gets the next
+   * version; resubmitting an unchanged example keeps its version.
+   */
+  async upsert(inputs: ExampleInput[]): Promise<ExampleSelection> {
+    await this.initialize()
+
+    const now = new Date().toISOString()
+    const revised = inputs.map((input) => this.revise(input, now)).filter((ex) => ex !== null)
+    if (revised.length > 0) {
+      this.version++
+      await this.indexExamples(revised)
+      await this.save()
+      logger.info(`Revised ${revised.length} examples, bank version ${this.version}`)
+    }
+
+    return {
+      examples: inputs.map((input) => this.examples.get(input.id)!),
+      bank_version: this.version,
+    }
+  }
+
+  /**
+   * Current version of every example, optionally for one task type
+   */
+  async list(taskType?: TaskType): Promise<ExampleSelection> {
+    await this.initialize()
+    const examples = Array.from(this.examples.values()).filter(
+      (example) => !taskType || example.task_type === taskType,
+    )
+    return { examples, bank_version: this.version }
+  }
+
+  /**
+   * Every version of an example, oldest first
+   */
+  async getHistory(id: string): Promise<FewShotExample[]> {
+    await this.initialize()
+    const current = this.examples.get(id)
+    const previous = this.history.filter((example) => example.id === id)
+    return current ? [...previous, current] : previous
+  }
+
+  /**
+   * The examples most similar to the query, preferring the task type and
+   * domain given, and chosen by maximal marginal relevance so they do not
+   * all repeat the same pattern
+   */
+  async select(query: string, options: ExampleSelectionOptions = {}): Promise<ExampleSelection> {
+    await this.initialize()
+
+    const k = options.k ?? DEFAULT_EXAMPLE_COUNT
+    const candidates = await this.findCandidates(query, options, k)
+    if (candidates.length === 0) {
+      return { examples: [], bank_version: this.version }
+    }
+
+    const embeddings = await this.embedder.embed(candidates.map(({ example }) => render(example)))
+    const chosen = maximalMarginalRelevance(
+      candidates.map(({ example, relevance }, i) => ({
+        id: example.id,
+        relevance,
+        embedding: embeddings[i],
+      })),
+      k,
+      1 - (options.diversity ?? DEFAULT_DIVERSITY),
+    )
+
+    return {
+      examples: chosen.map(({ id }) => this.examples.get(id)!),
+      bank_version: this.version,
+    }
+  }
+
+  /**
+   * Candidates of the requested task type first; other task types only fill
+   * in when there are too few
+   */
+  private async findCandidates(
+    query: string,
+    options: ExampleSelectionOptions,
+    k: number,
+  ): Promise<Candidate[]> {
+    const depth = k * CANDIDATES_PER_EXAMPLE
+    const task = options.task_type
+    const sameTask = task ? await this.search(query, depth, { task_type: task }) : []
+    const others =
+      sameTask.length < k
+        ? await this.search(query, depth, task ? { task_type: { $ne: task } } : {})
+        : []
+
+    return [...sameTask, ...others].map((candidate) => withDomainBonus(candidate, options.domain))
+  }
+
+  private async search(
+    query: string,
+    depth: number,
+    filters: RetrievalFilter,
+  ): Promise<Candidate[]> {
+    const result = await this.index.search({
+      query,
+      top_k: depth,
+      filters,
+      include_metadata: true,
+    })
+
+    return result.documents.flatMap((doc) => {
+      const example = this.examples.get(doc.metadata?.example_id)
+      return example ? [{ example, relevance: doc.score }] : []
+    })
+  }
+
+  /**
+   * The new version of an example, or null if nothing changed
+   */
+  private revise(input: ExampleInput, now: string): FewShotExample | null {
+    const current = this.examples.get(input.id)
+    if (current && isSameExample(current, input)) {
+      return null
+    }
+
+    if (current) {
+      this.history.push(current)
+    }
+    const example = { ...input, version: (current?.version || 0) + 1, updated_at: now }
+    this.examples.set(example.id, example)
+    return example
+  }
+
+  /**
+   * Load the persisted bank, or the seed set, and index it; once
+   */
+  private initialize(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.load().then(
+        () => this.indexExamples(Array.from(this.examples.values())),
+        (error) => {
+          this.ready = null
+          throw error
+        },
+      )
+    }
+    return this.ready
+  }
+
+  private async load(): Promise<void> {
+    const persisted = await this.store.read()
+    if (persisted) {
+      persisted.examples.forEach((example) => this.examples.set(example.id, example))
+      this.history = persisted.history
+      this.version = persisted.version
+      logger.info(`Loaded ${this.examples.size} examples from ${this.store.file}`)
+      return
+    }
+
+    this.seed.forEach((input) => this.examples.set(input.id, { ...input, version: 1 }))
+    this.version = this.seed.length > 0 ? 1 : 0
+  }
+
+  private save(): Promise<void> {
+    return this.store.write({
+      version: this.version,
+      examples: Array.from(this.examples.values()),
+      history: this.history,
+    })
+  }
+
+  // Document ids are stable per example, so a revision replaces the old version
+  private async indexExamples(examples: FewShotExample[]): Promise<void> {
+    if (examples.length === 0) {
+      return
+    }
+
+    await this.index.indexDocuments(
+      examples.map((example) => ({
+        content: render(example),
+        format: 'text',
+        metadata: {
+          id: `example:${example.id}`,
+          example_id: example.id,
+          task_type: example.task_type,
+          domain: example.domain,
+          version: example.version,
+        },
+      })),
+      { chunkSize: EXAMPLE_CHUNK_SIZE, chunkOverlap: 0 },
+    )
+  }
+}
+
+function withDomainBonus(candidate: Candidate, domain?: Domain): Candidate {
+  return domain && candidate.example.domain === domain
+    ? { ...candidate, relevance: candidate.relevance + DOMAIN_BONUS }
+    : candidate
+}
+
+function render(example: ExampleInput): string {
+  return `${example.question}\n${example.reasoning}\n${example.answer}`
+}
+
+function isSameExample(current: FewShotExample, input: ExampleInput): boolean {
+  return (
+    current.question === input.question &&
+    current.reasoning === input.reasoning &&
+    current.answer === input.answer &&
+    current.task_type === input.task_type &&
+    current.domain === input.domain
+  )
+}
@@ -0,0 +1,223 @@
+/**
+ * PromptDial 3.0 - Curated Few-Shot Examples
+ *
+ * The example bank starts from this set when it has nothing persisted yet
+ */
+
+import { FewShotExample } from '@promptdial/shared'
+
+export const SEED_EXAMPLES: Array<Omit<FewShotExample, 'version' | 'updated_at'>> = [
+  // ============= Math Reasoning =============
+  {
+    id: 'math-average-speed',
+    task_type: 'math_reasoning',
+    domain: 'general',
+    question: 'If a train travels 120 miles in 2 hours, what is its average speed?',
+    reasoning: `1. Distance traveled = 120 miles
+2. Time taken = 2 hours
+3. Average speed = Distance ÷ Time
+4. Average speed = 120 miles ÷ 2 hours = 60 miles/hour`,
+    answer: '60 miles per hour',
+  },
+  {
+    id: 'math-rectangle-area',
+    task_type: 'math_reasoning',
+    domain: 'general',
+    question: 'A rectangle has a length of 8 cm and width of 5 cm. What is its area?',
+    reasoning: `1. Length of rectangle = 8 cm
+2. Width of rectangle = 5 cm
+3. Area of rectangle = Length × Width
+4. Area = 8 cm × 5 cm = 40 cm²`,
+    answer: '40 square centimeters',
+  },
+  {
+    id: 'math-linear-equation',
+    task_type: 'math_reasoning',
+    domain: 'academic',
+    question: 'If x + 7 = 15, what is the value of x?',
+    reasoning: `1. Starting equation: x + 7 = 15
+2. Subtract 7 from both sides: x + 7 - 7 = 15 - 7
+3. Simplify: x = 8
+4. Verify: 8 + 7 = 15 ✓`,
+    answer: 'x = 8',
+  },
+  {
+    id: 'math-compound-interest',
+    task_type: 'math_reasoning',
+    domain: 'business',
+    question: 'What is $1,000 worth after 2 years at 5% interest compounded annually?',
+    reasoning: `1. Compound interest: amount = principal × (1 + rate)^years
+2. Principal = $1,000, rate = 0.05, years = 2
+3. (1.05)^2 = 1.1025
+4. Amount = $1,000 × 1.1025 = $1,102.50`,
+    answer: '$1,102.50',
+  },
+  {
+    id: 'math-probability-dice',
+    task_type: 'math_reasoning',
+    domain: 'academic',
+    question: 'What is the probability of rolling a sum of 7 with two fair dice?',
+    reasoning: `1. Two dice give 6 × 6 = 36 equally likely outcomes
+2. Pairs summing to 7: (1,6), (2,5), (3,4), (4,3), (5,2), (6,1) = 6 outcomes
+3. Probability = favourable ÷ total = 6 ÷ 36
+4. Simplify: 6/36 = 1/6`,
+    answer: '1/6',
+  },
+
+  // ============= Code Generation =============
+  {
+    id: 'code-is-prime',
+    task_type: 'code_generation',
+    domain: 'technical',
+    question: 'Write a function to check if a number is prime',
+    reasoning: `1. A prime number is only divisible by 1 and itself
+2. Numbers less than 2 are not prime
+3. Any factor larger than sqrt(n) pairs with one smaller than sqrt(n)
+4. So checking divisors from 2 to sqrt(n) is enough`,
+    answer: `def is_prime(n):
+    if n < 2:
+        return False
+    for i in range(2, int(n**0.5) + 1):
+        if n % i == 0:
+            return False
+    return True`,
+  },
+  {
+    id: 'code-reverse-string',
+    task_type: 'code_generation',
+    domain: 'technical',
+    question: 'Create a function to reverse a string',
+    reasoning: `1. We need to reverse the order of characters
+2. Python slicing with a step of -1 walks the string backwards
+3. The slice builds a new string, leaving the input unchanged`,
+    answer: `def reverse_string(s):
+    return s[::-1]`,
+  },
+  {
+    id: 'code-debounce',
+    task_type: 'code_generation',
+    domain: 'technical',
+    question: 'Write a debounce function in TypeScript',
+    reasoning: `1. Debouncing delays a call until input has paused for a given time
+2. Each call cancels the pending timer and starts a new one
+3. The wrapper forwards the latest arguments when the timer fires
+4. Generics keep the wrapped function's parameter types`,
+    answer: `function debounce<A extends unknown[]>(fn: (...args: A) => void, ms: number) {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  return (...args: A) => {
+    clearTimeout(timer)
+    timer = setTimeout(() => fn(...args), ms)
+  }
+}`,
+  },
+  {
+    id: 'code-sql-top-customers',
+    task_type: 'code_generation',
+    domain: 'business',
+    question: 'Write a SQL query for the five customers with the highest total order value',
+    reasoning: `1. Order values live in orders, names in customers
+2. Join on the customer id and group by customer
+3. Sum the order totals per customer
+4. Sort by the sum descending and keep the first five rows`,
+    answer: `SELECT c.id, c.name, SUM(o.total) AS total_value
+FROM customers c
+JOIN orders o ON o.customer_id = c.id
+GROUP BY c.id, c.name
+ORDER BY total_value DESC
+LIMIT 5;`,
+  },
+
+  // ============= Data Analysis =============
+  {
+    id: 'data-growth-rate',
+    task_type: 'data_analysis',
+    domain: 'business',
+    question: 'Revenue was $2.0M last year and $2.5M this year. What was the growth rate?',
+    reasoning: `1. Growth = (new - old) ÷ old
+2. Change = $2.5M - $2.0M = $0.5M
+3. Growth = $0.5M ÷ $2.0M = 0.25`,
+    answer: '25% year-over-year growth',
+  },
+  {
+    id: 'data-median-outlier',
+    task_type: 'data_analysis',
+    domain: 'academic',
+    question:
+      'Response times were 120, 130, 125, 118 and 2400 ms. Which average describes them best?',
+    reasoning: `1. Mean = (120 + 130 + 125 + 118 + 2400) ÷ 5 = 578.6 ms
+2. One value, 2400 ms, is far from the others and pulls the mean up
+3. Sorted: 118, 120, 125, 130, 2400, so the median is 125 ms
+4. The median ignores the outlier and matches the typical request`,
+    answer: 'The median, 125 ms; the mean of 578.6 ms is distorted by one outlier',
+  },
+
+  // ============= General QA =============
+  {
+    id: 'qa-seasons',
+    task_type: 'general_qa',
+    domain: 'academic',
+    question: 'What causes the seasons on Earth?',
+    reasoning: `1. Earth's axis is tilted at about 23.5 degrees
+2. The tilt keeps its direction as Earth orbits the Sun
+3. Each hemisphere therefore leans towards the Sun for part of the year
+4. More direct sunlight means warmer temperatures, less means cooler`,
+    answer:
+      "Earth's 23.5 degree axial tilt: as Earth orbits, each hemisphere in turn receives more direct sunlight, giving summer, and then less, giving winter.",
+  },
+  {
+    id: 'qa-http-status',
+    task_type: 'general_qa',
+    domain: 'technical',
+    question: 'What is the difference between HTTP status codes 401 and 403?',
+    reasoning: `1. 401 Unauthorized means the request has no valid credentials
+2. The client may retry after authenticating
+3. 403 Forbidden means the server knows who the client is
+4. The identity lacks permission, so authenticating again will not help`,
+    answer: '401 means "authenticate first"; 403 means "authenticated, but not allowed"',
+  },
+
+  // ============= Other Tasks =============
+  {
+    id: 'summary-meeting',
+    task_type: 'summarization',
+    domain: 'business',
+    question:
+      'Summarize: "The launch moves from May to June because QA found payment bugs. Marketing will shift the campaign. Engineering adds two people to fix the bugs."',
+    reasoning: `1. Main point: the launch is delayed by a month
+2. Cause: QA found payment bugs
+3. Consequences: the campaign moves and engineering adds two people`,
+    answer:
+      'Launch delayed to June over payment bugs; marketing shifts the campaign and engineering adds two people.',
+  },
+  {
+    id: 'classify-sentiment',
+    task_type: 'classification',
+    domain: 'business',
+    question: 'Classify the sentiment: "Delivery was late, but support sorted it out quickly."',
+    reasoning: `1. "Delivery was late" is negative
+2. "support sorted it out quickly" is positive
+3. "but" shifts the emphasis to the resolution`,
+    answer: 'Mixed, leaning positive',
+  },
+  {
+    id: 'translate-idiom',
+    task_type: 'translation',
+    domain: 'general',
+    question: 'Translate "It\'s raining cats and dogs" into French',
+    reasoning: `1. This is an idiom meaning it is raining heavily
+2. A word-for-word translation would make no sense in French
+3. French has its own idiom for heavy rain`,
+    answer: 'Il pleut des cordes',
+  },
+  {
+    id: 'creative-opening-line',
+    task_type: 'creative_writing',
+    domain: 'creative',
+    question: 'Write an opening line for a mystery set in a lighthouse',
+    reasoning: `1. A mystery opens best with something wrong
+2. The lighthouse gives setting and a natural routine to break
+3. A concrete detail creates intrigue without explaining it`,
+    answer:
+      'The lamp had turned every night for ninety years, so when it went dark, the whole village looked up.',
+  },
+]
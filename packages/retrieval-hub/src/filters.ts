@@ -0,0 +1,189 @@
+/**
+ * PromptDial 3.0 - Metadata Filters
+ *
+ * Evaluates and validates the filter language of RetrievalQuery.filters.
+ * Vector store backends and the keyword index all filter through
+ * matchesFilters, so a filter selects the same chunks whichever retriever runs.
+ */
+
+import { isDeepStrictEqual } from 'util'
+
+import { Document, RetrievalCondition, RetrievalFilter } from '@promptdial/shared'
+
+type FilterOperator = keyof RetrievalCondition
+
+interface OperandRule {
+  accepts: (operand: unknown) => boolean
+  expected: string
+}
+
+const OPERANDS: Record<FilterOperator, OperandRule> = {
+  $eq: { accepts: () => true, expected: 'a value' },
+  $ne: { accepts: () => true, expected: 'a value' },
+  $in: { accepts: Array.isArray, expected: 'an array' },
+  $nin: { accepts: Array.isArray, expected: 'an array' },
+  $gt: { accepts: isComparable, expected: 'a number or string' },
+  $gte: { accepts: isComparable, expected: 'a number or string' },
+  $lt: { accepts: isComparable, expected: 'a number or string' },
+  $lte: { accepts: isComparable, expected: 'a number or string' },
+  $exists: { accepts: (operand) => typeof operand === 'boolean', expected: 'a boolean' },
+}
+
+export const FILTER_OPERATORS = Object.keys(OPERANDS) as FilterOperator[]
+
+// Tested against each element of an array field as well as the whole array
+const COMPARISONS: Record<string, (actual: unknown, operand: unknown) => boolean> = {
+  $eq: (actual, operand) => isDeepStrictEqual(actual, operand),
+  $in: (actual, operand) =>
+    (operand as unknown[]).some((value) => isDeepStrictEqual(actual, value)),
+  $gt: (actual, operand) => compare(actual, operand) > 0,
+  $gte: (actual, operand) => compare(actual, operand) >= 0,
+  $lt: (actual, operand) => compare(actual, operand) < 0,
+  $lte: (actual, operand) => compare(actual, operand) <= 0,
+}
+
+// Match when the positive operator does not, so a missing field is "not equal"
+const NEGATIONS: Record<string, FilterOperator> = { $ne: '$eq', $nin: '$in' }
+
+// ============= Matching =============
+
+/**
+ * Whether a document's metadata satisfies every clause of the filter
+ */
+export function matchesFilters(document: Document, filters: RetrievalFilter): boolean {
+  return matches(document.metadata || {}, filters)
+}
+
+function matches(metadata: Record<string, unknown>, filter: RetrievalFilter): boolean {
+  return Object.entries(filter).every(([key, value]) => matchesClause(metadata, key, value))
+}
+
+function matchesClause(metadata: Record<string, unknown>, key: string, value: unknown): boolean {
+  if (key === '$and') {
+    return (value as RetrievalFilter[]).every((filter) => matches(metadata, filter))
+  }
+  if (key === '$or') {
+    return (value as RetrievalFilter[]).some((filter) => matches(metadata, filter))
+  }
+
+  const actual = resolvePath(metadata, key)
+  if (!isCondition(value)) {
+    return test(actual, '$eq', value)
+  }
+  return Object.entries(value).every(([operator, operand]) =>
+    test(actual, operator as FilterOperator, operand),
+  )
+}
+
+function test(actual: unknown, operator: FilterOperator, operand: unknown): boolean {
+  if (operator === '$exists') {
+    return (actual !== undefined) === operand
+  }
+  if (NEGATIONS[operator]) {
+    return !test(actual, NEGATIONS[operator], operand)
+  }
+
+  const candidates = Array.isArray(actual) ? [actual, ...actual] : [actual]
+  return candidates.some((candidate) => COMPARISONS[operator](candidate, operand))
+}
+
+/**
+ * A literal key wins over a dotted path, so metadata keys containing dots
+ * still filter as before
+ */
+function resolvePath(metadata: Record<string, unknown>, path: string): unknown {
+  if (Object.prototype.hasOwnProperty.call(metadata, path)) {
+    return metadata[path]
+  }
+  return path
+    .split('.')
+    .reduce<unknown>(
+      (value, key) => (isObject(value) ? (value as Record<string, unknown>)[key] : undefined),
+      metadata,
+    )
+}
+
+// Numbers compare with numbers and strings with strings; anything else is NaN
+function compare(actual: unknown, operand: unknown): number {
+  if (typeof actual !== typeof operand || !isComparable(actual)) {
+    return NaN
+  }
+  if (actual === operand) {
+    return 0
+  }
+  if (actual < (operand as number | string)) {
+    return -1
+  }
+  return actual > (operand as number | string) ? 1 : NaN
+}
+
+// ============= Validation =============
+
+/**
+ * Why a filter cannot be evaluated, or null if it is well-formed
+ */
+export function validateFilters(filters: unknown, path: string = 'filters'): string | null {
+  if (!isObject(filters) || Array.isArray(filters)) {
+    return `${path} must be an object`
+  }
+
+  for (const [key, value] of Object.entries(filters)) {
+    const invalid = validateClause(key, value, `${path}.${key}`)
+    if (invalid) {
+      return invalid
+    }
+  }
+  return null
+}
+
+function validateClause(key: string, value: unknown, path: string): string | null {
+  if (key === '$and' || key === '$or') {
+    return validateCombination(value, path)
+  }
+  if (key.startsWith('$')) {
+    return `Unsupported filter operator: ${key} (only $and and $or combine filters)`
+  }
+  if (isObject(value) && Object.keys(value).some((name) => name.startsWith('$'))) {
+    return validateCondition(value as Record<string, unknown>, path)
+  }
+  return null
+}
+
+function validateCombination(value: unknown, path: string): string | null {
+  if (!Array.isArray(value) || value.length === 0) {
+    return `${path} must be a non-empty array of filters`
+  }
+  return value.map((filter, i) => validateFilters(filter, `${path}[${i}]`)).find(Boolean) || null
+}
+
+function validateCondition(condition: Record<string, unknown>, path: string): string | null {
+  for (const [operator, operand] of Object.entries(condition)) {
+    if (!Object.prototype.hasOwnProperty.call(OPERANDS, operator)) {
+      return `Unsupported filter operator: ${operator} at ${path} (expected one of ${FILTER_OPERATORS.join(', ')})`
+    }
+    const rule = OPERANDS[operator as FilterOperator]
+    if (!rule.accepts(operand)) {
+      return `${path}.${operator} must be ${rule.expected}`
+    }
+  }
+  return null
+}
+
+// ============= Helpers =============
+
+// An object whose keys are all operators; any other object is matched by equality
+function isCondition(value: unknown): value is Record<string, unknown> {
+  if (!isObject(value) || Array.isArray(value)) {
+    return false
+  }
+  const keys = Object.keys(value)
+  return keys.length > 0 && keys.every((key) => key.startsWith('$'))
+}
+
+function isObject(value: unknown): value is object {
+  return typeof value === 'object' && value !== null
+}
+
+function isComparable(value: unknown): value is number | string {
+  return typeof value === 'number' || typeof value === 'string'
+}
@@ -0,0 +1,84 @@
+/**
+ * PromptDial 3.0 - Document Formats
+ *
+ * Types and helpers shared by the format-aware parsers
+ */
+
+export const DOCUMENT_FORMATS = [
+  'text',
+  'markdown',
+  'html',
+  'json',
+  'jsonl',
+  'csv',
+  'code',
+] as const
+
+export type DocumentFormat = (typeof DOCUMENT_FORMATS)[number]
+
+export interface ParseOptions {
+  chunkSize: number // Sections that fit are kept whole rather than split further
+  language?: string // Source language or file extension, for code
+  delimiter?: string // CSV field separator; detected from the header when omitted
+}
+
+export interface DocumentSection {
+  title: string // Heading path, record label or declaration name
+  content: string
+  start: number // Character span of the section in the parsed text
+  end: number
+  context?: string // Repeated at the top of every chunk cut from the section
+}
+
+export interface ParsedDocument {
+  text: string // What section offsets refer to: the source, or the text extracted from it
+  sections: DocumentSection[]
+}
+
+export interface Line {
+  text: string
+  start: number
+  end: number // Exclusive, before the line break
+}
+
+export function isDocumentFormat(value: unknown): value is DocumentFormat {
+  return DOCUMENT_FORMATS.includes(value as DocumentFormat)
+}
+
+/**
+ * Lines with their offsets; a CRLF ending leaves its \r on the line text
+ */
+export function splitLines(text: string): Line[] {
+  const lines: Line[] = []
+  let start = 0
+
+  for (const line of text.split('\n')) {
+    lines.push({ text: line, start, end: start + line.length })
+    start += line.length + 1
+  }
+
+  return lines
+}
+
+/**
+ * The trimmed text between two offsets, with the offsets moved to match, or
+ * null if there is only whitespace
+ */
+export function trimSpan(
+  text: string,
+  start: number,
+  end: number,
+): { content: string; start: number; end: number } | null {
+  const raw = text.slice(start, end)
+  const content = raw.trim()
+  if (!content) {
+    return null
+  }
+
+  const leading = raw.length - raw.trimStart().length
+  return { content, start: start + leading, end: start + leading + content.length }
+}
+
+export function leadingWhitespace(line: string): string {
+  return line.match(/^\s*/)?.[0] || ''
+}
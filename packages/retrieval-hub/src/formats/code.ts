@@ -0,0 +1,227 @@
+/**
+ * PromptDial 3.0 - Source Code Parser
+ *
+ * Splits source files at top-level declarations, so each function or class
+ * is a section with its doc comment attached. A class too large for one
+ * chunk is split again at its members, which keep the class line as context.
+ */
+
+import {
+  DocumentSection,
+  Line,
+  ParseOptions,
+  leadingWhitespace,
+  splitLines,
+  trimSpan,
+} from './base'
+
+type LanguageFamily = 'javascript' | 'python' | 'go' | 'rust' | 'ruby' | 'c'
+
+interface CodeUnit {
+  name: string
+  first: number // First line, including attached comments and decorators
+  declaration: number // The line that declares it
+  last: number // Exclusive
+}
+
+const LANGUAGE_FAMILIES: Record<string, LanguageFamily> = {
+  ts: 'javascript',
+  tsx: 'javascript',
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  typescript: 'javascript',
+  javascript: 'javascript',
+  py: 'python',
+  python: 'python',
+  go: 'go',
+  rs: 'rust',
+  rust: 'rust',
+  rb: 'ruby',
+  ruby: 'ruby',
+  java: 'c',
+  kt: 'c',
+  kotlin: 'c',
+  cs: 'c',
+  csharp: 'c',
+  c: 'c',
+  h: 'c',
+  cpp: 'c',
+  cc: 'c',
+  hpp: 'c',
+  swift: 'c',
+  scala: 'c',
+  php: 'c',
+}
+
+// File extensions detected as code; LANGUAGE_FAMILIES also accepts language names
+export const CODE_EXTENSIONS = [
+  'ts',
+  'tsx',
+  'js',
+  'jsx',
+  'mjs',
+  'cjs',
+  'py',
+  'go',
+  'rs',
+  'rb',
+  'java',
+  'kt',
+  'cs',
+  'c',
+  'h',
+  'cpp',
+  'cc',
+  'hpp',
+  'swift',
+  'scala',
+  'php',
+]
+
+const JS_METHOD =
+  /^(?:(?:public|private|protected|static|readonly|async|abstract|override|get|set)\s+)*\*?(?<name>#?[\w$]+)\s*(?:<[^>]*>)?\s*\(/
+const C_DECLARATION =
+  /^(?:[\w<>[\],*&:]+\s+)*?(?:class|interface|struct|enum|record|object|trait|fun|func|function)\s+(?<name>\w+)/
+const C_FUNCTION = /^(?:[\w<>[\],*&:]+\s+)+\**(?<name>\w+)\s*\([^;]*$/
+
+const DECLARATIONS: Record<LanguageFamily, RegExp[]> = {
+  javascript: [
+    /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|interface|type|enum|namespace)\s+(?<name>[\w$]+)/,
+    /^(?:export\s+)?(?:const|let|var)\s+(?<name>[\w$]+)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|\(|[\w$]+\s*=>)/,
+  ],
+  python: [/^(?:async\s+)?(?:def|class)\s+(?<name>\w+)/],
+  go: [/^func\s+(?:\([^)]*\)\s*)?(?<name>\w+)/, /^type\s+(?<name>\w+)/],
+  rust: [
+    /^(?:pub(?:\([\w\s]+\))?\s+)?(?:async\s+)?(?:unsafe\s+)?(?:fn|struct|enum|trait|mod|type)\s+(?<name>\w+)/,
+    /^impl(?:<[^>]*>)?\s+(?<name>[\w:<>]+(?:\s+for\s+[\w:<>]+)?)/,
+  ],
+  ruby: [/^(?:def|class|module)\s+(?<name>[\w:.?!]+)/],
+  c: [C_DECLARATION, C_FUNCTION],
+}
+
+const MEMBERS: Record<LanguageFamily, RegExp[]> = {
+  ...DECLARATIONS,
+  javascript: [JS_METHOD],
+  c: [C_DECLARATION, C_FUNCTION, JS_METHOD],
+}
+
+const NOT_MEMBERS = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'function'])
+const ATTACHED_LINE = /^(?:\/\/|\/\*|\*|#|@|--)/
+
+export function languageFamily(language?: string): LanguageFamily {
+  return LANGUAGE_FAMILIES[(language || '').toLowerCase()] || 'c'
+}
+
+export function parseCode(text: string, options: ParseOptions): DocumentSection[] {
+  const family = languageFamily(options.language)
+  const lines = splitLines(text)
+  const units = findUnits(lines, 0, lines.length, '', DECLARATIONS[family])
+
+  return units.flatMap((unit) => {
+    const section = toSection(text, lines, unit)
+    if (!section || section.content.length <= options.chunkSize) {
+      return section ? [section] : []
+    }
+    return splitMembers(text, lines, unit, MEMBERS[family]) || [section]
+  })
+}
+
+/**
+ * Units starting at each declaration at exactly `indent`; lines before the
+ * first declaration form a preamble unit
+ */
+function findUnits(
+  lines: Line[],
+  from: number,
+  to: number,
+  indent: string,
+  patterns: RegExp[],
+): CodeUnit[] {
+  const units: CodeUnit[] = [{ name: 'preamble', first: from, declaration: from, last: to }]
+
+  for (let i = from; i < to; i++) {
+    const name = declarationName(lines[i].text, indent, patterns)
+    if (!name) continue
+
+    const first = attachedStart(lines, i, from, indent)
+    units[units.length - 1].last = first
+    units.push({ name, first, declaration: i, last: to })
+  }
+
+  return units.filter((unit) => unit.last > unit.first)
+}
+
+function declarationName(line: string, indent: string, patterns: RegExp[]): string | null {
+  if (leadingWhitespace(line) !== indent) {
+    return null
+  }
+
+  const code = line.slice(indent.length)
+  for (const pattern of patterns) {
+    const name = code.match(pattern)?.groups?.name
+    if (name && !NOT_MEMBERS.has(name)) {
+      return name
+    }
+  }
+  return null
+}
+
+// Comments and decorators directly above a declaration belong to it
+function attachedStart(lines: Line[], declaration: number, from: number, indent: string): number {
+  let first = declaration
+  while (first > from && isAttached(lines[first - 1].text, indent)) {
+    first--
+  }
+  return first
+}
+
+function isAttached(line: string, indent: string): boolean {
+  return leadingWhitespace(line).length >= indent.length && ATTACHED_LINE.test(line.trim())
+}
+
+function toSection(
+  text: string,
+  lines: Line[],
+  unit: CodeUnit,
+  owner?: CodeUnit,
+): DocumentSection | null {
+  const span = trimSpan(text, lines[unit.first].start, lines[unit.last - 1].end)
+  if (!span) return null
+
+  return {
+    ...span,
+    title: owner ? `${owner.name}.${unit.name}` : unit.name,
+    context: owner ? lines[owner.declaration].text.trim() : undefined,
+  }
+}
+
+/**
+ * Sections for each member of a class-like unit, or null if it has fewer than two
+ */
+function splitMembers(
+  text: string,
+  lines: Line[],
+  unit: CodeUnit,
+  patterns: RegExp[],
+): DocumentSection[] | null {
+  const body = lines.slice(unit.declaration + 1, unit.last).find((line) => line.text.trim())
+  const indent = body ? leadingWhitespace(body.text) : ''
+  if (!indent) {
+    return null
+  }
+
+  const members = findUnits(lines, unit.declaration + 1, unit.last, indent, patterns).filter(
+    (member) => member.name !== 'preamble',
+  )
+  if (members.length < 2) {
+    return null
+  }
+
+  // The class line, and any fields declared before the first member
+  const header = { ...unit, last: members[0].first }
+  return [header, ...members]
+    .map((member) => toSection(text, lines, member, member === header ? undefined : unit))
+    .filter((section): section is DocumentSection => section !== null)
+}
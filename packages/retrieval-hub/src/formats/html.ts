@@ -0,0 +1,92 @@
+/**
+ * PromptDial 3.0 - HTML Parser
+ *
+ * Strips tags but keeps the structure that matters for retrieval: headings,
+ * paragraphs, list items, table rows and preformatted blocks become their
+ * Markdown equivalents, which are then split along the heading tree
+ */
+
+import { ParseOptions, ParsedDocument } from './base'
+import { parseMarkdown } from './markdown'
+
+const DROPPED_ELEMENTS = /<(script|style|noscript|template|head|svg)\b[^>]*>[\s\S]*?<\/\1\s*>/gi
+const COMMENT = /<!--[\s\S]*?-->/g
+const PRE_BLOCK = /<pre\b[^>]*>([\s\S]*?)<\/pre\s*>/gi
+const HEADING_ELEMENT = /<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>/gi
+const BLOCK_TAG =
+  /<\/?(p|div|section|article|header|footer|main|nav|aside|ul|ol|table|thead|tbody|tr|blockquote|dl|dt|dd|figure|figcaption|form|br|hr)\b[^>]*>/gi
+const LIST_ITEM = /<li\b[^>]*>/gi
+const TABLE_CELL = /<\/t[dh]\s*>\s*<t[dh]\b[^>]*>/gi
+const TAG = /<[^>]+>/g
+// Private-use characters mark where preformatted blocks go back in
+const PLACEHOLDER = /\ue000(\d+)\ue001/g
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  mdash: '—',
+  ndash: '–',
+  hellip: '…',
+  copy: '©',
+}
+
+export function parseHtml(html: string, options: ParseOptions): ParsedDocument {
+  const text = htmlToMarkdown(html)
+  return { text, sections: parseMarkdown(text, options) }
+}
+
+/**
+ * Markdown-flavoured text of an HTML document; section offsets refer to this text
+ */
+export function htmlToMarkdown(html: string): string {
+  const preformatted: string[] = []
+
+  const text = html
+    .replace(COMMENT, '')
+    .replace(DROPPED_ELEMENTS, '')
+    .replace(PRE_BLOCK, (_, inner: string) => {
+      preformatted.push(decodeEntities(inner.replace(TAG, '')).replace(/^\n|\n$/g, ''))
+      return `\n\ue000${preformatted.length - 1}\ue001\n`
+    })
+    .replace(HEADING_ELEMENT, (_, level: string, inner: string) => {
+      return `\n\n${'#'.repeat(Number(level))} ${collapse(inner.replace(TAG, ''))}\n\n`
+    })
+    .replace(LIST_ITEM, '\n- ')
+    .replace(TABLE_CELL, ' | ')
+    .replace(BLOCK_TAG, '\n')
+    .replace(TAG, '')
+
+  return normalizeLines(decodeEntities(text)).replace(
+    PLACEHOLDER,
+    (_, index: string) => `\`\`\`\n${preformatted[Number(index)]}\n\`\`\``,
+  )
+}
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] !== '#') {
+      return NAMED_ENTITIES[code.toLowerCase()] ?? entity
+    }
+    const value =
+      code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : Number(code.slice(1))
+    return value <= 0x10ffff ? String.fromCodePoint(value) : entity
+  })
+}
+
+// Collapse runs of spaces within lines and of blank lines between them
+function normalizeLines(text: string): string {
+  return text
+    .split('\n')
+    .map(collapse)
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+function collapse(text: string): string {
+  return text.replace(/[ \t\r\f\v\u00a0]+/g, ' ').trim()
+}
@@ -0,0 +1,141 @@
+/**
+ * PromptDial 3.0 - Document Formats
+ *
+ * Detects a document's format and splits it into structural sections
+ */
+
+import { createLogger } from '@promptdial/shared'
+
+import { DocumentFormat, ParseOptions, ParsedDocument, isDocumentFormat } from './base'
+import { CODE_EXTENSIONS, parseCode } from './code'
+import { parseHtml } from './html'
+import { parseMarkdown } from './markdown'
+import { parseCsv, parseJson, parseJsonl } from './records'
+
+export * from './base'
+export { CODE_EXTENSIONS, languageFamily, parseCode } from './code'
+export { decodeEntities, htmlToMarkdown, parseHtml } from './html'
+export { parseMarkdown } from './markdown'
+export {
+  detectDelimiter,
+  parseCsv,
+  parseCsvRows,
+  parseJson,
+  parseJsonl,
+  renderRecord,
+} from './records'
+
+const logger = createLogger('document-formats')
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  txt: 'text',
+  md: 'markdown',
+  markdown: 'markdown',
+  mdx: 'markdown',
+  html: 'html',
+  htm: 'html',
+  xhtml: 'html',
+  json: 'json',
+  jsonl: 'jsonl',
+  ndjson: 'jsonl',
+  csv: 'csv',
+  tsv: 'csv',
+  ...Object.fromEntries(CODE_EXTENSIONS.map((extension) => [extension, 'code' as const])),
+}
+
+// Metadata fields that may hold a file name
+const PATH_FIELDS = ['filename', 'path', 'source', 'url']
+
+const HTML_START = /^(?:<!doctype html|<html|<head|<body|<(?:div|p|h[1-6]|article|section)\b)/i
+const MARKDOWN_HEADING = /^ {0,3}#{1,6}[ \t]+\S/m
+
+type Parser = (text: string, options: ParseOptions) => ParsedDocument
+
+const PARSERS: Record<Exclude<DocumentFormat, 'text'>, Parser> = {
+  markdown: (text, options) => ({ text, sections: parseMarkdown(text, options) }),
+  html: parseHtml,
+  json: (text) => ({ text, sections: parseJson(text) }),
+  jsonl: (text) => ({ text, sections: parseJsonl(text) }),
+  csv: (text, options) => ({ text, sections: parseCsv(text, options) }),
+  code: (text, options) => ({ text, sections: parseCode(text, options) }),
+}
+
+/**
+ * The format named in metadata, else implied by a file extension in
+ * metadata, else sniffed from the content
+ */
+export function detectFormat(
+  content: string,
+  metadata: Record<string, unknown> = {},
+): DocumentFormat {
+  if (isDocumentFormat(metadata.format)) {
+    return metadata.format
+  }
+  return EXTENSION_FORMATS[fileExtension(metadata)] || sniffFormat(content)
+}
+
+/**
+ * Extension of the first metadata field that looks like a file name, lowercased
+ */
+export function fileExtension(metadata: Record<string, unknown>): string {
+  for (const field of PATH_FIELDS) {
+    const value = metadata[field]
+    const match = typeof value === 'string' ? value.match(/\.([a-z0-9]+)(?:[?#].*)?$/i) : null
+    if (match) {
+      return match[1].toLowerCase()
+    }
+  }
+  return ''
+}
+
+function sniffFormat(content: string): DocumentFormat {
+  const trimmed = content.trim()
+  if (HTML_START.test(trimmed)) return 'html'
+  if (/^[[{]/.test(trimmed)) return parsesAs(trimmed)
+  if (MARKDOWN_HEADING.test(content)) return 'markdown'
+  return 'text'
+}
+
+// JSON if the whole text parses, JSONL if every line does, text otherwise
+function parsesAs(text: string): DocumentFormat {
+  try {
+    JSON.parse(text)
+    return 'json'
+  } catch {
+    const lines = text.split('\n').filter((line) => line.trim())
+    return lines.length > 1 && lines.every(isJsonLine) ? 'jsonl' : 'text'
+  }
+}
+
+function isJsonLine(line: string): boolean {
+  try {
+    JSON.parse(line)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Sections of a structured document, or null for plain text and for content
+ * that does not parse as the format it claims
+ */
+export function parseDocument(
+  content: string,
+  format: DocumentFormat,
+  options: ParseOptions,
+): ParsedDocument | null {
+  if (format === 'text') {
+    return null
+  }
+
+  try {
+    const parsed = PARSERS[format](content, options)
+    return parsed.sections.length > 0 ? parsed : null
+  } catch (error) {
+    logger.warn(`Could not parse document as ${format}, indexing it as text`, {
+      error: (error as Error).message,
+    })
+    return null
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * PromptDial 3.0 - Markdown Parser
+ *
+ * Splits Markdown along its heading tree: a heading and everything under it
+ * stay together while they fit in a chunk, otherwise its subsections are
+ * split out, each carrying the path of headings above it
+ */
+
+import { DocumentSection, ParseOptions, splitLines, trimSpan } from './base'
+
+interface HeadingNode {
+  title: string
+  path: string[]
+  headings: string[] // The heading lines of the path, as written
+  level: number
+  start: number // Start of the heading line
+  body_start: number // After the heading line
+  end: number // End of the subtree
+  children: HeadingNode[]
+}
+
+const ATX_HEADING = /^ {0,3}(#{1,6})[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*\r?$/
+const FENCE = /^ {0,3}(`{3,}|~{3,})/
+
+export function parseMarkdown(text: string, options: ParseOptions): DocumentSection[] {
+  const sections: DocumentSection[] = []
+  collectSections(buildHeadingTree(text), text, options.chunkSize, sections)
+  return sections
+}
+
+/**
+ * Headings nested by level, ignoring lines inside fenced code blocks
+ */
+function buildHeadingTree(text: string): HeadingNode {
+  const root: HeadingNode = {
+    title: '',
+    path: [],
+    headings: [],
+    level: 0,
+    start: 0,
+    body_start: 0,
+    end: text.length,
+    children: [],
+  }
+  const stack = [root]
+  let fence: string | null = null
+
+  for (const line of splitLines(text)) {
+    fence = updateFence(fence, line.text)
+    const match = fence ? null : line.text.match(ATX_HEADING)
+    if (!match) continue
+
+    const level = match[1].length
+    while (stack[stack.length - 1].level >= level) {
+      stack.pop()!.end = line.start
+    }
+
+    const parent = stack[stack.length - 1]
+    const title = match[2].trim()
+    const node: HeadingNode = {
+      title,
+      path: [...parent.path, title],
+      headings: [...parent.headings, `${match[1]} ${title}`],
+      level,
+      start: line.start,
+      body_start: Math.min(line.end + 1, text.length),
+      end: text.length,
+      children: [],
+    }
+    parent.children.push(node)
+    stack.push(node)
+  }
+
+  return root
+}
+
+// The open fence marker after this line, or null outside code blocks
+function updateFence(fence: string | null, line: string): string | null {
+  const marker = line.match(FENCE)?.[1]
+  if (!marker) {
+    return fence
+  }
+  if (!fence) {
+    return marker
+  }
+  return marker[0] === fence[0] && marker.length >= fence.length ? null : fence
+}
+
+function collectSections(
+  node: HeadingNode,
+  text: string,
+  chunkSize: number,
+  sections: DocumentSection[],
+): void {
+  // The root always splits, so every section is labelled with its headings
+  const context = node.path.join(' > ')
+  const fits = node.level > 0 && context.length + node.end - node.body_start <= chunkSize
+
+  if (fits || node.children.length === 0) {
+    pushSection(sections, node, text, node.end)
+    return
+  }
+
+  pushSection(sections, node, text, node.children[0].start)
+  node.children.forEach((child) => collectSections(child, text, chunkSize, sections))
+}
+
+function pushSection(
+  sections: DocumentSection[],
+  node: HeadingNode,
+  text: string,
+  end: number,
+): void {
+  const span = trimSpan(text, node.body_start, end)
+  if (!span) return
+
+  sections.push({
+    ...span,
+    title: node.path.length > 0 ? node.path.join(' > ') : 'Document',
+    context: node.headings.length > 0 ? node.headings.join('\n') : undefined,
+  })
+}
@@ -0,0 +1,238 @@
+/**
+ * PromptDial 3.0 - Record Parsers
+ *
+ * JSON arrays, JSONL and CSV become one section per record, rendered as
+ * "field: value" lines so every chunk keeps the field names it answers with
+ */
+
+import { DocumentSection, ParseOptions, splitLines, trimSpan } from './base'
+
+type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue }
+
+const CSV_DELIMITERS = [',', ';', '\t', '|']
+
+// ============= JSON =============
+
+/**
+ * One section per element of a top-level array, or one for any other value.
+ * Throws if the text is not valid JSON.
+ */
+export function parseJson(text: string): DocumentSection[] {
+  const value = JSON.parse(text) as JsonValue
+  if (!Array.isArray(value)) {
+    const span = trimSpan(text, 0, text.length)
+    return span ? [{ ...span, title: '$', content: renderRecord(value) }] : []
+  }
+
+  return arrayElementSpans(text).map(([start, end], i) => ({
+    title: `$[${i}]`,
+    content: renderRecord(value[i]),
+    start,
+    end,
+  }))
+}
+
+/**
+ * One section per line; lines that are not valid JSON are kept as they are
+ */
+export function parseJsonl(text: string): DocumentSection[] {
+  return splitLines(text).flatMap((line, i) => {
+    const span = trimSpan(text, line.start, line.end)
+    return span ? [{ ...span, title: `line ${i + 1}`, content: renderJsonLine(span.content) }] : []
+  })
+}
+
+function renderJsonLine(line: string): string {
+  try {
+    return renderRecord(JSON.parse(line) as JsonValue)
+  } catch {
+    return line
+  }
+}
+
+/**
+ * Flattened "path: value" lines; arrays of scalars are joined on one line
+ */
+export function renderRecord(value: JsonValue): string {
+  const lines: string[] = []
+  flatten(value, '', lines)
+  return lines.join('\n')
+}
+
+function flatten(value: JsonValue, path: string, lines: string[]): void {
+  if (isNested(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      flatten(child, childPath(value, path, key), lines)
+    }
+    return
+  }
+
+  const text = Array.isArray(value) ? value.join(', ') : String(value)
+  lines.push(path ? `${path}: ${text}` : text)
+}
+
+// Objects, and arrays holding objects or arrays
+function isNested(value: JsonValue): value is JsonValue[] | { [key: string]: JsonValue } {
+  if (value === null || typeof value !== 'object') {
+    return false
+  }
+  return !Array.isArray(value) || value.some((item) => item !== null && typeof item === 'object')
+}
+
+function childPath(parent: JsonValue, path: string, key: string): string {
+  if (Array.isArray(parent)) {
+    return `${path}[${key}]`
+  }
+  return path ? `${path}.${key}` : key
+}
+
+/**
+ * Offsets of each element of the top-level array in the JSON text
+ */
+function arrayElementSpans(text: string): Array<[number, number]> {
+  const separators = [text.indexOf('[')]
+  let depth = 0
+
+  for (let i = separators[0] + 1; i < text.length && depth >= 0; i++) {
+    depth += nesting(text[i])
+    if (endsElement(text[i], depth)) {
+      separators.push(i)
+    }
+    i = text[i] === '"' ? skipString(text, i) : i
+  }
+
+  return separators
+    .slice(1)
+    .map((end, k) => trimSpan(text, separators[k] + 1, end))
+    .filter((span): span is NonNullable<typeof span> => span !== null)
+    .map(({ start, end }) => [start, end])
+}
+
+function endsElement(char: string, depth: number): boolean {
+  return depth < 0 || (depth === 0 && char === ',')
+}
+
+function nesting(char: string): number {
+  if (char === '{' || char === '[') return 1
+  if (char === '}' || char === ']') return -1
+  return 0
+}
+
+// Index of the closing quote of the string opening at `start`
+function skipString(text: string, start: number): number {
+  for (let i = start + 1; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++
+    } else if (text[i] === '"') {
+      return i
+    }
+  }
+  return text.length
+}
+
+// ============= CSV =============
+
+interface CsvRow {
+  cells: string[]
+  start: number
+  end: number
+}
+
+/**
+ * One section per data row, with the header row naming each value
+ */
+export function parseCsv(
+  text: string,
+  options: Pick<ParseOptions, 'delimiter'> = {},
+): DocumentSection[] {
+  const delimiter = options.delimiter || detectDelimiter(text)
+  const [header, ...rows] = parseCsvRows(text, delimiter)
+  if (!header) {
+    return []
+  }
+
+  return rows
+    .filter((row) => row.cells.some((cell) => cell.trim()))
+    .map((row, i) => ({
+      title: `row ${i + 1}`,
+      content: row.cells
+        .map((cell, j) => [header.cells[j]?.trim() || `column ${j + 1}`, cell.trim()])
+        .filter(([, cell]) => cell)
+        .map(([name, cell]) => `${name}: ${cell}`)
+        .join('\n'),
+      start: row.start,
+      end: row.end,
+    }))
+}
+
+/**
+ * The candidate delimiter that occurs most often in the header line
+ */
+export function detectDelimiter(text: string): string {
+  const lineEnd = text.indexOf('\n')
+  const header = lineEnd < 0 ? text : text.slice(0, lineEnd)
+  const counts = CSV_DELIMITERS.map((delimiter) => header.split(delimiter).length)
+  return CSV_DELIMITERS[counts.indexOf(Math.max(...counts))]
+}
+
+/**
+ * RFC 4180 rows: quoted fields may contain delimiters, line breaks and "" escapes
+ */
+export function parseCsvRows(text: string, delimiter: string = ','): CsvRow[] {
+  const rows: CsvRow[] = []
+  let start = 0
+
+  while (start < text.length) {
+    const [row, next] = readCsvRow(text, start, delimiter)
+    rows.push(row)
+    start = next + 1
+  }
+
+  return rows.filter((row) => row.cells.length > 1 || row.cells[0] !== '')
+}
+
+// The row starting at `start`, and the offset of the line break that ends it
+function readCsvRow(text: string, start: number, delimiter: string): [CsvRow, number] {
+  const cells: string[] = []
+  let i = start
+
+  for (;;) {
+    const [cell, next] =
+      text[i] === '"' ? readQuoted(text, i, delimiter) : readPlain(text, i, delimiter)
+    cells.push(cell)
+    if (text[next] !== delimiter) {
+      const end = text[next - 1] === '\r' ? next - 1 : next
+      return [{ cells, start, end }, next]
+    }
+    i = next + 1
+  }
+}
+
+function readPlain(text: string, start: number, delimiter: string): [string, number] {
+  let end = start
+  while (end < text.length && text[end] !== delimiter && text[end] !== '\n') {
+    end++
+  }
+  return [text.slice(start, end).replace(/\r$/, ''), end]
+}
+
+function readQuoted(text: string, start: number, delimiter: string): [string, number] {
+  let value = ''
+  let i = start + 1
+
+  while (i < text.length) {
+    const quote = text.indexOf('"', i)
+    if (quote < 0) {
+      return [value + text.slice(i), text.length]
+    }
+    value += text.slice(i, quote)
+    if (text[quote + 1] !== '"') {
+      // Anything between the closing quote and the next delimiter is dropped
+      return [value, readPlain(text, quote + 1, delimiter)[1]]
+    }
+    value += '"'
+    i = quote + 2
+  }
+
+  return [value, text.length]
+}
@@ -0,0 +1,69 @@
+/**
+ * PromptDial 3.0 - Result Fusion
+ *
+ * Merges ranked lists from different retrievers into one ranking
+ */
+
+import { RetrievalFusion } from '@promptdial/shared'
+
+export interface RankedId {
+  id: string
+  score: number
+}
+
+export const DEFAULT_RRF_K = 60
+export const DEFAULT_VECTOR_WEIGHT = 0.5
+
+/**
+ * Reciprocal-rank fusion: each list contributes 1 / (k + rank). Only ranks
+ * matter, so scores on different scales need no calibration.
+ */
+export function reciprocalRankFusion(lists: RankedId[][], k: number = DEFAULT_RRF_K): RankedId[] {
+  const fused = new Map<string, number>()
+
+  for (const list of lists) {
+    list.forEach(({ id }, rank) => fused.set(id, (fused.get(id) || 0) + 1 / (k + rank + 1)))
+  }
+
+  return sortByScore(fused)
+}
+
+/**
+ * Weighted sum of min-max normalized scores; ids missing from a list score 0 there
+ */
+export function weightedFusion(lists: RankedId[][], weights: number[]): RankedId[] {
+  const fused = new Map<string, number>()
+
+  lists.forEach((list, i) => {
+    const scores = list.map(({ score }) => score)
+    const min = Math.min(...scores)
+    const range = Math.max(...scores) - min
+
+    for (const { id, score } of list) {
+      const normalized = range === 0 ? 1 : (score - min) / range
+      fused.set(id, (fused.get(id) || 0) + weights[i] * normalized)
+    }
+  })
+
+  return sortByScore(fused)
+}
+
+/**
+ * Fuse vector and keyword rankings as a hybrid query asks
+ */
+export function fuseRankings(
+  vector: RankedId[],
+  keyword: RankedId[],
+  fusion: RetrievalFusion = { method: 'rrf' },
+): RankedId[] {
+  if (fusion.method === 'weighted') {
+    const vectorWeight = Math.min(Math.max(fusion.vector_weight ?? DEFAULT_VECTOR_WEIGHT, 0), 1)
+    return weightedFusion([vector, keyword], [vectorWeight, 1 - vectorWeight])
+  }
+
+  return reciprocalRankFusion([vector, keyword], fusion.rrf_k ?? DEFAULT_RRF_K)
+}
+
+function sortByScore(scores: Map<string, number>): RankedId[] {
+  return Array.from(scores, ([id, score]) => ({ id, score })).sort((a, b) => b.score - a.score)
+}
@@ -4,10 +4,14 @@
  * Manages document storage, retrieval, and RAG operations
  */
 
+import { isDeepStrictEqual } from 'util'
+
 import {
   Document,
   RetrievalQuery,
+  RetrievalRerank,
   RetrievalResult,
+  RetrievalTechnique,
   ServiceRequest,
   ServiceResponse,
   createLogger,
@@ -29,8 +33,33 @@ The model will use your retrieved information to continue its reasoning process.
 `
 
 import { VectorStore, VectorStoreType, createVectorStore } from './vector-store'
+import { matchesFilters, validateFilters } from './filters'
+import { EmbeddingProviderType, createEmbeddingProvider } from './embeddings'
+import { BM25Index } from './bm25'
+import { fuseRankings } from './fusion'
+import { RERANKERS, Reranker, RerankerRegistry, createDefaultRerankerRegistry } from './rerankers'
 
-import { DocumentProcessor, ProcessingOptions } from './document-processor'
+import {
+  ChunkMetadata,
+  DocumentProcessor,
+  ProcessingOptions,
+  SourceDocument,
+} from './document-processor'
+import {
+  CollectionRecord,
+  CollectionSummary,
+  DEFAULT_COLLECTION,
+  DocumentRecord,
+  DocumentRegistry,
+  hashContent,
+} from './document-registry'
+import { DOCUMENT_FORMATS, isDocumentFormat } from './formats'
+import {
+  ExampleBank,
+  ExampleInput,
+  ExampleSelection,
+  ExampleSelectionOptions,
+} from './example-bank'
 
 const logger = createLogger('retrieval-hub')
 
@@ -38,14 +67,55 @@ const logger = createLogger('retrieval-hub')
 
 export interface RetrievalHubConfig {
   vectorStoreType: VectorStoreType
+  embeddingProvider?: EmbeddingProviderType // Defaults to PROMPTDIAL_EMBEDDING_PROVIDER, then local
   defaultTopK: number
   defaultChunkSize: number
   defaultChunkOverlap: number
   enableCache: boolean
   cacheSize: number
   cacheTTL: number
+  registryPath?: string // JSON file the document registry persists to; kept in memory when unset
+}
+
+export interface IndexOptions extends ProcessingOptions {
+  collection?: string // Collection for documents that do not name one; defaults to 'default'
 }
 
+export interface IndexSummary {
+  indexed: number // Documents that were new or changed
+  unchanged: number // Documents skipped because content, metadata and collection are as indexed
+  chunks: number // Chunks of the indexed documents
+  added_chunks: number // Chunks embedded for the first time
+  removed_chunks: number // Chunks of earlier versions that no longer exist
+  documents: Array<Pick<DocumentRecord, 'id' | 'collection' | 'version'>>
+}
+
+// A source document with its identity resolved, ready to compare with the registry
+interface ResolvedDocument {
+  id: string
+  collection: string
+  content_hash: string
+  source: SourceDocument // Its metadata carries the id and collection, which every chunk inherits
+  previous?: DocumentRecord
+}
+
+const SEARCH_TECHNIQUES: string[] = [
+  RetrievalTechnique.SEMANTIC,
+  RetrievalTechnique.KEYWORD,
+  RetrievalTechnique.HYBRID,
+]
+
+// Hybrid search fuses this many candidates per retriever for every result returned
+const HYBRID_CANDIDATES_PER_RESULT = 4
+
+// Reranking reorders this many first-stage candidates per result returned, unless top_n is set
+const RERANK_CANDIDATES_PER_RESULT = 3
+
+// Hex digits of the content hash in chunk IDs
+const CHUNK_HASH_LENGTH = 12
+
+const COLLECTION_NAME = /^[A-Za-z0-9][A-Za-z0-9_.-]{0,63}$/
+
 const DEFAULT_CONFIG: RetrievalHubConfig = {
   vectorStoreType: 'memory',
   defaultTopK: 5,
@@ -110,53 +180,87 @@ class QueryCache {
 
 export class RetrievalHub {
   private vectorStore: VectorStore
+  private keywordIndex: Promise<BM25Index> | null = null
   private documentProcessor: DocumentProcessor
+  private registry: DocumentRegistry
+  private rerankers: RerankerRegistry
   private queryCache: QueryCache | null
   private config: RetrievalHubConfig
 
   constructor(config: Partial<RetrievalHubConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config }
-    this.vectorStore = createVectorStore(this.config.vectorStoreType)
+    this.vectorStore = createVectorStore(
+      this.config.vectorStoreType,
+      createEmbeddingProvider(this.config.embeddingProvider),
+    )
     this.documentProcessor = new DocumentProcessor()
+    this.registry = new DocumentRegistry(this.config.registryPath)
+    this.rerankers = createDefaultRerankerRegistry()
     this.queryCache = this.config.enableCache
       ? new QueryCache(this.config.cacheSize, this.config.cacheTTL)
       : null
   }
 
   /**
-   * Index a document or set of documents
+   * Index a document or set of documents; each is split along the structure
+   * of its format (Markdown, HTML, JSON, JSONL, CSV or code), detected from
+   * its metadata and content unless given.
+   *
+   * A document is identified by its metadata id, or else by its collection
+   * and content. Documents indexed before with the same content, metadata and
+   * collection are skipped; a changed document becomes a new version, and
+   * only chunks whose text changed are embedded again.
    */
-  async indexDocuments(
-    documents: Array<{ content: string; metadata?: Record<string, any> }>,
-    options?: ProcessingOptions,
-  ): Promise<{ indexed: number; chunks: number }> {
+  async indexDocuments(documents: SourceDocument[], options?: IndexOptions): Promise<IndexSummary> {
     const startTime = Date.now()
 
     try {
-      // Process documents into chunks
-      const chunks = await this.documentProcessor.processBatch(documents, {
-        chunkSize: options?.chunkSize || this.config.defaultChunkSize,
-        chunkOverlap: options?.chunkOverlap || this.config.defaultChunkOverlap,
-        ...options,
-      })
+      const resolved = documents.map((doc) => resolveDocument(doc, options?.collection))
+      const changed = await this.findChanged(resolved)
 
-      // Index chunks in vector store
-      await this.vectorStore.indexBatch(chunks)
+      // Process documents into chunks
+      const chunks = await this.documentProcessor.processBatch(
+        changed.map(({ source }) => source),
+        {
+          chunkSize: options?.chunkSize || this.config.defaultChunkSize,
+          chunkOverlap: options?.chunkOverlap || this.config.defaultChunkOverlap,
+          ...options,
+        },
+      )
+      const update = await this.replaceChunks(changed, withContentIds(chunks))
+      const records = await this.registry.record(
+        changed.map((doc) => ({
+          id: doc.id,
+          collection: doc.collection,
+          content_hash: doc.content_hash,
+          format: doc.source.format,
+          metadata: doc.source.metadata || {},
+          chunk_ids: update.chunkIds.get(doc.id) || [],
+        })),
+      )
 
       const duration = Date.now() - startTime
       logger.info(
-        `Indexed ${documents.length} documents as ${chunks.length} chunks in ${duration}ms`,
+        `Indexed ${changed.length} of ${documents.length} documents as ${chunks.length} chunks in ${duration}ms`,
       )
 
       // Clear cache as index has changed
-      this.queryCache?.clear()
+      if (changed.length > 0) {
+        this.queryCache?.clear()
+      }
 
       // Log telemetry
-      getTelemetryService().recordMetric('retrieval_documents_indexed', chunks.length)
+      getTelemetryService().recordMetric('retrieval_documents_indexed', update.added)
 
       return {
-        indexed: documents.length,
+        indexed: changed.length,
+        unchanged: documents.length - changed.length,
         chunks: chunks.length,
+        added_chunks: update.added,
+        removed_chunks: update.removed,
+        documents: resolved
+          .map((doc) => records.find(({ id }) => id === doc.id) || (doc.previous as DocumentRecord))
+          .map(({ id, collection, version }) => ({ id, collection, version })),
       }
     } catch (error) {
       logger.error('Failed to index documents', error as Error)
@@ -164,6 +268,68 @@ export class RetrievalHub {
     }
   }
 
+  /**
+   * The documents that differ from the version last indexed, each with that
+   * version attached; a later duplicate of an id in the batch wins
+   */
+  private async findChanged(documents: ResolvedDocument[]): Promise<ResolvedDocument[]> {
+    for (const doc of documents) {
+      doc.previous = await this.registry.get(doc.id)
+    }
+    const latest = new Map(documents.map((doc) => [doc.id, doc]))
+    return Array.from(latest.values()).filter((doc) => !isUnchanged(doc))
+  }
+
+  /**
+   * Swap the chunks of earlier versions for the new ones. Chunks whose text is
+   * unchanged keep their ID and stored vector, and are rewritten only for
+   * their updated position metadata.
+   */
+  private async replaceChunks(
+    documents: ResolvedDocument[],
+    chunks: Document[],
+  ): Promise<{ chunkIds: Map<string, string[]>; added: number; removed: number }> {
+    const previousIds = new Set(documents.flatMap((doc) => doc.previous?.chunk_ids || []))
+    const kept = chunks.filter((chunk) => previousIds.has(chunk.id))
+    const stored = await Promise.all(kept.map((chunk) => this.vectorStore.get(chunk.id)))
+    kept.forEach((chunk, i) => (chunk.embedding = stored[i]?.embedding))
+
+    // Index chunks in vector store, and in the keyword index once it is built
+    await this.vectorStore.indexBatch(chunks)
+    const keywordIndex = await this.keywordIndex
+    keywordIndex?.addBatch(chunks)
+
+    const currentIds = new Set(chunks.map((chunk) => chunk.id))
+    const stale = Array.from(previousIds).filter((id) => !currentIds.has(id))
+    await this.removeChunks(stale)
+
+    const chunkIds = new Map<string, string[]>()
+    chunks.forEach((chunk) => {
+      const source = sourceOf(chunk)
+      chunkIds.set(source, [...(chunkIds.get(source) || []), chunk.id])
+    })
+    return { chunkIds, added: chunks.length - kept.length, removed: stale.length }
+  }
+
+  private async removeChunks(ids: string[]): Promise<void> {
+    const keywordIndex = await this.keywordIndex
+    for (const id of ids) {
+      await this.vectorStore.delete(id)
+      keywordIndex?.remove(id)
+    }
+  }
+
+  /**
+   * Make a reranker available to /search under its name
+   */
+  registerReranker(reranker: Reranker): void {
+    this.rerankers.register(reranker)
+  }
+
+  getRerankerNames(): string[] {
+    return this.rerankers.names()
+  }
+
   /**
    * Search for relevant documents
    */
@@ -171,8 +337,9 @@ export class RetrievalHub {
     const startTime = Date.now()
 
     // Check cache first
+    const cacheKey = this.getCacheKey(query)
     if (this.queryCache) {
-      const cached = this.queryCache.get(query.query)
+      const cached = this.queryCache.get(cacheKey)
       if (cached) {
         logger.debug('Cache hit for query', { query: query.query })
         getTelemetryService().incrementCounter('retrieval_cache_hits')
@@ -181,18 +348,18 @@ export class RetrievalHub {
     }
 
     try {
-      // Perform vector search
-      const result = await this.vectorStore.search({
+      const { query: resolved, rerank } = resolveRerank({
         ...query,
         top_k: query.top_k || this.config.defaultTopK,
       })
+      const result = await this.retrieve(withRerankDepth(scopeToCollection(resolved), rerank))
 
       // Post-process results
-      const processedResult = await this.postProcessResults(result, query)
+      const processedResult = await this.postProcessResults(result, resolved, rerank)
 
       // Cache result
       if (this.queryCache) {
-        this.queryCache.set(query.query, processedResult)
+        this.queryCache.set(cacheKey, processedResult)
       }
 
       // Log telemetry
@@ -208,6 +375,112 @@ export class RetrievalHub {
     }
   }
 
+  /**
+   * Run the query's retrieval technique; semantic unless asked otherwise
+   */
+  private retrieve(query: RetrievalQuery): Promise<RetrievalResult> {
+    switch (query.technique || RetrievalTechnique.SEMANTIC) {
+      case RetrievalTechnique.SEMANTIC:
+        return this.vectorStore.search(query)
+      case RetrievalTechnique.KEYWORD:
+        return this.keywordSearch(query)
+      case RetrievalTechnique.HYBRID:
+        return this.hybridSearch(query)
+      default:
+        throw new Error(`Unsupported retrieval technique: ${query.technique}`)
+    }
+  }
+
+  /**
+   * BM25 over the inverted index
+   */
+  private async keywordSearch(query: RetrievalQuery): Promise<RetrievalResult> {
+    const startTime = Date.now()
+    const index = await this.getKeywordIndex()
+    const matches = index.search(query.query, query.top_k, this.createFilter(query))
+
+    return {
+      documents: matches.map(({ id, score }) => ({
+        id,
+        content: (index.get(id) as Document).content,
+        score,
+        metadata: query.include_metadata ? index.get(id)?.metadata : undefined,
+      })),
+      total_results: matches.length,
+      query_time_ms: Date.now() - startTime,
+    }
+  }
+
+  /**
+   * Vector and BM25 candidates fused into one ranking, so exact identifiers
+   * the embeddings miss still surface
+   */
+  private async hybridSearch(query: RetrievalQuery): Promise<RetrievalResult> {
+    const startTime = Date.now()
+    const depth = query.top_k * HYBRID_CANDIDATES_PER_RESULT
+    const [vector, index] = await Promise.all([
+      this.vectorStore.search({ ...query, top_k: depth, include_metadata: true }),
+      this.getKeywordIndex(),
+    ])
+    const keyword = index.search(query.query, depth, this.createFilter(query))
+    const vectorDocuments = new Map(vector.documents.map((doc) => [doc.id, doc]))
+
+    const fused = fuseRankings(vector.documents, keyword, query.fusion).slice(0, query.top_k)
+    const documents = fused.map(({ id, score }) => {
+      const doc = index.get(id) || vectorDocuments.get(id)
+      return {
+        id,
+        content: doc?.content || '',
+        score,
+        metadata: query.include_metadata ? doc?.metadata : undefined,
+      }
+    })
+
+    return {
+      documents,
+      total_results: new Set([...vectorDocuments.keys(), ...keyword.map((m) => m.id)]).size,
+      query_time_ms: Date.now() - startTime,
+    }
+  }
+
+  /**
+   * Built from the vector store on first use, then kept in step with it
+   */
+  private getKeywordIndex(): Promise<BM25Index> {
+    if (!this.keywordIndex) {
+      this.keywordIndex = this.vectorStore.list().then(
+        (documents) => {
+          const index = new BM25Index()
+          index.addBatch(documents)
+          logger.info(`Built keyword index over ${index.size} chunks`)
+          return index
+        },
+        (error) => {
+          this.keywordIndex = null
+          throw error
+        },
+      )
+    }
+    return this.keywordIndex
+  }
+
+  private createFilter(query: RetrievalQuery): ((document: Document) => boolean) | undefined {
+    const filters = query.filters
+    return filters ? (document) => matchesFilters(document, filters) : undefined
+  }
+
+  private getCacheKey(query: RetrievalQuery): string {
+    return JSON.stringify([
+      query.query,
+      query.technique || RetrievalTechnique.SEMANTIC,
+      query.top_k,
+      query.filters,
+      query.fusion,
+      query.rerank,
+      query.collection,
+    ])
+  }
+
   /**
    * Handle IRCoT-specific retrieval
    */
@@ -235,28 +508,74 @@ export class RetrievalHub {
    */
   async deleteDocument(documentId: string): Promise<void> {
     try {
-      // Find all chunks for this document
-      const searchResult = await this.vectorStore.search({
-        query: '',
-        top_k: 1000,
-        filters: { source_doc_id: documentId },
-      })
-
-      // Delete each chunk
-      for (const doc of searchResult.documents) {
-        await this.vectorStore.delete(doc.id)
-      }
+      const [record] = await this.registry.remove([documentId])
+      const chunkIds = record ? record.chunk_ids : await this.findChunkIds(documentId)
+      await this.removeChunks(chunkIds)
 
       // Clear cache
       this.queryCache?.clear()
 
-      logger.info(`Deleted document ${documentId} and ${searchResult.documents.length} chunks`)
+      logger.info(`Deleted document ${documentId} and ${chunkIds.length} chunks`)
     } catch (error) {
       logger.error(`Failed to delete document ${documentId}`, error as Error)
       throw error
     }
   }
 
+  /**
+   * Chunks of a document the registry does not know, such as one indexed
+   * into a persistent store before documents were tracked
+   */
+  private async findChunkIds(documentId: string): Promise<string[]> {
+    const searchResult = await this.vectorStore.search({
+      query: '',
+      top_k: 1000,
+      filters: { 'chunk_metadata.source_doc_id': documentId },
+    })
+    return searchResult.documents.map((doc) => doc.id)
+  }
+
+  /**
+   * Indexed documents with their version history, optionally of one collection
+   */
+  listDocuments(collection?: string): Promise<DocumentRecord[]> {
+    return this.registry.list(collection)
+  }
+
+  getDocument(documentId: string): Promise<DocumentRecord | undefined> {
+    return this.registry.get(documentId)
+  }
+
+  listCollections(): Promise<CollectionSummary[]> {
+    return this.registry.listCollections()
+  }
+
+  /**
+   * Create a collection ahead of indexing into it, or describe an existing one;
+   * indexing into a collection that does not exist yet also creates it
+   */
+  createCollection(name: string, description?: string): Promise<CollectionRecord> {
+    return this.registry.createCollection(name, description)
+  }
+
+  /**
+   * Delete a collection with every document in it; false if there is no such collection
+   */
+  async deleteCollection(name: string): Promise<boolean> {
+    if (!(await this.registry.hasCollection(name))) {
+      return false
+    }
+
+    const documents = await this.registry.list(name)
+    await this.registry.remove(documents.map(({ id }) => id))
+    await this.removeChunks(documents.flatMap(({ chunk_ids }) => chunk_ids))
+    await this.registry.deleteCollection(name)
+    this.queryCache?.clear()
+
+    logger.info(`Deleted collection ${name} and its ${documents.length} documents`)
+    return true
+  }
+
   /**
    * Get retrieval hub statistics
    */
@@ -281,14 +600,18 @@ export class RetrievalHub {
   private async postProcessResults(
     result: RetrievalResult,
     query: RetrievalQuery,
+    rerank?: RetrievalRerank,
   ): Promise<RetrievalResult> {
     // Re-rank results if needed
-    if (query.filters?.rerank) {
-      result.documents = await this.rerankResults(result.documents, query.query)
+    if (rerank) {
+      result.documents = await this.rerankResults(result.documents, query.query, rerank)
     }
 
-    // Deduplicate overlapping chunks
-    result.documents = this.deduplicateChunks(result.documents)
+    // Deduplicate overlapping chunks, then trim reranked candidates to top_k
+    result.documents = this.deduplicateChunks(result.documents).slice(0, query.top_k)
+    if (rerank && !query.include_metadata) {
+      result.documents = result.documents.map((doc) => ({ ...doc, metadata: undefined }))
+    }
 
     // Add context snippets
     result.documents = result.documents.map((doc) => ({
@@ -300,24 +623,31 @@ export class RetrievalHub {
   }
 
   /**
-   * Re-rank results using cross-encoder or other methods
+   * Re-rank results with the requested reranker. A failing reranker (an
+   * unreachable LLM judge, say) leaves the first-stage order in place.
    */
   private async rerankResults(
     documents: RetrievalResult['documents'],
     query: string,
+    rerank: RetrievalRerank,
   ): Promise<RetrievalResult['documents']> {
-    // TODO: Implement cross-encoder reranking
-    // For now, just boost exact matches
-    return documents
-      .map((doc) => {
-        const exactMatchBoost = doc.content.toLowerCase().includes(query.toLowerCase()) ? 0.1 : 0
-
-        return {
-          ...doc,
-          score: doc.score + exactMatchBoost,
-        }
+    const reranker = this.rerankers.get(rerank.method)
+    if (!reranker) {
+      throw new Error(`Unknown reranker: ${rerank.method}`)
+    }
+
+    const startTime = Date.now()
+    try {
+      const reranked = await reranker.rerank(query, documents, rerank)
+      getTelemetryService().recordLatency(`rerank_${rerank.method}`, Date.now() - startTime)
+      return reranked
+    } catch (error) {
+      logger.warn(`Reranker ${rerank.method} failed, keeping first-stage order`, {
+        error: (error as Error).message,
       })
-      .sort((a, b) => b.score - a.score)
+      getTelemetryService().incrementCounter('retrieval_rerank_failures')
+      return documents
+    }
   }
 
   /**
@@ -380,23 +710,202 @@ export class RetrievalHub {
   }
 }
 
+/**
+ * The query's rerank options; `filters.rerank: true` is the older spelling of
+ * a lexical rerank and is dropped from the filters
+ */
+function resolveRerank(query: RetrievalQuery): {
+  query: RetrievalQuery
+  rerank?: RetrievalRerank
+} {
+  if (!query.filters || !('rerank' in query.filters)) {
+    return { query, rerank: query.rerank }
+  }
+
+  const { rerank: legacy, ...filters } = query.filters
+  const rerank = query.rerank || (legacy ? { method: RERANKERS.LEXICAL } : undefined)
+  return { query: { ...query, filters }, rerank }
+}
+
+/**
+ * Widen the first stage so the reranker has candidates to promote; metadata
+ * is kept for field boosts and stripped again afterwards if not asked for
+ */
+function withRerankDepth(query: RetrievalQuery, rerank?: RetrievalRerank): RetrievalQuery {
+  if (!rerank) {
+    return query
+  }
+
+  const depth = rerank.top_n ?? query.top_k * RERANK_CANDIDATES_PER_RESULT
+  return { ...query, top_k: Math.max(depth, query.top_k), include_metadata: true }
+}
+
+/**
+ * Restrict the query to its collection, which every chunk carries in its metadata
+ */
+function scopeToCollection(query: RetrievalQuery): RetrievalQuery {
+  if (!query.collection) {
+    return query
+  }
+
+  const scope = { collection: query.collection }
+  return { ...query, filters: query.filters ? { $and: [query.filters, scope] } : scope }
+}
+
+/**
+ * Give a document its identity: the metadata id if it has one, otherwise a
+ * hash of its collection and content, so indexing the same text twice
+ * replaces rather than duplicates it
+ */
+function resolveDocument(doc: SourceDocument, batchCollection?: string): ResolvedDocument {
+  const collection = doc.collection || batchCollection || DEFAULT_COLLECTION
+  const metadataId = doc.metadata?.id
+  const id =
+    typeof metadataId === 'string'
+      ? metadataId
+      : `doc_${hashContent(`${collection}\n${doc.content}`).slice(0, 16)}`
+
+  return {
+    id,
+    collection,
+    content_hash: hashContent(doc.content),
+    source: { ...doc, metadata: { ...doc.metadata, id, collection } },
+  }
+}
+
+function isUnchanged(doc: ResolvedDocument): boolean {
+  const previous = doc.previous
+  return (
+    previous !== undefined &&
+    previous.content_hash === doc.content_hash &&
+    previous.format === doc.source.format &&
+    isDeepStrictEqual(previous.metadata, doc.source.metadata)
+  )
+}
+
+/**
+ * Chunk IDs built from the document ID and the chunk's text, so a chunk that
+ * survives an edit keeps its ID; repeated text within a document is numbered
+ */
+function withContentIds(chunks: Document[]): Document[] {
+  const seen = new Map<string, number>()
+  return chunks.map((chunk) => {
+    const base = `${sourceOf(chunk)}_chunk_${hashContent(chunk.content).slice(0, CHUNK_HASH_LENGTH)}`
+    const repeats = seen.get(base) || 0
+    seen.set(base, repeats + 1)
+    return { ...chunk, id: repeats > 0 ? `${base}_${repeats + 1}` : base }
+  })
+}
+
+function sourceOf(chunk: Document): string {
+  return (chunk.metadata.chunk_metadata as ChunkMetadata).source_doc_id
+}
+
 // ============= Service API =============
 
 let hubInstance: RetrievalHub | null = null
 
 export function getRetrievalHub(): RetrievalHub {
   if (!hubInstance) {
-    hubInstance = new RetrievalHub()
+    const vectorStoreType = process.env.VECTOR_STORE_TYPE as VectorStoreType | undefined
+    hubInstance = new RetrievalHub({
+      ...(vectorStoreType ? { vectorStoreType } : {}),
+      registryPath: process.env.PROMPTDIAL_DOCUMENT_REGISTRY_PATH,
+    })
   }
   return hubInstance
 }
 
+let exampleBankInstance: ExampleBank | null = null
+
+/**
+ * The example bank searches its own in-memory hub, so examples never show up
+ * in document search; it persists the examples themselves
+ */
+export function getExampleBank(): ExampleBank {
+  if (!exampleBankInstance) {
+    exampleBankInstance = new ExampleBank({
+      index: new RetrievalHub({ vectorStoreType: 'memory', enableCache: false }),
+      embedder: createEmbeddingProvider(),
+    })
+  }
+  return exampleBankInstance
+}
+
+/**
+ * Reject documents and formats the processor cannot handle, before indexing
+ */
+export function validateIndexRequest(payload: {
+  documents: SourceDocument[]
+  options?: IndexOptions
+}): string | null {
+  if (!Array.isArray(payload?.documents)) {
+    return 'documents must be an array'
+  }
+  if (payload.documents.some((doc) => typeof doc?.content !== 'string')) {
+    return 'every document needs string content'
+  }
+  return validateFormats(payload) || validateCollections(payload)
+}
+
+function validateFormats(payload: {
+  documents: SourceDocument[]
+  options?: IndexOptions
+}): string | null {
+  const formats = [payload.options?.format, ...payload.documents.map((doc) => doc.format)]
+  const unknown = formats.find((format) => format && format !== 'auto' && !isDocumentFormat(format))
+  return unknown
+    ? `Unsupported document format: ${unknown} (expected one of ${DOCUMENT_FORMATS.join(', ')})`
+    : null
+}
+
+function validateCollections(payload: {
+  documents: SourceDocument[]
+  options?: IndexOptions
+}): string | null {
+  const collections = [
+    payload.options?.collection,
+    ...payload.documents.map((doc) => doc.collection),
+  ]
+  return (
+    collections
+      .filter((collection) => collection !== undefined)
+      .map(validateCollectionName)
+      .find(Boolean) || null
+  )
+}
+
+/**
+ * Collection names are stored in chunk metadata and used in URLs
+ */
+export function validateCollectionName(name: unknown): string | null {
+  if (typeof name !== 'string' || !COLLECTION_NAME.test(name)) {
+    return `Invalid collection name: ${name} (up to 64 letters, digits, '.', '_' or '-')`
+  }
+  return null
+}
+
 export async function handleIndexRequest(
   request: ServiceRequest<{
-    documents: Array<{ content: string; metadata?: Record<string, any> }>
-    options?: ProcessingOptions
+    documents: SourceDocument[]
+    options?: IndexOptions
   }>,
-): Promise<ServiceResponse<{ indexed: number; chunks: number }>> {
+): Promise<ServiceResponse<IndexSummary>> {
+  const invalid = validateIndexRequest(request.payload)
+  if (invalid) {
+    return {
+      trace_id: request.trace_id,
+      timestamp: new Date(),
+      service: request.service,
+      success: false,
+      error: {
+        code: ERROR_CODES.INVALID_PARAMETERS,
+        message: invalid,
+        retryable: false,
+      },
+    }
+  }
+
   try {
     const result = await getRetrievalHub().indexDocuments(
       request.payload.documents,
@@ -424,9 +933,72 @@ export async function handleIndexRequest(
   }
 }
 
+/**
+ * Reject search options the hub cannot honour, before searching
+ */
+export function validateSearchQuery(
+  query: RetrievalQuery,
+  rerankers: string[] = Object.values(RERANKERS),
+): string | null {
+  if (!query || typeof query.query !== 'string') {
+    return 'query must be a string'
+  }
+  return (
+    validateTechnique(query.technique) ||
+    validateScope(query) ||
+    validateFusion(query.fusion) ||
+    validateRerank(query.rerank, rerankers)
+  )
+}
+
+function validateTechnique(technique: RetrievalQuery['technique']): string | null {
+  if (technique && !SEARCH_TECHNIQUES.includes(technique)) {
+    return `Unsupported retrieval technique: ${technique}`
+  }
+  return null
+}
+
+function validateScope(query: RetrievalQuery): string | null {
+  const invalidCollection =
+    query.collection === undefined ? null : validateCollectionName(query.collection)
+  return invalidCollection || (query.filters === undefined ? null : validateFilters(query.filters))
+}
+
+function validateFusion(fusion: RetrievalQuery['fusion']): string | null {
+  if (fusion && !['rrf', 'weighted'].includes(fusion.method)) {
+    return `Unsupported fusion method: ${fusion.method}`
+  }
+  return null
+}
+
+function validateRerank(rerank: RetrievalQuery['rerank'], rerankers: string[]): string | null {
+  if (rerank && !rerankers.includes(rerank.method)) {
+    return `Unsupported reranker: ${rerank.method}`
+  }
+  if (rerank?.top_n !== undefined && !(Number.isInteger(rerank.top_n) && rerank.top_n > 0)) {
+    return 'rerank.top_n must be a positive integer'
+  }
+  return null
+}
+
 export async function handleSearchRequest(
   request: ServiceRequest<RetrievalQuery>,
 ): Promise<ServiceResponse<RetrievalResult>> {
+  const invalid = validateSearchQuery(request.payload, getRetrievalHub().getRerankerNames())
+  if (invalid) {
+    return {
+      trace_id: request.trace_id,
+      timestamp: new Date(),
+      service: request.service,
+      success: false,
+      error: {
+        code: ERROR_CODES.INVALID_PARAMETERS,
+        message: invalid,
+        retryable: false,
+      },
+    }
+  }
+
   try {
     const result = await getRetrievalHub().search(request.payload)
     return {
@@ -451,6 +1023,179 @@ export async function handleSearchRequest(
   }
 }
 
+const EXAMPLE_FIELDS = ['id', 'question', 'reasoning', 'answer', 'task_type'] as const
+
+/**
+ * Reject examples missing a required field before they reach the bank
+ */
+export function validateExamples(payload: { examples: ExampleInput[] }): string | null {
+  if (!Array.isArray(payload?.examples) || payload.examples.length === 0) {
+    return 'examples must be a non-empty array'
+  }
+
+  for (const [i, example] of payload.examples.entries()) {
+    const missing = EXAMPLE_FIELDS.find((field) => !isNonEmptyString(example?.[field]))
+    if (missing) {
+      return `examples[${i}].${missing} must be a non-empty string`
+    }
+  }
+  return null
+}
+
+export function validateExampleSelection(
+  payload: ExampleSelectionOptions & { query: string },
+): string | null {
+  if (typeof payload?.query !== 'string') {
+    return 'query must be a string'
+  }
+  if (payload.k !== undefined && !isPositiveInteger(payload.k)) {
+    return 'k must be a positive integer'
+  }
+  if (payload.diversity !== undefined && !isFraction(payload.diversity)) {
+    return 'diversity must be between 0 and 1'
+  }
+  return null
+}
+
+function isPositiveInteger(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) > 0
+}
+
+function isFraction(value: unknown): boolean {
+  return typeof value === 'number' && value >= 0 && value <= 1
+}
+
+function isNonEmptyString(value: unknown): boolean {
+  return typeof value === 'string' && value.trim().length > 0
+}
+
+export async function handleExampleUpsertRequest(
+  request: ServiceRequest<{ examples: ExampleInput[] }>,
+): Promise<ServiceResponse<ExampleSelection>> {
+  const invalid = validateExamples(request.payload)
+  if (invalid) {
+    return invalidRequest(request, invalid)
+  }
+
+  try {
+    const result = await getExampleBank().upsert(request.payload.examples)
+    return {
+      trace_id: request.trace_id,
+      timestamp: new Date(),
+      service: request.service,
+      success: true,
+      data: result,
+    }
+  } catch (error) {
+    logger.error('Failed to store examples', error as Error)
+    return {
+      trace_id: request.trace_id,
+      timestamp: new Date(),
+      service: request.service,
+      success: false,
+      error: {
+        code: ERROR_CODES.INTERNAL_ERROR,
+        message: 'Failed to store examples',
+        retryable: true,
+      },
+    }
+  }
+}
+
+export async function handleExampleSelectRequest(
+  request: ServiceRequest<ExampleSelectionOptions & { query: string }>,
+): Promise<ServiceResponse<ExampleSelection>> {
+  const invalid = validateExampleSelection(request.payload)
+  if (invalid) {
+    return invalidRequest(request, invalid)
+  }
+
+  try {
+    const { query, ...options } = request.payload
+    const result = await getExampleBank().select(query, options)
+    return {
+      trace_id: request.trace_id,
+      timestamp: new Date(),
+      service: request.service,
+      success: true,
+      data: result,
+    }
+  } catch (error) {
+    logger.error('Example selection failed', error as Error)
+    return {
+      trace_id: request.trace_id,
+      timestamp: new Date(),
+      service: request.service,
+      success: false,
+      error: {
+        code: ERROR_CODES.INTERNAL_ERROR,
+        message: 'Example selection failed',
+        retryable: true,
+      },
+    }
+  }
+}
+
+function invalidRequest<T>(request: ServiceRequest<unknown>, message: string): ServiceResponse<T> {
+  return {
+    trace_id: request.trace_id,
+    timestamp: new Date(),
+    service: request.service,
+    success: false,
+    error: {
+      code: ERROR_CODES.INVALID_PARAMETERS,
+      message,
+      retryable: false,
+    },
+  }
+}
+
+export function validateCollectionRequest(payload: {
+  name: string
+  description?: string
+}): string | null {
+  if (payload?.description !== undefined && typeof payload.description !== 'string') {
+    return 'description must be a string'
+  }
+  return validateCollectionName(payload?.name)
+}
+
+export async function handleCollectionCreateRequest(
+  request: ServiceRequest<{ name: string; description?: string }>,
+): Promise<ServiceResponse<CollectionRecord>> {
+  const invalid = validateCollectionRequest(request.payload)
+  if (invalid) {
+    return invalidRequest(request, invalid)
+  }
+
+  try {
+    const result = await getRetrievalHub().createCollection(
+      request.payload.name,
+      request.payload.description,
+    )
+    return {
+      trace_id: request.trace_id,
+      timestamp: new Date(),
+      service: request.service,
+      success: true,
+      data: result,
+    }
+  } catch (error) {
+    logger.error('Failed to create collection', error as Error)
+    return {
+      trace_id: request.trace_id,
+      timestamp: new Date(),
+      service: request.service,
+      success: false,
+      error: {
+        code: ERROR_CODES.INTERNAL_ERROR,
+        message: 'Failed to create collection',
+        retryable: true,
+      },
+    }
+  }
+}
+
 export async function handleIRCoTRequest(
   request: ServiceRequest<{ query: string; context?: string }>,
 ): Promise<ServiceResponse<string>> {
@@ -490,16 +1235,18 @@ if (require.main === module) {
 
   app.use(express.json({ limit: '50mb' }))
 
-  // Index documents
+  // Index documents (format: text, markdown, html, json, jsonl, csv or code; detected if omitted)
   app.post('/index', async (req: any, res: any) => {
     const response = await handleIndexRequest(req.body)
-    res.status(response.success ? 200 : 500).json(response)
+    const invalid = response.error?.code === ERROR_CODES.INVALID_PARAMETERS
+    res.status(response.success ? 200 : invalid ? 400 : 500).json(response)
   })
 
-  // Search documents
+  // Search documents (technique: semantic, keyword or hybrid)
   app.post('/search', async (req: any, res: any) => {
     const response = await handleSearchRequest(req.body)
-    res.status(response.success ? 200 : 500).json(response)
+    const invalid = response.error?.code === ERROR_CODES.INVALID_PARAMETERS
+    res.status(response.success ? 200 : invalid ? 400 : 500).json(response)
   })
 
   // IRCoT retrieval
@@ -508,7 +1255,97 @@ if (require.main === module) {
     res.status(response.success ? 200 : 500).json(response)
   })
 
-  // Delete document
+  // Add or revise few-shot examples
+  app.post('/examples', async (req: any, res: any) => {
+    const response = await handleExampleUpsertRequest(req.body)
+    const invalid = response.error?.code === ERROR_CODES.INVALID_PARAMETERS
+    res.status(response.success ? 200 : invalid ? 400 : 500).json(response)
+  })
+
+  // Current few-shot examples, optionally for one task type
+  app.get('/examples', async (req: any, res: any) => {
+    try {
+      res.json(await getExampleBank().list(req.query.task_type))
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message })
+    }
+  })
+
+  // Every version of one example
+  app.get('/examples/:id/history', async (req: any, res: any) => {
+    try {
+      const versions = await getExampleBank().getHistory(req.params.id)
+      res.status(versions.length > 0 ? 200 : 404).json({ versions })
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message })
+    }
+  })
+
+  // Few-shot examples for a prompt: { query, task_type?, domain?, k?, diversity? }
+  app.post('/examples/select', async (req: any, res: any) => {
+    const response = await handleExampleSelectRequest(req.body)
+    const invalid = response.error?.code === ERROR_CODES.INVALID_PARAMETERS
+    res.status(response.success ? 200 : invalid ? 400 : 500).json(response)
+  })
+
+  // Indexed documents with their version history: ?collection=name
+  app.get('/documents', async (req: any, res: any) => {
+    try {
+      res.json({ documents: await getRetrievalHub().listDocuments(req.query.collection) })
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message })
+    }
+  })
+
+  app.get('/documents/:id', async (req: any, res: any) => {
+    try {
+      const document = await getRetrievalHub().getDocument(req.params.id)
+      res.status(document ? 200 : 404).json(document ? { document } : { success: false })
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message })
+    }
+  })
+
+  app.delete('/documents/:id', async (req: any, res: any) => {
+    try {
+      const hub = getRetrievalHub()
+      if (!(await hub.getDocument(req.params.id))) {
+        return res.status(404).json({ success: false })
+      }
+      await hub.deleteDocument(req.params.id)
+      res.json({ success: true })
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message })
+    }
+  })
+
+  // Collections with their document and chunk counts
+  app.get('/collections', async (_req: any, res: any) => {
+    try {
+      res.json({ collections: await getRetrievalHub().listCollections() })
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message })
+    }
+  })
+
+  // Create a collection: { name, description? }
+  app.post('/collections', async (req: any, res: any) => {
+    const response = await handleCollectionCreateRequest(req.body)
+    const invalid = response.error?.code === ERROR_CODES.INVALID_PARAMETERS
+    res.status(response.success ? 200 : invalid ? 400 : 500).json(response)
+  })
+
+  // Delete a collection and every document in it
+  app.delete('/collections/:name', async (req: any, res: any) => {
+    try {
+      const deleted = await getRetrievalHub().deleteCollection(req.params.name)
+      res.status(deleted ? 200 : 404).json({ success: deleted })
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message })
+    }
+  })
+
+  // Delete document (also available as DELETE /documents/:id)
   app.delete('/document/:id', async (req: any, res: any) => {
     try {
       await getRetrievalHub().deleteDocument(req.params.id)
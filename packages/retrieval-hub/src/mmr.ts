@@ -0,0 +1,57 @@
+/**
+ * PromptDial 3.0 - Maximal Marginal Relevance
+ *
+ * Picks results that are relevant to the query but unlike each other, so a
+ * handful of few-shot examples covers more than one way to read the prompt
+ */
+
+export interface MMRCandidate {
+  id: string
+  relevance: number // Similarity to the query, on the same scale as cosine similarity
+  embedding: number[]
+}
+
+export const DEFAULT_MMR_LAMBDA = 0.7
+
+/**
+ * Greedily take the candidate maximising
+ * lambda * relevance - (1 - lambda) * (highest similarity to anything taken).
+ * lambda = 1 ranks by relevance alone; lower values trade relevance for variety.
+ */
+export function maximalMarginalRelevance(
+  candidates: MMRCandidate[],
+  k: number,
+  lambda: number = DEFAULT_MMR_LAMBDA,
+): MMRCandidate[] {
+  const remaining = [...candidates]
+  const selected: MMRCandidate[] = []
+
+  while (selected.length < k && remaining.length > 0) {
+    const scores = remaining.map(
+      (candidate) => lambda * candidate.relevance - (1 - lambda) * redundancy(candidate, selected),
+    )
+    const best = scores.indexOf(Math.max(...scores))
+    selected.push(...remaining.splice(best, 1))
+  }
+
+  return selected
+}
+
+function redundancy(candidate: MMRCandidate, selected: MMRCandidate[]): number {
+  return selected.reduce(
+    (highest, other) => Math.max(highest, cosineSimilarity(candidate.embedding, other.embedding)),
+    0,
+  )
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0
+}
@@ -0,0 +1,345 @@
+/**
+ * PromptDial 3.0 - Rerankers
+ *
+ * Second-stage scorers that reorder first-stage candidates: an offline
+ * lexical reranker and an LLM judge routed through llm-runner
+ */
+
+import {
+  PromptVariant,
+  RetrievalRerank,
+  RetrievalResult,
+  ServiceRequest,
+  ServiceResponse,
+  createLogger,
+} from '@promptdial/shared'
+import { tokenize } from './bm25'
+
+const logger = createLogger('rerankers')
+
+export type RankedDocument = RetrievalResult['documents'][number]
+
+// The part of llm-runner's JudgeResponse the judge reads
+interface JudgeResponse {
+  content: string
+}
+
+export interface Reranker {
+  name: string
+  rerank(
+    query: string,
+    documents: RankedDocument[],
+    options: RetrievalRerank,
+  ): Promise<RankedDocument[]>
+}
+
+export const RERANKERS = {
+  LEXICAL: 'lexical',
+  LLM_JUDGE: 'llm_judge',
+} as const
+
+export class RerankerRegistry {
+  private rerankers: Map<string, Reranker> = new Map()
+
+  register(reranker: Reranker): void {
+    if (this.rerankers.has(reranker.name)) {
+      logger.warn(`Replacing registered reranker: ${reranker.name}`)
+    }
+    this.rerankers.set(reranker.name, reranker)
+  }
+
+  get(name: string): Reranker | null {
+    return this.rerankers.get(name) || null
+  }
+
+  names(): string[] {
+    return Array.from(this.rerankers.keys())
+  }
+}
+
+/**
+ * Registry with the lexical reranker and the LLM judge
+ */
+export function createDefaultRerankerRegistry(): RerankerRegistry {
+  const registry = new RerankerRegistry()
+  registry.register(new LexicalReranker())
+  registry.register(new LLMJudgeReranker())
+  return registry
+}
+
+// ============= Lexical Reranker =============
+
+export interface LexicalFeatures {
+  coverage: number // Share of query terms the passage contains
+  proximity: number // How tightly the matched terms cluster
+  phrase: number // Share of query bigrams found verbatim
+  field_boost: number // Sum of boosts for metadata fields matching the query
+}
+
+// Metadata fields a query match in which says more than a match in the body
+export const DEFAULT_FIELD_BOOSTS: Record<string, number> = {
+  title: 0.3,
+  section: 0.2,
+  source: 0.1,
+}
+
+const LEXICAL_WEIGHTS = {
+  retrieval: 0.3,
+  coverage: 0.35,
+  proximity: 0.2,
+  phrase: 0.15,
+}
+
+const STOPWORDS = new Set(
+  (
+    'a an and are as at be by do does for from how i in is it of on or ' +
+    'the to what when where which who why with'
+  ).split(' '),
+)
+
+const PLAIN_WORD = /[\p{L}\p{N}_]+/gu
+
+/**
+ * Query terms worth matching; stopwords only count when the query has nothing else
+ */
+export function queryTerms(query: string): string[] {
+  const terms = Array.from(new Set(tokenize(query)))
+  const content = terms.filter((term) => !STOPWORDS.has(term))
+  return content.length > 0 ? content : terms
+}
+
+/**
+ * Shortest token span containing every term of `terms` that occurs in `tokens`
+ */
+export function minimumWindow(tokens: string[], terms: Set<string>): number {
+  const counts = new Map<string, number>()
+  let best = Infinity
+  let left = 0
+
+  tokens.forEach((token, right) => {
+    if (!terms.has(token)) return
+    counts.set(token, (counts.get(token) || 0) + 1)
+
+    while (counts.size === terms.size) {
+      best = Math.min(best, right - left + 1)
+      release(counts, tokens[left])
+      left++
+    }
+  })
+
+  return best
+}
+
+function release(counts: Map<string, number>, token: string): void {
+  const count = counts.get(token)
+  if (count === 1) {
+    counts.delete(token)
+  } else if (count !== undefined) {
+    counts.set(token, count - 1)
+  }
+}
+
+export function extractLexicalFeatures(
+  query: string,
+  document: RankedDocument,
+  fieldBoosts: Record<string, number> = DEFAULT_FIELD_BOOSTS,
+): LexicalFeatures {
+  const terms = queryTerms(query)
+  if (terms.length === 0) {
+    return { coverage: 0, proximity: 0, phrase: 0, field_boost: 0 }
+  }
+
+  const tokens = tokenize(document.content)
+  const present = new Set(tokens)
+  const matched = new Set(terms.filter((term) => present.has(term)))
+  const window = minimumWindow(tokens, matched)
+
+  return {
+    coverage: matched.size / terms.length,
+    proximity: matched.size > 1 ? matched.size / window : matched.size / terms.length,
+    phrase: phraseMatch(query, document.content),
+    field_boost: fieldBoost(terms, document.metadata, fieldBoosts),
+  }
+}
+
+/**
+ * 1 for the whole query verbatim, otherwise the share of its word bigrams found in order
+ */
+function phraseMatch(query: string, content: string): number {
+  const words = query.toLowerCase().match(PLAIN_WORD) || []
+  const text = ` ${(content.toLowerCase().match(PLAIN_WORD) || []).join(' ')} `
+
+  if (words.length > 0 && text.includes(` ${words.join(' ')} `)) {
+    return 1
+  }
+  if (words.length < 2) {
+    return 0
+  }
+
+  const bigrams = words.slice(1).map((word, i) => ` ${words[i]} ${word} `)
+  return bigrams.filter((bigram) => text.includes(bigram)).length / bigrams.length
+}
+
+function fieldBoost(
+  terms: string[],
+  metadata: Record<string, unknown> | undefined,
+  boosts: Record<string, number>,
+): number {
+  return Object.entries(boosts).reduce((total, [field, boost]) => {
+    const value = metadata?.[field]
+    const text = Array.isArray(value) ? value.join(' ') : value
+    if (typeof text !== 'string') return total
+
+    const fieldTerms = new Set(tokenize(text))
+    return total + (boost * terms.filter((term) => fieldTerms.has(term)).length) / terms.length
+  }, 0)
+}
+
+/**
+ * Scores candidates on query-term coverage, proximity and phrase matches,
+ * blended with their normalized first-stage score, plus metadata field boosts
+ */
+export class LexicalReranker implements Reranker {
+  name = RERANKERS.LEXICAL
+
+  async rerank(
+    query: string,
+    documents: RankedDocument[],
+    options: RetrievalRerank,
+  ): Promise<RankedDocument[]> {
+    const fieldBoosts = { ...DEFAULT_FIELD_BOOSTS, ...options.field_boosts }
+    const retrieval = normalizeScores(documents)
+
+    const scored = documents.map((doc, i) => {
+      const features = extractLexicalFeatures(query, doc, fieldBoosts)
+      const score =
+        LEXICAL_WEIGHTS.retrieval * retrieval[i] +
+        LEXICAL_WEIGHTS.coverage * features.coverage +
+        LEXICAL_WEIGHTS.proximity * features.proximity +
+        LEXICAL_WEIGHTS.phrase * features.phrase +
+        features.field_boost
+      return { ...doc, score }
+    })
+
+    return sortByScore(scored)
+  }
+}
+
+// ============= LLM Judge Reranker =============
+
+export interface LLMJudgeOptions {
+  url?: string // llm-runner base URL
+  max_documents?: number // Candidates judged; the rest keep their order below them
+  max_chars_per_document?: number
+  fetch?: typeof fetch
+}
+
+const JUDGE_TECHNIQUE = 'rerank_judge'
+
+export function buildJudgePrompt(query: string, passage: string): string {
+  return `You are judging search results.
+
+QUERY: ${query}
+
+PASSAGE:
+${passage}
+
+How relevant is the passage to the query? Reply with a single integer from 0 (unrelated) to 10 (answers it directly) and nothing else.`
+}
+
+/**
+ * First number in the judge's reply as a 0-1 relevance, or null if there is none
+ */
+export function parseJudgeScore(content: string): number | null {
+  const match = content.match(/\d+(?:\.\d+)?/)
+  if (!match) return null
+  return Math.min(Math.max(parseFloat(match[0]), 0), 10) / 10
+}
+
+/**
+ * Asks an LLM to grade each candidate in one llm-runner batch. Passages the
+ * judge gives no score keep their normalized first-stage score.
+ */
+export class LLMJudgeReranker implements Reranker {
+  name = RERANKERS.LLM_JUDGE
+
+  private url: string
+  private maxDocuments: number
+  private maxChars: number
+  private fetchFn: typeof fetch
+
+  constructor(options: LLMJudgeOptions = {}) {
+    this.url = options.url || process.env.PROMPTDIAL_RERANK_RUNNER_URL || 'http://localhost:4001'
+    this.maxDocuments = options.max_documents ?? 20
+    this.maxChars = options.max_chars_per_document ?? 1000
+    this.fetchFn = options.fetch || fetch
+  }
+
+  async rerank(query: string, documents: RankedDocument[]): Promise<RankedDocument[]> {
+    const judged = documents.slice(0, this.maxDocuments)
+    const responses = await this.judge(query, judged)
+    const retrieval = normalizeScores(judged)
+
+    const scored = judged.map((doc, i) => ({
+      ...doc,
+      score: parseJudgeScore(responses[i]?.content || '') ?? retrieval[i],
+    }))
+    const floor = Math.min(0, ...scored.map((doc) => doc.score))
+    const rest = documents.slice(this.maxDocuments).map((doc) => ({ ...doc, score: floor }))
+
+    return [...sortByScore(scored), ...rest]
+  }
+
+  private async judge(query: string, documents: RankedDocument[]): Promise<JudgeResponse[]> {
+    const variants: PromptVariant[] = documents.map((doc, i) => {
+      const prompt = buildJudgePrompt(query, doc.content.slice(0, this.maxChars))
+      return {
+        id: `rerank_judge_${i}`,
+        technique: JUDGE_TECHNIQUE,
+        prompt,
+        temperature: 0,
+        est_tokens: Math.ceil(prompt.length / 4),
+        cost_usd: 0,
+        model_params: { temperature: 0, max_tokens: 8 },
+      }
+    })
+    const request: ServiceRequest<{ variants: PromptVariant[] }> = {
+      trace_id: `rerank-${Date.now()}`,
+      timestamp: new Date(),
+      service: 'retrieval-hub',
+      method: 'run_batch',
+      payload: { variants },
+    }
+
+    const response = await this.fetchFn(`${this.url}/run/batch`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    })
+    if (!response.ok) {
+      throw new Error(`LLM runner returned ${response.status}`)
+    }
+
+    const body = (await response.json()) as ServiceResponse<JudgeResponse[]>
+    if (!body.success || !body.data) {
+      throw new Error(`LLM judge failed: ${body.error?.message || 'no responses'}`)
+    }
+    return body.data
+  }
+}
+
+// ============= Helpers =============
+
+function normalizeScores(documents: RankedDocument[]): number[] {
+  const scores = documents.map((doc) => doc.score)
+  const min = Math.min(...scores)
+  const range = Math.max(...scores) - min
+  return scores.map((score) => (range === 0 ? 1 : (score - min) / range))
+}
+
+/**
+ * Best score first; the sort is stable, so ties keep their first-stage order
+ */
+function sortByScore(documents: RankedDocument[]): RankedDocument[] {
+  return [...documents].sort((a, b) => b.score - a.score)
+}
@@ -4,8 +4,19 @@
  * Abstract interface for vector databases
  */
 
+import { promises as fs } from 'fs'
+import * as path from 'path'
+
 import { Document, RetrievalQuery, RetrievalResult, createLogger } from '@promptdial/shared'
 
+import {
+  EmbeddingProvider,
+  EmbeddingStats,
+  createEmbeddingProvider,
+  describeEmbeddingProvider,
+} from './embeddings'
+import { matchesFilters } from './filters'
+
 const logger = createLogger('vector-store')
 
 // ============= Vector Store Interface =============
@@ -26,11 +37,21 @@ export interface VectorStore {
    */
   search(query: RetrievalQuery): Promise<RetrievalResult>
 
+  /**
+   * A document by ID, with its embedding
+   */
+  get(id: string): Promise<Document | undefined>
+
   /**
    * Delete a document by ID
    */
   delete(id: string): Promise<void>
 
+  /**
+   * All indexed documents, for building secondary indexes
+   */
+  list(): Promise<Document[]>
+
   /**
    * Get store statistics
    */
@@ -41,30 +62,31 @@ export interface VectorStoreStats {
   documentCount: number
   indexSize: number
   dimensions: number
+  embedding: EmbeddingStats
 }
 
 // ============= In-Memory Vector Store (Development) =============
 
 export class InMemoryVectorStore implements VectorStore {
-  private documents: Map<string, Document> = new Map()
+  protected documents: Map<string, Document> = new Map()
   private embeddings: Map<string, number[]> = new Map()
-  private dimensions: number = 384 // Default embedding size
+  protected dimensions: number
 
-  async index(document: Document): Promise<void> {
-    // Generate embedding if not provided
-    if (!document.embedding) {
-      document.embedding = await this.generateEmbedding(document.content)
-    }
+  constructor(private embedder: EmbeddingProvider = createEmbeddingProvider()) {
+    this.dimensions = embedder.dimensions
+  }
 
-    this.documents.set(document.id, document)
-    this.embeddings.set(document.id, document.embedding)
+  async index(document: Document): Promise<void> {
+    await this.embedMissing([document])
+    this.store(document)
 
     logger.debug(`Indexed document ${document.id}`)
   }
 
   async indexBatch(documents: Document[]): Promise<void> {
-    // Process in parallel for efficiency
-    await Promise.all(documents.map((doc) => this.index(doc)))
+    // One provider call for the whole batch
+    await this.embedMissing(documents)
+    documents.forEach((doc) => this.store(doc))
     logger.info(`Indexed batch of ${documents.length} documents`)
   }
 
@@ -81,7 +103,7 @@ export class InMemoryVectorStore implements VectorStore {
       const document = this.documents.get(id)!
 
       // Apply filters if provided
-      if (query.filters && !this.matchesFilters(document, query.filters)) {
+      if (query.filters && !matchesFilters(document, query.filters)) {
         continue
       }
 
@@ -113,34 +135,57 @@ export class InMemoryVectorStore implements VectorStore {
     }
   }
 
+  async get(id: string): Promise<Document | undefined> {
+    return this.documents.get(id)
+  }
+
   async delete(id: string): Promise<void> {
     this.documents.delete(id)
     this.embeddings.delete(id)
     logger.debug(`Deleted document ${id}`)
   }
 
+  async list(): Promise<Document[]> {
+    return Array.from(this.documents.values())
+  }
+
   async getStats(): Promise<VectorStoreStats> {
     return {
       documentCount: this.documents.size,
       indexSize: this.calculateIndexSize(),
       dimensions: this.dimensions,
+      embedding: describeEmbeddingProvider(this.embedder),
     }
   }
 
-  private async generateEmbedding(text: string): Promise<number[]> {
-    // In production, this would call an embedding service
-    // For now, generate a deterministic fake embedding
-    const hash = this.simpleHash(text)
-    const embedding = new Array(this.dimensions)
+  protected store(document: Document): void {
+    this.documents.set(document.id, document)
+    this.embeddings.set(document.id, document.embedding as number[])
+  }
 
-    for (let i = 0; i < this.dimensions; i++) {
-      // Generate pseudo-random values based on hash
-      embedding[i] = Math.sin(hash * (i + 1)) * 0.5 + 0.5
+  /**
+   * Embed documents that arrive without a vector. Vectors of another size
+   * cannot be compared with this store's, so those are re-embedded too.
+   */
+  protected async embedMissing(documents: Document[]): Promise<void> {
+    const pending = documents.filter((doc) => doc.embedding?.length !== this.dimensions)
+    const resized = pending.filter((doc) => doc.embedding).length
+    if (resized > 0) {
+      logger.warn(
+        `Re-embedding ${resized} documents without ${this.dimensions}-dimensional vectors`,
+      )
+    }
+    if (pending.length === 0) {
+      return
     }
 
-    // Normalize
-    const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0))
-    return embedding.map((val) => val / magnitude)
+    const vectors = await this.embedder.embed(pending.map((doc) => doc.content))
+    pending.forEach((doc, i) => (doc.embedding = vectors[i]))
+  }
+
+  private async generateEmbedding(text: string): Promise<number[]> {
+    const [embedding] = await this.embedder.embed([text])
+    return embedding
   }
 
   private cosineSimilarity(a: number[], b: number[]): number {
@@ -158,57 +203,306 @@ export class InMemoryVectorStore implements VectorStore {
       normB += b[i] * b[i]
     }
 
-    return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB))
+    const magnitude = Math.sqrt(normA) * Math.sqrt(normB)
+    return magnitude === 0 ? 0 : dotProduct / magnitude
+  }
+
+  private calculateIndexSize(): number {
+    // Rough estimate: 4 bytes per float * dimensions * documents
+    return 4 * this.dimensions * this.documents.size
+  }
+}
+
+// ============= File-Backed Vector Store =============
+
+export interface FileVectorStoreOptions {
+  directory?: string // Defaults to PROMPTDIAL_VECTOR_STORE_DIR, then ./data/vector-store
+  max_segment_bytes?: number // Size at which writes roll over to a new segment
+  compaction_threshold?: number // Share of superseded records that triggers compaction
+}
+
+type SegmentRecord = { op: 'put'; document: Document } | { op: 'delete'; id: string }
+
+const SEGMENT_PATTERN = /^segment-(\d+)\.jsonl$/
+const DEFAULT_MAX_SEGMENT_BYTES = 16 * 1024 * 1024
+const DEFAULT_COMPACTION_THRESHOLD = 0.5
+
+/**
+ * Keeps the in-memory index and records every change in append-only JSONL
+ * segment files. Writes are fsynced before they are applied, startup replays
+ * the segments in order, and compaction rewrites the live documents into a
+ * single segment once enough records have been superseded.
+ */
+export class FileVectorStore extends InMemoryVectorStore {
+  private directory: string
+  private maxSegmentBytes: number
+  private compactionThreshold: number
+  private segments: number[] = []
+  private activeSize: number = 0
+  private recordCount: number = 0
+  private ready: Promise<void>
+  private writes: Promise<void> = Promise.resolve()
+
+  constructor(options: FileVectorStoreOptions = {}, embedder?: EmbeddingProvider) {
+    super(embedder)
+    this.directory =
+      options.directory ||
+      process.env.PROMPTDIAL_VECTOR_STORE_DIR ||
+      path.join(process.cwd(), 'data', 'vector-store')
+    this.maxSegmentBytes = options.max_segment_bytes || DEFAULT_MAX_SEGMENT_BYTES
+    this.compactionThreshold = options.compaction_threshold ?? DEFAULT_COMPACTION_THRESHOLD
+    this.ready = this.recover()
+    this.ready.catch((error) => logger.error('Vector store recovery failed', error as Error))
+  }
+
+  async index(document: Document): Promise<void> {
+    await this.indexBatch([document])
+  }
+
+  async indexBatch(documents: Document[]): Promise<void> {
+    await this.ready
+    await this.embedMissing(documents)
+    await this.enqueue(() =>
+      this.writeRecords(documents.map((document) => ({ op: 'put', document }))),
+    )
+    documents.forEach((doc) => this.store(doc))
+    await this.compactIfNeeded()
+
+    logger.debug(`Persisted ${documents.length} documents`)
+  }
+
+  async search(query: RetrievalQuery): Promise<RetrievalResult> {
+    await this.ready
+    return super.search(query)
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.ready
+    if (!this.documents.has(id)) {
+      return
+    }
+
+    await this.enqueue(() => this.writeRecords([{ op: 'delete', id }]))
+    await super.delete(id)
+    await this.compactIfNeeded()
   }
 
-  private matchesFilters(document: Document, filters: Record<string, any>): boolean {
-    for (const [key, value] of Object.entries(filters)) {
-      if (document.metadata?.[key] !== value) {
-        return false
+  async get(id: string): Promise<Document | undefined> {
+    await this.ready
+    return super.get(id)
+  }
+
+  async list(): Promise<Document[]> {
+    await this.ready
+    return super.list()
+  }
+
+  async getStats(): Promise<VectorStoreStats> {
+    await this.ready
+    return super.getStats()
+  }
+
+  /**
+   * Rewrite the live documents into one segment and drop the old ones
+   */
+  async compact(): Promise<void> {
+    await this.ready
+    await this.enqueue(() => this.rewriteSegments())
+  }
+
+  /**
+   * Replay every segment. A record cut short by a crash can only be the
+   * tail of the newest segment, so it is truncated away before appending.
+   */
+  private async recover(): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true })
+    this.segments = await this.listSegments()
+
+    for (const [i, id] of this.segments.entries()) {
+      const records = await this.readSegment(id, i === this.segments.length - 1)
+      for (const record of records) {
+        await this.apply(record)
       }
+      this.recordCount += records.length
+    }
+
+    const resized = await this.reembedResized()
+    if (resized > 0 || this.needsCompaction()) {
+      await this.rewriteSegments()
     }
-    return true
+
+    logger.info(
+      `Recovered ${this.documents.size} documents from ${this.segments.length} segments in ${this.directory}`,
+    )
   }
 
-  private calculateIndexSize(): number {
-    // Rough estimate: 4 bytes per float * dimensions * documents
-    return 4 * this.dimensions * this.documents.size
+  private async listSegments(): Promise<number[]> {
+    const files = await fs.readdir(this.directory)
+
+    // Leftovers of a compaction that never finished; the old segments are intact
+    await Promise.all(
+      files
+        .filter((file) => file.endsWith('.tmp'))
+        .map((file) => fs.rm(path.join(this.directory, file), { force: true })),
+    )
+
+    return files
+      .map((file) => SEGMENT_PATTERN.exec(file)?.[1])
+      .filter((id): id is string => id !== undefined)
+      .map(Number)
+      .sort((a, b) => a - b)
+  }
+
+  private async readSegment(id: number, active: boolean): Promise<SegmentRecord[]> {
+    const file = this.segmentPath(id)
+    let content = await fs.readFile(file, 'utf-8')
+
+    if (active && content.length > 0 && !content.endsWith('\n')) {
+      logger.warn(`Truncating incomplete record at the end of ${file}`)
+      content = content.slice(0, content.lastIndexOf('\n') + 1)
+      await fs.truncate(file, Buffer.byteLength(content))
+    }
+    if (active) {
+      this.activeSize = Buffer.byteLength(content)
+    }
+
+    return content
+      .split('\n')
+      .filter((line) => line.trim().length > 0)
+      .map((line) => this.parseRecord(line, file))
+      .filter((record): record is SegmentRecord => record !== null)
   }
 
-  private simpleHash(str: string): number {
-    let hash = 0
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i)
-      hash = (hash << 5) - hash + char
-      hash = hash & hash // Convert to 32-bit integer
+  private parseRecord(line: string, file: string): SegmentRecord | null {
+    try {
+      return JSON.parse(line) as SegmentRecord
+    } catch {
+      logger.warn(`Skipping unreadable record in ${file}`)
+      return null
     }
-    return Math.abs(hash)
+  }
+
+  private async apply(record: SegmentRecord): Promise<void> {
+    if (record.op === 'put') {
+      this.store(record.document)
+    } else {
+      await super.delete(record.id)
+    }
+  }
+
+  /**
+   * Vectors written under another embedding provider cannot be compared with
+   * new queries, so they are replaced with the current provider's
+   */
+  private async reembedResized(): Promise<number> {
+    const resized = Array.from(this.documents.values()).filter(
+      (doc) => doc.embedding?.length !== this.dimensions,
+    )
+    if (resized.length > 0) {
+      await this.embedMissing(resized)
+      resized.forEach((doc) => this.store(doc))
+    }
+    return resized.length
+  }
+
+  /**
+   * Run disk writes one at a time, in call order
+   */
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    const result = this.writes.then(write)
+    this.writes = result.catch(() => undefined)
+    return result
+  }
+
+  private async writeRecords(records: SegmentRecord[]): Promise<void> {
+    if (this.segments.length === 0 || this.activeSize >= this.maxSegmentBytes) {
+      this.segments.push((this.segments[this.segments.length - 1] || 0) + 1)
+      this.activeSize = 0
+    }
+
+    const data = records.map((record) => `${JSON.stringify(record)}\n`).join('')
+    await this.writeDurably(this.segmentPath(this.segments[this.segments.length - 1]), data, 'a')
+    this.activeSize += Buffer.byteLength(data)
+    this.recordCount += records.length
+  }
+
+  private async compactIfNeeded(): Promise<void> {
+    if (this.needsCompaction()) {
+      await this.enqueue(() => this.rewriteSegments())
+    }
+  }
+
+  private needsCompaction(): boolean {
+    const superseded = this.recordCount - this.documents.size
+    return superseded > 0 && superseded / this.recordCount > this.compactionThreshold
+  }
+
+  /**
+   * The new segment is fsynced under a temporary name and renamed into place
+   * before the old segments are removed. Replaying old segments followed by
+   * the new one gives the same documents, so a crash at any point is safe.
+   */
+  private async rewriteSegments(): Promise<void> {
+    const id = (this.segments[this.segments.length - 1] || 0) + 1
+    const target = this.segmentPath(id)
+    const data = Array.from(this.documents.values())
+      .map((document) => `${JSON.stringify({ op: 'put', document })}\n`)
+      .join('')
+
+    await this.writeDurably(`${target}.tmp`, data, 'w')
+    await fs.rename(`${target}.tmp`, target)
+    await Promise.all(this.segments.map((old) => fs.rm(this.segmentPath(old), { force: true })))
+
+    logger.info(`Compacted ${this.recordCount} records into ${this.documents.size} documents`)
+    this.segments = [id]
+    this.activeSize = Buffer.byteLength(data)
+    this.recordCount = this.documents.size
+  }
+
+  private async writeDurably(file: string, data: string, flags: 'a' | 'w'): Promise<void> {
+    const handle = await fs.open(file, flags)
+    try {
+      await handle.writeFile(data)
+      await handle.sync()
+    } finally {
+      await handle.close()
+    }
+  }
+
+  private segmentPath(id: number): string {
+    return path.join(this.directory, `segment-${String(id).padStart(6, '0')}.jsonl`)
   }
 }
 
 // ============= Vector Store Factory =============
 
-export type VectorStoreType = 'memory' | 'pinecone' | 'weaviate' | 'pgvector'
+export type VectorStoreType = 'memory' | 'file' | 'pinecone' | 'weaviate' | 'pgvector'
 
-export function createVectorStore(type: VectorStoreType = 'memory'): VectorStore {
+export function createVectorStore(
+  type: VectorStoreType = 'memory',
+  embedder: EmbeddingProvider = createEmbeddingProvider(),
+): VectorStore {
   switch (type) {
     case 'memory':
-      return new InMemoryVectorStore()
+      return new InMemoryVectorStore(embedder)
+
+    case 'file':
+      return new FileVectorStore({}, embedder)
 
     case 'pinecone':
       // TODO: Implement Pinecone adapter
       logger.warn('Pinecone adapter not implemented, using in-memory store')
-      return new InMemoryVectorStore()
+      return new InMemoryVectorStore(embedder)
 
     case 'weaviate':
       // TODO: Implement Weaviate adapter
       logger.warn('Weaviate adapter not implemented, using in-memory store')
-      return new InMemoryVectorStore()
+      return new InMemoryVectorStore(embedder)
 
     case 'pgvector':
       // TODO: Implement pgvector adapter
       logger.warn('pgvector adapter not implemented, using in-memory store')
-      return new InMemoryVectorStore()
+      return new InMemoryVectorStore(embedder)
 
     default:
       throw new Error(`Unknown vector store type: ${type}`)
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { BM25Index, tokenize } from '../src/bm25'
+
+function doc(id: string, content: string, metadata: Record<string, any> = {}) {
+  return { id, content, metadata }
+}
+
+describe('tokenize', () => {
+  it('should keep compound identifiers whole and split them into parts', () => {
+    expect(tokenize('Call getUserById()')).toEqual([
+      'call',
+      'getuserbyid',
+      'get',
+      'user',
+      'by',
+      'id',
+    ])
+    expect(tokenize('max_tokens')).toEqual(['max_tokens', 'max', 'tokens'])
+    expect(tokenize('gpt-4.1 HTTPServer')).toEqual([
+      'gpt-4.1',
+      'gpt',
+      '4',
+      '1',
+      'httpserver',
+      'http',
+      'server',
+    ])
+  })
+})
+
+describe('BM25Index', () => {
+  let index: BM25Index
+
+  beforeEach(() => {
+    index = new BM25Index()
+    index.addBatch([
+      doc('auth', 'Use getUserById to fetch a user. The user id must be numeric.'),
+      doc('billing', 'Invoices are generated for every user at the end of the month.'),
+      doc('product', 'The Acme Rocket 3000 ships with a two year warranty.', { lang: 'en' }),
+      doc('noise', 'A short note about the weather.'),
+    ])
+  })
+
+  it('should rank the document containing the exact identifier first', () => {
+    const results = index.search('getUserById', 3)
+    expect(results[0].id).toBe('auth')
+  })
+
+  it('should match product names that are rare in the corpus', () => {
+    const results = index.search('acme rocket', 3)
+    expect(results.map((r) => r.id)).toEqual(['product'])
+  })
+
+  it('should give rarer terms more weight', () => {
+    const [best] = index.search('user warranty', 4)
+    const scores = Object.fromEntries(index.search('user warranty', 4).map((r) => [r.id, r.score]))
+
+    expect(best.id).toBe('product')
+    expect(scores.product).toBeGreaterThan(scores.billing)
+  })
+
+  it('should only return documents containing a query term', () => {
+    expect(index.search('quantum', 5)).toEqual([])
+  })
+
+  it('should apply the filter', () => {
+    const results = index.search('the', 5, (d) => d.metadata.lang === 'en')
+    expect(results.map((r) => r.id)).toEqual(['product'])
+  })
+
+  it('should forget removed and replaced documents', () => {
+    index.remove('product')
+    index.add(doc('auth', 'Rewritten without identifiers'))
+
+    expect(index.search('acme', 5)).toEqual([])
+    expect(index.search('getUserById', 5).map((r) => r.id)).not.toContain('auth')
+    expect(index.size).toBe(3)
+  })
+})
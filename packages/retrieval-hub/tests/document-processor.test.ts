@@ -152,6 +152,81 @@ This is section 2 content.`
     })
   })
 
+  describe('format-aware ingestion', () => {
+    it('should label Markdown chunks with their heading path', async () => {
+      const content = `# Setup\nInstall it.\n\n## Linux\n${'Use apt. '.repeat(20)}\n\n## macOS\nUse brew.`
+
+      const chunks = await processor.processDocument(
+        content,
+        { source: 'guide.md' },
+        { chunkSize: 120 },
+      )
+
+      expect(chunks.map((c) => c.metadata.section)).toEqual([
+        'Setup',
+        'Setup > Linux',
+        'Setup > Linux',
+        'Setup > macOS',
+      ])
+      expect(chunks[2].content.startsWith('# Setup\n## Linux\n\n')).toBe(true)
+      expect(chunks[3].metadata.chunk_metadata).toMatchObject({
+        section: 'Setup > macOS',
+        format: 'markdown',
+      })
+    })
+
+    it('should number pages at form feeds', async () => {
+      const chunks = await processor.processDocument('First page.\fSecond page.', { id: 'pdf' })
+
+      expect(chunks.map((c) => [c.content, c.metadata.chunk_metadata.page])).toEqual([
+        ['First page.', 1],
+        ['Second page.', 2],
+      ])
+      expect(chunks[1].metadata.chunk_metadata.start_char).toBe(12)
+    })
+
+    it('should keep each few-shot record whole with its field names', async () => {
+      const examples = [
+        { input: 'What is 2 + 2?', output: '4', domain: 'math' },
+        { input: 'Capital of France?', output: 'Paris', domain: 'geography' },
+      ]
+
+      const chunks = await processor.processBatch(
+        [{ content: examples.map((e) => JSON.stringify(e)).join('\n'), format: 'jsonl' }],
+        { chunkSize: 200 },
+      )
+
+      expect(chunks.map((c) => c.content)).toEqual([
+        'input: What is 2 + 2?\noutput: 4\ndomain: math',
+        'input: Capital of France?\noutput: Paris\ndomain: geography',
+      ])
+      expect(chunks[1].metadata.chunk_metadata.section).toBe('line 2')
+    })
+
+    it('should chunk CSV by row and code by declaration', async () => {
+      const [csv, code] = await Promise.all([
+        processor.processDocument('q,a\nHi,Hello\nBye,Goodbye', { source: 'faq.csv' }),
+        processor.processDocument(
+          'def greet():\n    return "hi"\n\ndef part():\n    return "bye"\n',
+          {
+            source: 'greetings.py',
+          },
+        ),
+      ])
+
+      expect(csv.map((c) => c.content)).toEqual(['q: Hi\na: Hello', 'q: Bye\na: Goodbye'])
+      expect(code.map((c) => c.metadata.section)).toEqual(['greet', 'part'])
+      expect(code[0].content).toBe('def greet():\n    return "hi"')
+    })
+
+    it('should fall back to text when content does not parse as its format', async () => {
+      const chunks = await processor.processDocument('{not json', {}, { format: 'json' })
+
+      expect(chunks).toHaveLength(1)
+      expect(chunks[0].metadata.chunk_metadata.format).toBe('text')
+    })
+  })
+
   describe('processBatch', () => {
     it('should process multiple documents', async () => {
       const documents = [
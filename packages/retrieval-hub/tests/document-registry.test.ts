@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { DocumentRegistry, hashContent } from '../src/document-registry'
+import { RetrievalHub } from '../src/index'
+
+// Mock dependencies
+vi.mock('@promptdial/shared', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@promptdial/shared')>()
+  return {
+    ...actual,
+    createLogger: () => ({
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    }),
+    getTelemetryService: () => ({
+      recordMetric: vi.fn(),
+      recordLatency: vi.fn(),
+      incrementCounter: vi.fn(),
+    }),
+  }
+})
+
+const GUIDE = `# Guide
+
+## Install
+Run npm install to fetch the dependencies.
+
+## Configure
+Set PROMPTDIAL_API_KEY in your environment.
+
+## Deploy
+Push to main and the pipeline deploys to staging.`
+
+function entry(id: string, content: string, collection = 'default') {
+  return {
+    id,
+    collection,
+    content_hash: hashContent(content),
+    metadata: {},
+    chunk_ids: [`${id}_chunk_a`],
+  }
+}
+
+describe('DocumentRegistry', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'document-registry-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('should number versions and keep their history', async () => {
+    const registry = new DocumentRegistry()
+    await registry.record([entry('guide', 'v1')])
+    const [record] = await registry.record([entry('guide', 'v2')])
+
+    expect(record.version).toBe(2)
+    expect(record.content_hash).toBe(hashContent('v2'))
+    expect(record.versions.map(({ version, content_hash }) => [version, content_hash])).toEqual([
+      [1, hashContent('v1')],
+      [2, hashContent('v2')],
+    ])
+  })
+
+  it('should create collections as documents arrive and count their contents', async () => {
+    const registry = new DocumentRegistry()
+    await registry.createCollection('empty', 'Nothing yet')
+    await registry.record([entry('a', 'A', 'docs'), entry('b', 'B', 'docs')])
+
+    const collections = await registry.listCollections()
+    expect(
+      collections.map(({ name, document_count, chunk_count }) => [
+        name,
+        document_count,
+        chunk_count,
+      ]),
+    ).toEqual([
+      ['empty', 0, 0],
+      ['docs', 2, 2],
+    ])
+    expect((await registry.list('docs')).map(({ id }) => id)).toEqual(['a', 'b'])
+  })
+
+  it('should persist documents and collections across restarts', async () => {
+    const file = path.join(dir, 'registry.json')
+    await new DocumentRegistry(file).record([entry('guide', 'v1', 'docs')])
+
+    const reloaded = new DocumentRegistry(file)
+    expect(await reloaded.get('guide')).toMatchObject({ version: 1, collection: 'docs' })
+    expect(await reloaded.hasCollection('docs')).toBe(true)
+  })
+
+  it('should persist every one of overlapping writes', async () => {
+    const file = path.join(dir, 'registry.json')
+    const registry = new DocumentRegistry(file)
+
+    await Promise.all(['a', 'b', 'c'].map((id) => registry.record([entry(id, id, 'docs')])))
+
+    const reloaded = new DocumentRegistry(file)
+    expect((await reloaded.list('docs')).map(({ id }) => id)).toEqual(['a', 'b', 'c'])
+    expect(await fs.readdir(dir)).toEqual(['registry.json'])
+  })
+
+  it('should not rewrite its file when nothing was recorded', async () => {
+    const file = path.join(dir, 'registry.json')
+    const registry = new DocumentRegistry(file)
+
+    expect(await registry.record([])).toEqual([])
+    await expect(fs.access(file)).rejects.toThrow()
+  })
+})
+
+describe('RetrievalHub document versioning', () => {
+  let hub: RetrievalHub
+  let embed: ReturnType<typeof vi.spyOn>
+
+  const options = { chunkSize: 80, chunkOverlap: 0 }
+
+  beforeEach(() => {
+    hub = new RetrievalHub({ vectorStoreType: 'memory', enableCache: false })
+    embed = vi.spyOn((hub as any).vectorStore.embedder, 'embed')
+  })
+
+  it('should skip documents that have not changed', async () => {
+    const first = await hub.indexDocuments([{ content: GUIDE, metadata: { id: 'guide' } }], options)
+    embed.mockClear()
+    const second = await hub.indexDocuments(
+      [{ content: GUIDE, metadata: { id: 'guide' } }],
+      options,
+    )
+
+    expect(first).toMatchObject({ indexed: 1, unchanged: 0, chunks: 3, added_chunks: 3 })
+    expect(second).toMatchObject({ indexed: 0, unchanged: 1, chunks: 0, added_chunks: 0 })
+    expect(second.documents).toEqual([{ id: 'guide', collection: 'default', version: 1 }])
+    expect(embed).not.toHaveBeenCalled()
+  })
+
+  it('should replace only the chunks of a document that changed', async () => {
+    const first = await hub.indexDocuments([{ content: GUIDE, metadata: { id: 'guide' } }], options)
+    const before = (await hub.getDocument('guide'))!.chunk_ids
+    embed.mockClear()
+
+    const edited = GUIDE.replace('PROMPTDIAL_API_KEY', 'PROMPTDIAL_TOKEN')
+    const second = await hub.indexDocuments(
+      [{ content: edited, metadata: { id: 'guide' } }],
+      options,
+    )
+    const after = (await hub.getDocument('guide'))!
+
+    expect(second).toMatchObject({
+      indexed: 1,
+      chunks: first.chunks,
+      added_chunks: 1,
+      removed_chunks: 1,
+    })
+    expect(embed).toHaveBeenCalledTimes(1)
+    expect(embed.mock.calls[0][0]).toEqual([expect.stringContaining('PROMPTDIAL_TOKEN')])
+    expect(after.version).toBe(2)
+    expect(after.chunk_ids.filter((id) => !before.includes(id))).toHaveLength(1)
+
+    const stats = await hub.getStats()
+    expect(stats.vectorStore.documentCount).toBe(first.chunks)
+  })
+
+  it('should identify documents without an id by their content', async () => {
+    const first = await hub.indexDocuments([{ content: 'Same text' }])
+    const second = await hub.indexDocuments([{ content: 'Same text' }])
+
+    expect(second.unchanged).toBe(1)
+    expect(second.documents[0].id).toBe(first.documents[0].id)
+    expect((await hub.getStats()).vectorStore.documentCount).toBe(1)
+  })
+
+  it('should scope search and deletion to collections', async () => {
+    await hub.indexDocuments([{ content: 'Refunds take five days', metadata: { id: 'refunds' } }], {
+      collection: 'support',
+    })
+    await hub.indexDocuments([{ content: 'Refund policy draft', metadata: { id: 'draft' } }], {
+      collection: 'drafts',
+    })
+
+    const support = await hub.search({ query: 'refund', top_k: 5, collection: 'support' })
+    expect(support.documents.map(({ id }) => id)).toEqual([
+      expect.stringMatching(/^refunds_chunk_/),
+    ])
+
+    expect(await hub.deleteCollection('drafts')).toBe(true)
+    expect(await hub.deleteCollection('drafts')).toBe(false)
+    expect((await hub.listDocuments()).map(({ id }) => id)).toEqual(['refunds'])
+    expect((await hub.listCollections()).map(({ name }) => name)).toEqual(['support'])
+    expect((await hub.getStats()).vectorStore.documentCount).toBe(1)
+  })
+
+  it('should delete a document with all of its chunks', async () => {
+    await hub.indexDocuments([{ content: GUIDE, metadata: { id: 'guide' } }], options)
+    await hub.deleteDocument('guide')
+
+    expect(await hub.getDocument('guide')).toBeUndefined()
+    expect((await hub.getStats()).vectorStore.documentCount).toBe(0)
+  })
+})
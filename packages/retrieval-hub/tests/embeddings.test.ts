@@ -0,0 +1,224 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  CachedEmbeddingProvider,
+  EmbeddingProvider,
+  GoogleEmbeddingProvider,
+  HashingEmbeddingProvider,
+  OpenAIEmbeddingProvider,
+  createEmbeddingProvider,
+  describeEmbeddingProvider,
+  negotiateDimensions,
+} from '../src/embeddings'
+
+// Mock dependencies
+vi.mock('@promptdial/shared', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@promptdial/shared')>()
+  return {
+    ...actual,
+    createLogger: () => ({
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    }),
+  }
+})
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, val, i) => sum + val * b[i], 0)
+}
+
+function jsonResponse(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body), { status })
+}
+
+describe('negotiateDimensions', () => {
+  it('should shorten vectors only when the model supports it', () => {
+    expect(negotiateDimensions(undefined, 1536, true)).toBe(1536)
+    expect(negotiateDimensions(256, 1536, true)).toBe(256)
+    expect(negotiateDimensions(256, 1536, false)).toBe(1536)
+    expect(negotiateDimensions(4096, 1536, true)).toBe(1536)
+  })
+})
+
+describe('HashingEmbeddingProvider', () => {
+  const provider = new HashingEmbeddingProvider()
+
+  it('should produce deterministic unit vectors', async () => {
+    const [first, second] = await provider.embed(['Vector search', 'Vector search'])
+
+    expect(first).toHaveLength(384)
+    expect(first).toEqual(second)
+    expect(cosine(first, first)).toBeCloseTo(1)
+  })
+
+  it('should place texts with shared words closer together', async () => {
+    const [query, related, unrelated] = await provider.embed([
+      'training neural networks',
+      'how to train a neural network quickly',
+      'recipes for sourdough bread',
+    ])
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated))
+  })
+
+  it('should return a zero vector for text without words', async () => {
+    const [vector] = await provider.embed(['   '])
+    expect(vector.every((val) => val === 0)).toBe(true)
+  })
+})
+
+describe('OpenAIEmbeddingProvider', () => {
+  it('should request shortened vectors and keep input order', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      jsonResponse({
+        data: [
+          { index: 1, embedding: [0, 1] },
+          { index: 0, embedding: [1, 0] },
+        ],
+      }),
+    )
+    const provider = new OpenAIEmbeddingProvider({
+      api_key: 'sk-test',
+      dimensions: 2,
+      fetch: fetchMock,
+    })
+
+    const vectors = await provider.embed(['first', 'second'])
+
+    expect(vectors).toEqual([
+      [1, 0],
+      [0, 1],
+    ])
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(url).toBe('https://api.openai.com/v1/embeddings')
+    expect(init.headers.Authorization).toBe('Bearer sk-test')
+    expect(JSON.parse(init.body)).toEqual({
+      model: 'text-embedding-3-small',
+      input: ['first', 'second'],
+      dimensions: 2,
+    })
+  })
+
+  it('should reject vectors of an unexpected size', async () => {
+    const provider = new OpenAIEmbeddingProvider({
+      api_key: 'sk-test',
+      fetch: vi.fn().mockResolvedValue(jsonResponse({ data: [{ index: 0, embedding: [1] }] })),
+    })
+
+    await expect(provider.embed(['text'])).rejects.toThrow('expected 1536')
+  })
+
+  it('should surface HTTP errors', async () => {
+    const provider = new OpenAIEmbeddingProvider({
+      api_key: 'sk-test',
+      fetch: vi.fn().mockResolvedValue(jsonResponse({}, 429)),
+    })
+
+    await expect(provider.embed(['text'])).rejects.toThrow('failed with 429')
+  })
+})
+
+describe('GoogleEmbeddingProvider', () => {
+  it('should batch requests with the negotiated output size', async () => {
+    const fetchMock = vi.fn().mockImplementation(async (_url: string, init: RequestInit) => {
+      const { requests } = JSON.parse(init.body as string)
+      return jsonResponse({ embeddings: requests.map(() => ({ values: [0.6, 0.8] })) })
+    })
+    const provider = new GoogleEmbeddingProvider({
+      api_key: 'key',
+      dimensions: 2,
+      fetch: fetchMock,
+    })
+
+    const vectors = await provider.embed(Array.from({ length: 150 }, (_, i) => `text ${i}`))
+
+    expect(vectors).toHaveLength(150)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(url).toContain('models/text-embedding-004:batchEmbedContents')
+    expect(JSON.parse(init.body).requests[0]).toMatchObject({ outputDimensionality: 2 })
+  })
+})
+
+describe('CachedEmbeddingProvider', () => {
+  let inner: EmbeddingProvider
+  let embedSpy: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    inner = new HashingEmbeddingProvider({ dimensions: 8 })
+    embedSpy = vi.spyOn(inner, 'embed')
+  })
+
+  it('should only embed texts it has not seen', async () => {
+    const cached = new CachedEmbeddingProvider(inner)
+
+    await cached.embed(['a', 'b'])
+    const vectors = await cached.embed(['b', 'c', 'c'])
+
+    expect(vectors).toHaveLength(3)
+    expect(vectors[1]).toEqual(vectors[2])
+    expect(embedSpy).toHaveBeenLastCalledWith(['c'])
+    expect(cached.getCacheStats()).toEqual({ size: 3, hits: 2, misses: 3 })
+  })
+
+  it('should evict the least recently used entries', async () => {
+    const cached = new CachedEmbeddingProvider(inner, 2)
+
+    await cached.embed(['a', 'b'])
+    await cached.embed(['a'])
+    await cached.embed(['c'])
+    await cached.embed(['a'])
+
+    expect(cached.getCacheStats().size).toBe(2)
+    expect(embedSpy).toHaveBeenCalledTimes(2)
+  })
+
+  it('should describe the wrapped provider with its cache stats', () => {
+    expect(describeEmbeddingProvider(new CachedEmbeddingProvider(inner))).toEqual({
+      provider: 'local',
+      model: 'hashed-ngrams',
+      dimensions: 8,
+      cache: { size: 0, hits: 0, misses: 0 },
+    })
+  })
+})
+
+describe('createEmbeddingProvider', () => {
+  const originalEnv = { ...process.env }
+
+  afterEach(() => {
+    process.env = { ...originalEnv }
+  })
+
+  it('should default to cached local embeddings', () => {
+    delete process.env.PROMPTDIAL_EMBEDDING_PROVIDER
+    const provider = createEmbeddingProvider()
+
+    expect(provider).toBeInstanceOf(CachedEmbeddingProvider)
+    expect(provider.name).toBe('local')
+  })
+
+  it('should fall back to local embeddings without an API key', () => {
+    delete process.env.OPENAI_API_KEY
+    const provider = createEmbeddingProvider('openai', { dimensions: 128 })
+
+    expect(provider.name).toBe('local')
+    expect(provider.dimensions).toBe(128)
+  })
+
+  it('should read the provider and dimensions from the environment', () => {
+    process.env.PROMPTDIAL_EMBEDDING_PROVIDER = 'openai'
+    process.env.PROMPTDIAL_EMBEDDING_DIMENSIONS = '512'
+    process.env.OPENAI_API_KEY = 'sk-test'
+
+    const provider = createEmbeddingProvider()
+
+    expect(provider.name).toBe('openai')
+    expect(provider.dimensions).toBe(512)
+  })
+
+  it('should reject unknown providers', () => {
+    expect(() => createEmbeddingProvider('cohere' as any)).toThrow('Unknown embedding provider')
+  })
+})
@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { ExampleBank, ExampleInput } from '../src/example-bank'
+import { HashingEmbeddingProvider } from '../src/embeddings'
+import { RetrievalHub } from '../src/index'
+
+// Mock dependencies
+vi.mock('@promptdial/shared', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@promptdial/shared')>()
+  return {
+    ...actual,
+    createLogger: () => ({
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    }),
+    getTelemetryService: () => ({
+      recordMetric: vi.fn(),
+      recordLatency: vi.fn(),
+      incrementCounter: vi.fn(),
+    }),
+  }
+})
+
+const SEED: ExampleInput[] = [
+  {
+    id: 'speed',
+    task_type: 'math_reasoning',
+    domain: 'general',
+    question: 'A car travels 150 miles in 3 hours. What is its average speed?',
+    reasoning: 'Average speed is distance divided by time: 150 miles / 3 hours',
+    answer: '50 miles per hour',
+  },
+  {
+    id: 'speed-again',
+    task_type: 'math_reasoning',
+    domain: 'general',
+    question: 'A car travels 150 miles in 3 hours. What is its average speed in miles per hour?',
+    reasoning: 'Average speed is distance divided by time: 150 miles / 3 hours',
+    answer: '50 miles per hour',
+  },
+  {
+    id: 'interest',
+    task_type: 'math_reasoning',
+    domain: 'business',
+    question: 'What is $500 worth after 3 years at 4% interest compounded annually?',
+    reasoning: 'Compound interest multiplies the principal by 1.04 each year',
+    answer: '$562.43',
+  },
+  {
+    id: 'prime',
+    task_type: 'code_generation',
+    domain: 'technical',
+    question: 'Write a function to check if a number is prime',
+    reasoning: 'Try divisors from 2 up to the square root of the number',
+    answer: 'def is_prime(n): ...',
+  },
+]
+
+function createBank(bankPath?: string, seed: ExampleInput[] = SEED): ExampleBank {
+  return new ExampleBank({
+    index: new RetrievalHub({ vectorStoreType: 'memory', enableCache: false }),
+    embedder: new HashingEmbeddingProvider(),
+    path: bankPath,
+    seed,
+  })
+}
+
+describe('ExampleBank', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'example-bank-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('should start from the seed set at version 1', async () => {
+    const bank = createBank()
+    const { examples, bank_version } = await bank.list('math_reasoning')
+
+    expect(bank_version).toBe(1)
+    expect(examples.map(({ id }) => id)).toEqual(['speed', 'speed-again', 'interest'])
+    expect(examples.every(({ version }) => version === 1)).toBe(true)
+  })
+
+  it('should select examples of the requested task type closest to the query', async () => {
+    const bank = createBank()
+    const { examples } = await bank.select('How fast does a car go if it travels 150 miles?', {
+      task_type: 'math_reasoning',
+      k: 1,
+    })
+
+    expect(examples.map(({ id }) => id)).toEqual(['speed'])
+  })
+
+  it('should trade relevance for variety as diversity rises', async () => {
+    const bank = createBank()
+    const query = 'A car travels 150 miles in 3 hours. What is its average speed?'
+
+    const focused = await bank.select(query, { task_type: 'math_reasoning', k: 2, diversity: 0 })
+    const varied = await bank.select(query, { task_type: 'math_reasoning', k: 2, diversity: 0.9 })
+
+    expect(focused.examples.map(({ id }) => id)).toEqual(['speed', 'speed-again'])
+    expect(varied.examples.map(({ id }) => id)).toEqual(['speed', 'interest'])
+  })
+
+  it('should fill in from other task types when the requested one runs out', async () => {
+    const bank = createBank()
+    const { examples } = await bank.select('check whether a number is prime', {
+      task_type: 'code_generation',
+      k: 3,
+    })
+
+    expect(examples[0].id).toBe('prime')
+    expect(examples).toHaveLength(3)
+  })
+
+  it('should version revisions and keep the history', async () => {
+    const bank = createBank()
+
+    const unchanged = await bank.upsert([SEED[3]])
+    expect(unchanged.bank_version).toBe(1)
+
+    const revised = await bank.upsert([{ ...SEED[3], answer: 'def is_prime(n): return ...' }])
+    expect(revised.bank_version).toBe(2)
+    expect(revised.examples[0].version).toBe(2)
+
+    const history = await bank.getHistory('prime')
+    expect(history.map(({ version, answer }) => [version, answer])).toEqual([
+      [1, 'def is_prime(n): ...'],
+      [2, 'def is_prime(n): return ...'],
+    ])
+  })
+
+  it('should search the latest version of a revised example', async () => {
+    const bank = createBank()
+    await bank.upsert([
+      { ...SEED[3], question: 'Write a function that sorts a list with merge sort' },
+    ])
+
+    const { examples } = await bank.select('merge sort a list', { task_type: 'code_generation' })
+    expect(examples[0]).toMatchObject({ id: 'prime', version: 2 })
+  })
+
+  it('should persist examples and history across restarts', async () => {
+    const bankPath = path.join(dir, 'bank.json')
+    await createBank(bankPath).upsert([
+      {
+        id: 'summary',
+        task_type: 'summarization',
+        question: 'Summarize the meeting notes',
+        reasoning: 'Keep the decision and who acts on it',
+        answer: 'Launch moves to June',
+      },
+    ])
+
+    const reloaded = createBank(bankPath, [])
+    const { examples, bank_version } = await reloaded.list('summarization')
+
+    expect(bank_version).toBe(2)
+    expect(examples.map(({ id }) => id)).toEqual(['summary'])
+    expect((await reloaded.select('meeting notes summary', { k: 1 })).examples[0].id).toBe(
+      'summary',
+    )
+  })
+
+  it('should persist every one of overlapping revisions', async () => {
+    const bankPath = path.join(dir, 'bank.json')
+    const bank = createBank(bankPath)
+
+    await Promise.all(
+      ['first', 'second', 'third'].map((answer) =>
+        bank.upsert([{ ...SEED[0], id: `notes-${answer}`, answer }]),
+      ),
+    )
+
+    const { examples } = await createBank(bankPath, []).list(SEED[0].task_type)
+    expect(examples.map(({ id }) => id)).toEqual(
+      expect.arrayContaining(['notes-first', 'notes-second', 'notes-third']),
+    )
+    expect(await fs.readdir(dir)).toEqual(['bank.json'])
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import { createTestDocument } from '@promptdial/shared'
+import { matchesFilters, validateFilters } from '../src/filters'
+
+const doc = createTestDocument({
+  metadata: {
+    source: 'guide.md',
+    year: 2023,
+    published: '2023-06-01',
+    tags: ['math', 'tutorial'],
+    'legacy.key': 'kept',
+    chunk_metadata: { format: 'markdown', page: 2 },
+  },
+})
+
+describe('matchesFilters', () => {
+  it('should match plain values by equality', () => {
+    expect(matchesFilters(doc, { source: 'guide.md', year: 2023 })).toBe(true)
+    expect(matchesFilters(doc, { source: 'guide.md', year: 2024 })).toBe(false)
+    expect(matchesFilters(doc, {})).toBe(true)
+  })
+
+  it('should match array fields that contain the value', () => {
+    expect(matchesFilters(doc, { tags: 'math' })).toBe(true)
+    expect(matchesFilters(doc, { tags: ['math', 'tutorial'] })).toBe(true)
+    expect(matchesFilters(doc, { tags: { $in: ['news', 'tutorial'] } })).toBe(true)
+    expect(matchesFilters(doc, { tags: { $nin: ['math'] } })).toBe(false)
+  })
+
+  it('should support $ne, $in and $nin, treating missing fields as not equal', () => {
+    expect(matchesFilters(doc, { source: { $ne: 'other.md' } })).toBe(true)
+    expect(matchesFilters(doc, { author: { $ne: 'Ada' } })).toBe(true)
+    expect(matchesFilters(doc, { source: { $in: ['a.md', 'guide.md'] } })).toBe(true)
+    expect(matchesFilters(doc, { source: { $nin: ['a.md', 'guide.md'] } })).toBe(false)
+  })
+
+  it('should compare ranges of numbers and of strings but not across types', () => {
+    expect(matchesFilters(doc, { year: { $gte: 2020, $lt: 2024 } })).toBe(true)
+    expect(matchesFilters(doc, { year: { $gt: 2023 } })).toBe(false)
+    expect(matchesFilters(doc, { published: { $gte: '2023-01-01', $lte: '2023-12-31' } })).toBe(
+      true,
+    )
+    expect(matchesFilters(doc, { year: { $gt: '2000' } })).toBe(false)
+    expect(matchesFilters(doc, { missing: { $lt: 5 } })).toBe(false)
+  })
+
+  it('should check existence', () => {
+    expect(matchesFilters(doc, { year: { $exists: true }, author: { $exists: false } })).toBe(true)
+    expect(matchesFilters(doc, { author: { $exists: true } })).toBe(false)
+  })
+
+  it('should follow dotted paths, preferring a literal key', () => {
+    expect(matchesFilters(doc, { 'chunk_metadata.format': 'markdown' })).toBe(true)
+    expect(matchesFilters(doc, { 'chunk_metadata.page': { $gt: 1 } })).toBe(true)
+    expect(matchesFilters(doc, { 'chunk_metadata.section.title': 'x' })).toBe(false)
+    expect(matchesFilters(doc, { 'legacy.key': 'kept' })).toBe(true)
+  })
+
+  it('should combine filters with $and and $or', () => {
+    const filter = {
+      $or: [{ year: { $lt: 2000 } }, { $and: [{ tags: 'math' }, { source: { $ne: 'x.md' } }] }],
+    }
+
+    expect(matchesFilters(doc, filter)).toBe(true)
+    expect(matchesFilters(doc, { ...filter, year: 1999 })).toBe(false)
+  })
+})
+
+describe('validateFilters', () => {
+  it('should accept well-formed filters', () => {
+    expect(
+      validateFilters({
+        source: 'a.md',
+        nested: { plain: 'object' },
+        $or: [{ year: { $gte: 2020 } }, { tags: { $in: ['x'] }, author: { $exists: true } }],
+      }),
+    ).toBeNull()
+  })
+
+  it('should name the offending clause', () => {
+    expect(validateFilters([])).toBe('filters must be an object')
+    expect(validateFilters({ $not: {} })).toMatch(/^Unsupported filter operator: \$not/)
+    expect(validateFilters({ year: { $regex: 'x' } })).toMatch(
+      /^Unsupported filter operator: \$regex at filters\.year/,
+    )
+    expect(validateFilters({ tags: { $in: 'math' } })).toBe('filters.tags.$in must be an array')
+    expect(validateFilters({ year: { $gt: null } })).toBe(
+      'filters.year.$gt must be a number or string',
+    )
+    expect(validateFilters({ $or: [] })).toBe('filters.$or must be a non-empty array of filters')
+    expect(validateFilters({ $and: [{ a: 1 }, { b: { $exists: 1 } }] })).toBe(
+      'filters.$and[1].b.$exists must be a boolean',
+    )
+  })
+})
@@ -0,0 +1,207 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  detectFormat,
+  htmlToMarkdown,
+  parseCode,
+  parseCsv,
+  parseDocument,
+  parseJson,
+  parseJsonl,
+  parseMarkdown,
+} from '../src/formats'
+
+// Mock dependencies
+vi.mock('@promptdial/shared', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@promptdial/shared')>()
+  return {
+    ...actual,
+    createLogger: () => ({
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    }),
+  }
+})
+
+describe('detectFormat', () => {
+  it('should prefer the declared format, then the file extension', () => {
+    expect(detectFormat('# Title', { format: 'text' })).toBe('text')
+    expect(detectFormat('a,b', { source: 'exports/users.csv' })).toBe('csv')
+    expect(detectFormat('def f(): pass', { filename: 'tool.py' })).toBe('code')
+    expect(detectFormat('<p>x</p>', { url: 'https://example.com/page.html?x=1' })).toBe('html')
+  })
+
+  it('should sniff the content otherwise', () => {
+    expect(detectFormat('<!DOCTYPE html><html></html>')).toBe('html')
+    expect(detectFormat('[{"a": 1}]')).toBe('json')
+    expect(detectFormat('{"a": 1}\n{"a": 2}')).toBe('jsonl')
+    expect(detectFormat('Intro\n\n## Setup\nSteps')).toBe('markdown')
+    expect(detectFormat('Just a sentence. [1] Citation.')).toBe('text')
+  })
+})
+
+describe('parseMarkdown', () => {
+  const markdown = `Intro line.
+
+# Guide
+Overview.
+
+## Install
+Run the installer.
+
+\`\`\`sh
+# not a heading
+npm test
+\`\`\`
+
+## Usage
+${'Call it with care. '.repeat(8)}`
+
+  it('should keep a heading and its subsections together when they fit', () => {
+    const sections = parseMarkdown(markdown, { chunkSize: 1000 })
+
+    expect(sections.map((s) => s.title)).toEqual(['Document', 'Guide'])
+    expect(sections[1].content).toContain('## Usage')
+  })
+
+  it('should split oversized subtrees along the heading tree', () => {
+    const sections = parseMarkdown(markdown, { chunkSize: 120 })
+
+    expect(sections.map((s) => s.title)).toEqual([
+      'Document',
+      'Guide',
+      'Guide > Install',
+      'Guide > Usage',
+    ])
+    expect(sections[2].context).toBe('# Guide\n## Install')
+    expect(sections[2].content).toContain('# not a heading')
+    expect(markdown.slice(sections[2].start, sections[2].end)).toBe(sections[2].content)
+  })
+})
+
+describe('htmlToMarkdown', () => {
+  it('should strip tags while keeping headings, lists, tables and preformatted text', () => {
+    const html = `<html><head><title>Ignored</title><style>p { color: red }</style></head>
+      <body><h1>Tips &amp; tricks</h1><p>Use <b>bold</b> text.</p>
+      <ul><li>one</li><li>two</li></ul>
+      <table><tr><td>a</td><td>b</td></tr></table>
+      <script>alert(1)</script>
+      <pre>  indented &lt;code&gt;</pre></body></html>`
+
+    expect(htmlToMarkdown(html)).toBe(
+      '# Tips & tricks\n\nUse bold text.\n\n- one\n- two\n\na | b\n\n```\n  indented <code>\n```',
+    )
+  })
+})
+
+describe('parseJson', () => {
+  it('should make one section per array element with its source span', () => {
+    const json =
+      '[\n  {"input": "2+2", "output": "4", "tags": ["math"]},\n  {"input": "a \\"]\\""}\n]'
+    const sections = parseJson(json)
+
+    expect(sections).toHaveLength(2)
+    expect(sections[0]).toMatchObject({
+      title: '$[0]',
+      content: 'input: 2+2\noutput: 4\ntags: math',
+    })
+    expect(JSON.parse(json.slice(sections[1].start, sections[1].end))).toEqual({ input: 'a "]"' })
+  })
+
+  it('should flatten nested objects into paths', () => {
+    expect(parseJson('{"user": {"name": "Ada", "roles": ["admin"]}}')[0].content).toBe(
+      'user.name: Ada\nuser.roles: admin',
+    )
+  })
+})
+
+describe('parseJsonl', () => {
+  it('should keep lines that are not JSON as they are', () => {
+    const sections = parseJsonl('{"q": "hi"}\n\nnot json\n')
+
+    expect(sections.map((s) => [s.title, s.content])).toEqual([
+      ['line 1', 'q: hi'],
+      ['line 3', 'not json'],
+    ])
+  })
+})
+
+describe('parseCsv', () => {
+  it('should name each value with its header and honour quoting', () => {
+    const csv = 'name,answer\r\n"Smith, J","said ""hi""\nthen left"\r\nDoe,42\n'
+    const sections = parseCsv(csv)
+
+    expect(sections.map((s) => s.content)).toEqual([
+      'name: Smith, J\nanswer: said "hi"\nthen left',
+      'name: Doe\nanswer: 42',
+    ])
+    expect(csv.slice(sections[1].start, sections[1].end)).toBe('Doe,42')
+  })
+
+  it('should detect the delimiter', () => {
+    expect(parseCsv('a;b\n1;2')[0].content).toBe('a: 1\nb: 2')
+  })
+})
+
+describe('parseCode', () => {
+  const source = `import { db } from './db'
+
+/** Adds two numbers */
+export function add(a: number, b: number) {
+  return a + b
+}
+
+export class Account {
+  private balance = 0
+
+  // Adds funds
+  deposit(amount: number) {
+    this.balance += amount
+  }
+
+  withdraw(amount: number) {
+    this.balance -= amount
+  }
+}
+`
+
+  it('should split at top-level declarations with their comments', () => {
+    const sections = parseCode(source, { chunkSize: 1000, language: 'ts' })
+
+    expect(sections.map((s) => s.title)).toEqual(['preamble', 'add', 'Account'])
+    expect(sections[1].content).toMatch(/^\/\*\* Adds two numbers \*\/\nexport function add/)
+  })
+
+  it('should split oversized classes at their members', () => {
+    const sections = parseCode(source, { chunkSize: 100, language: 'ts' })
+
+    expect(sections.map((s) => s.title)).toEqual([
+      'preamble',
+      'add',
+      'Account',
+      'Account.deposit',
+      'Account.withdraw',
+    ])
+    expect(sections[3].context).toBe('export class Account {')
+    expect(sections[3].content).toMatch(/^\/\/ Adds funds/)
+  })
+
+  it('should handle Python definitions and decorators', () => {
+    const python =
+      'import os\n\n@cache\ndef load(path):\n    return path\n\nclass Store:\n    pass\n'
+
+    expect(parseCode(python, { chunkSize: 1000, language: 'python' }).map((s) => s.title)).toEqual([
+      'preamble',
+      'load',
+      'Store',
+    ])
+  })
+})
+
+describe('parseDocument', () => {
+  it('should return null for text and for content that does not parse', () => {
+    expect(parseDocument('plain', 'text', { chunkSize: 100 })).toBeNull()
+    expect(parseDocument('{broken', 'json', { chunkSize: 100 })).toBeNull()
+  })
+})
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { fuseRankings, reciprocalRankFusion, weightedFusion } from '../src/fusion'
+
+const vector = [
+  { id: 'a', score: 0.9 },
+  { id: 'b', score: 0.8 },
+  { id: 'c', score: 0.1 },
+]
+const keyword = [
+  { id: 'c', score: 12 },
+  { id: 'a', score: 3 },
+]
+
+describe('reciprocalRankFusion', () => {
+  it('should favour ids ranked well in several lists', () => {
+    const fused = reciprocalRankFusion([vector, keyword], 60)
+
+    expect(fused.map((r) => r.id)).toEqual(['a', 'c', 'b'])
+    expect(fused[0].score).toBeCloseTo(1 / 61 + 1 / 62)
+  })
+})
+
+describe('weightedFusion', () => {
+  it('should normalize each list before weighting', () => {
+    const fused = weightedFusion([vector, keyword], [0.5, 0.5])
+    const scores = Object.fromEntries(fused.map((r) => [r.id, r.score]))
+
+    expect(scores.a).toBeCloseTo(0.5)
+    expect(scores.c).toBeCloseTo(0.5)
+    expect(scores.b).toBeCloseTo(0.5 * (0.7 / 0.8))
+  })
+})
+
+describe('fuseRankings', () => {
+  it('should default to reciprocal-rank fusion', () => {
+    expect(fuseRankings(vector, keyword)).toEqual(reciprocalRankFusion([vector, keyword]))
+  })
+
+  it('should clamp the vector weight', () => {
+    const fused = fuseRankings(vector, keyword, { method: 'weighted', vector_weight: 2 })
+    expect(fused.map((r) => r.id)).toEqual(['a', 'b', 'c'])
+  })
+})
@@ -6,14 +6,19 @@ import {
   handleIndexRequest,
   handleSearchRequest,
   handleIRCoTRequest,
+  handleExampleSelectRequest,
+  handleExampleUpsertRequest,
+  handleCollectionCreateRequest,
 } from '../src/index'
 import {
   createTestServiceRequest,
   createTestDocument,
   createTestRetrievalQuery,
   createTestRetrievalResult,
+  RetrievalTechnique,
 } from '@promptdial/shared'
 import type { Document, RetrievalQuery, RetrievalResult } from '@promptdial/shared'
+import type { SourceDocument } from '../src/document-processor'
 
 // Mock dependencies
 vi.mock('@promptdial/shared', async (importOriginal) => {
@@ -51,7 +56,20 @@ vi.mock('../src/vector-store', () => ({
       total_results: 1,
       query_time_ms: 25,
     }),
+    get: vi.fn().mockResolvedValue(undefined),
     delete: vi.fn().mockResolvedValue(undefined),
+    list: vi.fn().mockResolvedValue([
+      {
+        id: 'doc1',
+        content: 'Test document content',
+        metadata: { source: 'test.txt' },
+      },
+      {
+        id: 'code1',
+        content: 'Call getUserById to load a user record',
+        metadata: { source: 'api.md' },
+      },
+    ]),
     getStats: vi.fn().mockResolvedValue({
       documentCount: 10,
       indexSize: 1024,
@@ -70,18 +88,17 @@ vi.mock('../src/document-processor', () => ({
         metadata: { chunk_index: 0 },
       },
     ]),
-    processBatch: vi.fn().mockResolvedValue([
-      {
-        id: 'chunk1',
-        content: 'Processed chunk 1',
-        metadata: { chunk_index: 0 },
-      },
-      {
-        id: 'chunk2',
-        content: 'Processed chunk 2',
-        metadata: { chunk_index: 1 },
-      },
-    ]),
+    processBatch: vi.fn().mockImplementation(async (documents: SourceDocument[]) =>
+      documents.map((doc, index) => ({
+        id: `${doc.metadata?.id}_chunk_0`,
+        content: `Processed chunk ${index + 1}`,
+        metadata: {
+          ...doc.metadata,
+          chunk_index: 0,
+          chunk_metadata: { source_doc_id: doc.metadata?.id },
+        },
+      })),
+    ),
   })),
 }))
 
@@ -102,15 +119,23 @@ describe('RetrievalHub', () => {
 
       const result = await hub.indexDocuments(documents)
 
-      expect(result).toEqual({
+      expect(result).toMatchObject({
         indexed: 2,
+        unchanged: 0,
         chunks: 2,
+        added_chunks: 2,
+        removed_chunks: 0,
       })
 
       // Should process documents and index them
       const mockProcessor = (hub as any).documentProcessor
       expect(mockProcessor.processBatch).toHaveBeenCalledWith(
-        documents,
+        documents.map((doc) =>
+          expect.objectContaining({
+            content: doc.content,
+            metadata: expect.objectContaining(doc.metadata),
+          }),
+        ),
         expect.objectContaining({
           chunkSize: expect.any(Number),
           chunkOverlap: expect.any(Number),
@@ -133,7 +158,7 @@ describe('RetrievalHub', () => {
 
       const mockProcessor = (hub as any).documentProcessor
       expect(mockProcessor.processBatch).toHaveBeenCalledWith(
-        documents,
+        [expect.objectContaining({ content: 'Test document' })],
         expect.objectContaining(options),
       )
     })
@@ -203,6 +228,163 @@ describe('RetrievalHub', () => {
       // Should highlight keywords (case insensitive match)
       expect(result.documents[0].content).toContain('**Test**')
     })
+
+    it('should find exact identifiers with keyword search', async () => {
+      const result = await hub.search({
+        query: 'getUserById',
+        top_k: 5,
+        technique: RetrievalTechnique.KEYWORD,
+        include_metadata: true,
+      })
+
+      expect(result.documents.map((d) => d.id)).toEqual(['code1'])
+      expect(result.documents[0].metadata).toEqual({ source: 'api.md' })
+      expect((hub as any).vectorStore.search).not.toHaveBeenCalled()
+    })
+
+    it('should apply filters to keyword search', async () => {
+      const result = await hub.search({
+        query: 'user document',
+        top_k: 5,
+        technique: RetrievalTechnique.KEYWORD,
+        filters: { $or: [{ source: { $in: ['test.txt'] } }, { author: { $exists: true } }] },
+      })
+
+      expect(result.documents.map((d) => d.id)).toEqual(['doc1'])
+    })
+
+    it('should fuse vector and keyword results in hybrid search', async () => {
+      const result = await hub.search({
+        query: 'getUserById',
+        top_k: 5,
+        technique: RetrievalTechnique.HYBRID,
+      })
+
+      expect(result.documents.map((d) => d.id).sort()).toEqual(['code1', 'doc1'])
+      expect(result.total_results).toBe(2)
+      expect((hub as any).vectorStore.search).toHaveBeenCalledWith(
+        expect.objectContaining({ top_k: 20 }),
+      )
+    })
+
+    it('should weight hybrid results towards the chosen retriever', async () => {
+      const result = await hub.search({
+        query: 'getUserById',
+        top_k: 5,
+        technique: RetrievalTechnique.HYBRID,
+        fusion: { method: 'weighted', vector_weight: 0.2 },
+      })
+
+      expect(result.documents[0].id).toBe('code1')
+    })
+
+    it('should keep newly indexed chunks in the keyword index', async () => {
+      await hub.search({ query: 'warmup', top_k: 1, technique: RetrievalTechnique.KEYWORD })
+      await hub.indexDocuments([{ content: 'Processed chunk 1' }])
+
+      const result = await hub.search({
+        query: 'processed',
+        top_k: 5,
+        technique: RetrievalTechnique.KEYWORD,
+      })
+
+      expect(result.documents.map((d) => d.id)).toEqual([
+        expect.stringMatching(/^doc_[0-9a-f]{16}_chunk_[0-9a-f]{12}$/),
+      ])
+    })
+
+    it('should cache results per technique', async () => {
+      hub = new RetrievalHub({ enableCache: true })
+
+      await hub.search({ query: 'getUserById', top_k: 5 })
+      const keyword = await hub.search({
+        query: 'getUserById',
+        top_k: 5,
+        technique: RetrievalTechnique.KEYWORD,
+      })
+
+      expect(keyword.documents.map((d) => d.id)).toEqual(['code1'])
+    })
+
+    describe('reranking', () => {
+      beforeEach(() => {
+        const candidates: RetrievalResult = {
+          documents: [
+            { id: 'intro', content: 'An introduction', score: 0.9, metadata: {} },
+            { id: 'guide', content: 'How to rotate an API key', score: 0.5, metadata: {} },
+          ],
+          total_results: 2,
+          query_time_ms: 5,
+        }
+        ;(hub as any).vectorStore.search.mockResolvedValueOnce(candidates)
+      })
+
+      it('should rerank a wider candidate set and trim it to top_k', async () => {
+        const result = await hub.search({
+          query: 'rotate api key',
+          top_k: 1,
+          rerank: { method: 'lexical' },
+        })
+
+        expect(result.documents.map((d) => d.id)).toEqual(['guide'])
+        expect(result.documents[0].metadata).toBeUndefined()
+        expect((hub as any).vectorStore.search).toHaveBeenCalledWith(
+          expect.objectContaining({ top_k: 3, include_metadata: true }),
+        )
+      })
+
+      it('should honour top_n', async () => {
+        await hub.search({ query: 'rotate', top_k: 1, rerank: { method: 'lexical', top_n: 10 } })
+
+        expect((hub as any).vectorStore.search).toHaveBeenCalledWith(
+          expect.objectContaining({ top_k: 10 }),
+        )
+      })
+
+      it('should treat filters.rerank as a lexical rerank rather than a filter', async () => {
+        const result = await hub.search({
+          query: 'rotate api key',
+          top_k: 2,
+          filters: { rerank: true },
+        })
+
+        expect(result.documents[0].id).toBe('guide')
+        expect((hub as any).vectorStore.search).toHaveBeenCalledWith(
+          expect.objectContaining({ filters: {} }),
+        )
+      })
+
+      it('should use registered rerankers', async () => {
+        hub.registerReranker({
+          name: 'reverse',
+          rerank: async (_query, documents) => [...documents].reverse(),
+        })
+
+        const result = await hub.search({
+          query: 'anything',
+          top_k: 2,
+          rerank: { method: 'reverse' },
+        })
+
+        expect(result.documents.map((d) => d.id)).toEqual(['guide', 'intro'])
+        expect(hub.getRerankerNames()).toContain('reverse')
+      })
+
+      it('should keep the first-stage order when the reranker fails', async () => {
+        hub.registerReranker({
+          name: 'lexical',
+          rerank: vi.fn().mockRejectedValue(new Error('judge unavailable')),
+        })
+
+        const result = await hub.search({
+          query: 'rotate api key',
+          top_k: 2,
+          rerank: { method: 'lexical' },
+        })
+
+        expect(result.documents.map((d) => d.id)).toEqual(['intro', 'guide'])
+      })
+    })
   })
 
   describe('retrieveForIRCoT', () => {
@@ -265,7 +447,7 @@ describe('RetrievalHub', () => {
       expect(mockStore.search).toHaveBeenCalledWith({
         query: '',
         top_k: 1000,
-        filters: { source_doc_id: 'doc123' },
+        filters: { 'chunk_metadata.source_doc_id': 'doc123' },
       })
 
       // Should delete each chunk
@@ -343,7 +525,7 @@ describe('Service API', () => {
       const response = await handleIndexRequest(request)
 
       expect(response.success).toBe(true)
-      expect(response.data).toEqual({
+      expect(response.data).toMatchObject({
         indexed: 2,
         chunks: 2,
       })
@@ -363,6 +545,17 @@ describe('Service API', () => {
       expect(response.error).toBeDefined()
       expect(response.error?.code).toBe('INTERNAL_ERROR')
     })
+
+    it('should reject unknown document formats', async () => {
+      const request = createTestServiceRequest({
+        documents: [{ content: 'a,b', format: 'xlsx' }],
+      })
+
+      const response = await handleIndexRequest(request as any)
+
+      expect(response.error).toMatchObject({ code: 'INVALID_PARAMETERS', retryable: false })
+      expect(response.error?.message).toContain('Unsupported document format: xlsx')
+    })
   })
 
   describe('handleSearchRequest', () => {
@@ -392,6 +585,97 @@ describe('Service API', () => {
       expect(response.success).toBe(false)
       expect(response.error?.code).toBe('INTERNAL_ERROR')
     })
+
+    it('should reject unsupported techniques and fusion methods', async () => {
+      const multiModal = await handleSearchRequest(
+        createTestServiceRequest(
+          createTestRetrievalQuery({ technique: RetrievalTechnique.MULTI_MODAL }),
+        ),
+      )
+      const fusion = await handleSearchRequest(
+        createTestServiceRequest(
+          createTestRetrievalQuery({
+            technique: RetrievalTechnique.HYBRID,
+            fusion: { method: 'max' } as any,
+          }),
+        ),
+      )
+
+      expect(multiModal.error).toMatchObject({
+        code: 'INVALID_PARAMETERS',
+        message: 'Unsupported retrieval technique: multi_modal',
+        retryable: false,
+      })
+      expect(fusion.error?.message).toBe('Unsupported fusion method: max')
+    })
+
+    it('should reject unknown rerankers and invalid candidate counts', async () => {
+      const unknown = await handleSearchRequest(
+        createTestServiceRequest(createTestRetrievalQuery({ rerank: { method: 'cross_encoder' } })),
+      )
+      const topN = await handleSearchRequest(
+        createTestServiceRequest(
+          createTestRetrievalQuery({ rerank: { method: 'lexical', top_n: 0 } }),
+        ),
+      )
+
+      expect(unknown.error?.message).toBe('Unsupported reranker: cross_encoder')
+      expect(topN.error?.message).toBe('rerank.top_n must be a positive integer')
+    })
+
+    it('should reject an invalid collection', async () => {
+      const response = await handleSearchRequest(
+        createTestServiceRequest(createTestRetrievalQuery({ collection: 'a b' })),
+      )
+
+      expect(response.error?.code).toBe('INVALID_PARAMETERS')
+      expect(response.error?.message).toMatch(/^Invalid collection name: a b/)
+    })
+
+    it('should reject malformed filters', async () => {
+      const response = await handleSearchRequest(
+        createTestServiceRequest(
+          createTestRetrievalQuery({ filters: { year: { $between: [2020, 2024] } } }),
+        ),
+      )
+
+      expect(response.error?.code).toBe('INVALID_PARAMETERS')
+      expect(response.error?.message).toMatch(/^Unsupported filter operator: \$between/)
+    })
+  })
+
+  describe('handleExampleSelectRequest', () => {
+    it('should reject invalid selection options', async () => {
+      const response = await handleExampleSelectRequest(
+        createTestServiceRequest({ query: 'average speed', diversity: 2 }),
+      )
+
+      expect(response.success).toBe(false)
+      expect(response.error?.code).toBe('INVALID_PARAMETERS')
+      expect(response.error?.message).toBe('diversity must be between 0 and 1')
+    })
+  })
+
+  describe('handleExampleUpsertRequest', () => {
+    it('should name the missing field of an example', async () => {
+      const response = await handleExampleUpsertRequest(
+        createTestServiceRequest({ examples: [{ id: 'ex1', question: 'Q', answer: 'A' }] }),
+      )
+
+      expect(response.error?.code).toBe('INVALID_PARAMETERS')
+      expect(response.error?.message).toBe('examples[0].reasoning must be a non-empty string')
+    })
+  })
+
+  describe('handleCollectionCreateRequest', () => {
+    it('should reject collection names unsafe for metadata and URLs', async () => {
+      const response = await handleCollectionCreateRequest(
+        createTestServiceRequest({ name: '../support' }),
+      )
+
+      expect(response.error?.code).toBe('INVALID_PARAMETERS')
+      expect(response.error?.message).toMatch(/^Invalid collection name: \.\.\/support/)
+    })
   })
 
   describe('handleIRCoTRequest', () => {
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest'
+import { cosineSimilarity, maximalMarginalRelevance } from '../src/mmr'
+
+const candidates = [
+  { id: 'a', relevance: 0.9, embedding: [1, 0, 0] },
+  { id: 'a-copy', relevance: 0.89, embedding: [1, 0, 0] },
+  { id: 'b', relevance: 0.7, embedding: [0, 1, 0] },
+  { id: 'c', relevance: 0.2, embedding: [0, 0, 1] },
+]
+
+describe('maximalMarginalRelevance', () => {
+  it('should rank by relevance alone when lambda is 1', () => {
+    const ids = maximalMarginalRelevance(candidates, 3, 1).map(({ id }) => id)
+    expect(ids).toEqual(['a', 'a-copy', 'b'])
+  })
+
+  it('should skip near-duplicates of what it already took', () => {
+    const ids = maximalMarginalRelevance(candidates, 3, 0.5).map(({ id }) => id)
+    expect(ids).toEqual(['a', 'b', 'c'])
+  })
+
+  it('should return every candidate when asked for more than there are', () => {
+    expect(maximalMarginalRelevance(candidates, 10)).toHaveLength(4)
+    expect(maximalMarginalRelevance([], 3)).toEqual([])
+  })
+})
+
+describe('cosineSimilarity', () => {
+  it('should be 1 for parallel vectors, 0 for orthogonal or empty ones', () => {
+    expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1)
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0)
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0)
+  })
+})
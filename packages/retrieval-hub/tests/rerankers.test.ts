@@ -0,0 +1,251 @@
+import { describe, it, expect, vi } from 'vitest'
+import { BM25Index } from '../src/bm25'
+import {
+  LLMJudgeReranker,
+  LexicalReranker,
+  RankedDocument,
+  createDefaultRerankerRegistry,
+  extractLexicalFeatures,
+  minimumWindow,
+  parseJudgeScore,
+  queryTerms,
+} from '../src/rerankers'
+
+// Mock dependencies
+vi.mock('@promptdial/shared', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@promptdial/shared')>()
+  return {
+    ...actual,
+    createLogger: () => ({
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    }),
+  }
+})
+
+// Small labelled corpus: each relevant passage is long and matches every query
+// term once, while short distractors repeat a single term, which BM25's length
+// normalization favours
+const CORPUS = [
+  {
+    id: 'reset-password',
+    content:
+      'Open Settings, pick the Security tab, then choose reset password. We email a link ' +
+      'that stays valid for one hour; follow it and pick something you have not used before.',
+    metadata: { title: 'Reset your password' },
+  },
+  {
+    id: 'password-policy',
+    content: 'Password rules: twelve characters per password.',
+    metadata: { title: 'Password policy' },
+  },
+  {
+    id: 'router',
+    content: 'Router reset: hold reset, then reset again.',
+    metadata: { title: 'Router troubleshooting' },
+  },
+  {
+    id: 'rate-limits',
+    content:
+      'Every API key is allowed a fixed rate limit per minute. Requests beyond it are ' +
+      'rejected with status 429 and a Retry-After header telling clients when to resume.',
+    metadata: { title: 'API rate limits' },
+  },
+  {
+    id: 'api-keys',
+    content: 'API keys: rotate API keys often.',
+    metadata: { title: 'Managing API keys' },
+  },
+  {
+    id: 'quotas',
+    content: 'Seat limit and storage limit per plan.',
+    metadata: { title: 'Plan quotas' },
+  },
+  {
+    id: 'export-csv',
+    content:
+      'From the Reports page you can export data to CSV with the Export button; large ' +
+      'workspaces receive the file by email once it has been generated in the background.',
+    metadata: { title: 'Export data to CSV' },
+  },
+  {
+    id: 'csv-import',
+    content: 'CSV import: CSV needs a header row.',
+    metadata: { title: 'Importing CSV files' },
+  },
+  {
+    id: 'retention',
+    content: 'Data retention: data kept 90 days.',
+    metadata: { title: 'Data retention' },
+  },
+]
+
+const QUERIES = [
+  { query: 'reset password', relevant: ['reset-password'] },
+  { query: 'api rate limit', relevant: ['rate-limits'] },
+  { query: 'export data to csv', relevant: ['export-csv'] },
+]
+
+function firstStage(query: string, depth: number = 5): RankedDocument[] {
+  const index = new BM25Index()
+  index.addBatch(CORPUS)
+  return index.search(query, depth).map(({ id, score }) => {
+    const doc = index.get(id)!
+    return { id, content: doc.content, score, metadata: doc.metadata }
+  })
+}
+
+function recallAtK(ranked: RankedDocument[], relevant: string[], k: number): number {
+  const top = new Set(ranked.slice(0, k).map((doc) => doc.id))
+  return relevant.filter((id) => top.has(id)).length / relevant.length
+}
+
+async function meanRecallAtK(k: number, rerank: boolean): Promise<number> {
+  const reranker = new LexicalReranker()
+  let total = 0
+
+  for (const { query, relevant } of QUERIES) {
+    const candidates = firstStage(query)
+    const ranked = rerank
+      ? await reranker.rerank(query, candidates, { method: 'lexical' })
+      : candidates
+    total += recallAtK(ranked, relevant, k)
+  }
+
+  return total / QUERIES.length
+}
+
+describe('queryTerms', () => {
+  it('should drop stopwords unless nothing else is left', () => {
+    expect(queryTerms('how do I export data to CSV')).toEqual(['export', 'data', 'csv'])
+    expect(queryTerms('to be or not')).toEqual(['not'])
+    expect(queryTerms('to be')).toEqual(['to', 'be'])
+  })
+})
+
+describe('minimumWindow', () => {
+  it('should find the shortest span covering every term', () => {
+    const tokens = 'a x b y y a b'.split(' ')
+    expect(minimumWindow(tokens, new Set(['a', 'b']))).toBe(2)
+    expect(minimumWindow(tokens, new Set(['x', 'y']))).toBe(3)
+  })
+})
+
+describe('extractLexicalFeatures', () => {
+  it('should score coverage, proximity, phrase and field matches', () => {
+    const features = extractLexicalFeatures('reset password', CORPUS[0])
+
+    expect(features.coverage).toBe(1)
+    expect(features.proximity).toBe(1)
+    expect(features.phrase).toBe(1)
+    expect(features.field_boost).toBeCloseTo(0.3)
+  })
+
+  it('should give scattered matches lower proximity', () => {
+    const doc = { id: 'd', content: 'reset the device and later change your password', score: 1 }
+    const features = extractLexicalFeatures('reset password', doc, {})
+
+    expect(features.coverage).toBe(1)
+    expect(features.proximity).toBeCloseTo(2 / 8)
+    expect(features.phrase).toBe(0)
+    expect(features.field_boost).toBe(0)
+  })
+})
+
+describe('LexicalReranker', () => {
+  it('should improve recall@1 over the BM25 first stage', async () => {
+    const before = await meanRecallAtK(1, false)
+    const after = await meanRecallAtK(1, true)
+
+    expect(after).toBe(1)
+    expect(after).toBeGreaterThan(before)
+  })
+
+  it('should not lose recall@3', async () => {
+    expect(await meanRecallAtK(3, true)).toBeGreaterThanOrEqual(await meanRecallAtK(3, false))
+  })
+
+  it('should apply per-call field boosts', async () => {
+    const docs = [
+      { id: 'a', content: 'billing overview', score: 1, metadata: {} },
+      { id: 'b', content: 'billing overview', score: 1, metadata: { product: 'Billing' } },
+    ]
+    const reranker = new LexicalReranker()
+
+    const ranked = await reranker.rerank('billing', docs, {
+      method: 'lexical',
+      field_boosts: { product: 0.5 },
+    })
+
+    expect(ranked.map((d) => d.id)).toEqual(['b', 'a'])
+    expect(ranked[0].score - ranked[1].score).toBeCloseTo(0.5)
+  })
+})
+
+describe('parseJudgeScore', () => {
+  it('should read the first number as a 0-1 relevance', () => {
+    expect(parseJudgeScore('8')).toBe(0.8)
+    expect(parseJudgeScore('Relevance: 7.5/10')).toBe(0.75)
+    expect(parseJudgeScore('42')).toBe(1)
+    expect(parseJudgeScore('not relevant')).toBeNull()
+  })
+})
+
+describe('LLMJudgeReranker', () => {
+  const candidates = firstStage('reset password')
+
+  it('should order candidates by the judge scores from one batch call', async () => {
+    const fetchMock = vi.fn().mockImplementation(async (_url: string, init: RequestInit) => {
+      const { payload } = JSON.parse(init.body as string)
+      const data = payload.variants.map((variant: { prompt: string }) => ({
+        content: variant.prompt.includes('choose reset password') ? '9' : '2',
+      }))
+      return new Response(JSON.stringify({ success: true, data }))
+    })
+    const reranker = new LLMJudgeReranker({ url: 'http://runner', fetch: fetchMock })
+
+    const ranked = await reranker.rerank('reset password', candidates)
+
+    expect(ranked[0].id).toBe('reset-password')
+    expect(ranked[0].score).toBe(0.9)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(url).toBe('http://runner/run/batch')
+    const { payload } = JSON.parse(init.body)
+    expect(payload.variants).toHaveLength(candidates.length)
+    expect(payload.variants[0]).toMatchObject({ technique: 'rerank_judge', temperature: 0 })
+  })
+
+  it('should only judge the leading candidates', async () => {
+    const fetchMock = vi.fn().mockImplementation(async (_url: string, init: RequestInit) => {
+      const { payload } = JSON.parse(init.body as string)
+      const data = payload.variants.map((_: unknown, i: number) => ({ content: String(i) }))
+      return new Response(JSON.stringify({ success: true, data }))
+    })
+    const reranker = new LLMJudgeReranker({ fetch: fetchMock, max_documents: 2 })
+
+    const ranked = await reranker.rerank('reset password', candidates)
+
+    expect(ranked.map((d) => d.id)).toEqual([
+      candidates[1].id,
+      candidates[0].id,
+      ...candidates.slice(2).map((d) => d.id),
+    ])
+  })
+
+  it('should surface runner errors', async () => {
+    const reranker = new LLMJudgeReranker({
+      fetch: vi.fn().mockResolvedValue(new Response('{}', { status: 503 })),
+    })
+
+    await expect(reranker.rerank('reset password', candidates)).rejects.toThrow('returned 503')
+  })
+})
+
+describe('createDefaultRerankerRegistry', () => {
+  it('should register the built-in rerankers', () => {
+    expect(createDefaultRerankerRegistry().names()).toEqual(['lexical', 'llm_judge'])
+  })
+})
@@ -1,5 +1,14 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { InMemoryVectorStore, createVectorStore, VectorStoreType } from '../src/vector-store'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, readdirSync, readFileSync, appendFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import {
+  InMemoryVectorStore,
+  FileVectorStore,
+  createVectorStore,
+  VectorStoreType,
+} from '../src/vector-store'
+import { HashingEmbeddingProvider } from '../src/embeddings'
 import { createTestDocument, createTestRetrievalQuery } from '@promptdial/shared'
 import type { Document, RetrievalQuery } from '@promptdial/shared'
 
@@ -110,6 +119,7 @@ describe('InMemoryVectorStore', () => {
         id: 'doc4',
         content: 'Test with metadata',
         metadata: { author: 'Alice', year: 2024 },
+        embedding: undefined, // Embedded from its content so the query can find it
       })
       await store.index(doc)
 
@@ -146,6 +156,21 @@ describe('InMemoryVectorStore', () => {
       expect(result.documents[0].id).toBe('doc5')
     })
 
+    it('should apply operator filters on nested metadata', async () => {
+      await store.indexBatch([
+        createTestDocument({ id: 'old', metadata: { meta: { year: 2019 } } }),
+        createTestDocument({ id: 'new', metadata: { meta: { year: 2024 } } }),
+      ])
+
+      const result = await store.search({
+        query: 'document',
+        top_k: 10,
+        filters: { 'meta.year': { $gte: 2020 } },
+      })
+
+      expect(result.documents.map((d) => d.id)).toEqual(['new'])
+    })
+
     it('should handle empty search results', async () => {
       const query: RetrievalQuery = {
         query: 'nonexistent topic',
@@ -200,8 +225,23 @@ describe('InMemoryVectorStore', () => {
         documentCount: 2,
         indexSize: expect.any(Number),
         dimensions: 384,
+        embedding: {
+          provider: 'local',
+          model: 'hashed-ngrams',
+          dimensions: 384,
+          cache: expect.objectContaining({ size: expect.any(Number) }),
+        },
       })
     })
+
+    it('should report the dimensions negotiated with the embedding provider', async () => {
+      const stats = await new InMemoryVectorStore(
+        new HashingEmbeddingProvider({ dimensions: 64 }),
+      ).getStats()
+
+      expect(stats.dimensions).toBe(64)
+      expect(stats.embedding.cache).toBeUndefined()
+    })
   })
 
   describe('similarity calculation', () => {
@@ -235,6 +275,136 @@ describe('InMemoryVectorStore', () => {
       // Should not be identical
       expect(embedding1).not.toEqual(embedding2)
     })
+
+    it('should rank documents that share words with the query first', async () => {
+      const docs = [
+        { id: 'cooking', content: 'Slow roasting vegetables brings out their sweetness' },
+        { id: 'quantum', content: 'Quantum computers use qubits and entanglement' },
+        { id: 'finance', content: 'Index funds spread risk across many companies' },
+      ]
+      await store.indexBatch(docs.map(({ id, content }) => ({ id, content })))
+
+      const result = await store.search({ query: 'how do quantum computers work', top_k: 3 })
+
+      expect(result.documents[0].id).toBe('quantum')
+    })
+
+    it('should re-embed vectors whose size does not match the store', async () => {
+      const doc = createTestDocument({ id: 'short', content: 'Short vector', embedding: [1, 0] })
+
+      await store.index(doc)
+
+      expect(doc.embedding).toHaveLength(384)
+    })
+  })
+})
+
+describe('FileVectorStore', () => {
+  let directory: string
+
+  const segments = () => readdirSync(directory).filter((file) => file.endsWith('.jsonl'))
+  const reopen = (options = {}) => new FileVectorStore({ directory, ...options })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    directory = mkdtempSync(join(tmpdir(), 'vector-store-'))
+  })
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('should recover indexed documents after a restart', async () => {
+    const store = reopen()
+    await store.indexBatch([
+      { id: 'a', content: 'Quantum computers use qubits' },
+      { id: 'b', content: 'Sourdough needs a starter' },
+    ])
+    await store.index({ id: 'c', content: 'Qubits can be entangled', metadata: { topic: 'q' } })
+
+    const restarted = reopen()
+    const result = await restarted.search({
+      query: 'qubits',
+      top_k: 3,
+      filters: { topic: 'q' },
+      include_metadata: true,
+    })
+
+    expect((await restarted.getStats()).documentCount).toBe(3)
+    expect(result.documents.map((d) => d.id)).toEqual(['c'])
+  })
+
+  it('should persist deletes', async () => {
+    const store = reopen({ compaction_threshold: 1 })
+    await store.indexBatch([
+      { id: 'a', content: 'first' },
+      { id: 'b', content: 'second' },
+    ])
+    await store.delete('a')
+    await store.delete('missing')
+
+    const stats = await reopen().getStats()
+    expect(stats.documentCount).toBe(1)
+  })
+
+  it('should drop a record cut short by a crash', async () => {
+    const store = reopen()
+    await store.index({ id: 'a', content: 'complete record' })
+    appendFileSync(join(directory, segments()[0]), '{"op":"put","document":{"id":"b"')
+
+    const restarted = reopen()
+    await restarted.index({ id: 'c', content: 'written after recovery' })
+
+    expect((await reopen().getStats()).documentCount).toBe(2)
+  })
+
+  it('should roll over to a new segment when the active one is full', async () => {
+    const store = reopen({ max_segment_bytes: 1, compaction_threshold: 1 })
+    await store.index({ id: 'a', content: 'one' })
+    await store.index({ id: 'b', content: 'two' })
+
+    expect(segments()).toEqual(['segment-000001.jsonl', 'segment-000002.jsonl'])
+    expect((await reopen().getStats()).documentCount).toBe(2)
+  })
+
+  it('should compact superseded records into a single segment', async () => {
+    const store = reopen({ max_segment_bytes: 1, compaction_threshold: 1 })
+    await store.index({ id: 'a', content: 'draft' })
+    await store.index({ id: 'a', content: 'final' })
+    await store.index({ id: 'b', content: 'other' })
+    await store.delete('b')
+
+    await store.compact()
+
+    expect(segments()).toEqual(['segment-000005.jsonl'])
+    const lines = readFileSync(join(directory, segments()[0]), 'utf-8').trim().split('\n')
+    expect(lines).toHaveLength(1)
+    expect(JSON.parse(lines[0]).document.content).toBe('final')
+    expect((await reopen().getStats()).documentCount).toBe(1)
+  })
+
+  it('should compact automatically once most records are superseded', async () => {
+    const store = reopen()
+    await store.index({ id: 'a', content: 'v1' })
+    await store.index({ id: 'a', content: 'v2' })
+    await store.index({ id: 'a', content: 'v3' })
+
+    const lines = readFileSync(join(directory, segments()[0]), 'utf-8').trim().split('\n')
+    expect(segments()).toHaveLength(1)
+    expect(lines).toHaveLength(1)
+  })
+
+  it('should re-embed stored vectors when the embedding size changes', async () => {
+    await reopen().index({ id: 'a', content: 'stored with 384 dimensions' })
+
+    const restarted = new FileVectorStore(
+      { directory },
+      new HashingEmbeddingProvider({ dimensions: 32 }),
+    )
+    await restarted.search({ query: 'stored', top_k: 1 })
+
+    const line = readFileSync(join(directory, segments()[0]), 'utf-8').trim()
+    expect(JSON.parse(line).document.embedding).toHaveLength(32)
   })
 })
 
@@ -249,6 +419,19 @@ describe('createVectorStore', () => {
     expect(store).toBeInstanceOf(InMemoryVectorStore)
   })
 
+  it('should create a file store under PROMPTDIAL_VECTOR_STORE_DIR', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'vector-store-'))
+    process.env.PROMPTDIAL_VECTOR_STORE_DIR = directory
+
+    const store = createVectorStore('file')
+    await store.index({ id: 'a', content: 'persisted' })
+
+    expect(store).toBeInstanceOf(FileVectorStore)
+    expect(readdirSync(directory)).toEqual(['segment-000001.jsonl'])
+    delete process.env.PROMPTDIAL_VECTOR_STORE_DIR
+    rmSync(directory, { recursive: true, force: true })
+  })
+
   it('should support future vector store types', () => {
     // For now, always returns InMemoryVectorStore
     const store = createVectorStore('pinecone' as VectorStoreType)
@@ -0,0 +1,261 @@
+/**
+ * PromptDial 3.0 - Record/Replay Cassettes
+ *
+ * Wraps outbound model calls so a whole optimization run can be recorded
+ * to a versioned cassette and replayed offline, call for call. A cassette is
+ * a directory in which every recording process appends to a file of its own,
+ * so services sharing a cassette never overwrite each other's calls.
+ */
+
+import { createHash } from 'crypto'
+import { appendFileSync, existsSync, mkdirSync, readFileSync, readdirSync } from 'fs'
+import { hostname } from 'os'
+import { join } from 'path'
+
+// ============= Types =============
+
+export const CASSETTE_FORMAT_VERSION = 2
+
+export type CassetteMode = 'off' | 'record' | 'replay'
+
+export interface CassetteInteraction {
+  key: string
+  channel: string
+  request: unknown
+  response?: unknown
+  error?: string
+}
+
+// First line of every recording file; each further line is one interaction
+export interface CassetteHeader {
+  version: number
+  name: string
+  recorded_at: string
+}
+
+export interface CassetteOptions {
+  name: string
+  dir: string
+  mode: CassetteMode
+}
+
+export class CassetteMissError extends Error {
+  constructor(channel: string, key: string) {
+    super(`No recorded interaction for ${channel} (${key}) in cassette`)
+    this.name = 'CassetteMissError'
+  }
+}
+
+// ============= Helpers =============
+
+/**
+ * JSON serialization with sorted object keys, so equal requests hash equally
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+// Whether `value` has each of `fields`, compared as canonical JSON
+function hasFields(value: unknown, fields: Record<string, unknown>): boolean {
+  const record = (value || {}) as Record<string, unknown>
+  return Object.entries(fields).every(
+    ([name, field]) => canonicalJson(record[name]) === canonicalJson(field),
+  )
+}
+
+export function cassetteKey(channel: string, request: unknown): string {
+  return createHash('sha256')
+    .update(`${channel}\n${canonicalJson(request)}`)
+    .digest('hex')
+    .slice(0, 24)
+}
+
+// ============= Cassette =============
+
+export class Cassette {
+  private options: CassetteOptions
+  private interactions: CassetteInteraction[] = []
+  private replayCursor: Map<string, number> = new Map()
+  private recording = false // Whether this process's recording file has its header
+
+  constructor(options: CassetteOptions) {
+    this.options = options
+
+    if (options.mode === 'replay') {
+      this.interactions = this.load()
+    }
+  }
+
+  getMode(): CassetteMode {
+    return this.options.mode
+  }
+
+  /**
+   * Directory holding the cassette's recording files
+   */
+  getPath(): string {
+    return join(this.options.dir, this.options.name)
+  }
+
+  /**
+   * File this process records to; the host name tells containers apart
+   */
+  getRecordingPath(): string {
+    return join(this.getPath(), `${hostname()}-${process.pid}.jsonl`)
+  }
+
+  /**
+   * Run `call` through the cassette. Identical requests are matched by
+   * occurrence, so the nth repeat of a request replays the nth recording.
+   */
+  async intercept<T>(channel: string, request: unknown, call: () => Promise<T>): Promise<T> {
+    if (this.options.mode === 'replay') {
+      return this.replay<T>(channel, request)
+    }
+    if (this.options.mode === 'off') {
+      return call()
+    }
+
+    const key = cassetteKey(channel, request)
+    try {
+      const response = await call()
+      this.append({ key, channel, request, response })
+      return response
+    } catch (error) {
+      this.append({ key, channel, request, error: (error as Error).message })
+      throw error
+    }
+  }
+
+  /**
+   * Request of the next unreplayed interaction on `channel` that agrees with
+   * `fields`, so a replaying caller can complete its request with what it
+   * cannot resolve offline, such as the model that served the call
+   */
+  nextRecordedRequest(channel: string, fields: Record<string, unknown>): unknown {
+    const seen: Map<string, number> = new Map()
+    const next = this.interactions.find((interaction) => {
+      const occurrence = seen.get(interaction.key) || 0
+      seen.set(interaction.key, occurrence + 1)
+      return (
+        interaction.channel === channel &&
+        occurrence >= (this.replayCursor.get(interaction.key) || 0) &&
+        hasFields(interaction.request, fields)
+      )
+    })
+    return next?.request
+  }
+
+  private replay<T>(channel: string, request: unknown): T {
+    const key = cassetteKey(channel, request)
+    const occurrence = this.replayCursor.get(key) || 0
+    const matches = this.interactions.filter((i) => i.key === key)
+    const interaction = matches[occurrence]
+
+    if (!interaction) {
+      throw new CassetteMissError(channel, key)
+    }
+
+    this.replayCursor.set(key, occurrence + 1)
+
+    if (interaction.error !== undefined) {
+      throw new Error(interaction.error)
+    }
+    return interaction.response as T
+  }
+
+  private append(interaction: CassetteInteraction): void {
+    const path = this.getRecordingPath()
+    if (!this.recording) {
+      mkdirSync(this.getPath(), { recursive: true })
+      if (!existsSync(path)) {
+        const header: CassetteHeader = {
+          version: CASSETTE_FORMAT_VERSION,
+          name: this.options.name,
+          recorded_at: new Date().toISOString(),
+        }
+        appendFileSync(path, JSON.stringify(header) + '\n')
+      }
+      this.recording = true
+    }
+    appendFileSync(path, JSON.stringify(interaction) + '\n')
+  }
+
+  // Recording files in name order, so the same cassette always replays the same way
+  private load(): CassetteInteraction[] {
+    const dir = this.getPath()
+    if (!existsSync(dir)) {
+      throw new Error(`Cassette not found: ${dir}`)
+    }
+
+    return readdirSync(dir)
+      .filter((file) => file.endsWith('.jsonl'))
+      .sort()
+      .flatMap((file) => this.loadRecording(join(dir, file)))
+  }
+
+  private loadRecording(path: string): CassetteInteraction[] {
+    const [header, ...lines] = readFileSync(path, 'utf-8')
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line))
+    if ((header as CassetteHeader)?.version !== CASSETTE_FORMAT_VERSION) {
+      throw new Error(
+        `Cassette ${path} has format version ${header?.version}, expected ${CASSETTE_FORMAT_VERSION}`,
+      )
+    }
+    return lines as CassetteInteraction[]
+  }
+}
+
+// ============= Active Cassette =============
+
+let activeCassette: Cassette | null | undefined
+
+/**
+ * Cassette configured through PROMPTDIAL_CASSETTE_MODE / _NAME / _DIR,
+ * or null when recording and replay are off
+ */
+export function getCassette(): Cassette | null {
+  if (activeCassette === undefined) {
+    const mode = (process.env.PROMPTDIAL_CASSETTE_MODE || 'off') as CassetteMode
+    activeCassette =
+      mode === 'off'
+        ? null
+        : new Cassette({
+            mode,
+            name: process.env.PROMPTDIAL_CASSETTE_NAME || 'default',
+            dir: process.env.PROMPTDIAL_CASSETTE_DIR || join(process.cwd(), 'cassettes'),
+          })
+  }
+  return activeCassette
+}
+
+/**
+ * Override the active cassette (tests, per-request debugging); pass
+ * undefined to fall back to environment configuration again
+ */
+export function setCassette(cassette: Cassette | null | undefined): void {
+  activeCassette = cassette
+}
+
+/**
+ * Route an outbound model call through the active cassette, if any
+ */
+export function withCassette<T>(
+  channel: string,
+  request: unknown,
+  call: () => Promise<T>,
+): Promise<T> {
+  const cassette = getCassette()
+  return cassette ? cassette.intercept(channel, request, call) : call()
+}
@@ -15,6 +15,17 @@ export const TECHNIQUES = {
   DSPY_GRIPS: 'DSPy_GrIPS',
   AUTO_DICOT: 'AutoDiCoT',
   UNIVERSAL_SELF_PROMPT: 'USP',
+  LEAST_TO_MOST: 'LeastToMost',
+  SELF_REFINE: 'SelfRefine',
+  SELF_CALIBRATION: 'SelfCalibration',
+} as const
+
+// ============= ReAct Tools =============
+export const REACT_TOOLS = {
+  CALCULATOR: 'calculator',
+  SEARCH: 'search',
+  JAVASCRIPT: 'javascript',
+  HTTP: 'http_get',
 } as const
 
 // ============= Evaluation Methods =============
@@ -24,6 +35,9 @@ export const EVALUATORS = {
   SELF_CONSISTENCY: 'self_consistency',
   ROLE_DEBATE: 'role_debate',
   AUTO_COT: 'auto_cot',
+  AUTOMATED_METRICS: 'automated_metrics',
+  CODE_CORRECTNESS: 'code_correctness',
+  PAIRWISE_JUDGE: 'pairwise_judge',
 } as const
 
 // ============= Security Patterns =============
@@ -24,3 +24,18 @@ export * from './enhanced-telemetry'
 
 // Export prompt formatter
 export * from './prompt-formatter'
+
+// Export serialized JSON file store
+export * from './json-file-store'
+
+// Export record/replay cassettes
+export * from './cassette'
+
+// Export process sandbox
+export * from './sandbox'
+
+// Export rubric validation
+export * from './rubric-validation'
+
+// Export technique catalog
+export * from './technique-catalog'
@@ -0,0 +1,59 @@
+/**
+ * PromptDial 3.0 - JSON File Store
+ *
+ * Persists a service's state as a single JSON document. Writes run one at a
+ * time in call order, each to its own temporary file that is then renamed
+ * over the document, so overlapping saves cannot interleave and a crash
+ * leaves the previous version intact.
+ */
+
+import { promises as fs } from 'fs'
+import * as path from 'path'
+
+export class JsonFileStore<T> {
+  private writes: Promise<void> = Promise.resolve()
+  private tempCount = 0
+
+  /**
+   * @param file Path of the JSON document; reads find nothing and writes do nothing when unset
+   */
+  constructor(readonly file?: string) {}
+
+  /**
+   * The stored document, or null if there is none yet
+   */
+  async read(): Promise<T | null> {
+    if (!this.file) {
+      return null
+    }
+    try {
+      return JSON.parse(await fs.readFile(this.file, 'utf-8')) as T
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Replace the stored document with `value` as it is now, once earlier
+   * writes have finished
+   */
+  write(value: T): Promise<void> {
+    const file = this.file
+    if (!file) {
+      return Promise.resolve()
+    }
+
+    const data = JSON.stringify(value, null, 2)
+    const temp = `${file}.${process.pid}.${++this.tempCount}.tmp`
+    const result = this.writes.then(async () => {
+      await fs.mkdir(path.dirname(file), { recursive: true })
+      await fs.writeFile(temp, data)
+      await fs.rename(temp, file)
+    })
+    this.writes = result.catch(() => undefined)
+    return result
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * PromptDial 3.0 - Rubric Validation
+ *
+ * Checks custom G-EVAL rubrics before they are registered or used, so the
+ * gateway can reject a malformed inline rubric the same way the evaluator does
+ */
+
+import { EVALUATORS } from './constants'
+
+// Every criterion is a separate judge call per response
+export const MAX_RUBRIC_CRITERIA = 10
+
+// Names end up in `name@version` references and URL paths
+const NAME_PATTERN = /^[A-Za-z0-9_.-]+$/
+
+// Criterion scores share the score map with the evaluators' own scores
+const RESERVED_CRITERION_NAMES: string[] = Object.values(EVALUATORS)
+
+/**
+ * Why a rubric cannot be used, or null if it can
+ */
+export function validateRubric(rubric: unknown): string | null {
+  const { name, domain, criteria } = (rubric || {}) as Record<string, unknown>
+  if (!isName(name)) {
+    return 'rubric name must be letters, digits, dots, dashes or underscores'
+  }
+  if (domain !== undefined && !isName(domain)) {
+    return 'rubric domain must be letters, digits, dots, dashes or underscores'
+  }
+  return validateCriteria(criteria)
+}
+
+function validateCriteria(criteria: unknown): string | null {
+  if (!Array.isArray(criteria) || criteria.length === 0) {
+    return 'rubric must have at least one criterion'
+  }
+  if (criteria.length > MAX_RUBRIC_CRITERIA) {
+    return `rubric may have at most ${MAX_RUBRIC_CRITERIA} criteria`
+  }
+  const names = criteria.map((criterion) => (criterion as { name?: unknown })?.name)
+  if (new Set(names).size < names.length) {
+    return 'rubric criteria must have unique names'
+  }
+  const problems = criteria.map((criterion, i) => {
+    const invalid = validateCriterion(criterion)
+    return invalid && `criteria[${i}] ${invalid}`
+  })
+  return problems.find(Boolean) || null
+}
+
+function validateCriterion(criterion: unknown): string | null {
+  const { name, description, anchors, weight } = (criterion || {}) as Record<string, unknown>
+  const invalidName = validateCriterionName(name)
+  if (invalidName) {
+    return invalidName
+  }
+  if (!isText(description)) {
+    return 'must have a description'
+  }
+  if (weight !== undefined && !isPositive(weight)) {
+    return 'weight must be a positive number'
+  }
+  return validateAnchors(anchors)
+}
+
+function validateCriterionName(name: unknown): string | null {
+  if (!isName(name)) {
+    return 'must have a name of letters, digits, dots, dashes or underscores'
+  }
+  return RESERVED_CRITERION_NAMES.includes(name)
+    ? `must not be named ${name}, the score of an evaluator`
+    : null
+}
+
+function validateAnchors(anchors: unknown): string | null {
+  if (!Array.isArray(anchors) || anchors.length === 0) {
+    return 'must have at least one score anchor'
+  }
+  return anchors.every(isAnchor)
+    ? null
+    : 'anchors must each have a score from 1 to 10 and a description'
+}
+
+function isAnchor(anchor: unknown): boolean {
+  const { score, description } = (anchor || {}) as Record<string, unknown>
+  return typeof score === 'number' && score >= 1 && score <= 10 && isText(description)
+}
+
+function isPositive(value: unknown): boolean {
+  return typeof value === 'number' && value > 0 && Number.isFinite(value)
+}
+
+function isName(value: unknown): value is string {
+  return typeof value === 'string' && NAME_PATTERN.test(value)
+}
+
+function isText(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0
+}
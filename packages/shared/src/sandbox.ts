@@ -0,0 +1,87 @@
+/**
+ * PromptDial 3.0 - Process Sandbox
+ *
+ * Runs untrusted code in a separate Node process. A `vm` context alone is no
+ * security boundary, so the worker also gets an empty environment, a heap
+ * cap, cannot compile strings to code and, where Node has a permission model,
+ * cannot touch files or spawn. It is killed at a wall-clock deadline, which
+ * also stops work `vm` timeouts miss, such as microtasks and pending timers.
+ */
+
+import { spawn } from 'child_process'
+
+export interface ProcessLimits {
+  memory_mb: number // Heap limit of the worker process
+  deadline_ms: number // Wall-clock time before the worker is killed
+}
+
+export interface WorkerExit {
+  stdout: string
+  stderr: string
+  spawn_error?: string // The worker could not be started
+}
+
+// Caps what a runaway print loop can send back
+const MAX_OUTPUT_BYTES = 1024 * 1024
+
+/**
+ * Run a worker script with `node -e` in a fresh sandboxed process, writing
+ * `input` to its stdin; resolves once the worker exits or is killed
+ */
+export function runSandboxedWorker(
+  source: string,
+  input: string,
+  limits: ProcessLimits,
+): Promise<WorkerExit> {
+  return new Promise((resolve) => {
+    const worker = spawn(process.execPath, [...sandboxFlags(limits.memory_mb), '-e', source], {
+      env: {},
+      stdio: ['pipe', 'pipe', 'pipe'],
+    })
+
+    let stdout = ''
+    let stderr = ''
+    worker.stdout.on('data', (chunk) => {
+      stdout += chunk
+      if (stdout.length > MAX_OUTPUT_BYTES) {
+        worker.kill('SIGKILL')
+      }
+    })
+    worker.stderr.on('data', (chunk) => (stderr += chunk))
+
+    const timer = setTimeout(() => worker.kill('SIGKILL'), limits.deadline_ms)
+
+    worker.on('close', () => {
+      clearTimeout(timer)
+      resolve({ stdout, stderr })
+    })
+    worker.on('error', (error) => {
+      clearTimeout(timer)
+      resolve({ stdout, stderr, spawn_error: error.message })
+    })
+
+    worker.stdin.on('error', () => {
+      // The worker died before reading its input; its exit is handled above
+    })
+    worker.stdin.end(input)
+  })
+}
+
+function sandboxFlags(memoryMb: number): string[] {
+  const permission = ['--permission', '--experimental-permission'].find((flag) =>
+    process.allowedNodeEnvironmentFlags.has(flag),
+  )
+  return [
+    `--max-old-space-size=${memoryMb}`,
+    '--disallow-code-generation-from-strings',
+    '--no-warnings',
+    ...(permission ? [permission] : []),
+  ]
+}
+
+/**
+ * Whether a worker's stderr shows it ran out of heap
+ */
+export function exceededMemory(stderr: string): boolean {
+  return /heap out of memory|allocation failed/i.test(stderr)
+}
@@ -0,0 +1,283 @@
+/**
+ * PromptDial 3.0 - Technique Catalog
+ *
+ * Single source of truth for technique identity shared by the strategy
+ * planner and the technique engine: canonical IDs, aliases, categories
+ * and incompatibility rules
+ */
+
+import { TECHNIQUES } from './constants'
+
+// ============= Types =============
+
+export type TechniqueCategoryId =
+  | 'reasoning_paths'
+  | 'variance_dampers'
+  | 'meta_optimizers'
+  | 'critique_loops'
+  | 'guard_helpers'
+
+export interface TechniqueCatalogEntry {
+  id: string
+  engine_name?: string // Registry name in the technique engine, if implemented there
+  aliases: string[]
+  category: TechniqueCategoryId
+  description: string
+  rationale: string
+  applicable_to: string[]
+  incompatible_with: string[]
+  allow_listed: boolean // Part of the strategy planner allow-list
+}
+
+// ============= Catalog =============
+
+export const TECHNIQUE_CATALOG: readonly TechniqueCatalogEntry[] = [
+  // Reasoning paths
+  {
+    id: 'chain_of_thought',
+    engine_name: TECHNIQUES.FEW_SHOT_COT,
+    aliases: ['cot', 'few_shot_cot', 'few_shot'],
+    category: 'reasoning_paths',
+    description: 'Step-by-step reasoning decomposition',
+    rationale: 'Still top-2 cited for accuracy uplift',
+    applicable_to: ['reasoning', 'math', 'logic', 'analysis'],
+    incompatible_with: [],
+    allow_listed: true,
+  },
+  {
+    id: 'tree_of_thought',
+    engine_name: TECHNIQUES.TREE_OF_THOUGHT,
+    aliases: ['tot', 'tree_of_thoughts'],
+    category: 'reasoning_paths',
+    description: 'Branching exploration of solution paths',
+    rationale: 'Still top-2 cited for accuracy uplift',
+    applicable_to: ['complex_reasoning', 'planning', 'strategy'],
+    incompatible_with: [],
+    allow_listed: true,
+  },
+  {
+    id: 'least_to_most',
+    engine_name: TECHNIQUES.LEAST_TO_MOST,
+    aliases: ['ltm', 'least_to_most_prompting'],
+    category: 'reasoning_paths',
+    description: 'Build up from simple to complex',
+    rationale: 'Still top-2 cited for accuracy uplift',
+    applicable_to: ['math', 'decomposable_tasks'],
+    incompatible_with: [],
+    allow_listed: true,
+  },
+  {
+    id: 'react',
+    engine_name: TECHNIQUES.REACT,
+    aliases: ['reason_act'],
+    category: 'reasoning_paths',
+    description: 'Interleaved reasoning and actions',
+    rationale: 'Grounds reasoning in intermediate observations',
+    applicable_to: ['coding', 'analysis', 'tool_use'],
+    incompatible_with: [],
+    allow_listed: false,
+  },
+  {
+    id: 'ircot',
+    engine_name: TECHNIQUES.IRCOT,
+    aliases: ['interleaved_retrieval_cot'],
+    category: 'reasoning_paths',
+    description: 'Chain-of-thought interleaved with retrieval',
+    rationale: 'Reduces hallucination on knowledge-intensive questions',
+    applicable_to: ['retrieval', 'multi_hop_qa'],
+    incompatible_with: [],
+    allow_listed: false,
+  },
+  {
+    id: 'auto_dicot',
+    engine_name: TECHNIQUES.AUTO_DICOT,
+    aliases: ['autodicot', 'contrastive_cot'],
+    category: 'reasoning_paths',
+    description: 'Contrastive chain-of-thought with explained mistakes',
+    rationale: 'Negative demonstrations steer away from common failure modes',
+    applicable_to: ['math', 'classification', 'analysis'],
+    incompatible_with: [],
+    allow_listed: false,
+  },
+
+  // Variance dampers
+  {
+    id: 'self_consistency',
+    engine_name: TECHNIQUES.SELF_CONSISTENCY,
+    aliases: ['sc', 'majority_vote'],
+    category: 'variance_dampers',
+    description: 'Multiple sampling with majority vote',
+    rationale: 'Majority-vote beats single-path; handles free-form tasks',
+    applicable_to: ['reasoning', 'creative', 'open_ended'],
+    incompatible_with: ['universal_self_consistency'],
+    allow_listed: true,
+  },
+  {
+    id: 'universal_self_consistency',
+    aliases: ['usc'],
+    category: 'variance_dampers',
+    description: 'Self-consistency across formats',
+    rationale: 'Majority-vote beats single-path; handles free-form tasks',
+    applicable_to: ['diverse_outputs', 'multi_format'],
+    incompatible_with: ['self_consistency'],
+    allow_listed: true,
+  },
+
+  // Meta optimizers
+  {
+    id: 'dspy_bootstrap_fewshot',
+    aliases: ['bootstrap_fewshot', 'bootstrap_few_shot'],
+    category: 'meta_optimizers',
+    description: 'Automated few-shot example generation',
+    rationale: 'Auto-search greatly outperforms hand tuning in case studies',
+    applicable_to: ['tasks_with_examples', 'classification', 'extraction'],
+    incompatible_with: [],
+    allow_listed: true,
+  },
+  {
+    id: 'grips',
+    engine_name: TECHNIQUES.DSPY_GRIPS,
+    aliases: ['dspy_grips'],
+    category: 'meta_optimizers',
+    description: 'Gradient-free prompt search',
+    rationale: 'Auto-search greatly outperforms hand tuning in case studies',
+    applicable_to: ['optimization', 'tuning'],
+    incompatible_with: ['dspy_ape'],
+    allow_listed: true,
+  },
+  {
+    id: 'dspy_ape',
+    engine_name: TECHNIQUES.DSPY_APE,
+    aliases: ['ape', 'automatic_prompt_engineering'],
+    category: 'meta_optimizers',
+    description: 'Automatic instruction induction and scoring',
+    rationale: 'Auto-search greatly outperforms hand tuning in case studies',
+    applicable_to: ['optimization', 'coding', 'math'],
+    incompatible_with: ['grips'],
+    allow_listed: false,
+  },
+  {
+    id: 'universal_self_prompt',
+    engine_name: TECHNIQUES.UNIVERSAL_SELF_PROMPT,
+    aliases: ['usp', 'universal_self_adaptive_prompting'],
+    category: 'meta_optimizers',
+    description: 'Self-generated pseudo-demonstrations',
+    rationale: 'Few-shot gains without labelled examples',
+    applicable_to: ['classification', 'open_ended', 'summarization'],
+    incompatible_with: [],
+    allow_listed: false,
+  },
+
+  // Critique loops
+  {
+    id: 'self_refine',
+    engine_name: TECHNIQUES.SELF_REFINE,
+    aliases: ['refine'],
+    category: 'critique_loops',
+    description: 'Iterative self-improvement',
+    rationale: 'Proven gain on reasoning & coding tasks',
+    applicable_to: ['coding', 'writing', 'reasoning'],
+    incompatible_with: [],
+    allow_listed: true,
+  },
+  {
+    id: 'self_calibration',
+    engine_name: TECHNIQUES.SELF_CALIBRATION,
+    aliases: ['calibration'],
+    category: 'critique_loops',
+    description: 'Confidence adjustment through reflection',
+    rationale: 'Proven gain on reasoning & coding tasks',
+    applicable_to: ['uncertainty_aware', 'calibrated_outputs'],
+    incompatible_with: [],
+    allow_listed: true,
+  },
+
+  // Guard helpers
+  {
+    id: 'sycophancy_filter',
+    aliases: [],
+    category: 'guard_helpers',
+    description: 'Prevent agreement bias',
+    rationale: 'Must run pre & post every LLM call',
+    applicable_to: ['all'],
+    incompatible_with: [],
+    allow_listed: true,
+  },
+  {
+    id: 'jailbreak_regex_bank',
+    aliases: ['jailbreak_filter'],
+    category: 'guard_helpers',
+    description: 'Pattern matching for known exploits',
+    rationale: 'Must run pre & post every LLM call',
+    applicable_to: ['all'],
+    incompatible_with: [],
+    allow_listed: true,
+  },
+]
+
+// ============= Lookup =============
+
+/**
+ * Lower-case and snake-case a technique name, so `Few-Shot CoT` and
+ * `few shot cot` both become `few_shot_cot`
+ */
+export function normalizeTechniqueName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, '_')
+}
+
+// Catalog lookups ignore word breaks as well, so `FewShot-CoT`, `few shot cot`
+// and `fewshot_cot` find the same entry
+function lookupKey(name: string): string {
+  return normalizeTechniqueName(name).replace(/_/g, '')
+}
+
+const catalogIndex = new Map<string, TechniqueCatalogEntry>()
+for (const entry of TECHNIQUE_CATALOG) {
+  const names = [entry.id, ...entry.aliases, ...(entry.engine_name ? [entry.engine_name] : [])]
+  for (const name of names) {
+    catalogIndex.set(lookupKey(name), entry)
+  }
+}
+
+/**
+ * Find a catalog entry by canonical ID, alias or engine name, ignoring case
+ * and word breaks
+ */
+export function getTechniqueEntry(name: string): TechniqueCatalogEntry | undefined {
+  return catalogIndex.get(lookupKey(name))
+}
+
+/**
+ * Canonical ID for a technique name, or undefined if it is not in the catalog
+ */
+export function resolveTechniqueId(name: string): string | undefined {
+  return getTechniqueEntry(name)?.id
+}
+
+export function getTechniquesByCategory(category: TechniqueCategoryId): TechniqueCatalogEntry[] {
+  return TECHNIQUE_CATALOG.filter((entry) => entry.category === category)
+}
+
+/**
+ * Pairs of mutually incompatible techniques among the given names.
+ * Rules apply in both directions, whichever entry declares them.
+ */
+export function findIncompatibleTechniques(names: string[]): Array<[string, string]> {
+  const entries = names
+    .map((name) => getTechniqueEntry(name))
+    .filter((entry): entry is TechniqueCatalogEntry => entry !== undefined)
+  const conflicts: Array<[string, string]> = []
+
+  entries.forEach((a, i) => {
+    entries.slice(i + 1).forEach((b) => {
+      if (a.incompatible_with.includes(b.id) || b.incompatible_with.includes(a.id)) {
+        conflicts.push([a.id, b.id])
+      }
+    })
+  })
+
+  return conflicts
+}
@@ -22,6 +22,9 @@ export interface PromptVariant {
   estimated_cost?: number
   estimated_latency_ms?: number
   metadata?: Record<string, any>
+  stages?: VariantStages // Multi-stage program; `prompt` stays the single-call fallback
+  tool_loop?: VariantToolLoop // Executable ReAct; `prompt` is the task the tools help solve
+  tree_search?: VariantTreeSearch // Tree-of-Thought search; `prompt` is the problem to solve
   formatted?: {
     markdown: string
     technique_name: string
@@ -30,6 +33,77 @@ export interface PromptVariant {
   }
 }
 
+export interface VariantStage {
+  name: string
+  prompt: string // Template; {{var}} is replaced with the latest output written to var
+  output?: string // Variable this stage writes, defaults to the stage name
+  temperature?: number
+  stop_pattern?: string // Regex on this stage's output that ends the loop
+}
+
+export interface VariantStages {
+  steps: VariantStage[]
+  loop_from?: string // After the last step, repeat from this step
+  max_iterations?: number // Passes through the loop, including the first
+  result?: string // Variable returned as the final answer, defaults to the last step's output
+}
+
+export interface VariantToolLoop {
+  tools: string[] // Tool registry names the model may call
+  max_steps?: number // Model turns before the loop gives up
+}
+
+export type TreeSearchStrategy = 'bfs' | 'dfs' | 'beam'
+
+export interface VariantTreeSearch {
+  strategy: TreeSearchStrategy
+  breadth: number // Thoughts proposed per expansion
+  depth: number // Reasoning steps from the root to a leaf
+  beam_width?: number // Thoughts kept per level in beam search
+  prune_threshold: number // Value score (0-1) below which a thought is pruned
+  budget?: BudgetConstraints // Limits for the whole search, including the final answer
+}
+
+export interface ThoughtNode {
+  id: string
+  parent_id: string | null
+  depth: number
+  thought: string
+  score?: number // Value prompt score, 0-1
+  status: 'expanded' | 'leaf' | 'pruned' | 'unexplored'
+  prune_reason?: 'below_threshold' | 'beam_width' | 'budget'
+}
+
+export interface ThoughtTree {
+  strategy: TreeSearchStrategy
+  nodes: ThoughtNode[]
+  best_path: string[] // Node ids from the root to the thought the answer was built from
+  stop_reason: 'completed' | 'solution_found' | 'budget_exhausted'
+  llm_calls: number
+  tokens_used: number
+  cost_usd: number
+  latency_ms: number
+}
+
+export interface StageExecution {
+  stage: string
+  iteration: number
+  prompt: string // Rendered prompt actually sent to the model
+  output: string
+  tokens_used: number
+  cost_usd: number
+  latency_ms: number
+}
+
+export interface VariantTranscript {
+  stages: StageExecution[]
+  iterations: number
+  stop_reason: 'completed' | 'stop_pattern' | 'max_iterations'
+  tokens_used: number
+  cost_usd: number
+  latency_ms: number
+}
+
 export interface OptimizationRequest {
   prompt: string
   task_type?: TaskType
@@ -41,12 +115,73 @@ export interface OptimizationRequest {
     security_level?: SecurityLevel
     model?: string
   }
-  context?: {
-    examples?: string[]
-    reference_output?: string
-    style_guide?: string
-  }
+  context?: OptimizationContext
   preferences?: Record<string, any>
+  evolution?: EvolutionOptions // Iterate on the frontier instead of a single pass
+}
+
+export interface OptimizationContext {
+  examples?: string[]
+  reference_output?: string
+  style_guide?: string
+  tests?: CodeTestCase[] // Run against the code in responses to code_generation tasks
+  pass_k?: number // k of the pass@k reported for those tests (default 1)
+  rubric?: string | EvaluationRubric // G-EVAL rubric, inline or registered ("name" or "name@2")
+}
+
+/**
+ * G-EVAL criteria of the caller's own, such as a house style or compliance
+ * standard, each scored from 1 to 10 against its anchors
+ */
+export interface EvaluationRubric {
+  name: string
+  domain?: string // Domain the rubric is registered for (default general)
+  criteria: RubricCriterion[]
+  extends_defaults?: boolean // Score the built-in criteria as well
+}
+
+export interface RubricCriterion {
+  name: string
+  description: string
+  anchors: RubricAnchor[] // What scores mean, lowest first
+  weight?: number // Relative weight in the g_eval score (default 1)
+}
+
+export interface RubricAnchor {
+  score: number // 1 to 10
+  description: string
+}
+
+/**
+ * One check of generated JavaScript: `call` is evaluated after the code has
+ * run, and its value and everything printed are compared with the expectations
+ */
+export interface CodeTestCase {
+  name?: string
+  call?: string // Expression such as "add(2, 3)"
+  expected?: unknown // Value `call` must return, compared as JSON
+  expected_output?: string // What the code and `call` must print, compared trimmed
+}
+
+/**
+ * Iterative optimization: an LLM rewriter mutates and crosses over variants
+ * on the Pareto frontier, and the offspring are run, evaluated and optimized
+ * together with their parents, generation after generation
+ */
+export interface EvolutionOptions {
+  generations?: number // Rewrite rounds after the first pass
+  population_size?: number // Variants bred from the frontier each generation
+  budget_usd?: number // Stop once the estimated spend reaches this
+  plateau_generations?: number // Stop after this many generations without improvement
+  min_improvement?: number // Smallest gain in the best score that counts as improvement
+}
+
+export interface EvolutionSummary {
+  generations: number // Generations run
+  stop_reason: 'generations' | 'budget' | 'plateau'
+  best_scores: number[] // Best final_score after the first pass and each generation
+  variants_bred: number
+  spent_usd: number // Estimated cost of running variants and rewrites
 }
 
 export interface OptimizationResponse {
@@ -61,8 +196,10 @@ export interface OptimizationResponse {
     pareto_frontier_size: number
     techniques_used: string[]
     suggested_techniques?: string[]
+    unavailable_techniques?: string[]
     strategy_confidence?: number
     safety_modifications: boolean
+    evolution?: EvolutionSummary // Present when the request asked for evolution
   }
 }
 
@@ -104,9 +241,26 @@ export interface TechniqueStrategy {
     base_prompt: string,
     meta: TaskClassification,
     budget: BudgetConstraints,
+    context?: TechniqueContext,
   ): Promise<PromptVariant[]>
 }
 
+// Request-specific material a technique may draw on
+export interface TechniqueContext {
+  examples?: FewShotExample[] // Selected from the example bank for this prompt, best first
+}
+
+export interface FewShotExample {
+  id: string
+  question: string
+  reasoning: string // Step-by-step reasoning that leads to the answer
+  answer: string
+  task_type: TaskType
+  domain?: Domain
+  version: number // Starts at 1 and increases with each revision
+  updated_at?: string // ISO timestamp of this version
+}
+
 export interface BudgetConstraints {
   max_cost_usd: number
   max_latency_ms: number
@@ -124,10 +278,36 @@ export interface EvaluationResult {
     chat_eval: number
     self_consistency: number
     role_debate?: number
+    automated_metrics?: number
+    code_correctness?: number
+    pairwise_judge?: number
   }
   final_score: number
   confidence_interval: [number, number]
   calibration_error?: number
+  transcript?: VariantTranscript // Stage-by-stage record for multi-stage variants
+  code_execution?: CodeExecutionReport // Test results of the code in the response
+  rubric?: string // G-EVAL rubric the scores were judged by, as domain/name@version if registered
+}
+
+export type CodeErrorCategory =
+  | 'no_code'
+  | 'unsupported_language'
+  | 'syntax_error'
+  | 'runtime_error'
+  | 'timeout'
+  | 'memory_limit'
+  | 'wrong_answer'
+
+export interface CodeExecutionReport {
+  candidates: number // Runnable code blocks in the response that were run, each as a solution
+  passed: number // Candidates that passed every test
+  k: number
+  pass_at_k: number
+  tests_passed: number // By the best candidate
+  tests_total: number
+  errors: Partial<Record<CodeErrorCategory, number>> // Failed test runs by cause
+  skipped: number // Runnable code blocks beyond the candidate limit, not run
 }
 
 // ============= Security Types =============
@@ -189,7 +369,7 @@ export interface ServiceResponse<T = any> {
 // ============= Configuration Types =============
 
 export interface LLMProviderConfig {
-  provider: 'openai' | 'anthropic' | 'google' | 'cohere'
+  provider: 'openai' | 'anthropic' | 'google' | 'cohere' | 'mock'
   api_key: string
   base_url?: string
   default_model?: string
@@ -212,8 +392,47 @@ export interface Document {
 export interface RetrievalQuery {
   query: string
   top_k: number
-  filters?: Record<string, any>
+  filters?: RetrievalFilter
   include_metadata?: boolean
+  technique?: RetrievalTechnique // semantic, keyword or hybrid; defaults to semantic
+  fusion?: RetrievalFusion // How hybrid search merges the keyword and vector rankings
+  rerank?: RetrievalRerank // Second pass that reorders the first-stage candidates
+  collection?: string // Search only documents indexed into this collection
+}
+
+/**
+ * Metadata filter. Each key is a metadata field, dotted to reach nested
+ * fields (chunk_metadata.format), and maps to a value the field must equal
+ * or to a condition; $and / $or combine filters. Every key must match.
+ */
+export interface RetrievalFilter {
+  $and?: RetrievalFilter[]
+  $or?: RetrievalFilter[]
+  [field: string]: unknown
+}
+
+export interface RetrievalCondition {
+  $eq?: unknown
+  $ne?: unknown
+  $in?: unknown[] // Matches if the field equals any of them
+  $nin?: unknown[]
+  $gt?: number | string // Ranges compare numbers, or strings such as ISO dates
+  $gte?: number | string
+  $lt?: number | string
+  $lte?: number | string
+  $exists?: boolean
+}
+
+export interface RetrievalFusion {
+  method: 'rrf' | 'weighted'
+  rrf_k?: number // Rank offset for reciprocal-rank fusion
+  vector_weight?: number // 0-1 share of the vector score in weighted fusion
+}
+
+export interface RetrievalRerank {
+  method: string // 'lexical', 'llm_judge' or a reranker registered with the hub
+  top_n?: number // First-stage candidates to rerank; defaults to 3x top_k
+  field_boosts?: Record<string, number> // Metadata fields whose query matches raise the lexical score
 }
 
 export interface RetrievalResult {
@@ -277,7 +496,10 @@ export enum OptimizationObjective {
   QUALITY = 'quality',
   COST = 'cost',
   LATENCY = 'latency',
-  DIVERSITY = 'diversity'
+  DIVERSITY = 'diversity',
+  SAFETY_MARGIN = 'safety_margin',
+  TOKEN_LENGTH = 'token_length',
+  EVALUATOR_AGREEMENT = 'evaluator_agreement'
 }
 
 // Retrieval Service Types
@@ -285,7 +507,7 @@ export interface RetrievalRequest {
   query: string
   technique: RetrievalTechnique
   top_k?: number
-  filters?: Record<string, any>
+  filters?: RetrievalFilter
 }
 
 export interface RetrievalResponse extends ServiceResponse<RetrievalResult> {}
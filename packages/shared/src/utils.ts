@@ -59,6 +59,39 @@ export function createServiceResponse<T = unknown>(
   }
 }
 
+// LLM Runner instances in order of preference, each enabled by its provider's configuration
+const LLM_RUNNERS: { enabled: () => boolean; url_env: string; default_url: string }[] = [
+  {
+    enabled: () => !!process.env.OPENAI_API_KEY,
+    url_env: 'OPENAI_RUNNER_URL',
+    default_url: 'http://localhost:4001',
+  },
+  {
+    enabled: () => !!process.env.ANTHROPIC_API_KEY,
+    url_env: 'ANTHROPIC_RUNNER_URL',
+    default_url: 'http://localhost:4002',
+  },
+  {
+    enabled: () => !!process.env.GOOGLE_AI_API_KEY,
+    url_env: 'GOOGLE_RUNNER_URL',
+    default_url: 'http://localhost:4003',
+  },
+  {
+    enabled: () => process.env.MOCK_LLM_ENABLED === 'true',
+    url_env: 'MOCK_RUNNER_URL',
+    default_url: 'http://localhost:4004',
+  },
+]
+
+/**
+ * URL of the LLM Runner for the first configured provider, or null when no
+ * provider is configured
+ */
+export function getLLMRunnerUrl(): string | null {
+  const runner = LLM_RUNNERS.find((candidate) => candidate.enabled())
+  return runner ? process.env[runner.url_env] || runner.default_url : null
+}
+
 // ============= Token Estimation =============
 
 export function estimateTokens(text: string): number {
@@ -148,6 +181,23 @@ export function stddev(numbers: number[]): number {
   return Math.sqrt(mean(squareDiffs))
 }
 
+// Two-sided z-scores of the supported confidence levels
+const Z_SCORES: Record<number, number> = { 0.9: 1.645, 0.95: 1.96, 0.99: 2.576 }
+
+/**
+ * Normal-approximation confidence interval of the mean at a confidence level
+ * of 0.9, 0.95 or 0.99
+ */
+export function confidenceInterval(numbers: number[], level: number = 0.95): [number, number] {
+  const z = Z_SCORES[level]
+  if (z === undefined) {
+    throw new Error(`Unsupported confidence level: ${level}`)
+  }
+  const avg = mean(numbers)
+  const margin = numbers.length > 0 ? (z * stddev(numbers)) / Math.sqrt(numbers.length) : 0
+  return [avg - margin, avg + margin]
+}
+
 // ============= Pareto Optimization =============
 
 // ============= Telemetry Service =============
@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdirSync, mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import {
+  Cassette,
+  CassetteMissError,
+  CASSETTE_FORMAT_VERSION,
+  canonicalJson,
+  cassetteKey,
+  setCassette,
+  withCassette,
+} from '../src/cassette'
+
+function readLines(path: string) {
+  return readFileSync(path, 'utf-8')
+    .trim()
+    .split('\n')
+    .map((line) => JSON.parse(line))
+}
+
+describe('Cassette', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'cassette-'))
+  })
+
+  afterEach(() => {
+    setCassette(undefined)
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  describe('canonicalJson', () => {
+    it('should sort object keys and drop undefined values', () => {
+      expect(canonicalJson({ b: 1, a: { d: 2, c: undefined } })).toBe('{"a":{"d":2},"b":1}')
+    })
+
+    it('should produce equal keys for equal requests', () => {
+      expect(cassetteKey('llm', { prompt: 'x', t: 0.7 })).toBe(
+        cassetteKey('llm', { t: 0.7, prompt: 'x' }),
+      )
+      expect(cassetteKey('llm', { prompt: 'x' })).not.toBe(cassetteKey('eval', { prompt: 'x' }))
+    })
+  })
+
+  describe('record', () => {
+    it('should append interactions to a versioned recording file', async () => {
+      const cassette = new Cassette({ name: 'run', dir, mode: 'record' })
+
+      const result = await cassette.intercept('llm', { prompt: 'hi' }, async () => ({
+        content: 'hello',
+      }))
+      await cassette.intercept('llm', { prompt: 'bye' }, async () => ({ content: 'goodbye' }))
+
+      expect(result).toEqual({ content: 'hello' })
+      const [header, ...interactions] = readLines(cassette.getRecordingPath())
+      expect(header.version).toBe(CASSETTE_FORMAT_VERSION)
+      expect(interactions).toHaveLength(2)
+      expect(interactions[0].channel).toBe('llm')
+    })
+
+    it('should keep the recordings of other processes', async () => {
+      const cassette = new Cassette({ name: 'run', dir, mode: 'record' })
+      const other = join(cassette.getPath(), 'other-host-1.jsonl')
+      mkdirSync(cassette.getPath(), { recursive: true })
+      writeFileSync(other, 'other process\n')
+
+      await cassette.intercept('llm', { prompt: 'hi' }, async () => 'hello')
+
+      expect(readFileSync(other, 'utf-8')).toBe('other process\n')
+      expect(readdirSync(cassette.getPath())).toHaveLength(2)
+    })
+
+    it('should record errors and rethrow them', async () => {
+      const cassette = new Cassette({ name: 'run', dir, mode: 'record' })
+
+      await expect(
+        cassette.intercept('llm', { prompt: 'hi' }, async () => {
+          throw new Error('boom')
+        }),
+      ).rejects.toThrow('boom')
+
+      expect(readLines(cassette.getRecordingPath())[1].error).toBe('boom')
+    })
+  })
+
+  describe('replay', () => {
+    it('should replay repeated requests in recorded order without calling through', async () => {
+      const recorder = new Cassette({ name: 'run', dir, mode: 'record' })
+      let n = 0
+      await recorder.intercept('llm', { prompt: 'same' }, async () => `sample-${++n}`)
+      await recorder.intercept('llm', { prompt: 'same' }, async () => `sample-${++n}`)
+      await expect(
+        recorder.intercept('llm', { prompt: 'bad' }, async () => {
+          throw new Error('rate limited')
+        }),
+      ).rejects.toThrow()
+
+      const player = new Cassette({ name: 'run', dir, mode: 'replay' })
+      const live = vi.fn()
+
+      expect(await player.intercept('llm', { prompt: 'same' }, live)).toBe('sample-1')
+      expect(await player.intercept('llm', { prompt: 'same' }, live)).toBe('sample-2')
+      await expect(player.intercept('llm', { prompt: 'bad' }, live)).rejects.toThrow('rate limited')
+      expect(live).not.toHaveBeenCalled()
+    })
+
+    it('should throw CassetteMissError for unrecorded requests', async () => {
+      await new Cassette({ name: 'run', dir, mode: 'record' }).intercept(
+        'llm',
+        { prompt: 'a' },
+        async () => 'a',
+      )
+      const player = new Cassette({ name: 'run', dir, mode: 'replay' })
+
+      await expect(player.intercept('llm', { prompt: 'b' }, async () => 'b')).rejects.toThrow(
+        CassetteMissError,
+      )
+    })
+
+    it('should replay the recordings of every process', async () => {
+      const first = new Cassette({ name: 'run', dir, mode: 'record' })
+      await first.intercept('llm', { prompt: 'a' }, async () => 'a')
+      mkdirSync(first.getPath(), { recursive: true })
+      writeFileSync(
+        join(first.getPath(), 'other-host-1.jsonl'),
+        [
+          JSON.stringify({ version: CASSETTE_FORMAT_VERSION, name: 'run', recorded_at: '' }),
+          JSON.stringify({
+            key: cassetteKey('eval', { prompt: 'b' }),
+            channel: 'eval',
+            response: 'b',
+          }),
+        ].join('\n'),
+      )
+
+      const player = new Cassette({ name: 'run', dir, mode: 'replay' })
+
+      expect(await player.intercept('llm', { prompt: 'a' }, async () => 'live')).toBe('a')
+      expect(await player.intercept('eval', { prompt: 'b' }, async () => 'live')).toBe('b')
+    })
+
+    it('should find the next unreplayed request that agrees with given fields', async () => {
+      const recorder = new Cassette({ name: 'run', dir, mode: 'record' })
+      await recorder.intercept('llm', { model: 'a', prompt: 'x' }, async () => 'from a')
+      await recorder.intercept('llm', { model: 'b', prompt: 'x' }, async () => 'from b')
+
+      const player = new Cassette({ name: 'run', dir, mode: 'replay' })
+      const first = player.nextRecordedRequest('llm', { prompt: 'x' })
+      expect(await player.intercept('llm', first, async () => 'live')).toBe('from a')
+
+      expect(player.nextRecordedRequest('llm', { prompt: 'x' })).toEqual({
+        model: 'b',
+        prompt: 'x',
+      })
+      expect(player.nextRecordedRequest('llm', { prompt: 'y' })).toBeUndefined()
+      expect(player.nextRecordedRequest('eval', { prompt: 'x' })).toBeUndefined()
+    })
+
+    it('should reject cassettes with a different format version', () => {
+      mkdirSync(join(dir, 'old'))
+      writeFileSync(
+        join(dir, 'old', 'host-1.jsonl'),
+        JSON.stringify({ version: 1, name: 'old', recorded_at: '' }),
+      )
+
+      expect(() => new Cassette({ name: 'old', dir, mode: 'replay' })).toThrow('format version')
+    })
+  })
+
+  describe('withCassette', () => {
+    it('should call through when no cassette is active', async () => {
+      setCassette(null)
+      expect(await withCassette('llm', {}, async () => 'live')).toBe('live')
+    })
+
+    it('should route through the active cassette', async () => {
+      const cassette = new Cassette({ name: 'active', dir, mode: 'record' })
+      setCassette(cassette)
+
+      await withCassette('llm', { prompt: 'x' }, async () => 'recorded')
+
+      setCassette(new Cassette({ name: 'active', dir, mode: 'replay' }))
+      expect(await withCassette('llm', { prompt: 'x' }, async () => 'live')).toBe('recorded')
+    })
+  })
+})
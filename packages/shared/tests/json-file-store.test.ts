@@ -0,0 +1,41 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, readdirSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { JsonFileStore } from '../src/json-file-store'
+
+describe('JsonFileStore', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'json-store-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should read nothing until a document is written', async () => {
+    const store = new JsonFileStore<{ count: number }>(join(dir, 'nested', 'state.json'))
+
+    expect(await store.read()).toBeNull()
+    await store.write({ count: 1 })
+    expect(await store.read()).toEqual({ count: 1 })
+  })
+
+  it('should apply overlapping writes in call order', async () => {
+    const store = new JsonFileStore<{ count: number }>(join(dir, 'state.json'))
+
+    await Promise.all([1, 2, 3, 4, 5].map((count) => store.write({ count })))
+
+    expect(await store.read()).toEqual({ count: 5 })
+    expect(readdirSync(dir)).toEqual(['state.json'])
+  })
+
+  it('should do nothing without a file', async () => {
+    const store = new JsonFileStore<{ count: number }>()
+
+    await store.write({ count: 1 })
+    expect(await store.read()).toBeNull()
+  })
+})
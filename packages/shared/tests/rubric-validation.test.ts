@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { EvaluationRubric } from '../src/types'
+import { validateRubric } from '../src/rubric-validation'
+
+const HOUSE_STYLE: EvaluationRubric = {
+  name: 'house-style',
+  domain: 'marketing',
+  criteria: [
+    {
+      name: 'tone',
+      description: 'Follows the brand voice: warm, direct, no jargon',
+      anchors: [
+        { score: 1, description: 'Formal or full of jargon' },
+        { score: 10, description: 'Unmistakably on brand' },
+      ],
+      weight: 2,
+    },
+  ],
+}
+
+const withWeight = (weight: number): EvaluationRubric => ({
+  ...HOUSE_STYLE,
+  criteria: [{ ...HOUSE_STYLE.criteria[0], weight }],
+})
+
+describe('validateRubric', () => {
+  it('should accept a well-formed rubric', () => {
+    expect(validateRubric(HOUSE_STYLE)).toBeNull()
+  })
+
+  it('should explain what is wrong with a malformed rubric', () => {
+    const criterion = HOUSE_STYLE.criteria[0]
+
+    expect(validateRubric({ ...HOUSE_STYLE, name: 'house style' })).toContain('rubric name')
+    expect(validateRubric({ ...HOUSE_STYLE, criteria: [] })).toContain('at least one criterion')
+    expect(validateRubric({ ...HOUSE_STYLE, criteria: [criterion, criterion] })).toContain(
+      'unique names',
+    )
+    expect(validateRubric({ ...HOUSE_STYLE, criteria: [{ ...criterion, name: 'g_eval' }] })).toBe(
+      'criteria[0] must not be named g_eval, the score of an evaluator',
+    )
+    expect(validateRubric(withWeight(0))).toBe('criteria[0] weight must be a positive number')
+    expect(
+      validateRubric({
+        ...HOUSE_STYLE,
+        criteria: [{ ...criterion, anchors: [{ score: 11, description: 'Perfect' }] }],
+      }),
+    ).toContain('score from 1 to 10')
+  })
+})
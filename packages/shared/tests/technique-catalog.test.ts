@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { TECHNIQUES } from '../src/constants'
+import {
+  TECHNIQUE_CATALOG,
+  findIncompatibleTechniques,
+  getTechniqueEntry,
+  getTechniquesByCategory,
+  normalizeTechniqueName,
+  resolveTechniqueId,
+} from '../src/technique-catalog'
+
+describe('Technique Catalog', () => {
+  it('should have unique canonical IDs', () => {
+    const ids = TECHNIQUE_CATALOG.map((entry) => entry.id)
+    expect(new Set(ids).size).toBe(ids.length)
+  })
+
+  it('should map every technique engine name to a catalog entry', () => {
+    Object.values(TECHNIQUES).forEach((name) => {
+      expect(getTechniqueEntry(name)?.engine_name).toBe(name)
+    })
+  })
+
+  it('should only declare incompatibilities with known techniques', () => {
+    TECHNIQUE_CATALOG.forEach((entry) => {
+      entry.incompatible_with.forEach((id) => {
+        expect(resolveTechniqueId(id)).toBe(id)
+      })
+    })
+  })
+
+  describe('resolveTechniqueId', () => {
+    it('should resolve canonical IDs, aliases and engine names', () => {
+      expect(resolveTechniqueId('chain_of_thought')).toBe('chain_of_thought')
+      expect(resolveTechniqueId('cot')).toBe('chain_of_thought')
+      expect(resolveTechniqueId(TECHNIQUES.FEW_SHOT_COT)).toBe('chain_of_thought')
+      expect(resolveTechniqueId('Tree-Of-Thought')).toBe('tree_of_thought')
+      expect(resolveTechniqueId('USP')).toBe('universal_self_prompt')
+    })
+
+    it('should ignore case and word breaks', () => {
+      for (const name of ['FewShot-CoT', 'few shot cot', 'fewshot_cot', 'FewShot_CoT']) {
+        expect(resolveTechniqueId(name)).toBe('chain_of_thought')
+      }
+    })
+
+    it('should return undefined for unknown techniques', () => {
+      expect(resolveTechniqueId('made_up')).toBeUndefined()
+    })
+  })
+
+  it('should normalize case, spaces and dashes', () => {
+    expect(normalizeTechniqueName(' Least-to most ')).toBe('least_to_most')
+  })
+
+  it('should group techniques by category', () => {
+    const guards = getTechniquesByCategory('guard_helpers').map((entry) => entry.id)
+    expect(guards).toEqual(['sycophancy_filter', 'jailbreak_regex_bank'])
+  })
+
+  describe('findIncompatibleTechniques', () => {
+    it('should report conflicts declared on either side', () => {
+      expect(findIncompatibleTechniques(['usc', TECHNIQUES.SELF_CONSISTENCY])).toEqual([
+        ['universal_self_consistency', 'self_consistency'],
+      ])
+      expect(findIncompatibleTechniques(['dspy_ape', 'grips'])).toEqual([['dspy_ape', 'grips']])
+    })
+
+    it('should return no conflicts for compatible or unknown techniques', () => {
+      expect(findIncompatibleTechniques(['chain_of_thought', 'self_consistency', 'x'])).toEqual([])
+    })
+  })
+})
@@ -7,6 +7,7 @@ import {
   isRetryableError,
   createServiceRequest,
   createServiceResponse,
+  getLLMRunnerUrl,
   estimateTokens,
   estimateCost,
   createTelemetryEvent,
@@ -147,6 +148,62 @@ describe('Service Communication', () => {
       expect(response.data).toBeUndefined()
     })
   })
+
+  describe('getLLMRunnerUrl', () => {
+    beforeEach(() => {
+      delete process.env.OPENAI_API_KEY
+      delete process.env.ANTHROPIC_API_KEY
+      delete process.env.GOOGLE_AI_API_KEY
+      delete process.env.OPENAI_RUNNER_URL
+      delete process.env.MOCK_LLM_ENABLED
+    })
+
+    it('should return OpenAI runner URL when API key present', () => {
+      process.env.OPENAI_API_KEY = 'sk-test'
+      const url = getLLMRunnerUrl()
+      expect(url).toBe('http://localhost:4001')
+    })
+
+    it('should return Anthropic runner URL when API key present', () => {
+      delete process.env.OPENAI_API_KEY
+      process.env.ANTHROPIC_API_KEY = 'ant-test'
+      const url = getLLMRunnerUrl()
+      expect(url).toBe('http://localhost:4002')
+    })
+
+    it('should return Google runner URL when API key present', () => {
+      delete process.env.OPENAI_API_KEY
+      delete process.env.ANTHROPIC_API_KEY
+      process.env.GOOGLE_AI_API_KEY = 'goog-test'
+      const url = getLLMRunnerUrl()
+      expect(url).toBe('http://localhost:4003')
+    })
+
+    it('should use custom URLs from environment', () => {
+      process.env.OPENAI_API_KEY = 'sk-test'
+      process.env.OPENAI_RUNNER_URL = 'http://custom:5000'
+      const url = getLLMRunnerUrl()
+      expect(url).toBe('http://custom:5000')
+    })
+
+    it('should fall back to mock runner URL when mock mode enabled', () => {
+      delete process.env.OPENAI_API_KEY
+      delete process.env.ANTHROPIC_API_KEY
+      delete process.env.GOOGLE_AI_API_KEY
+      process.env.MOCK_LLM_ENABLED = 'true'
+      const url = getLLMRunnerUrl()
+      expect(url).toBe('http://localhost:4004')
+      delete process.env.MOCK_LLM_ENABLED
+    })
+
+    it('should return null when no API keys', () => {
+      delete process.env.OPENAI_API_KEY
+      delete process.env.ANTHROPIC_API_KEY
+      delete process.env.GOOGLE_AI_API_KEY
+      const url = getLLMRunnerUrl()
+      expect(url).toBeNull()
+    })
+  })
 })
 
 describe('Token and Cost Estimation', () => {
@@ -8,6 +8,7 @@ import {
 import { Validator } from './validator'
 import { FailClosedHandler } from './fail-closed'
 import axios from 'axios'
+import { normalizeTechniqueName, resolveTechniqueId, withCassette } from '@promptdial/shared'
 
 // LLM Response interface
 interface LLMResponse {
@@ -148,10 +149,10 @@ Provide your analysis in the specified JSON format.`
 
       const parsed = JSON.parse(jsonMatch[0])
 
-      // Map technique names to enum values
+      // Map technique names and aliases to canonical catalog IDs;
+      // unknown names pass through and are rejected by the validator
       const techniques = (parsed.suggested_techniques || []).map((t: string) => {
-        const normalizedName = t.toLowerCase().replace(/-/g, '_')
-        return normalizedName as Technique
+        return (resolveTechniqueId(t) ?? normalizeTechniqueName(t)) as Technique
       })
 
       return {
@@ -205,17 +206,56 @@ Provide your analysis in the specified JSON format.`
   }
 }
 
-// Default LLM Provider implementation using OpenAI API
+// Technique the mock LLM Runner's fixtures match planning prompts by
+export const PLANNER_MOCK_TECHNIQUE = 'strategy_planner'
+
+// Default LLM Provider implementation using OpenAI API; without an API key
+// in mock mode, planning prompts go to the offline mock LLM Runner instead
 class DefaultLLMProvider implements LLMProvider {
   private apiKey: string
   private model: string
+  private mockRunnerUrl: string | null
 
   constructor() {
     this.apiKey = process.env.OPENAI_API_KEY || ''
-    this.model = 'gpt-4o-mini'
+    this.mockRunnerUrl =
+      !this.apiKey && process.env.MOCK_LLM_ENABLED === 'true'
+        ? process.env.MOCK_RUNNER_URL || 'http://localhost:4004'
+        : null
+    this.model = this.mockRunnerUrl ? 'mock-1' : 'gpt-4o-mini'
   }
 
   async call(prompt: string): Promise<LLMResponse> {
+    return withCassette('strategy-planner', { model: this.model, prompt }, () =>
+      this.mockRunnerUrl
+        ? this.callMockRunner(this.mockRunnerUrl, prompt)
+        : this.callOpenAI(prompt),
+    )
+  }
+
+  private async callMockRunner(runnerUrl: string, prompt: string): Promise<LLMResponse> {
+    try {
+      const response = await axios.post(`${runnerUrl}/run`, {
+        payload: {
+          variant: {
+            id: 'strategy-plan',
+            technique: PLANNER_MOCK_TECHNIQUE,
+            prompt,
+            temperature: 0.3,
+            est_tokens: 0,
+            cost_usd: 0,
+          },
+        },
+      })
+      return response.data.data
+    } catch (error) {
+      throw new PlannerError('Mock LLM Runner call failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  private async callOpenAI(prompt: string): Promise<LLMResponse> {
     const startTime = Date.now()
 
     if (!this.apiKey) {
@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { TECHNIQUE_CATALOG } from '@promptdial/shared'
 
 // Input contract
 export interface StrategyPlannerRequest {
@@ -66,88 +67,20 @@ export interface TechniqueMetadata {
   incompatibleWith?: Technique[]
 }
 
-// Allow-list configuration
-export const TECHNIQUE_ALLOW_LIST: Record<Technique, TechniqueMetadata> = {
-  [Technique.CHAIN_OF_THOUGHT]: {
-    name: Technique.CHAIN_OF_THOUGHT,
-    category: TechniqueCategory.REASONING_PATHS,
-    description: 'Step-by-step reasoning decomposition',
-    rationale: 'Still top-2 cited for accuracy uplift',
-    applicableTo: ['reasoning', 'math', 'logic', 'analysis'],
-  },
-  [Technique.TREE_OF_THOUGHT]: {
-    name: Technique.TREE_OF_THOUGHT,
-    category: TechniqueCategory.REASONING_PATHS,
-    description: 'Branching exploration of solution paths',
-    rationale: 'Still top-2 cited for accuracy uplift',
-    applicableTo: ['complex_reasoning', 'planning', 'strategy'],
-  },
-  [Technique.LEAST_TO_MOST]: {
-    name: Technique.LEAST_TO_MOST,
-    category: TechniqueCategory.REASONING_PATHS,
-    description: 'Build up from simple to complex',
-    rationale: 'Still top-2 cited for accuracy uplift',
-    applicableTo: ['math', 'decomposable_tasks'],
-  },
-  [Technique.SELF_CONSISTENCY]: {
-    name: Technique.SELF_CONSISTENCY,
-    category: TechniqueCategory.VARIANCE_DAMPERS,
-    description: 'Multiple sampling with majority vote',
-    rationale: 'Majority-vote beats single-path; handles free-form tasks',
-    applicableTo: ['reasoning', 'creative', 'open_ended'],
-  },
-  [Technique.UNIVERSAL_SELF_CONSISTENCY]: {
-    name: Technique.UNIVERSAL_SELF_CONSISTENCY,
-    category: TechniqueCategory.VARIANCE_DAMPERS,
-    description: 'Self-consistency across formats',
-    rationale: 'Majority-vote beats single-path; handles free-form tasks',
-    applicableTo: ['diverse_outputs', 'multi_format'],
-  },
-  [Technique.DSPY_BOOTSTRAP_FEWSHOT]: {
-    name: Technique.DSPY_BOOTSTRAP_FEWSHOT,
-    category: TechniqueCategory.META_OPTIMIZERS,
-    description: 'Automated few-shot example generation',
-    rationale: 'Auto-search greatly outperforms hand tuning in case studies',
-    applicableTo: ['tasks_with_examples', 'classification', 'extraction'],
-  },
-  [Technique.GRIPS]: {
-    name: Technique.GRIPS,
-    category: TechniqueCategory.META_OPTIMIZERS,
-    description: 'Gradient-free prompt search',
-    rationale: 'Auto-search greatly outperforms hand tuning in case studies',
-    applicableTo: ['optimization', 'tuning'],
-  },
-  [Technique.SELF_REFINE]: {
-    name: Technique.SELF_REFINE,
-    category: TechniqueCategory.CRITIQUE_LOOPS,
-    description: 'Iterative self-improvement',
-    rationale: 'Proven gain on reasoning & coding tasks',
-    applicableTo: ['coding', 'writing', 'reasoning'],
-  },
-  [Technique.SELF_CALIBRATION]: {
-    name: Technique.SELF_CALIBRATION,
-    category: TechniqueCategory.CRITIQUE_LOOPS,
-    description: 'Confidence adjustment through reflection',
-    rationale: 'Proven gain on reasoning & coding tasks',
-    applicableTo: ['uncertainty_aware', 'calibrated_outputs'],
-  },
-  [Technique.SYCOPHANCY_FILTER]: {
-    name: Technique.SYCOPHANCY_FILTER,
-    category: TechniqueCategory.GUARD_HELPERS,
-    description: 'Prevent agreement bias',
-    rationale: 'Must run pre & post every LLM call',
-    applicableTo: ['all'],
-    incompatibleWith: [],
-  },
-  [Technique.JAILBREAK_REGEX_BANK]: {
-    name: Technique.JAILBREAK_REGEX_BANK,
-    category: TechniqueCategory.GUARD_HELPERS,
-    description: 'Pattern matching for known exploits',
-    rationale: 'Must run pre & post every LLM call',
-    applicableTo: ['all'],
-    incompatibleWith: [],
-  },
-}
+// Allow-list configuration, derived from the shared technique catalog
+export const TECHNIQUE_ALLOW_LIST = Object.fromEntries(
+  TECHNIQUE_CATALOG.filter((entry) => entry.allow_listed).map((entry) => [
+    entry.id,
+    {
+      name: entry.id as Technique,
+      category: entry.category as TechniqueCategory,
+      description: entry.description,
+      rationale: entry.rationale,
+      applicableTo: entry.applicable_to,
+      incompatibleWith: entry.incompatible_with as Technique[],
+    },
+  ]),
+) as Record<Technique, TechniqueMetadata>
 
 // Validation schema
 export const StrategyPlannerResponseSchema = z.object({
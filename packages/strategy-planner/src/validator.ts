@@ -1,5 +1,6 @@
 import { z } from 'zod'
 import Ajv from 'ajv'
+import { findIncompatibleTechniques, resolveTechniqueId } from '@promptdial/shared'
 import {
   StrategyPlannerResponse,
   StrategyPlannerResponseSchema,
@@ -127,19 +128,15 @@ export class Validator {
     }
 
     // Rule 2: Check for incompatible technique combinations
-    for (let i = 0; i < suggested_techniques.length; i++) {
-      const tech = suggested_techniques[i]
-      const metadata = TECHNIQUE_ALLOW_LIST[tech]
-
-      if (metadata.incompatibleWith) {
-        const conflicts = suggested_techniques.filter((t) => metadata.incompatibleWith?.includes(t))
-
-        if (conflicts.length > 0) {
-          throw new ValidationError(
-            `Incompatible techniques: ${tech} cannot be used with ${conflicts.join(', ')}`,
-          )
-        }
-      }
+    const conflicts = findIncompatibleTechniques(suggested_techniques)
+    if (conflicts.length > 0) {
+      const [tech, conflict] = conflicts[0]
+      throw new ValidationError(
+        `Incompatible techniques: ${tech} cannot be used with ${conflict}`,
+        {
+          conflicts,
+        },
+      )
     }
 
     // Rule 3: Guard helpers should be included for most cases
@@ -162,8 +159,11 @@ export class Validator {
    */
   quickValidate(techniques: string[]): boolean {
     try {
-      // Check if all techniques are strings and in allow-list
-      return techniques.every((tech) => typeof tech === 'string' && tech in TECHNIQUE_ALLOW_LIST)
+      // Check if all techniques are strings and resolve to an allow-listed ID
+      return techniques.every(
+        (tech) =>
+          typeof tech === 'string' && (resolveTechniqueId(tech) ?? '') in TECHNIQUE_ALLOW_LIST,
+      )
     } catch {
       return false
     }
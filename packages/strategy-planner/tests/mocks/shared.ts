@@ -6,3 +6,9 @@ export const createLogger = (name: string) => ({
   warn: (message: string, data?: any) => console.warn(`[${name}] WARN:`, message, data),
   debug: (message: string, data?: any) => console.debug(`[${name}] DEBUG:`, message, data),
 })
+
+// The technique catalog is plain data, so use the real one
+export * from '../../../shared/src/technique-catalog'
+
+// Cassettes are off unless configured, so calls go straight through
+export { withCassette } from '../../../shared/src/cassette'
@@ -1,7 +1,10 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest'
-import { StrategyPlanner, LLMProvider } from '../src/planner'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import axios from 'axios'
+import { StrategyPlanner, LLMProvider, PLANNER_MOCK_TECHNIQUE } from '../src/planner'
 import { Technique } from '../src/types'
 
+vi.mock('axios')
+
 // Mock LLM provider
 class MockLLMProvider implements LLMProvider {
   async call(prompt: string): Promise<any> {
@@ -125,6 +128,74 @@ describe('StrategyPlanner', () => {
       expect(response.suggested_techniques).toContain(Technique.SELF_REFINE)
       expect(response.confidence).toBe(0.9)
     })
+    it('should map technique aliases to canonical IDs', async () => {
+      const aliasProvider = new MockLLMProvider()
+
+      vi.spyOn(aliasProvider, 'call').mockResolvedValue({
+        content: JSON.stringify({
+          suggested_techniques: ['CoT', 'Tree-of-Thought'],
+          rationale: 'Aliases used by the model',
+          confidence: 0.8,
+        }),
+        tokens_used: 100,
+        latency_ms: 50,
+        provider: 'mock',
+        model: 'mock-model',
+      })
+
+      const response = await new StrategyPlanner(aliasProvider).plan({ prompt: 'Plan a trip' })
+
+      expect(response.suggested_techniques).toEqual([
+        Technique.CHAIN_OF_THOUGHT,
+        Technique.TREE_OF_THOUGHT,
+      ])
+    })
+  })
+
+  describe('mock mode', () => {
+    beforeEach(() => {
+      delete process.env.OPENAI_API_KEY
+      process.env.MOCK_LLM_ENABLED = 'true'
+    })
+
+    afterEach(() => {
+      delete process.env.MOCK_LLM_ENABLED
+    })
+
+    it('should plan through the mock LLM Runner without an API key', async () => {
+      vi.mocked(axios.post).mockResolvedValueOnce({
+        data: {
+          success: true,
+          data: {
+            content: JSON.stringify({
+              suggested_techniques: ['least_to_most', 'sycophancy_filter'],
+              rationale: 'Scripted by a fixture',
+              confidence: 0.6,
+            }),
+            tokens_used: 10,
+            latency_ms: 0,
+            provider: 'mock',
+            model: 'mock-1',
+          },
+        },
+      })
+
+      const response = await new StrategyPlanner().plan({ prompt: 'Plan a trip' })
+
+      expect(vi.mocked(axios.post)).toHaveBeenCalledWith('http://localhost:4004/run', {
+        payload: {
+          variant: expect.objectContaining({
+            technique: PLANNER_MOCK_TECHNIQUE,
+            prompt: expect.any(String),
+          }),
+        },
+      })
+      expect(response.suggested_techniques).toEqual([
+        Technique.LEAST_TO_MOST,
+        Technique.SYCOPHANCY_FILTER,
+      ])
+      expect(response.metadata?.modelUsed).toBe('mock-1')
+    })
   })
 
   describe('quickPlan', () => {
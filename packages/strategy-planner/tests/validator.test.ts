@@ -49,6 +49,16 @@ describe('Validator', () => {
       await expect(validator.validate(tooManyTechniques)).rejects.toThrow(ValidationError)
     })
 
+    it('should reject incompatible technique combinations', async () => {
+      const incompatible = {
+        suggested_techniques: [Technique.SELF_CONSISTENCY, Technique.UNIVERSAL_SELF_CONSISTENCY],
+        rationale: 'Two variance dampers that do the same job',
+        confidence: 0.6,
+      }
+
+      await expect(validator.validate(incompatible)).rejects.toThrow('Incompatible techniques')
+    })
+
     it('should reject response with invalid confidence', async () => {
       const invalidConfidence = {
         suggested_techniques: [Technique.CHAIN_OF_THOUGHT],
@@ -94,6 +104,10 @@ describe('Validator', () => {
       expect(validator.quickValidate(techniques)).toBe(false)
     })
 
+    it('should accept technique aliases and engine names', () => {
+      expect(validator.quickValidate(['cot', 'SelfConsistency'])).toBe(true)
+    })
+
     it('should handle empty array', () => {
       expect(validator.quickValidate([])).toBe(true)
     })
@@ -9,6 +9,8 @@ import {
   TaskClassification,
   BudgetConstraints,
   TechniqueStrategy,
+  TechniqueContext,
+  FewShotExample,
   ServiceRequest,
   ServiceResponse,
   TelemetryEvent,
@@ -17,6 +19,9 @@ import {
   ERROR_CODES,
   TECHNIQUES,
   getTelemetryService,
+  findIncompatibleTechniques,
+  getTechniqueEntry,
+  resolveTechniqueId,
 } from '@promptdial/shared'
 
 import { ALL_TECHNIQUES, TECHNIQUE_REGISTRY, BaseTechnique } from './techniques'
@@ -38,10 +43,11 @@ export class TechniqueEngine {
   }
 
   /**
-   * Register a custom technique
+   * Register a custom technique; its name must not match a registered
+   * technique or a catalog alias of one
    */
   registerTechnique(strategy: TechniqueStrategy): void {
-    if (this.techniques.has(strategy.name) || this.customTechniques.has(strategy.name)) {
+    if (this.findTechniqueKey(strategy.name)) {
       throw new Error(`Technique ${strategy.name} is already registered`)
     }
 
@@ -57,10 +63,19 @@ export class TechniqueEngine {
     taskClassification: TaskClassification,
     budget: BudgetConstraints,
     traceId: string,
+    context: TechniqueContext = {},
   ): Promise<PromptVariant[]> {
     const startTime = Date.now()
     const allVariants: PromptVariant[] = []
 
+    const { unavailable } = this.resolveSuggestions(taskClassification.suggested_techniques)
+    if (unavailable.length > 0) {
+      logger.warn('Suggested techniques are not available in the technique engine', {
+        traceId,
+        unavailable,
+      })
+    }
+
     // Get applicable techniques
     const applicableTechniques = this.getApplicableTechniques(taskClassification, budget)
 
@@ -89,6 +104,7 @@ export class TechniqueEngine {
           basePrompt,
           taskClassification,
           budgetTracker,
+          context,
         )
 
         // Update budget
@@ -118,6 +134,27 @@ export class TechniqueEngine {
     return allVariants
   }
 
+  /**
+   * Split suggested technique names (canonical IDs, aliases or engine names)
+   * into registry keys this engine can run and names it cannot. Guard helpers
+   * are applied by the safety guard rather than here, so they are neither.
+   */
+  resolveSuggestions(suggested: string[]): { available: string[]; unavailable: string[] } {
+    const available: string[] = []
+    const unavailable: string[] = []
+
+    for (const name of suggested) {
+      const key = this.findTechniqueKey(name)
+      if (key && !available.includes(key)) {
+        available.push(key)
+      } else if (!key && getTechniqueEntry(name)?.category !== 'guard_helpers') {
+        unavailable.push(name)
+      }
+    }
+
+    return { available, unavailable }
+  }
+
   /**
    * Get all techniques applicable to a task
    */
@@ -126,18 +163,19 @@ export class TechniqueEngine {
     budget: BudgetConstraints,
   ): TechniqueStrategy[] {
     const techniques: TechniqueStrategy[] = []
+    const suggested = this.resolveSuggestions(classification.suggested_techniques).available
 
-    // Check suggested techniques first
-    for (const techniqueName of classification.suggested_techniques) {
-      const technique = this.getTechnique(techniqueName)
-      if (technique && this.isTechniqueApplicable(technique, classification, budget)) {
+    // Suggested techniques are honored regardless of task type fit
+    for (const key of suggested) {
+      const technique = this.getTechnique(key)
+      if (technique && this.isTechniqueRunnable(technique, classification, budget)) {
         techniques.push(technique)
       }
     }
 
     // Add other compatible techniques
     for (const [name, TechniqueClass] of this.techniques) {
-      if (!classification.suggested_techniques.includes(name)) {
+      if (!suggested.includes(name) && !this.conflictsWith(name, suggested)) {
         const technique = new TechniqueClass()
         if (this.isTechniqueApplicable(technique, classification, budget)) {
           techniques.push(technique)
@@ -147,19 +185,38 @@ export class TechniqueEngine {
 
     // Add applicable custom techniques
     for (const [name, technique] of this.customTechniques) {
-      if (this.isTechniqueApplicable(technique, classification, budget)) {
+      if (
+        !suggested.includes(name) &&
+        this.isTechniqueApplicable(technique, classification, budget)
+      ) {
         techniques.push(technique)
       }
     }
 
     // Sort by relevance (suggested first, then by best_for match)
     return techniques.sort((a, b) => {
-      const aScore = this.scoreTechnique(a, classification)
-      const bScore = this.scoreTechnique(b, classification)
+      const aScore = this.scoreTechnique(a, classification, suggested)
+      const bScore = this.scoreTechnique(b, classification, suggested)
       return bScore - aScore
     })
   }
 
+  /**
+   * Registry key for a technique name, resolving catalog aliases
+   */
+  private findTechniqueKey(name: string): string | null {
+    if (this.techniques.has(name) || this.customTechniques.has(name)) {
+      return name
+    }
+
+    const id = resolveTechniqueId(name)
+    return id && this.techniques.has(id) ? id : null
+  }
+
+  private conflictsWith(name: string, selected: string[]): boolean {
+    return selected.some((key) => findIncompatibleTechniques([name, key]).length > 0)
+  }
+
   private getTechnique(name: string): TechniqueStrategy | null {
     const TechniqueClass = this.techniques.get(name)
     if (TechniqueClass) {
@@ -174,8 +231,7 @@ export class TechniqueEngine {
     classification: TaskClassification,
     budget: BudgetConstraints,
   ): boolean {
-    // Check if technique needs retrieval but task doesn't have it
-    if (technique.needs_retrieval && !classification.needs_retrieval) {
+    if (!this.isTechniqueRunnable(technique, classification, budget)) {
       return false
     }
 
@@ -185,20 +241,33 @@ export class TechniqueEngine {
       return Math.random() < 0.3 // 30% chance to try anyway
     }
 
-    // Check minimum budget (rough estimate)
-    const minCost = 0.01 // Minimum cost for any technique
-    if (budget.remaining_cost_usd < minCost) {
+    return true
+  }
+
+  private isTechniqueRunnable(
+    technique: TechniqueStrategy,
+    classification: TaskClassification,
+    budget: BudgetConstraints,
+  ): boolean {
+    // Check if technique needs retrieval but task doesn't have it
+    if (technique.needs_retrieval && !classification.needs_retrieval) {
       return false
     }
 
-    return true
+    // Check minimum budget (rough estimate)
+    const minCost = 0.01 // Minimum cost for any technique
+    return budget.remaining_cost_usd >= minCost
   }
 
-  private scoreTechnique(technique: TechniqueStrategy, classification: TaskClassification): number {
+  private scoreTechnique(
+    technique: TechniqueStrategy,
+    classification: TaskClassification,
+    suggested: string[],
+  ): number {
     let score = 0
 
     // Bonus for suggested techniques
-    if (classification.suggested_techniques.includes(technique.name)) {
+    if (suggested.includes(this.findTechniqueKey(technique.name) ?? technique.name)) {
       score += 100
     }
 
@@ -228,9 +297,10 @@ export class TechniqueEngine {
     basePrompt: string,
     classification: TaskClassification,
     budget: BudgetConstraints,
+    context: TechniqueContext,
   ): Promise<PromptVariant[]> {
     try {
-      const variants = await technique.generate(basePrompt, classification, budget)
+      const variants = await technique.generate(basePrompt, classification, budget, context)
 
       // Validate variants
       return variants.filter((v) => this.validateVariant(v))
@@ -311,16 +381,26 @@ export async function handleGenerateVariantsRequest(
     classification: TaskClassification
     budget: BudgetConstraints
     trace_id: string
+    suggested_techniques?: string[]
+    examples?: FewShotExample[] // Selected from the example bank for this prompt
   }>,
 ): Promise<ServiceResponse<PromptVariant[]>> {
   try {
-    const { base_prompt, classification, budget, trace_id } = request.payload
+    const { base_prompt, classification, budget, trace_id, suggested_techniques, examples } =
+      request.payload
 
+    // Strategy planner suggestions take precedence over the classifier's
     const variants = await engineInstance.generateVariants(
       base_prompt,
-      classification,
+      {
+        ...classification,
+        suggested_techniques: [
+          ...new Set([...(suggested_techniques || []), ...classification.suggested_techniques]),
+        ],
+      },
       budget,
       trace_id,
+      { examples },
     )
 
     // Runtime invariant: Must have at least one variant
@@ -465,7 +545,9 @@ if (require.main === module) {
           remaining_cost_usd: 1.0,
           remaining_time_ms: 30000
         },
-        trace_id: req.headers['x-trace-id'] || req.body.trace_id
+        trace_id: req.headers['x-trace-id'] || req.body.trace_id,
+        suggested_techniques: req.body.suggested_techniques,
+        examples: req.body.retrieved_examples,
       }
     }
     
@@ -473,7 +555,8 @@ if (require.main === module) {
     
     // Return the variants directly for backward compatibility
     if (response.success) {
-      res.json({ variants: response.data })
+      const { unavailable } = engineInstance.resolveSuggestions(req.body.suggested_techniques || [])
+      res.json({ variants: response.data, unavailable_techniques: unavailable })
     } else {
       res.status(500).json({ 
         error: response.error?.message,
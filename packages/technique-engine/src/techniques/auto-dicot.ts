@@ -0,0 +1,190 @@
+/**
+ * PromptDial 3.0 - AutoDiCoT (Automatic Directed Chain-of-Thought) Technique
+ *
+ * Pairs correct reasoning demonstrations with incorrect ones and an
+ * explanation of why they are wrong, steering the model away from
+ * common failure modes
+ */
+
+import { BaseTechnique } from './base'
+import {
+  PromptVariant,
+  TaskClassification,
+  BudgetConstraints,
+  TECHNIQUES,
+} from '@promptdial/shared'
+
+interface ContrastiveExample {
+  question: string
+  correct: string
+  incorrect: string
+  why_wrong: string
+}
+
+export class AutoDiCoTTechnique extends BaseTechnique {
+  name = TECHNIQUES.AUTO_DICOT
+  description = 'Contrastive chain-of-thought with explanations of incorrect reasoning'
+  best_for: TaskClassification['task_type'][] = [
+    'math_reasoning',
+    'classification',
+    'data_analysis',
+    'general_qa',
+  ]
+  needs_retrieval = false
+
+  private examples: Record<string, ContrastiveExample[]> = {
+    math_reasoning: [
+      {
+        question:
+          'A shirt costs $40 and is discounted by 25%, then by another 10%. What is the final price?',
+        correct: `1. First discount: $40 × 0.75 = $30
+2. Second discount applies to the new price: $30 × 0.90 = $27
+3. Final price = $27`,
+        incorrect: `1. Total discount = 25% + 10% = 35%
+2. Final price = $40 × 0.65 = $26`,
+        why_wrong:
+          'Successive discounts compound; the second discount applies to the already reduced price, so percentages cannot simply be added.',
+      },
+      {
+        question: 'If 3 workers build a wall in 6 days, how long do 6 workers take?',
+        correct: `1. Total work = 3 workers × 6 days = 18 worker-days
+2. With 6 workers: 18 ÷ 6 = 3 days`,
+        incorrect: `1. Twice as many workers means twice as many days
+2. 6 × 2 = 12 days`,
+        why_wrong:
+          'Workers and time are inversely proportional for a fixed amount of work; doubling the workers halves the time.',
+      },
+    ],
+    classification: [
+      {
+        question:
+          'Classify the sentiment: "The battery life is great, but the screen cracked in a week."',
+        correct: `1. Positive aspect: battery life
+2. Negative aspect: screen durability, a product defect
+3. The defect outweighs the praise, so the overall sentiment is mixed leaning negative
+Label: negative`,
+        incorrect: `1. The review contains the word "great"
+Label: positive`,
+        why_wrong:
+          'Keyword matching ignores the contrastive "but" clause; the label must weigh every aspect of the text.',
+      },
+    ],
+    data_analysis: [
+      {
+        question:
+          'Sales rose from 100 to 150 units while ad spend doubled. Did ads cause the increase?',
+        correct: `1. Sales grew 50% while ad spend grew 100%
+2. Both moved together, which shows correlation only
+3. Other factors (season, pricing) are not controlled
+Conclusion: the data is insufficient to claim causation`,
+        incorrect: `1. Ad spend went up and sales went up
+Conclusion: ads caused the 50% increase`,
+        why_wrong:
+          'Co-movement of two series does not establish causation without controlling for confounders.',
+      },
+    ],
+    general: [
+      {
+        question: 'Which is heavier: a kilogram of feathers or a kilogram of steel?',
+        correct: `1. Both quantities are specified as one kilogram
+2. Mass is equal regardless of material
+Answer: they weigh the same`,
+        incorrect: `1. Steel is denser than feathers
+Answer: the steel is heavier`,
+        why_wrong:
+          'Density affects volume, not mass; the question fixes the mass of both at one kilogram.',
+      },
+    ],
+  }
+
+  async generate(
+    base_prompt: string,
+    meta: TaskClassification,
+    budget: BudgetConstraints,
+  ): Promise<PromptVariant[]> {
+    const variants: PromptVariant[] = []
+    const examples = this.getExamples(meta.task_type)
+
+    // Variant 1: Contrastive demonstrations
+    const contrastivePrompt = this.createContrastivePrompt(base_prompt, examples)
+    const variant1 = this.createVariant(
+      this.sandwichPrompt(contrastivePrompt),
+      `${this.name}_contrastive`,
+      0.5,
+      0,
+    )
+
+    if (this.fitsInBudget(variant1, budget)) {
+      variants.push(variant1)
+    }
+
+    // Variant 2: Model writes and critiques its own flawed attempt first
+    if (budget.remaining_cost_usd > variant1.cost_usd * 2) {
+      const selfDiagnosePrompt = this.createSelfDiagnosePrompt(base_prompt, examples[0])
+      const variant2 = this.createVariant(
+        this.sandwichPrompt(selfDiagnosePrompt),
+        `${this.name}_self_diagnose`,
+        0.6,
+        1,
+      )
+      variant2.cost_usd *= 2 // Flawed attempt + corrected attempt
+
+      if (this.fitsInBudget(variant2, budget)) {
+        variants.push(variant2)
+      }
+    }
+
+    return variants
+  }
+
+  private getExamples(taskType: string): ContrastiveExample[] {
+    return this.examples[taskType] || this.examples.general
+  }
+
+  private formatExample(example: ContrastiveExample, index: number): string {
+    return `Example ${index + 1}:
+Question: ${example.question}
+
+Correct reasoning:
+${example.correct}
+
+Incorrect reasoning:
+${example.incorrect}
+
+Why this is wrong: ${example.why_wrong}`
+  }
+
+  private createContrastivePrompt(basePrompt: string, examples: ContrastiveExample[]): string {
+    const demonstrations = examples.map((example, i) => this.formatExample(example, i)).join('\n\n')
+
+    return `Learn from both correct and incorrect reasoning in these examples:
+
+${demonstrations}
+
+Now solve the following task. Reason step by step, and before answering check that your
+reasoning does not repeat any of the mistakes explained above.
+
+Question: ${basePrompt}
+
+Correct reasoning:`
+  }
+
+  private createSelfDiagnosePrompt(basePrompt: string, example: ContrastiveExample): string {
+    return `Use directed chain-of-thought with self-diagnosis.
+
+${this.formatExample(example, 0)}
+
+TASK: ${basePrompt}
+
+Step 1 - Tempting answer:
+Write the answer a hasty solver would most likely give, with its reasoning.
+
+Step 2 - Why this is wrong:
+Identify the specific flaw in that reasoning, as in the example above.
+
+Step 3 - Correct reasoning:
+Solve the task step by step, avoiding the flaw you identified.
+
+FINAL ANSWER:`
+  }
+}
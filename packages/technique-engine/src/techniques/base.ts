@@ -6,9 +6,11 @@
 
 import {
   PromptVariant,
+  VariantStages,
   TaskClassification,
   BudgetConstraints,
   TechniqueStrategy,
+  TechniqueContext,
   generateVariantId,
   estimateTokens,
   estimateCost,
@@ -21,12 +23,14 @@ export abstract class BaseTechnique implements TechniqueStrategy {
   abstract needs_retrieval: boolean
 
   /**
-   * Generate prompt variants using this technique
+   * Generate prompt variants using this technique; the context carries
+   * request-specific material such as selected few-shot examples
    */
   abstract generate(
     base_prompt: string,
     meta: TaskClassification,
     budget: BudgetConstraints,
+    context?: TechniqueContext,
   ): Promise<PromptVariant[]>
 
   /**
@@ -53,6 +57,33 @@ export abstract class BaseTechnique implements TechniqueStrategy {
     }
   }
 
+  /**
+   * Helper to create a multi-stage variant. The single prompt is kept as a
+   * fallback for one-shot execution; tokens and cost cover every stage,
+   * counting looped stages once per iteration.
+   */
+  protected createStagedVariant(
+    prompt: string,
+    stages: VariantStages,
+    technique: string,
+    temperature: number,
+    index: number,
+  ): PromptVariant {
+    const variant = this.createVariant(prompt, technique, temperature, index)
+    const loopStart = stages.steps.findIndex((step) => step.name === stages.loop_from)
+    const tokens = stages.steps.reduce((total, step, i) => {
+      const passes = loopStart >= 0 && i >= loopStart ? stages.max_iterations || 1 : 1
+      return total + estimateTokens(step.prompt) * passes
+    }, 0)
+
+    return {
+      ...variant,
+      stages,
+      est_tokens: tokens,
+      cost_usd: estimateCost(tokens, 'openai', 'gpt-3.5-turbo'),
+    }
+  }
+
   /**
    * Check if this technique fits within budget constraints
    */
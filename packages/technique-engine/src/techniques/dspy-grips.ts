@@ -0,0 +1,194 @@
+/**
+ * PromptDial 3.0 - DSPy GrIPS (Gradient-free Instructional Prompt Search) Technique
+ *
+ * Searches the instruction space by applying phrase-level edits
+ * (add, delete, swap, paraphrase) to the base instruction
+ */
+
+import { BaseTechnique } from './base'
+import {
+  PromptVariant,
+  TaskClassification,
+  BudgetConstraints,
+  TECHNIQUES,
+} from '@promptdial/shared'
+
+export const GRIPS_EDIT_OPERATIONS = ['add', 'delete', 'swap', 'paraphrase'] as const
+
+export type GrIPSEditOperation = (typeof GRIPS_EDIT_OPERATIONS)[number]
+
+export class DSPyGrIPSTechnique extends BaseTechnique {
+  name = TECHNIQUES.DSPY_GRIPS
+  description = 'Edit-based instruction search with phrase-level operators'
+  best_for: TaskClassification['task_type'][] = [
+    'classification',
+    'general_qa',
+    'summarization',
+    'math_reasoning',
+  ]
+  needs_retrieval = false
+
+  private paraphrases: Record<string, string> = {
+    write: 'compose',
+    explain: 'describe',
+    describe: 'explain',
+    list: 'enumerate',
+    create: 'build',
+    find: 'identify',
+    make: 'produce',
+    show: 'demonstrate',
+    give: 'provide',
+    tell: 'inform',
+    summarize: 'condense',
+    calculate: 'compute',
+    classify: 'categorize',
+    analyze: 'examine',
+    simple: 'straightforward',
+    short: 'brief',
+    detailed: 'thorough',
+    good: 'effective',
+    best: 'optimal',
+  }
+
+  private additions: Record<string, string[]> = {
+    math_reasoning: ['Show each calculation explicitly', 'State the final answer on its own line'],
+    code_generation: ['Handle edge cases', 'Keep the implementation readable'],
+    classification: ['Choose exactly one label', 'Base the decision on explicit evidence'],
+    summarization: ['Keep only the key points', 'Preserve the original meaning'],
+    general: ['Be precise and concise', 'Address every part of the request'],
+  }
+
+  async generate(
+    base_prompt: string,
+    meta: TaskClassification,
+    budget: BudgetConstraints,
+  ): Promise<PromptVariant[]> {
+    const variants: PromptVariant[] = []
+    const phrases = this.splitPhrases(base_prompt)
+
+    // Variants 1-4: one candidate per edit operator, skipping no-op edits
+    GRIPS_EDIT_OPERATIONS.forEach((operation, index) => {
+      const edited = this.applyEdit(operation, phrases, meta)
+      if (!edited || edited === base_prompt) {
+        return
+      }
+
+      const variant = this.createVariant(
+        this.sandwichPrompt(edited),
+        `${this.name}_${operation}`,
+        0.7,
+        index,
+      )
+
+      if (this.fitsInBudget(variant, budget)) {
+        variants.push(variant)
+      }
+    })
+
+    // Variant 5: Iterative search, the model scores and keeps improving edits
+    if (budget.remaining_cost_usd > 0.1) {
+      const searchPrompt = this.createSearchPrompt(base_prompt, phrases)
+      const searchVariant = this.createVariant(
+        this.sandwichPrompt(searchPrompt),
+        `${this.name}_search`,
+        0.8,
+        GRIPS_EDIT_OPERATIONS.length,
+      )
+      searchVariant.cost_usd *= 3 // Several rounds of edit + score
+
+      if (this.fitsInBudget(searchVariant, budget)) {
+        variants.push(searchVariant)
+      }
+    }
+
+    return variants
+  }
+
+  /**
+   * Split an instruction into phrases at sentence and clause boundaries
+   */
+  private splitPhrases(prompt: string): string[] {
+    return prompt
+      .split(/(?<=[.!?;])\s+|,\s+/)
+      .map((phrase) => phrase.trim().replace(/[.!?;,]+$/, ''))
+      .filter((phrase) => phrase.length > 0)
+  }
+
+  private joinPhrases(phrases: string[]): string {
+    return phrases.map((phrase) => `${phrase.charAt(0).toUpperCase()}${phrase.slice(1)}.`).join(' ')
+  }
+
+  private applyEdit(
+    operation: GrIPSEditOperation,
+    phrases: string[],
+    meta: TaskClassification,
+  ): string | null {
+    const edits: Record<GrIPSEditOperation, () => string[] | null> = {
+      add: () => {
+        const pool = this.additions[meta.task_type] || this.additions.general
+        return [...phrases, pool[phrases.length % pool.length]]
+      },
+      // Drop the last auxiliary phrase, keeping the leading instruction
+      delete: () => (phrases.length > 1 ? phrases.slice(0, -1) : null),
+      swap: () =>
+        phrases.length > 1
+          ? [phrases[phrases.length - 1], ...phrases.slice(1, -1), phrases[0]]
+          : null,
+      paraphrase: () => {
+        const paraphrased = phrases.map((phrase) => this.paraphrasePhrase(phrase))
+        return paraphrased.join() === phrases.join() ? null : paraphrased
+      },
+    }
+
+    const edited = edits[operation]()
+    return edited ? this.joinPhrases(edited) : null
+  }
+
+  private paraphrasePhrase(phrase: string): string {
+    return phrase.replace(/[A-Za-z]+/g, (word) => {
+      const replacement = this.paraphrases[word.toLowerCase()]
+      if (!replacement) {
+        return word
+      }
+      return word[0] === word[0].toUpperCase()
+        ? `${replacement.charAt(0).toUpperCase()}${replacement.slice(1)}`
+        : replacement
+    })
+  }
+
+  private createSearchPrompt(basePrompt: string, phrases: string[]): string {
+    const phraseList = phrases.map((phrase, i) => `[${i + 1}] ${phrase}`).join('\n')
+
+    return `Use GrIPS (Gradient-free Instructional Prompt Search) to improve this instruction:
+
+ORIGINAL INSTRUCTION: ${basePrompt}
+
+PHRASES:
+${phraseList}
+
+EDIT OPERATORS:
+- ADD: Insert a new phrase that clarifies the task
+- DELETE: Remove a phrase that adds noise or ambiguity
+- SWAP: Exchange the positions of two phrases
+- PARAPHRASE: Reword a phrase while keeping its meaning
+
+SEARCH PROTOCOL:
+
+Round 1 - Edit:
+Apply each operator once to the current instruction to produce 4 candidates.
+
+Round 2 - Score:
+Rate each candidate (1-10) on how reliably it would elicit a correct, complete answer.
+
+Round 3 - Select:
+Keep the highest-scoring candidate only if it beats the current instruction.
+
+Repeat rounds 1-3 until no candidate improves the score (at most 3 iterations).
+
+BEST INSTRUCTION:
+[The final edited instruction]
+
+ANSWER:
+[Follow the best instruction to complete the original task]`
+  }
+}
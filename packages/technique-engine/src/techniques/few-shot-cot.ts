@@ -1,7 +1,9 @@
 /**
  * PromptDial 3.0 - Few-Shot Chain-of-Thought Technique
  *
- * Combines few-shot learning with step-by-step reasoning
+ * Combines few-shot learning with step-by-step reasoning. Examples come from
+ * the retrieval hub's example bank, selected for the user's prompt, with a
+ * small built-in set as fallback.
  */
 
 import { BaseTechnique } from './base'
@@ -9,21 +11,28 @@ import {
   PromptVariant,
   TaskClassification,
   BudgetConstraints,
+  TechniqueContext,
+  FewShotExample,
   TECHNIQUES,
 } from '@promptdial/shared'
 
 interface Example {
+  id?: string // Example bank id; absent for built-in examples
   question: string
   reasoning: string
   answer: string
 }
 
+// The most examples any variant shows
+const MAX_EXAMPLES = 3
+
 export class FewShotCoTTechnique extends BaseTechnique {
   name = TECHNIQUES.FEW_SHOT_COT
   description = 'Few-shot learning with chain-of-thought reasoning'
   best_for = ['math_reasoning', 'code_generation', 'data_analysis'] as const
   needs_retrieval = false
 
+  // Used when the example bank selected too few examples for the prompt
   private examples: Record<string, Example[]> = {
     math_reasoning: [
       {
@@ -104,11 +113,12 @@ def reverse_string_alt(s):
     base_prompt: string,
     meta: TaskClassification,
     budget: BudgetConstraints,
+    context: TechniqueContext = {},
   ): Promise<PromptVariant[]> {
     const variants: PromptVariant[] = []
 
-    // Get relevant examples for the task type
-    const taskExamples = this.getExamplesForTask(meta.task_type)
+    // Examples selected for this prompt, topped up with built-in ones
+    const taskExamples = this.getExamplesForTask(meta.task_type, context.examples)
 
     // Variant 1: Basic Few-Shot CoT
     const basicPrompt = this.createBasicFewShotCoT(base_prompt, taskExamples)
@@ -157,12 +167,28 @@ def reverse_string_alt(s):
       }
     }
 
-    return variants
+    return variants.map((variant) => this.withExampleIds(variant, taskExamples))
+  }
+
+  /**
+   * Selected examples keep their order; built-in examples for the task type,
+   * or general ones, fill the remaining slots
+   */
+  private getExamplesForTask(taskType: string, selected: FewShotExample[] = []): Example[] {
+    const builtIn = this.examples[taskType] || this.examples.general_qa || []
+    const examples = [...selected.filter(isUsableExample), ...builtIn]
+
+    return examples
+      .filter((ex, i) => examples.findIndex((other) => other.question === ex.question) === i)
+      .slice(0, MAX_EXAMPLES)
   }
 
-  private getExamplesForTask(taskType: string): Example[] {
-    // Return task-specific examples or general ones as fallback
-    return this.examples[taskType] || this.examples.general_qa || []
+  // Records which bank examples a variant shows, for tracing results back to them
+  private withExampleIds(variant: PromptVariant, examples: Example[]): PromptVariant {
+    const ids = examples.flatMap((ex) => (ex.id ? [ex.id] : []))
+    return ids.length > 0
+      ? { ...variant, metadata: { ...variant.metadata, example_ids: ids } }
+      : variant
   }
 
   private createBasicFewShotCoT(basePrompt: string, examples: Example[]): string {
@@ -251,3 +277,10 @@ ANSWER:
 [Provide the final answer here]`
   }
 }
+
+// Retrieved examples arrive over HTTP, so check their shape before use
+function isUsableExample(example: FewShotExample): boolean {
+  return [example?.question, example?.reasoning, example?.answer].every(
+    (field) => typeof field === 'string' && field.length > 0,
+  )
+}
@@ -11,14 +11,28 @@ export { ReActTechnique } from './react'
 export { TreeOfThoughtTechnique } from './tree-of-thought'
 export { IRCoTTechnique, IRCOT_RETRIEVAL_INSTRUCTION } from './ircot'
 export { DSPyAPETechnique } from './dspy-ape'
+export { DSPyGrIPSTechnique, GRIPS_EDIT_OPERATIONS } from './dspy-grips'
+export { AutoDiCoTTechnique } from './auto-dicot'
+export { UniversalSelfPromptTechnique } from './universal-self-prompt'
+export { LeastToMostTechnique } from './least-to-most'
+export { SelfRefineTechnique, SELF_REFINE_STOP_TOKEN } from './self-refine'
+export { SelfCalibrationTechnique, SELF_CALIBRATION_STOP_PATTERN } from './self-calibration'
 
 // Re-export all techniques as a collection
+import { resolveTechniqueId } from '@promptdial/shared'
+
 import { FewShotCoTTechnique } from './few-shot-cot'
 import { SelfConsistencyTechnique } from './self-consistency'
 import { ReActTechnique } from './react'
 import { TreeOfThoughtTechnique } from './tree-of-thought'
 import { IRCoTTechnique } from './ircot'
 import { DSPyAPETechnique } from './dspy-ape'
+import { DSPyGrIPSTechnique } from './dspy-grips'
+import { AutoDiCoTTechnique } from './auto-dicot'
+import { UniversalSelfPromptTechnique } from './universal-self-prompt'
+import { LeastToMostTechnique } from './least-to-most'
+import { SelfRefineTechnique } from './self-refine'
+import { SelfCalibrationTechnique } from './self-calibration'
 
 export const ALL_TECHNIQUES = [
   FewShotCoTTechnique,
@@ -27,11 +41,18 @@ export const ALL_TECHNIQUES = [
   TreeOfThoughtTechnique,
   IRCoTTechnique,
   DSPyAPETechnique,
+  DSPyGrIPSTechnique,
+  AutoDiCoTTechnique,
+  UniversalSelfPromptTechnique,
+  LeastToMostTechnique,
+  SelfRefineTechnique,
+  SelfCalibrationTechnique,
 ]
 
+// Keyed by canonical technique catalog ID
 export const TECHNIQUE_REGISTRY = new Map(
   ALL_TECHNIQUES.map((TechniqueClass) => {
     const instance = new TechniqueClass()
-    return [instance.name, TechniqueClass]
+    return [resolveTechniqueId(instance.name) ?? instance.name, TechniqueClass]
   }),
 )
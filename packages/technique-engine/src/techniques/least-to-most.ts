@@ -0,0 +1,140 @@
+/**
+ * PromptDial 3.0 - Least-to-Most Technique
+ *
+ * Decomposes a problem into simpler sub-problems, then solves them in
+ * order, feeding each answer into the next
+ */
+
+import { BaseTechnique } from './base'
+import {
+  PromptVariant,
+  TaskClassification,
+  BudgetConstraints,
+  TECHNIQUES,
+} from '@promptdial/shared'
+
+export class LeastToMostTechnique extends BaseTechnique {
+  name = TECHNIQUES.LEAST_TO_MOST
+  description = 'Decompose into simpler sub-problems and solve them in order'
+  best_for: TaskClassification['task_type'][] = [
+    'math_reasoning',
+    'code_generation',
+    'data_analysis',
+  ]
+  needs_retrieval = false
+
+  async generate(
+    base_prompt: string,
+    meta: TaskClassification,
+    budget: BudgetConstraints,
+  ): Promise<PromptVariant[]> {
+    const variants: PromptVariant[] = []
+
+    // Variant 1: Decomposition and sequential solving in a single call
+    const singlePrompt = this.createSinglePassPrompt(base_prompt, meta)
+    const variant1 = this.createVariant(
+      this.sandwichPrompt(singlePrompt),
+      `${this.name}_single`,
+      0.5,
+      0,
+    )
+
+    if (this.fitsInBudget(variant1, budget)) {
+      variants.push(variant1)
+    }
+
+    // Variant 2: Separate decomposition and solving stages
+    if (budget.remaining_cost_usd > variant1.cost_usd * 2) {
+      const variant2 = this.createStagedVariant(
+        this.sandwichPrompt(singlePrompt),
+        {
+          steps: [
+            {
+              name: 'decompose',
+              prompt: this.sandwichPrompt(this.createDecompositionPrompt(base_prompt, meta)),
+              temperature: 0.3,
+            },
+            {
+              name: 'solve',
+              prompt: this.sandwichPrompt(this.createSolvingPrompt(base_prompt)),
+              temperature: 0.5,
+            },
+          ],
+        },
+        `${this.name}_staged`,
+        0.5,
+        1,
+      )
+
+      if (this.fitsInBudget(variant2, budget)) {
+        variants.push(variant2)
+      }
+    }
+
+    return variants
+  }
+
+  private getDecompositionHint(taskType: string): string {
+    const hints: Record<string, string> = {
+      math_reasoning: 'Each sub-problem should compute one intermediate quantity.',
+      code_generation: 'Each sub-problem should be one function or behaviour that can be tested.',
+      data_analysis: 'Each sub-problem should answer one question about the data.',
+    }
+    return hints[taskType] || 'Each sub-problem should be answerable on its own.'
+  }
+
+  private createDecompositionPrompt(basePrompt: string, meta: TaskClassification): string {
+    return `Break the following problem into the simpler sub-problems that must be solved first.
+
+PROBLEM: ${basePrompt}
+
+Rules:
+- Order the sub-problems from simplest to hardest
+- Each sub-problem may depend only on the ones before it
+- The last sub-problem must be the original problem
+- ${this.getDecompositionHint(meta.task_type)}
+
+Output only the numbered list of sub-problems:
+1. [Simplest sub-problem]
+2. [Next sub-problem]
+...`
+  }
+
+  private createSolvingPrompt(basePrompt: string): string {
+    return `Solve the problem below by answering its sub-problems in order.
+
+PROBLEM: ${basePrompt}
+
+SUB-PROBLEMS:
+{{decompose}}
+
+For each sub-problem, write:
+Sub-problem N: [restate it]
+Answer N: [answer, using the answers to earlier sub-problems]
+
+The answer to the last sub-problem is the final answer.
+
+FINAL ANSWER:`
+  }
+
+  private createSinglePassPrompt(basePrompt: string, meta: TaskClassification): string {
+    return `Use least-to-most prompting to solve this problem.
+
+PROBLEM: ${basePrompt}
+
+STAGE 1 - Decompose:
+List the simpler sub-problems that must be solved first, ordered from simplest to hardest.
+${this.getDecompositionHint(meta.task_type)}
+
+STAGE 2 - Solve sequentially:
+Answer each sub-problem in order. Use the answers to earlier sub-problems when solving later ones.
+
+Sub-problem 1: ...
+Answer 1: ...
+Sub-problem 2: ...
+Answer 2: ...
+
+FINAL ANSWER:
+[The answer to the last sub-problem, which is the original problem]`
+  }
+}
@@ -10,6 +10,7 @@ import {
   TaskClassification,
   BudgetConstraints,
   TECHNIQUES,
+  REACT_TOOLS,
 } from '@promptdial/shared'
 
 export class ReActTechnique extends BaseTechnique {
@@ -18,6 +19,8 @@ export class ReActTechnique extends BaseTechnique {
   best_for = ['code_generation', 'data_analysis', 'general_qa'] as const
   needs_retrieval = false // Can work with retrieval but doesn't require it
 
+  private readonly maxToolSteps = 6
+
   async generate(
     base_prompt: string,
     meta: TaskClassification,
@@ -66,9 +69,42 @@ export class ReActTechnique extends BaseTechnique {
       }
     }
 
+    // Variant 4: Executable ReAct, llm-runner calls real tools between turns
+    const variant4 = this.createToolLoopVariant(base_prompt, meta)
+
+    if (this.fitsInBudget(variant4, budget)) {
+      variants.push(variant4)
+    }
+
     return variants
   }
 
+  private createToolLoopVariant(basePrompt: string, meta: TaskClassification): PromptVariant {
+    const variant = this.createVariant(
+      this.sandwichPrompt(basePrompt),
+      `${this.name}_tools`,
+      0.3,
+      3,
+    )
+    variant.tool_loop = {
+      tools: this.getTools(meta),
+      max_steps: this.maxToolSteps,
+    }
+    variant.cost_usd *= this.maxToolSteps // One call per Thought/Action turn
+
+    return variant
+  }
+
+  private getTools(meta: TaskClassification): string[] {
+    const tools: Record<string, string[]> = {
+      math_reasoning: [REACT_TOOLS.CALCULATOR, REACT_TOOLS.JAVASCRIPT],
+      code_generation: [REACT_TOOLS.JAVASCRIPT],
+      data_analysis: [REACT_TOOLS.CALCULATOR, REACT_TOOLS.JAVASCRIPT],
+    }
+    const selected = tools[meta.task_type] || [REACT_TOOLS.CALCULATOR]
+    return meta.needs_retrieval ? [REACT_TOOLS.SEARCH, ...selected] : selected
+  }
+
   private createBasicReAct(basePrompt: string, meta: TaskClassification): string {
     return `Solve this problem using the ReAct framework:
 
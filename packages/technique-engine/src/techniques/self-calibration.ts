@@ -0,0 +1,138 @@
+/**
+ * PromptDial 3.0 - Self-Calibration Technique
+ *
+ * Generate an answer, have the model estimate how likely it is to be
+ * correct, and revise it until the confidence is high enough
+ */
+
+import { BaseTechnique } from './base'
+import {
+  PromptVariant,
+  TaskClassification,
+  BudgetConstraints,
+  TECHNIQUES,
+} from '@promptdial/shared'
+
+// Matches "CONFIDENCE: 0.80" through "CONFIDENCE: 1.0"
+export const SELF_CALIBRATION_STOP_PATTERN = 'CONFIDENCE:\\s*(0?\\.[89]\\d*|1(\\.0+)?)\\b'
+
+export class SelfCalibrationTechnique extends BaseTechnique {
+  name = TECHNIQUES.SELF_CALIBRATION
+  description = 'Answer, self-assess confidence and revise low-confidence answers'
+  best_for: TaskClassification['task_type'][] = [
+    'general_qa',
+    'math_reasoning',
+    'classification',
+    'data_analysis',
+  ]
+  needs_retrieval = false
+
+  private readonly maxIterations = 2
+
+  async generate(
+    base_prompt: string,
+    meta: TaskClassification,
+    budget: BudgetConstraints,
+  ): Promise<PromptVariant[]> {
+    const variants: PromptVariant[] = []
+    const singlePrompt = this.sandwichPrompt(this.createSinglePassPrompt(base_prompt))
+
+    // Variant 1: Answer, then assess/revise until confident
+    const variant1 = this.createStagedVariant(
+      singlePrompt,
+      {
+        steps: [
+          {
+            name: 'answer',
+            prompt: this.sandwichPrompt(this.addStepByStep(base_prompt)),
+            temperature: 0.5,
+          },
+          {
+            name: 'assess',
+            prompt: this.sandwichPrompt(this.createAssessmentPrompt(base_prompt, meta)),
+            temperature: 0,
+            stop_pattern: SELF_CALIBRATION_STOP_PATTERN,
+          },
+          {
+            name: 'revise',
+            output: 'answer',
+            prompt: this.sandwichPrompt(this.createRevisePrompt(base_prompt)),
+            temperature: 0.4,
+          },
+        ],
+        loop_from: 'assess',
+        max_iterations: this.maxIterations,
+      },
+      `${this.name}_loop`,
+      0.5,
+      0,
+    )
+
+    if (this.fitsInBudget(variant1, budget)) {
+      variants.push(variant1)
+    }
+
+    // Variant 2: Answer with calibrated confidence in a single call
+    const variant2 = this.createVariant(singlePrompt, `${this.name}_single`, 0.3, 1)
+
+    if (this.fitsInBudget(variant2, budget)) {
+      variants.push(variant2)
+    }
+
+    return variants
+  }
+
+  private createAssessmentPrompt(basePrompt: string, meta: TaskClassification): string {
+    const focus =
+      meta.task_type === 'math_reasoning'
+        ? 'Re-check every calculation independently.'
+        : 'Check each factual claim and each reasoning step.'
+
+    return `Assess whether the proposed answer to this question is correct.
+
+QUESTION: ${basePrompt}
+
+PROPOSED ANSWER:
+{{answer}}
+
+${focus}
+Explain any errors or doubts, then estimate the probability that the proposed answer is correct.
+
+End with a line of the form:
+CONFIDENCE: [probability between 0 and 1]`
+  }
+
+  private createRevisePrompt(basePrompt: string): string {
+    return `Revise the answer to this question based on the assessment.
+
+QUESTION: ${basePrompt}
+
+PREVIOUS ANSWER:
+{{answer}}
+
+ASSESSMENT:
+{{assess}}
+
+Correct every error the assessment identified and resolve its doubts.
+Output only the revised answer.`
+  }
+
+  private createSinglePassPrompt(basePrompt: string): string {
+    return `${basePrompt}
+
+Answer using self-calibration:
+
+STEP 1 - Answer:
+Work through the problem step by step and give your answer.
+
+STEP 2 - Assess:
+Critically check your answer. Estimate the probability (0 to 1) that it is correct.
+
+STEP 3 - Revise if needed:
+If your confidence is below 0.8, identify what is wrong, fix it and re-assess.
+
+FINAL ANSWER:
+[Your answer]
+CONFIDENCE: [probability between 0 and 1]`
+  }
+}
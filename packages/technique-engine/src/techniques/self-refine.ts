@@ -0,0 +1,169 @@
+/**
+ * PromptDial 3.0 - Self-Refine Technique
+ *
+ * Generate an answer, critique it, and revise it in a loop until the
+ * critique finds nothing left to improve
+ */
+
+import { BaseTechnique } from './base'
+import {
+  PromptVariant,
+  TaskClassification,
+  BudgetConstraints,
+  TECHNIQUES,
+} from '@promptdial/shared'
+
+export const SELF_REFINE_STOP_TOKEN = 'NO_FURTHER_IMPROVEMENTS'
+
+export class SelfRefineTechnique extends BaseTechnique {
+  name = TECHNIQUES.SELF_REFINE
+  description = 'Iterative generate, critique and revise loop'
+  best_for: TaskClassification['task_type'][] = [
+    'code_generation',
+    'creative_writing',
+    'summarization',
+    'math_reasoning',
+  ]
+  needs_retrieval = false
+
+  private readonly maxIterations = 3
+
+  async generate(
+    base_prompt: string,
+    meta: TaskClassification,
+    budget: BudgetConstraints,
+  ): Promise<PromptVariant[]> {
+    const variants: PromptVariant[] = []
+    const criteria = this.getCriteria(meta.task_type)
+    const singlePrompt = this.sandwichPrompt(this.createSinglePassPrompt(base_prompt, criteria))
+
+    // Variant 1: Full refinement loop, up to maxIterations critique/revise passes
+    const loopVariant = this.createLoopVariant(
+      base_prompt,
+      criteria,
+      singlePrompt,
+      this.maxIterations,
+      0,
+    )
+
+    if (this.fitsInBudget(loopVariant, budget)) {
+      variants.push(loopVariant)
+    } else {
+      // Variant 1b: Fall back to a single critique/revise pass
+      const onePassVariant = this.createLoopVariant(base_prompt, criteria, singlePrompt, 1, 0)
+      if (this.fitsInBudget(onePassVariant, budget)) {
+        variants.push(onePassVariant)
+      }
+    }
+
+    // Variant 2: Refinement emulated in a single call
+    if (budget.remaining_cost_usd > loopVariant.cost_usd) {
+      const variant2 = this.createVariant(singlePrompt, `${this.name}_single`, 0.6, 1)
+
+      if (this.fitsInBudget(variant2, budget)) {
+        variants.push(variant2)
+      }
+    }
+
+    return variants
+  }
+
+  private createLoopVariant(
+    basePrompt: string,
+    criteria: string[],
+    singlePrompt: string,
+    iterations: number,
+    index: number,
+  ): PromptVariant {
+    return this.createStagedVariant(
+      singlePrompt,
+      {
+        steps: [
+          {
+            name: 'draft',
+            output: 'answer',
+            prompt: this.sandwichPrompt(basePrompt),
+            temperature: 0.7,
+          },
+          {
+            name: 'critique',
+            output: 'feedback',
+            prompt: this.sandwichPrompt(this.createCritiquePrompt(basePrompt, criteria)),
+            temperature: 0.3,
+            stop_pattern: SELF_REFINE_STOP_TOKEN,
+          },
+          {
+            name: 'revise',
+            output: 'answer',
+            prompt: this.sandwichPrompt(this.createRevisePrompt(basePrompt)),
+            temperature: 0.5,
+          },
+        ],
+        loop_from: 'critique',
+        max_iterations: iterations,
+      },
+      `${this.name}_loop`,
+      0.7,
+      index,
+    )
+  }
+
+  private getCriteria(taskType: string): string[] {
+    const criteria: Record<string, string[]> = {
+      code_generation: ['Correctness', 'Edge cases', 'Readability', 'Efficiency'],
+      creative_writing: ['Originality', 'Flow', 'Vivid language', 'Consistency of tone'],
+      summarization: ['Coverage of key points', 'Faithfulness', 'Concision'],
+      math_reasoning: ['Correct calculations', 'Valid reasoning steps', 'Clear final answer'],
+    }
+    return criteria[taskType] || ['Accuracy', 'Completeness', 'Clarity']
+  }
+
+  private createCritiquePrompt(basePrompt: string, criteria: string[]): string {
+    return `Review the answer below to this task.
+
+TASK: ${basePrompt}
+
+ANSWER:
+{{answer}}
+
+Evaluate it on:
+${criteria.map((c) => `- ${c}`).join('\n')}
+
+List specific, actionable problems and how to fix each one.
+If the answer cannot be meaningfully improved, reply with exactly: ${SELF_REFINE_STOP_TOKEN}`
+  }
+
+  private createRevisePrompt(basePrompt: string): string {
+    return `Improve the answer to this task using the feedback.
+
+TASK: ${basePrompt}
+
+CURRENT ANSWER:
+{{answer}}
+
+FEEDBACK:
+{{feedback}}
+
+Address every point in the feedback. Output only the revised answer.`
+  }
+
+  private createSinglePassPrompt(basePrompt: string, criteria: string[]): string {
+    return `${basePrompt}
+
+Use a self-refinement process:
+
+STEP 1 - Draft:
+Write your initial answer.
+
+STEP 2 - Critique:
+Review the draft on ${criteria.join(', ').toLowerCase()}. List specific problems.
+
+STEP 3 - Revise:
+Rewrite the answer, fixing every problem you found.
+
+Repeat steps 2-3 if the revision still has problems (at most ${this.maxIterations} rounds).
+
+FINAL ANSWER:
+[Your refined answer]`
+  }
+}
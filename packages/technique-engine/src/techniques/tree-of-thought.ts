@@ -9,9 +9,18 @@ import {
   PromptVariant,
   TaskClassification,
   BudgetConstraints,
+  VariantTreeSearch,
   TECHNIQUES,
 } from '@promptdial/shared'
 
+// Search shape per task type; llm-runner expands and scores the thoughts
+const SEARCH_CONFIGS: Record<string, Omit<VariantTreeSearch, 'budget'>> = {
+  math_reasoning: { strategy: 'beam', breadth: 3, depth: 3, beam_width: 2, prune_threshold: 0.5 },
+  code_generation: { strategy: 'dfs', breadth: 2, depth: 3, prune_threshold: 0.5 },
+  creative_writing: { strategy: 'bfs', breadth: 3, depth: 2, prune_threshold: 0.3 },
+  default: { strategy: 'beam', breadth: 3, depth: 2, beam_width: 2, prune_threshold: 0.4 },
+}
+
 export class TreeOfThoughtTechnique extends BaseTechnique {
   name = TECHNIQUES.TREE_OF_THOUGHT
   description = 'Systematic exploration of multiple reasoning paths'
@@ -75,9 +84,50 @@ export class TreeOfThoughtTechnique extends BaseTechnique {
       }
     }
 
+    // Variant 4: Executed search, one LLM call per thought proposal and evaluation
+    variants.push(...this.createSearchVariants(base_prompt, meta, budget))
+
     return variants
   }
 
+  /**
+   * The search stops itself when the budget runs out, so its cost is the
+   * worst case capped at what remains. It still needs room for one full
+   * expansion plus the final answer.
+   */
+  private createSearchVariants(
+    basePrompt: string,
+    meta: TaskClassification,
+    budget: BudgetConstraints,
+  ): PromptVariant[] {
+    const search = SEARCH_CONFIGS[meta.task_type] || SEARCH_CONFIGS.default
+    const variant = this.createVariant(basePrompt, `${this.name}_search`, 0.7, 3)
+    const callCost = variant.cost_usd * 2 // Each call adds instructions and an answer
+
+    variant.tree_search = { ...search, budget: { ...budget } }
+    variant.cost_usd =
+      callCost * (search.breadth + 2) > budget.remaining_cost_usd
+        ? Infinity
+        : Math.min(callCost * this.countSearchCalls(search), budget.remaining_cost_usd)
+
+    return this.fitsInBudget(variant, budget) ? [variant] : []
+  }
+
+  /**
+   * Worst-case calls: one proposal plus one value call per child for every
+   * expanded thought, then the final answer
+   */
+  private countSearchCalls(search: Omit<VariantTreeSearch, 'budget'>): number {
+    const levels = Array.from({ length: search.depth }, (_, depth) =>
+      search.strategy === 'beam' && depth > 0
+        ? Math.min(search.beam_width || search.breadth, search.breadth ** depth)
+        : search.breadth ** depth,
+    )
+    const expansions = levels.reduce((total, count) => total + count, 0)
+
+    return expansions * (search.breadth + 1) + 1
+  }
+
   private createBasicToT(basePrompt: string, meta: TaskClassification): string {
     const branchingFactor = meta.complexity > 0.6 ? 3 : 2
 
@@ -0,0 +1,223 @@
+/**
+ * PromptDial 3.0 - Universal Self-Adaptive Prompting (USP) Technique
+ *
+ * Builds zero-shot pseudo-demonstrations from the model's own outputs,
+ * selecting them with a task-dependent confidence criterion
+ */
+
+import { BaseTechnique } from './base'
+import {
+  PromptVariant,
+  TaskClassification,
+  BudgetConstraints,
+  TECHNIQUES,
+} from '@promptdial/shared'
+
+type USPTaskCategory = 'classification' | 'short_form' | 'long_form'
+
+export class UniversalSelfPromptTechnique extends BaseTechnique {
+  name = TECHNIQUES.UNIVERSAL_SELF_PROMPT
+  description = 'Self-generated pseudo-demonstrations selected by model confidence'
+  best_for: TaskClassification['task_type'][] = [
+    'classification',
+    'general_qa',
+    'math_reasoning',
+    'summarization',
+  ]
+  needs_retrieval = false
+
+  private pseudoInputs: Record<string, string[]> = {
+    classification: [
+      'Label the sentiment of: "Delivery was late but support resolved it quickly."',
+      'Is this email spam? "You have won a free cruise, reply with your bank details."',
+      'Categorize the topic of: "The central bank raised interest rates by 0.5%."',
+      'Label the intent of: "Can I change my flight to next Tuesday?"',
+    ],
+    math_reasoning: [
+      'A recipe needs 3 eggs per cake. How many eggs are needed for 7 cakes?',
+      'What is 15% of 240?',
+      'A car travels 180 km on 12 liters of fuel. How far does it go on 20 liters?',
+      'Solve for x: 4x - 6 = 18',
+    ],
+    summarization: [
+      'Summarize the main argument of a short article about remote work productivity.',
+      'Condense a meeting transcript about a product launch delay into three bullet points.',
+      'Summarize a customer review that praises design but criticizes battery life.',
+    ],
+    code_generation: [
+      'Write a function that removes duplicates from a list while keeping order.',
+      'Write a function that checks whether a string is a palindrome.',
+      'Write a function that merges two sorted arrays.',
+    ],
+    general: [
+      'What causes the seasons on Earth?',
+      'Why do cities build ring roads?',
+      'What is the difference between weather and climate?',
+      'How does compound interest work?',
+    ],
+  }
+
+  async generate(
+    base_prompt: string,
+    meta: TaskClassification,
+    budget: BudgetConstraints,
+  ): Promise<PromptVariant[]> {
+    const variants: PromptVariant[] = []
+    const category = this.getCategory(meta.task_type)
+    const selected = this.selectPseudoInputs(base_prompt, meta.task_type, 2)
+
+    // Variant 1: Pseudo-demonstrations seeded from the closest pseudo-inputs
+    const seededPrompt = this.createSeededPrompt(base_prompt, selected, category)
+    const variant1 = this.createVariant(
+      this.sandwichPrompt(seededPrompt),
+      `${this.name}_seeded`,
+      0.5,
+      0,
+    )
+    variant1.cost_usd *= 1.5 // Pseudo-demonstrations are answered before the task
+
+    if (this.fitsInBudget(variant1, budget)) {
+      variants.push(variant1)
+    }
+
+    // Variant 2: Full USP, the model generates, samples and selects its own demonstrations
+    if (budget.remaining_cost_usd > variant1.cost_usd * 3) {
+      const adaptivePrompt = this.createAdaptivePrompt(base_prompt, category)
+      const variant2 = this.createVariant(
+        this.sandwichPrompt(adaptivePrompt),
+        `${this.name}_adaptive`,
+        0.7,
+        1,
+      )
+      variant2.cost_usd *= 3 // Multiple samples per pseudo-input
+
+      if (this.fitsInBudget(variant2, budget)) {
+        variants.push(variant2)
+      }
+    }
+
+    return variants
+  }
+
+  /**
+   * USP picks its selection criterion by task category
+   */
+  private getCategory(taskType: string): USPTaskCategory {
+    if (taskType === 'classification') {
+      return 'classification'
+    }
+    if (
+      ['creative_writing', 'summarization', 'code_generation', 'translation'].includes(taskType)
+    ) {
+      return 'long_form'
+    }
+    return 'short_form'
+  }
+
+  /**
+   * Pick the pseudo-inputs with the highest word overlap with the task,
+   * skipping near-duplicates of an already selected input
+   */
+  private selectPseudoInputs(basePrompt: string, taskType: string, count: number): string[] {
+    const pool = this.pseudoInputs[taskType] || this.pseudoInputs.general
+    const taskWords = this.tokenize(basePrompt)
+
+    const ranked = pool
+      .map((input, index) => ({
+        input,
+        index,
+        score: this.overlap(taskWords, this.tokenize(input)),
+      }))
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+
+    const selected: string[] = []
+    for (const { input } of ranked) {
+      const words = this.tokenize(input)
+      const redundant = selected.some((s) => this.overlap(words, this.tokenize(s)) > 0.5)
+      if (!redundant) {
+        selected.push(input)
+      }
+      if (selected.length === count) {
+        break
+      }
+    }
+    return selected
+  }
+
+  private tokenize(text: string): Set<string> {
+    return new Set(text.toLowerCase().match(/[a-z0-9]{3,}/g) || [])
+  }
+
+  private overlap(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) {
+      return 0
+    }
+    const shared = [...a].filter((word) => b.has(word)).length
+    return shared / Math.min(a.size, b.size)
+  }
+
+  private getSelectionCriterion(category: USPTaskCategory): string {
+    const criteria: Record<USPTaskCategory, string> = {
+      classification:
+        'Keep pseudo-inputs whose sampled labels agree most often (lowest label entropy), balancing labels across the kept set.',
+      short_form:
+        'Keep pseudo-inputs whose sampled answers reach the strongest majority vote (self-consistency).',
+      long_form:
+        'Keep pseudo-inputs whose sampled answers have the highest average pairwise overlap with each other.',
+    }
+    return criteria[category]
+  }
+
+  private createSeededPrompt(
+    basePrompt: string,
+    pseudoInputs: string[],
+    category: USPTaskCategory,
+  ): string {
+    const inputList = pseudoInputs.map((input, i) => `Pseudo-input ${i + 1}: ${input}`).join('\n')
+
+    return `Use Universal Self-Adaptive Prompting with these pseudo-demonstrations:
+
+${inputList}
+
+Step 1 - Answer each pseudo-input:
+Answer every pseudo-input above zero-shot, three times independently.
+
+Step 2 - Select demonstrations:
+${this.getSelectionCriterion(category)}
+
+Step 3 - Use them as examples:
+Rewrite the kept pseudo-inputs with their most confident answers as worked examples.
+
+TASK: ${basePrompt}
+
+Following the style of your selected examples, give your answer:`
+  }
+
+  private createAdaptivePrompt(basePrompt: string, category: USPTaskCategory): string {
+    return `Use Universal Self-Adaptive Prompting (USP) to solve this task:
+
+TASK: ${basePrompt}
+TASK CATEGORY: ${category}
+
+Stage 1 - Generate pseudo-inputs:
+Write 5 new inputs that are similar in form and difficulty to the task but distinct from it.
+
+Stage 2 - Sample answers:
+Answer each pseudo-input zero-shot, three times independently.
+
+Stage 3 - Score confidence:
+${this.getSelectionCriterion(category)}
+
+Stage 4 - Select pseudo-demonstrations:
+Keep the 3 most confident pseudo-input/answer pairs. Discard the rest.
+
+Stage 5 - In-context answer:
+Using the selected pairs as demonstrations, solve the original task.
+
+SELECTED DEMONSTRATIONS:
+[The 3 kept pairs]
+
+FINAL ANSWER:
+[Answer to the original task]`
+  }
+}
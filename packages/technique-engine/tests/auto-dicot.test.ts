@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { AutoDiCoTTechnique } from '../src/techniques/auto-dicot'
+import {
+  createTestTaskClassification,
+  createTestBudgetConstraints,
+  TECHNIQUES,
+} from '@promptdial/shared'
+
+// Mock dependencies
+vi.mock('@promptdial/shared', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@promptdial/shared')>()
+  return {
+    ...actual,
+    generateVariantId: (technique: string, index: number) => `${technique}_${index}`,
+    estimateTokens: (prompt: string) => Math.ceil(prompt.length / 4),
+    estimateCost: (tokens: number) => tokens * 0.00002,
+  }
+})
+
+describe('AutoDiCoTTechnique', () => {
+  let technique: AutoDiCoTTechnique
+
+  beforeEach(() => {
+    technique = new AutoDiCoTTechnique()
+  })
+
+  describe('properties', () => {
+    it('should have correct metadata', () => {
+      expect(technique.name).toBe(TECHNIQUES.AUTO_DICOT)
+      expect(technique.description).toBe(
+        'Contrastive chain-of-thought with explanations of incorrect reasoning',
+      )
+      expect(technique.best_for).toEqual([
+        'math_reasoning',
+        'classification',
+        'data_analysis',
+        'general_qa',
+      ])
+      expect(technique.needs_retrieval).toBe(false)
+    })
+  })
+
+  describe('generate', () => {
+    it('should generate contrastive variant with correct and incorrect reasoning', async () => {
+      const basePrompt = 'A price rises 10% then falls 10%. What is the net change?'
+      const classification = createTestTaskClassification({ task_type: 'math_reasoning' })
+      const budget = createTestBudgetConstraints()
+
+      const variants = await technique.generate(basePrompt, classification, budget)
+
+      const contrastive = variants.find((v) => v.technique.includes('contrastive'))
+      expect(contrastive).toBeDefined()
+      expect(contrastive?.temperature).toBe(0.5)
+      expect(contrastive?.prompt).toContain('Correct reasoning:')
+      expect(contrastive?.prompt).toContain('Incorrect reasoning:')
+      expect(contrastive?.prompt).toContain('Why this is wrong:')
+      expect(contrastive?.prompt).toContain('Successive discounts compound')
+      expect(contrastive?.prompt).toContain(basePrompt)
+    })
+
+    it('should use task-specific demonstrations', async () => {
+      const budget = createTestBudgetConstraints()
+
+      const classificationVariants = await technique.generate(
+        'Classify this review',
+        createTestTaskClassification({ task_type: 'classification' }),
+        budget,
+      )
+      expect(classificationVariants[0].prompt).toContain('Label: negative')
+
+      const generalVariants = await technique.generate(
+        'Why is the sky blue?',
+        createTestTaskClassification({ task_type: 'general' }),
+        budget,
+      )
+      expect(generalVariants[0].prompt).toContain('kilogram of feathers')
+    })
+
+    it('should generate self-diagnose variant with sufficient budget', async () => {
+      const classification = createTestTaskClassification({ task_type: 'data_analysis' })
+      const budget = createTestBudgetConstraints({ remaining_cost_usd: 0.5 })
+
+      const variants = await technique.generate('Did the campaign work?', classification, budget)
+
+      const selfDiagnose = variants.find((v) => v.technique.includes('self_diagnose'))
+      expect(selfDiagnose).toBeDefined()
+      expect(selfDiagnose?.temperature).toBe(0.6)
+      expect(selfDiagnose?.prompt).toContain('Tempting answer')
+      expect(selfDiagnose?.prompt).toContain('Why this is wrong')
+    })
+
+    it('should skip self-diagnose variant with low budget', async () => {
+      const classification = createTestTaskClassification({ task_type: 'math_reasoning' })
+      const budget = createTestBudgetConstraints({ remaining_cost_usd: 0.005 })
+
+      const variants = await technique.generate('Test prompt', classification, budget)
+
+      expect(variants.find((v) => v.technique.includes('self_diagnose'))).toBeUndefined()
+    })
+
+    it('should sandwich prompts with system instructions', async () => {
+      const classification = createTestTaskClassification({ task_type: 'general_qa' })
+      const budget = createTestBudgetConstraints()
+
+      const variants = await technique.generate('Test prompt', classification, budget)
+
+      variants.forEach((variant) => {
+        expect(variant.prompt).toContain('<<SYS>>')
+        expect(variant.prompt).toContain('<<USER>>')
+        expect(variant.prompt).toContain('<<END>>')
+      })
+    })
+
+    it('should respect budget constraints', async () => {
+      const classification = createTestTaskClassification({ task_type: 'general_qa' })
+      const budget = createTestBudgetConstraints({
+        remaining_cost_usd: 0.001,
+        max_tokens: 100,
+      })
+
+      const variants = await technique.generate('Test prompt', classification, budget)
+
+      expect(variants).toHaveLength(0)
+    })
+  })
+})
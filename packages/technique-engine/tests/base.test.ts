@@ -91,6 +91,40 @@ describe('BaseTechnique', () => {
     })
   })
 
+  describe('createStagedVariant', () => {
+    it('should attach stages and count looped stages once per iteration', () => {
+      const stages = {
+        steps: [
+          { name: 'draft', prompt: 'a'.repeat(40) },
+          { name: 'critique', prompt: 'b'.repeat(80) },
+          { name: 'revise', prompt: 'c'.repeat(120) },
+        ],
+        loop_from: 'critique',
+        max_iterations: 3,
+      }
+
+      const variant = technique['createStagedVariant']('fallback', stages, 'test_technique', 0.7, 2)
+
+      expect(variant.id).toBe('test_technique_2')
+      expect(variant.prompt).toBe('fallback')
+      expect(variant.stages).toBe(stages)
+      expect(variant.est_tokens).toBe(10 + (20 + 30) * 3)
+      expect(variant.cost_usd).toBeCloseTo(160 * 0.00002)
+    })
+
+    it('should count each stage once without a loop', () => {
+      const variant = technique['createStagedVariant'](
+        'fallback',
+        { steps: [{ name: 'only', prompt: 'x'.repeat(40) }] },
+        'test_technique',
+        0.7,
+        0,
+      )
+
+      expect(variant.est_tokens).toBe(10)
+    })
+  })
+
   describe('fitsInBudget', () => {
     it('should return true when variant fits in budget', () => {
       const variant = createTestPromptVariant({
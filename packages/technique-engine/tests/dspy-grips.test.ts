@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { DSPyGrIPSTechnique } from '../src/techniques/dspy-grips'
+import {
+  createTestTaskClassification,
+  createTestBudgetConstraints,
+  TECHNIQUES,
+} from '@promptdial/shared'
+
+// Mock dependencies
+vi.mock('@promptdial/shared', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@promptdial/shared')>()
+  return {
+    ...actual,
+    generateVariantId: (technique: string, index: number) => `${technique}_${index}`,
+    estimateTokens: (prompt: string) => Math.ceil(prompt.length / 4),
+    estimateCost: (tokens: number) => tokens * 0.00002,
+  }
+})
+
+describe('DSPyGrIPSTechnique', () => {
+  let technique: DSPyGrIPSTechnique
+
+  beforeEach(() => {
+    technique = new DSPyGrIPSTechnique()
+  })
+
+  describe('properties', () => {
+    it('should have correct metadata', () => {
+      expect(technique.name).toBe(TECHNIQUES.DSPY_GRIPS)
+      expect(technique.description).toBe(
+        'Edit-based instruction search with phrase-level operators',
+      )
+      expect(technique.best_for).toEqual([
+        'classification',
+        'general_qa',
+        'summarization',
+        'math_reasoning',
+      ])
+      expect(technique.needs_retrieval).toBe(false)
+    })
+  })
+
+  describe('generate', () => {
+    const basePrompt =
+      'Write a short summary of the article, list the key facts. Explain the impact.'
+
+    it('should generate one variant per edit operator', async () => {
+      const classification = createTestTaskClassification({ task_type: 'summarization' })
+      const budget = createTestBudgetConstraints()
+
+      const variants = await technique.generate(basePrompt, classification, budget)
+      const types = variants.map((v) => v.technique)
+
+      expect(types).toContain(`${TECHNIQUES.DSPY_GRIPS}_add`)
+      expect(types).toContain(`${TECHNIQUES.DSPY_GRIPS}_delete`)
+      expect(types).toContain(`${TECHNIQUES.DSPY_GRIPS}_swap`)
+      expect(types).toContain(`${TECHNIQUES.DSPY_GRIPS}_paraphrase`)
+    })
+
+    it('should apply phrase-level edits to the instruction', async () => {
+      const classification = createTestTaskClassification({ task_type: 'summarization' })
+      const budget = createTestBudgetConstraints()
+
+      const variants = await technique.generate(basePrompt, classification, budget)
+      const byType = (suffix: string) =>
+        variants.find((v) => v.technique === `${TECHNIQUES.DSPY_GRIPS}_${suffix}`)!.prompt
+
+      expect(byType('add')).toContain('Preserve the original meaning.')
+      expect(byType('delete')).not.toContain('Explain the impact')
+      expect(byType('delete')).toContain('List the key facts.')
+      expect(byType('swap')).toMatch(/Explain the impact\.[\s\S]*Write a short summary/)
+      expect(byType('paraphrase')).toContain('Compose a brief summary of the article.')
+      expect(byType('paraphrase')).toContain('Enumerate the key facts.')
+    })
+
+    it('should skip edits that would not change a single-phrase instruction', async () => {
+      const classification = createTestTaskClassification({ task_type: 'general_qa' })
+      const budget = createTestBudgetConstraints()
+
+      const variants = await technique.generate('What year did it happen?', classification, budget)
+      const types = variants.map((v) => v.technique)
+
+      expect(types).toContain(`${TECHNIQUES.DSPY_GRIPS}_add`)
+      expect(types).not.toContain(`${TECHNIQUES.DSPY_GRIPS}_delete`)
+      expect(types).not.toContain(`${TECHNIQUES.DSPY_GRIPS}_swap`)
+      expect(types).not.toContain(`${TECHNIQUES.DSPY_GRIPS}_paraphrase`)
+    })
+
+    it('should include the search variant with sufficient budget', async () => {
+      const classification = createTestTaskClassification({ task_type: 'classification' })
+      const budget = createTestBudgetConstraints({ remaining_cost_usd: 0.5 })
+
+      const variants = await technique.generate(basePrompt, classification, budget)
+      const searchVariant = variants.find((v) => v.technique.includes('search'))
+
+      expect(searchVariant).toBeDefined()
+      expect(searchVariant?.temperature).toBe(0.8)
+      expect(searchVariant?.prompt).toContain('EDIT OPERATORS:')
+      expect(searchVariant?.prompt).toContain('[1] Write a short summary of the article')
+    })
+
+    it('should skip the search variant with low budget', async () => {
+      const classification = createTestTaskClassification({ task_type: 'classification' })
+      const budget = createTestBudgetConstraints({ remaining_cost_usd: 0.05 })
+
+      const variants = await technique.generate(basePrompt, classification, budget)
+
+      expect(variants.find((v) => v.technique.includes('search'))).toBeUndefined()
+    })
+
+    it('should sandwich prompts with system instructions', async () => {
+      const classification = createTestTaskClassification({ task_type: 'general_qa' })
+      const budget = createTestBudgetConstraints()
+
+      const variants = await technique.generate(basePrompt, classification, budget)
+
+      variants.forEach((variant) => {
+        expect(variant.prompt).toContain('<<SYS>>')
+        expect(variant.prompt).toContain('<<USER>>')
+        expect(variant.prompt).toContain('<<END>>')
+      })
+    })
+
+    it('should respect budget constraints', async () => {
+      const classification = createTestTaskClassification({ task_type: 'general_qa' })
+      const budget = createTestBudgetConstraints({
+        remaining_cost_usd: 0.001,
+        max_tokens: 100,
+      })
+
+      const variants = await technique.generate(basePrompt, classification, budget)
+
+      variants.forEach((variant) => {
+        expect(variant.cost_usd).toBeLessThanOrEqual(budget.remaining_cost_usd)
+        expect(variant.est_tokens).toBeLessThanOrEqual(budget.max_tokens)
+      })
+    })
+  })
+})
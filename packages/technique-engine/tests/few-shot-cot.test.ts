@@ -202,6 +202,35 @@ describe('FewShotCoTTechnique', () => {
       expect(basicVariant.prompt).toContain('is_prime')
       expect(basicVariant.prompt).toContain('reverse_string')
     })
+
+    it('should put examples selected for the prompt first and record their ids', async () => {
+      const selected = {
+        id: 'data-growth-rate',
+        question: 'Revenue went from $2.0M to $2.5M. What was the growth rate?',
+        reasoning: 'Growth = (2.5 - 2.0) / 2.0 = 0.25',
+        answer: '25%',
+        task_type: 'data_analysis' as const,
+        version: 2,
+      }
+      const classification = createTestTaskClassification({ task_type: 'math_reasoning' })
+      const budget = createTestBudgetConstraints()
+
+      const variants = await technique.generate(
+        'Sales rose from 40 to 50 units',
+        classification,
+        budget,
+        {
+          examples: [selected, { id: 'broken' } as any],
+        },
+      )
+
+      const basicVariant = variants[0]
+      expect(basicVariant.prompt.indexOf('Revenue went from')).toBeLessThan(
+        basicVariant.prompt.indexOf('train travels'),
+      )
+      expect(basicVariant.prompt).not.toContain('rectangle')
+      expect(basicVariant.metadata?.example_ids).toEqual(['data-growth-rate'])
+    })
   })
 
   describe('prompt construction', () => {
@@ -256,6 +256,23 @@ describe('TechniqueEngine', () => {
       expect(variants[0].technique).toBe('self_consistency')
     })
 
+    it('should honor suggested techniques outside their best_for task types', async () => {
+      const classification = createTestTaskClassification({
+        task_type: 'creative_writing',
+        suggested_techniques: ['few_shot_cot'],
+      })
+      const budget = createTestBudgetConstraints()
+
+      const variants = await engine.generateVariants(
+        'Write a poem',
+        classification,
+        budget,
+        'test-trace-123',
+      )
+
+      expect(variants[0].technique).toBe('few_shot_cot')
+    })
+
     it('should stop when budget is exhausted', async () => {
       const basePrompt = 'Test prompt'
       const classification = createTestTaskClassification({
@@ -278,6 +295,23 @@ describe('TechniqueEngine', () => {
     })
   })
 
+  describe('resolveSuggestions', () => {
+    it('should resolve catalog aliases and report unavailable suggestions', () => {
+      engine['techniques'].set('tree_of_thought', vi.fn() as any)
+
+      const result = engine.resolveSuggestions([
+        'TreeOfThought',
+        'tot',
+        'least_to_most',
+        'sycophancy_filter',
+        'made_up',
+      ])
+
+      expect(result.available).toEqual(['tree_of_thought'])
+      expect(result.unavailable).toEqual(['least_to_most', 'made_up'])
+    })
+  })
+
   describe('registerTechnique', () => {
     it('should register a custom technique', () => {
       const customTechnique = createTestTechniqueStrategy({
@@ -311,6 +345,15 @@ describe('TechniqueEngine', () => {
         'Technique few_shot_cot is already registered',
       )
     })
+
+    it('should throw error if technique name is an alias of a built-in', () => {
+      const technique = createTestTechniqueStrategy({ name: 'Self-Consistency' })
+
+      expect(() => engine.registerTechnique(technique)).toThrow(
+        'Technique Self-Consistency is already registered',
+      )
+      expect(engine['customTechniques'].has('Self-Consistency')).toBe(false)
+    })
   })
 
   describe('variant validation', () => {
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { LeastToMostTechnique } from '../src/techniques/least-to-most'
+import {
+  createTestTaskClassification,
+  createTestBudgetConstraints,
+  TECHNIQUES,
+} from '@promptdial/shared'
+
+// Mock dependencies
+vi.mock('@promptdial/shared', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@promptdial/shared')>()
+  return {
+    ...actual,
+    generateVariantId: (technique: string, index: number) => `${technique}_${index}`,
+    estimateTokens: (prompt: string) => Math.ceil(prompt.length / 4),
+    estimateCost: (tokens: number) => tokens * 0.00002,
+  }
+})
+
+describe('LeastToMostTechnique', () => {
+  let technique: LeastToMostTechnique
+
+  beforeEach(() => {
+    technique = new LeastToMostTechnique()
+  })
+
+  describe('properties', () => {
+    it('should have correct metadata', () => {
+      expect(technique.name).toBe(TECHNIQUES.LEAST_TO_MOST)
+      expect(technique.description).toBe(
+        'Decompose into simpler sub-problems and solve them in order',
+      )
+      expect(technique.best_for).toEqual(['math_reasoning', 'code_generation', 'data_analysis'])
+      expect(technique.needs_retrieval).toBe(false)
+    })
+  })
+
+  describe('generate', () => {
+    it('should generate a single-pass decomposition variant', async () => {
+      const basePrompt = 'A tank fills in 6 hours and drains in 9. How long to fill with both open?'
+      const classification = createTestTaskClassification({ task_type: 'math_reasoning' })
+      const budget = createTestBudgetConstraints()
+
+      const variants = await technique.generate(basePrompt, classification, budget)
+
+      const single = variants.find((v) => v.technique === `${TECHNIQUES.LEAST_TO_MOST}_single`)
+      expect(single).toBeDefined()
+      expect(single?.temperature).toBe(0.5)
+      expect(single?.stages).toBeUndefined()
+      expect(single?.prompt).toContain('STAGE 1 - Decompose')
+      expect(single?.prompt).toContain('STAGE 2 - Solve sequentially')
+      expect(single?.prompt).toContain('compute one intermediate quantity')
+      expect(single?.prompt).toContain(basePrompt)
+    })
+
+    it('should generate a staged variant feeding the decomposition into solving', async () => {
+      const basePrompt = 'Build a CLI todo app'
+      const classification = createTestTaskClassification({ task_type: 'code_generation' })
+      const budget = createTestBudgetConstraints()
+
+      const variants = await technique.generate(basePrompt, classification, budget)
+
+      const staged = variants.find((v) => v.technique === `${TECHNIQUES.LEAST_TO_MOST}_staged`)
+      expect(staged?.stages?.steps.map((s) => s.name)).toEqual(['decompose', 'solve'])
+      expect(staged?.stages?.loop_from).toBeUndefined()
+
+      const [decompose, solve] = staged!.stages!.steps
+      expect(decompose.prompt).toContain('Order the sub-problems from simplest to hardest')
+      expect(decompose.prompt).toContain('function or behaviour that can be tested')
+      expect(solve.prompt).toContain('{{decompose}}')
+      expect(solve.prompt).toContain(basePrompt)
+    })
+
+    it('should cost the staged variant across both stages', async () => {
+      const classification = createTestTaskClassification({ task_type: 'math_reasoning' })
+      const budget = createTestBudgetConstraints()
+
+      const variants = await technique.generate('Test prompt', classification, budget)
+      const staged = variants.find((v) => v.technique.includes('staged'))!
+      const stageTokens = staged.stages!.steps.reduce(
+        (total, step) => total + Math.ceil(step.prompt.length / 4),
+        0,
+      )
+
+      expect(staged.est_tokens).toBe(stageTokens)
+      expect(staged.cost_usd).toBeCloseTo(stageTokens * 0.00002)
+    })
+
+    it('should skip the staged variant with low budget', async () => {
+      const classification = createTestTaskClassification({ task_type: 'math_reasoning' })
+      const budget = createTestBudgetConstraints({ remaining_cost_usd: 0.005 })
+
+      const variants = await technique.generate('Test prompt', classification, budget)
+
+      expect(variants.find((v) => v.technique.includes('staged'))).toBeUndefined()
+    })
+
+    it('should sandwich prompts and stage prompts with system instructions', async () => {
+      const classification = createTestTaskClassification({ task_type: 'data_analysis' })
+      const budget = createTestBudgetConstraints()
+
+      const variants = await technique.generate('Test prompt', classification, budget)
+      const prompts = variants.flatMap((v) => [
+        v.prompt,
+        ...(v.stages?.steps.map((s) => s.prompt) || []),
+      ])
+
+      prompts.forEach((prompt) => {
+        expect(prompt).toContain('<<SYS>>')
+        expect(prompt).toContain('<<USER>>')
+        expect(prompt).toContain('<<END>>')
+      })
+    })
+
+    it('should respect budget constraints', async () => {
+      const classification = createTestTaskClassification({ task_type: 'math_reasoning' })
+      const budget = createTestBudgetConstraints({
+        remaining_cost_usd: 0.001,
+        max_tokens: 100,
+      })
+
+      const variants = await technique.generate('Test prompt', classification, budget)
+
+      expect(variants).toHaveLength(0)
+    })
+  })
+})
@@ -4,6 +4,7 @@ import {
   createTestTaskClassification,
   createTestBudgetConstraints,
   TECHNIQUES,
+  REACT_TOOLS,
 } from '@promptdial/shared'
 
 // Mock dependencies
@@ -222,5 +223,34 @@ describe('ReActTechnique', () => {
       expect(variantTypes).toContain(`${TECHNIQUES.REACT}_basic`)
       expect(variantTypes).toContain(`${TECHNIQUES.REACT}_explicit`)
     })
+
+    it('should generate an executable tool-loop variant with task-specific tools', async () => {
+      const classification = createTestTaskClassification({
+        task_type: 'math_reasoning',
+        needs_retrieval: true,
+      })
+      const budget = createTestBudgetConstraints({ remaining_cost_usd: 1.0, max_tokens: 5000 })
+
+      const variants = await technique.generate('What is 17% of 2340?', classification, budget)
+      const toolVariant = variants.find((v) => v.technique === `${TECHNIQUES.REACT}_tools`)
+
+      expect(toolVariant?.tool_loop).toEqual({
+        tools: [REACT_TOOLS.SEARCH, REACT_TOOLS.CALCULATOR, REACT_TOOLS.JAVASCRIPT],
+        max_steps: 6,
+      })
+      expect(toolVariant?.prompt).toContain('What is 17% of 2340?')
+    })
+
+    it('should skip the tool-loop variant when the budget cannot cover every turn', async () => {
+      const budget = createTestBudgetConstraints({ remaining_cost_usd: 0.002, max_tokens: 5000 })
+
+      const variants = await technique.generate(
+        'Short task',
+        createTestTaskClassification(),
+        budget,
+      )
+
+      expect(variants.some((v) => v.tool_loop)).toBe(false)
+    })
   })
 })
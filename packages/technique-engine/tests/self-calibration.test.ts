@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  SelfCalibrationTechnique,
+  SELF_CALIBRATION_STOP_PATTERN,
+} from '../src/techniques/self-calibration'
+import {
+  createTestTaskClassification,
+  createTestBudgetConstraints,
+  TECHNIQUES,
+} from '@promptdial/shared'
+
+// Mock dependencies
+vi.mock('@promptdial/shared', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@promptdial/shared')>()
+  return {
+    ...actual,
+    generateVariantId: (technique: string, index: number) => `${technique}_${index}`,
+    estimateTokens: (prompt: string) => Math.ceil(prompt.length / 4),
+    estimateCost: (tokens: number) => tokens * 0.00002,
+  }
+})
+
+describe('SelfCalibrationTechnique', () => {
+  let technique: SelfCalibrationTechnique
+
+  beforeEach(() => {
+    technique = new SelfCalibrationTechnique()
+  })
+
+  describe('properties', () => {
+    it('should have correct metadata', () => {
+      expect(technique.name).toBe(TECHNIQUES.SELF_CALIBRATION)
+      expect(technique.description).toBe(
+        'Answer, self-assess confidence and revise low-confidence answers',
+      )
+      expect(technique.best_for).toEqual([
+        'general_qa',
+        'math_reasoning',
+        'classification',
+        'data_analysis',
+      ])
+      expect(technique.needs_retrieval).toBe(false)
+    })
+  })
+
+  describe('generate', () => {
+    it('should generate an answer, assess, revise loop', async () => {
+      const basePrompt = 'What is the boiling point of water at 2000m altitude?'
+      const classification = createTestTaskClassification({ task_type: 'general_qa' })
+      const budget = createTestBudgetConstraints()
+
+      const variants = await technique.generate(basePrompt, classification, budget)
+
+      const loop = variants.find((v) => v.technique === `${TECHNIQUES.SELF_CALIBRATION}_loop`)
+      const [answer, assess, revise] = loop!.stages!.steps
+
+      expect(loop?.stages?.loop_from).toBe('assess')
+      expect(loop?.stages?.max_iterations).toBe(2)
+      expect(answer.prompt).toContain(basePrompt)
+      expect(assess.prompt).toContain('{{answer}}')
+      expect(assess.prompt).toContain('CONFIDENCE:')
+      expect(assess.stop_pattern).toBe(SELF_CALIBRATION_STOP_PATTERN)
+      expect(revise.output).toBe('answer')
+      expect(revise.prompt).toContain('{{assess}}')
+    })
+
+    it('should stop the loop only on high confidence', () => {
+      const stop = new RegExp(SELF_CALIBRATION_STOP_PATTERN)
+
+      expect(stop.test('Looks right.\nCONFIDENCE: 0.85')).toBe(true)
+      expect(stop.test('CONFIDENCE: 1')).toBe(true)
+      expect(stop.test('CONFIDENCE: 0.5')).toBe(false)
+      expect(stop.test('CONFIDENCE: 0.79')).toBe(false)
+    })
+
+    it('should tailor the assessment to math tasks', async () => {
+      const classification = createTestTaskClassification({ task_type: 'math_reasoning' })
+      const budget = createTestBudgetConstraints()
+
+      const variants = await technique.generate('What is 17 * 23?', classification, budget)
+
+      expect(variants[0].stages!.steps[1].prompt).toContain('Re-check every calculation')
+    })
+
+    it('should include a single-call variant', async () => {
+      const classification = createTestTaskClassification({ task_type: 'classification' })
+      const budget = createTestBudgetConstraints()
+
+      const variants = await technique.generate('Is this spam?', classification, budget)
+
+      const single = variants.find((v) => v.technique === `${TECHNIQUES.SELF_CALIBRATION}_single`)
+      expect(single).toBeDefined()
+      expect(single?.temperature).toBe(0.3)
+      expect(single?.prompt).toContain('STEP 2 - Assess')
+    })
+
+    it('should sandwich prompts with system instructions', async () => {
+      const classification = createTestTaskClassification({ task_type: 'general_qa' })
+      const budget = createTestBudgetConstraints()
+
+      const variants = await technique.generate('Test prompt', classification, budget)
+
+      variants.forEach((variant) => {
+        expect(variant.prompt).toContain('<<SYS>>')
+        expect(variant.prompt).toContain('<<USER>>')
+        expect(variant.prompt).toContain('<<END>>')
+      })
+    })
+
+    it('should respect budget constraints', async () => {
+      const classification = createTestTaskClassification({ task_type: 'general_qa' })
+      const budget = createTestBudgetConstraints({
+        remaining_cost_usd: 0.001,
+        max_tokens: 100,
+      })
+
+      const variants = await technique.generate('Test prompt', classification, budget)
+
+      variants.forEach((variant) => {
+        expect(variant.cost_usd).toBeLessThanOrEqual(budget.remaining_cost_usd)
+        expect(variant.est_tokens).toBeLessThanOrEqual(budget.max_tokens)
+      })
+    })
+  })
+})
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { SelfRefineTechnique, SELF_REFINE_STOP_TOKEN } from '../src/techniques/self-refine'
+import {
+  createTestTaskClassification,
+  createTestBudgetConstraints,
+  TECHNIQUES,
+} from '@promptdial/shared'
+
+// Mock dependencies
+vi.mock('@promptdial/shared', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@promptdial/shared')>()
+  return {
+    ...actual,
+    generateVariantId: (technique: string, index: number) => `${technique}_${index}`,
+    estimateTokens: (prompt: string) => Math.ceil(prompt.length / 4),
+    estimateCost: (tokens: number) => tokens * 0.00002,
+  }
+})
+
+describe('SelfRefineTechnique', () => {
+  let technique: SelfRefineTechnique
+
+  beforeEach(() => {
+    technique = new SelfRefineTechnique()
+  })
+
+  describe('properties', () => {
+    it('should have correct metadata', () => {
+      expect(technique.name).toBe(TECHNIQUES.SELF_REFINE)
+      expect(technique.description).toBe('Iterative generate, critique and revise loop')
+      expect(technique.best_for).toEqual([
+        'code_generation',
+        'creative_writing',
+        'summarization',
+        'math_reasoning',
+      ])
+      expect(technique.needs_retrieval).toBe(false)
+    })
+  })
+
+  describe('generate', () => {
+    it('should generate a draft, critique, revise loop', async () => {
+      const basePrompt = 'Write a function that parses ISO dates'
+      const classification = createTestTaskClassification({ task_type: 'code_generation' })
+      const budget = createTestBudgetConstraints()
+
+      const variants = await technique.generate(basePrompt, classification, budget)
+
+      const loop = variants.find((v) => v.technique === `${TECHNIQUES.SELF_REFINE}_loop`)
+      expect(loop).toBeDefined()
+      expect(loop?.stages?.steps.map((s) => s.name)).toEqual(['draft', 'critique', 'revise'])
+      expect(loop?.stages?.loop_from).toBe('critique')
+      expect(loop?.stages?.max_iterations).toBe(3)
+    })
+
+    it('should thread the answer and feedback between stages', async () => {
+      const classification = createTestTaskClassification({ task_type: 'code_generation' })
+      const budget = createTestBudgetConstraints()
+
+      const variants = await technique.generate('Test prompt', classification, budget)
+      const [draft, critique, revise] = variants[0].stages!.steps
+
+      expect(draft.output).toBe('answer')
+      expect(critique.output).toBe('feedback')
+      expect(critique.prompt).toContain('{{answer}}')
+      expect(critique.prompt).toContain('Edge cases')
+      expect(critique.stop_pattern).toBe(SELF_REFINE_STOP_TOKEN)
+      expect(revise.output).toBe('answer')
+      expect(revise.prompt).toContain('{{answer}}')
+      expect(revise.prompt).toContain('{{feedback}}')
+    })
+
+    it('should include a single-call variant with sufficient budget', async () => {
+      const classification = createTestTaskClassification({ task_type: 'summarization' })
+      const budget = createTestBudgetConstraints()
+
+      const variants = await technique.generate('Summarize the report', classification, budget)
+
+      const single = variants.find((v) => v.technique === `${TECHNIQUES.SELF_REFINE}_single`)
+      expect(single).toBeDefined()
+      expect(single?.stages).toBeUndefined()
+      expect(single?.prompt).toContain('STEP 2 - Critique')
+      expect(single?.prompt).toContain('faithfulness')
+    })
+
+    it('should fall back to one refinement pass when the full loop is over budget', async () => {
+      const classification = createTestTaskClassification({ task_type: 'general_qa' })
+      const budget = createTestBudgetConstraints({ remaining_cost_usd: 0.0085 })
+
+      const variants = await technique.generate('Test prompt', classification, budget)
+
+      expect(variants).toHaveLength(1)
+      expect(variants[0].stages?.max_iterations).toBe(1)
+    })
+
+    it('should sandwich prompts and stage prompts with system instructions', async () => {
+      const classification = createTestTaskClassification({ task_type: 'general_qa' })
+      const budget = createTestBudgetConstraints()
+
+      const variants = await technique.generate('Test prompt', classification, budget)
+      const prompts = variants.flatMap((v) => [
+        v.prompt,
+        ...(v.stages?.steps.map((s) => s.prompt) || []),
+      ])
+
+      prompts.forEach((prompt) => {
+        expect(prompt).toContain('<<SYS>>')
+        expect(prompt).toContain('<<USER>>')
+        expect(prompt).toContain('<<END>>')
+      })
+    })
+
+    it('should respect budget constraints', async () => {
+      const classification = createTestTaskClassification({ task_type: 'general_qa' })
+      const budget = createTestBudgetConstraints({
+        remaining_cost_usd: 0.001,
+        max_tokens: 100,
+      })
+
+      const variants = await technique.generate('Test prompt', classification, budget)
+
+      expect(variants).toHaveLength(0)
+    })
+  })
+})
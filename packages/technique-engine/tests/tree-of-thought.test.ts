@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { TreeOfThoughtTechnique } from '../src/techniques/tree-of-thought'
+import { createTestTaskClassification, createTestBudgetConstraints } from '@promptdial/shared'
+
+// Mock dependencies
+vi.mock('@promptdial/shared', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@promptdial/shared')>()
+  return {
+    ...actual,
+    generateVariantId: (technique: string, index: number) => `${technique}_${index}`,
+    estimateTokens: (prompt: string) => Math.ceil(prompt.length / 4),
+    estimateCost: (tokens: number) => tokens * 0.00002,
+  }
+})
+
+describe('TreeOfThoughtTechnique', () => {
+  let technique: TreeOfThoughtTechnique
+
+  beforeEach(() => {
+    technique = new TreeOfThoughtTechnique()
+  })
+
+  describe('generate', () => {
+    it('should add a search variant executed by llm-runner', async () => {
+      const basePrompt = 'Use 4, 9, 10 and 13 to make 24'
+      const budget = createTestBudgetConstraints({ remaining_cost_usd: 1, max_tokens: 2000 })
+
+      const variants = await technique.generate(
+        basePrompt,
+        createTestTaskClassification({ task_type: 'math_reasoning' }),
+        budget,
+      )
+
+      const search = variants.find((v) => v.technique.includes('search'))
+      expect(search?.prompt).toBe(basePrompt)
+      expect(search?.tree_search).toMatchObject({
+        strategy: 'beam',
+        breadth: 3,
+        depth: 3,
+        beam_width: 2,
+        budget,
+      })
+    })
+
+    it('should pick the search strategy by task type', async () => {
+      const budget = createTestBudgetConstraints({ remaining_cost_usd: 1, max_tokens: 2000 })
+
+      const variants = await technique.generate(
+        'Write a function that parses dates',
+        createTestTaskClassification({ task_type: 'code_generation' }),
+        budget,
+      )
+
+      const search = variants.find((v) => v.technique.includes('search'))
+      expect(search?.tree_search?.strategy).toBe('dfs')
+    })
+
+    it('should cap the search cost at the remaining budget', async () => {
+      const basePrompt = 'Plan a short story in three acts. '.repeat(10)
+      const budget = createTestBudgetConstraints({ remaining_cost_usd: 0.05, max_tokens: 2000 })
+
+      const variants = await technique.generate(
+        basePrompt,
+        createTestTaskClassification({ task_type: 'creative_writing' }),
+        budget,
+      )
+
+      const search = variants.find((v) => v.technique.includes('search'))
+      expect(search?.cost_usd).toBe(0.05)
+    })
+
+    it('should skip the search when one expansion does not fit the budget', async () => {
+      const basePrompt = 'Prove that the square root of two is irrational. '.repeat(20)
+      const budget = createTestBudgetConstraints({ remaining_cost_usd: 0.03, max_tokens: 2000 })
+
+      const variants = await technique.generate(
+        basePrompt,
+        createTestTaskClassification({ task_type: 'math_reasoning' }),
+        budget,
+      )
+
+      expect(variants.some((v) => v.technique.includes('search'))).toBe(false)
+    })
+  })
+})
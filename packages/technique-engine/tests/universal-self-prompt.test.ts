@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { UniversalSelfPromptTechnique } from '../src/techniques/universal-self-prompt'
+import {
+  createTestTaskClassification,
+  createTestBudgetConstraints,
+  TECHNIQUES,
+} from '@promptdial/shared'
+
+// Mock dependencies
+vi.mock('@promptdial/shared', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@promptdial/shared')>()
+  return {
+    ...actual,
+    generateVariantId: (technique: string, index: number) => `${technique}_${index}`,
+    estimateTokens: (prompt: string) => Math.ceil(prompt.length / 4),
+    estimateCost: (tokens: number) => tokens * 0.00002,
+  }
+})
+
+describe('UniversalSelfPromptTechnique', () => {
+  let technique: UniversalSelfPromptTechnique
+
+  beforeEach(() => {
+    technique = new UniversalSelfPromptTechnique()
+  })
+
+  describe('properties', () => {
+    it('should have correct metadata', () => {
+      expect(technique.name).toBe(TECHNIQUES.UNIVERSAL_SELF_PROMPT)
+      expect(technique.description).toBe(
+        'Self-generated pseudo-demonstrations selected by model confidence',
+      )
+      expect(technique.best_for).toEqual([
+        'classification',
+        'general_qa',
+        'math_reasoning',
+        'summarization',
+      ])
+      expect(technique.needs_retrieval).toBe(false)
+    })
+  })
+
+  describe('generate', () => {
+    it('should select the most relevant pseudo-inputs', async () => {
+      const basePrompt =
+        'A truck uses 30 liters of fuel per 240 km. How far does it go on 50 liters?'
+      const classification = createTestTaskClassification({ task_type: 'math_reasoning' })
+      const budget = createTestBudgetConstraints()
+
+      const variants = await technique.generate(basePrompt, classification, budget)
+
+      const seeded = variants.find((v) => v.technique.includes('seeded'))
+      expect(seeded).toBeDefined()
+      expect(seeded?.temperature).toBe(0.5)
+      expect(seeded?.prompt).toContain(
+        'Pseudo-input 1: A car travels 180 km on 12 liters of fuel. How far does it go on 20 liters?',
+      )
+      expect(seeded?.prompt).toContain('Pseudo-input 2:')
+      expect(seeded?.prompt).not.toContain('Pseudo-input 3:')
+    })
+
+    it('should choose the selection criterion by task category', async () => {
+      const budget = createTestBudgetConstraints()
+
+      const [cls] = await technique.generate(
+        'Label the sentiment of this tweet',
+        createTestTaskClassification({ task_type: 'classification' }),
+        budget,
+      )
+      expect(cls.prompt).toContain('lowest label entropy')
+
+      const [shortForm] = await technique.generate(
+        'What is the capital of Peru?',
+        createTestTaskClassification({ task_type: 'general_qa' }),
+        budget,
+      )
+      expect(shortForm.prompt).toContain('majority vote')
+
+      const [longForm] = await technique.generate(
+        'Summarize this report',
+        createTestTaskClassification({ task_type: 'summarization' }),
+        budget,
+      )
+      expect(longForm.prompt).toContain('pairwise overlap')
+    })
+
+    it('should generate adaptive variant with sufficient budget', async () => {
+      const classification = createTestTaskClassification({ task_type: 'general_qa' })
+      const budget = createTestBudgetConstraints({ remaining_cost_usd: 0.5 })
+
+      const variants = await technique.generate('Why do leaves fall?', classification, budget)
+
+      const adaptive = variants.find((v) => v.technique.includes('adaptive'))
+      expect(adaptive).toBeDefined()
+      expect(adaptive?.temperature).toBe(0.7)
+      expect(adaptive?.prompt).toContain('Generate pseudo-inputs')
+      expect(adaptive?.prompt).toContain('Select pseudo-demonstrations')
+    })
+
+    it('should skip adaptive variant with low budget', async () => {
+      const classification = createTestTaskClassification({ task_type: 'general_qa' })
+      const budget = createTestBudgetConstraints({ remaining_cost_usd: 0.01 })
+
+      const variants = await technique.generate('Why do leaves fall?', classification, budget)
+
+      expect(variants.find((v) => v.technique.includes('adaptive'))).toBeUndefined()
+    })
+
+    it('should sandwich prompts with system instructions', async () => {
+      const classification = createTestTaskClassification({ task_type: 'general_qa' })
+      const budget = createTestBudgetConstraints()
+
+      const variants = await technique.generate('Test prompt', classification, budget)
+
+      variants.forEach((variant) => {
+        expect(variant.prompt).toContain('<<SYS>>')
+        expect(variant.prompt).toContain('<<USER>>')
+        expect(variant.prompt).toContain('<<END>>')
+      })
+    })
+
+    it('should respect budget constraints', async () => {
+      const classification = createTestTaskClassification({ task_type: 'general_qa' })
+      const budget = createTestBudgetConstraints({
+        remaining_cost_usd: 0.001,
+        max_tokens: 100,
+      })
+
+      const variants = await technique.generate('Test prompt', classification, budget)
+
+      expect(variants).toHaveLength(0)
+    })
+  })
+})
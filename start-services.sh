@@ -71,6 +71,11 @@ if [ ! -z "$GOOGLE_AI_API_KEY" ] && [ "$GOOGLE_AI_API_KEY" != "your-google-ai-ap
     (cd packages/llm-runner && PROVIDER=google PORT=4003 npx tsx src/index.ts > ../../logs/llm-runner-google.log 2>&1 &)
 fi
 
+if [ "$MOCK_LLM_ENABLED" = "true" ]; then
+    echo "Starting mock LLM Runner (port 4004)..."
+    (cd packages/llm-runner && PROVIDER=mock PORT=4004 npx tsx src/index.ts > ../../logs/llm-runner-mock.log 2>&1 &)
+fi
+
 # Wait for services to start
 echo -e "\n${YELLOW}Waiting for services to initialize...${NC}"
 sleep 10
@@ -115,6 +120,10 @@ if [ ! -z "$GOOGLE_AI_API_KEY" ] && [ "$GOOGLE_AI_API_KEY" != "your-google-ai-ap
     check_service "LLM Runner (Google)" 4003
 fi
 
+if [ "$MOCK_LLM_ENABLED" = "true" ]; then
+    check_service "LLM Runner (Mock)" 4004
+fi
+
 echo -e "\n${GREEN}✅ All services started!${NC}"
 echo -e "\n${BLUE}Service Logs:${NC}"
 echo "  • API Gateway: logs/api-gateway.log"